@@ -0,0 +1,242 @@
+'use client';
+
+import React from 'react';
+import { AlertCircle, AlertTriangle, ArrowLeft, Ban, CheckCircle, ChevronRight, Clock, Loader2, RotateCcw, Square, Trash2, XCircle, Zap } from 'lucide-react';
+import type { BatchItem } from '@/lib/batchUpload';
+import type { ProjectAnswers, ProjectRecord } from '@/lib/types';
+
+const FEATURES: { id: keyof ProjectAnswers; label: string }[] = [
+  { id: 'isBacklit', label: 'Backlit' },
+  { id: 'hasCutouts', label: 'Cutouts' },
+  { id: 'hasCorners', label: 'Corners' },
+  { id: 'hasLogos', label: 'Logos' },
+];
+
+const RESULT_STYLES = {
+  pass: { icon: CheckCircle, color: 'text-emerald-400', label: 'Pass' },
+  warning: { icon: AlertTriangle, color: 'text-orange-400', label: 'Review' },
+  fail: { icon: XCircle, color: 'text-pink-400', label: 'Fail' },
+};
+
+const RUNNING = ['compressing', 'uploading', 'analyzing'];
+
+function FeatureChips({ answers, onToggle, disabled, muted }: { answers: ProjectAnswers; onToggle: (id: keyof ProjectAnswers) => void; disabled?: boolean; muted?: boolean }) {
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {FEATURES.map((feature) => (
+        <button
+          key={feature.id}
+          onClick={() => onToggle(feature.id)}
+          disabled={disabled}
+          className={`px-2 py-0.5 rounded-md text-xs border transition-colors ${
+            answers[feature.id]
+              ? muted
+                ? 'border-gray-600 bg-gray-800 text-gray-300'
+                : 'border-orange-500 bg-orange-500/20 text-orange-300'
+              : 'border-gray-800 text-gray-600'
+          } ${disabled ? 'cursor-default' : 'hover:border-gray-500'}`}
+        >
+          {feature.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function ItemStatus({ item }: { item: BatchItem }) {
+  if (item.status === 'done' && item.overallStatus) {
+    const style = RESULT_STYLES[item.overallStatus];
+    const Icon = style.icon;
+    return (
+      <div>
+        <span className={`flex items-center gap-1.5 text-sm font-semibold ${style.color}`}>
+          <Icon size={14} />
+          {style.label}
+        </span>
+        <div className="text-xs mt-0.5">
+          <span className="text-pink-400">{item.criticalCount} critical</span>
+          <span className="text-gray-600"> • </span>
+          <span className="text-orange-400">{item.warningCount} warnings</span>
+        </div>
+      </div>
+    );
+  }
+  if (RUNNING.includes(item.status)) {
+    return (
+      <div>
+        <span className="flex items-center gap-1.5 text-sm text-gray-300">
+          <Loader2 size={14} className="animate-spin text-orange-400" />
+          <span className="truncate">{item.message}</span>
+        </span>
+        <div className="w-full bg-gray-800 rounded-full h-1.5 mt-1.5 overflow-hidden">
+          <div className="h-full bg-gradient-to-r from-orange-500 to-pink-500 transition-all duration-500" style={{ width: `${item.percent}%` }} />
+        </div>
+      </div>
+    );
+  }
+  const Icon = item.status === 'failed' ? AlertCircle : item.status === 'waiting' ? Clock : Ban;
+  const color = item.status === 'failed' ? 'text-red-400' : 'text-gray-500';
+  return (
+    <span className={`flex items-start gap-1.5 text-sm ${color}`}>
+      <Icon size={14} className="flex-shrink-0 mt-0.5" />
+      {item.message}
+    </span>
+  );
+}
+
+// The multi-file upload: shared project details, a row per file with its
+// own answers if they differ, and each file's status and overall result
+export default function BatchUpload({
+  items,
+  answers,
+  onAnswersChange,
+  onItemChange,
+  onRemove,
+  projects,
+  projectId,
+  onProjectChange,
+  isRunning,
+  onStart,
+  onCancel,
+  onRetry,
+  onOpen,
+  onBack,
+}: {
+  items: BatchItem[];
+  answers: ProjectAnswers;
+  onAnswersChange: (answers: ProjectAnswers) => void;
+  onItemChange: (key: string, patch: Partial<BatchItem>) => void;
+  onRemove: (key: string) => void;
+  projects: ProjectRecord[] | null;
+  projectId: string;
+  onProjectChange: (projectId: string) => void;
+  isRunning: boolean;
+  onStart: () => void;
+  onCancel: () => void;
+  onRetry: () => void;
+  onOpen: (jobId: string) => void;
+  onBack: () => void;
+}) {
+  const hasStarted = items.some((item) => item.status !== 'waiting' && item.status !== 'skipped');
+  const count = (status: BatchItem['status']) => items.filter((item) => item.status === status).length;
+  const canRetry = !isRunning && items.some((item) => item.status === 'failed' || item.status === 'cancelled');
+  const editable = (item: BatchItem) => !isRunning && (item.status === 'waiting' || item.status === 'failed' || item.status === 'cancelled');
+
+  const toggleItem = (item: BatchItem, id: keyof ProjectAnswers) => {
+    const current = item.answers ?? answers;
+    const next = { ...current, [id]: !current[id] };
+    const same = FEATURES.every((feature) => next[feature.id] === answers[feature.id]);
+    // A changed file is uploaded again rather than retried with its old answers
+    onItemChange(item.key, { answers: same ? undefined : next, jobId: undefined });
+  };
+
+  return (
+    <div className="min-h-screen bg-black p-8">
+      <div className="max-w-5xl mx-auto">
+        {/* Header */}
+        <div className="flex items-start justify-between mb-8">
+          <div>
+            <button onClick={onBack} disabled={isRunning} className="text-sm text-gray-500 hover:text-gray-300 flex items-center gap-1 mb-2 disabled:opacity-50">
+              <ArrowLeft size={14} />
+              Start over
+            </button>
+            <h2 className="text-2xl font-bold text-white">Batch Upload</h2>
+            <p className="text-gray-400">
+              {items.length} files
+              {hasStarted && ` • ${count('done')} done, ${count('failed')} failed`}
+              {hasStarted && ` • ${items.filter((item) => item.overallStatus === 'fail').length} with critical issues`}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            {canRetry && (
+              <button onClick={onRetry} className="px-4 py-2.5 border border-gray-700 text-gray-300 rounded-lg hover:bg-gray-800 transition-colors flex items-center gap-2">
+                <RotateCcw size={16} />
+                Retry failed
+              </button>
+            )}
+            {isRunning ? (
+              <button onClick={onCancel} className="px-4 py-2.5 border border-gray-700 text-gray-300 rounded-lg hover:bg-gray-800 transition-colors flex items-center gap-2">
+                <Square size={16} />
+                Cancel
+              </button>
+            ) : (
+              !hasStarted && (
+                <button
+                  onClick={onStart}
+                  disabled={count('waiting') === 0}
+                  className="px-5 py-2.5 bg-gradient-to-r from-orange-500 to-pink-500 hover:from-orange-400 hover:to-pink-400 text-black font-bold rounded-lg transition-colors flex items-center gap-2"
+                >
+                  <Zap size={16} />
+                  Analyze {count('waiting')} files
+                </button>
+              )
+            )}
+          </div>
+        </div>
+
+        {/* Shared Project Details */}
+        <div className="mb-6 p-5 bg-gray-900/50 border border-gray-800 rounded-xl grid grid-cols-2 gap-6">
+          <div>
+            <span className="font-semibold text-white text-sm">Project type</span>
+            <p className="text-xs text-gray-500 mb-2">For every file, unless its row says otherwise</p>
+            <FeatureChips answers={answers} onToggle={(id) => onAnswersChange({ ...answers, [id]: !answers[id] })} disabled={hasStarted} />
+          </div>
+          <label className="block">
+            <span className="font-semibold text-white text-sm">Project record</span>
+            <select
+              value={projectId}
+              onChange={(e) => onProjectChange(e.target.value)}
+              disabled={hasStarted}
+              className="w-full mt-2 bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-200"
+            >
+              <option value="">{projects === null ? 'Loading projects...' : 'Match from the title block'}</option>
+              {projects?.map((project) => (
+                <option key={project.id} value={project.id}>
+                  {[project.projectName, project.mrqNumber && `MRQ ${project.mrqNumber}`].filter(Boolean).join(' • ')}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {/* Files */}
+        <div className="border border-gray-800 rounded-xl overflow-hidden divide-y divide-gray-800/50">
+          {items.map((item) => (
+            <div key={item.key} className="p-4 grid grid-cols-[1fr_12rem_14rem_6rem] gap-4 items-center">
+              <div className="min-w-0">
+                <div className="font-semibold text-white truncate">{item.file.name}</div>
+                <div className="text-xs text-gray-500">{(item.file.size / 1024 / 1024).toFixed(1)}MB</div>
+              </div>
+              <div>
+                {item.status !== 'skipped' && (
+                  <>
+                    <FeatureChips answers={item.answers ?? answers} onToggle={(id) => toggleItem(item, id)} disabled={!editable(item)} muted={!item.answers} />
+                    {item.answers && editable(item) && (
+                      <button onClick={() => onItemChange(item.key, { answers: undefined, jobId: undefined })} className="text-[11px] text-gray-500 hover:text-gray-300 mt-1">
+                        Use shared answers
+                      </button>
+                    )}
+                  </>
+                )}
+              </div>
+              <ItemStatus item={item} />
+              <div className="flex justify-end">
+                {item.jobId && (item.status === 'done' || item.status === 'analyzing') ? (
+                  <button onClick={() => onOpen(item.jobId!)} className="px-3 py-1.5 text-sm text-gray-300 border border-gray-700 rounded-lg hover:bg-gray-800 flex items-center gap-1">
+                    Open <ChevronRight size={14} />
+                  </button>
+                ) : (
+                  !hasStarted && (
+                    <button onClick={() => onRemove(item.key)} className="p-2 text-gray-500 hover:text-red-400" title="Remove">
+                      <Trash2 size={16} />
+                    </button>
+                  )
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
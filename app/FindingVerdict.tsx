@@ -0,0 +1,107 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Ban, Loader2, ThumbsUp, Wrench, X } from 'lucide-react';
+import { FEEDBACK_VERDICTS } from '@/lib/feedback';
+import type { FeedbackVerdict, FindingFeedback } from '@/lib/types';
+
+const VERDICT_STYLES: Record<FeedbackVerdict, { icon: typeof ThumbsUp; active: string }> = {
+  confirmed: { icon: ThumbsUp, active: 'border-pink-500/50 bg-pink-500/10 text-pink-400' },
+  false_positive: { icon: Ban, active: 'border-gray-500 bg-gray-700/50 text-gray-200' },
+  fixed: { icon: Wrench, active: 'border-emerald-500/50 bg-emerald-500/10 text-emerald-400' },
+};
+
+// Confirm, dismiss as a false positive or mark fixed one finding of a report.
+// False positives are left out of later analyses of the same project.
+export default function FindingVerdict({
+  feedback,
+  onSave,
+  onClear,
+}: {
+  feedback?: FindingFeedback;
+  onSave: (verdict: FeedbackVerdict, comment: string) => Promise<void>;
+  onClear: () => Promise<void>;
+}) {
+  const [editing, setEditing] = useState<FeedbackVerdict | null>(null);
+  const [comment, setComment] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await action();
+      setEditing(null);
+      setComment('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save feedback');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const startEditing = (verdict: FeedbackVerdict) => {
+    setEditing(verdict);
+    setComment(feedback?.verdict === verdict ? feedback.comment : '');
+  };
+
+  return (
+    <div className="mt-3 text-xs">
+      <div className="flex flex-wrap items-center gap-2">
+        {FEEDBACK_VERDICTS.map(({ id, label }) => {
+          const { icon: Icon, active } = VERDICT_STYLES[id];
+          const selected = (editing ?? feedback?.verdict) === id;
+          return (
+            <button
+              key={id}
+              onClick={() => startEditing(id)}
+              disabled={isSaving}
+              className={`inline-flex items-center gap-1 px-2 py-1 rounded-lg border ${
+                selected ? active : 'border-gray-800 text-gray-500 hover:text-gray-300 hover:border-gray-700'
+              }`}
+            >
+              <Icon size={12} />
+              {label}
+            </button>
+          );
+        })}
+        {feedback && !editing && (
+          <span className="text-gray-500">
+            {feedback.by} • {new Date(feedback.at).toLocaleDateString()}
+            {feedback.comment && <span className="text-gray-400"> • {feedback.comment}</span>}
+            <button onClick={() => run(onClear)} disabled={isSaving} className="ml-2 underline hover:text-gray-300">
+              Clear
+            </button>
+          </span>
+        )}
+        {isSaving && <Loader2 size={12} className="animate-spin text-gray-500" />}
+      </div>
+
+      {editing && (
+        <div className="mt-2 flex gap-2">
+          <input
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && run(() => onSave(editing, comment))}
+            placeholder={editing === 'false_positive' ? "Why it's fine, e.g. scale is correct on this sheet" : 'Comment (optional)'}
+            autoFocus
+            className="flex-1 bg-black border border-gray-700 rounded-lg px-2 py-1.5 text-gray-200 placeholder-gray-600 focus:border-orange-500 outline-none"
+          />
+          <button
+            onClick={() => run(() => onSave(editing, comment))}
+            disabled={isSaving}
+            className="px-3 py-1.5 bg-orange-500 text-black font-semibold rounded-lg disabled:opacity-50"
+          >
+            Save
+          </button>
+          <button onClick={() => setEditing(null)} className="px-2 text-gray-500 hover:text-gray-300" title="Cancel">
+            <X size={14} />
+          </button>
+        </div>
+      )}
+
+      {error && <div className="mt-2 text-red-400">{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,282 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertCircle, Loader2, Maximize2, ZoomIn, ZoomOut } from 'lucide-react';
+import type { PdfDocument } from '@/lib/pdfText';
+import type { AnalysisResults, CheckItem } from '@/lib/types';
+
+// Width of the rendered thumbnails, in CSS pixels
+const THUMBNAIL_WIDTH = 96;
+const ZOOM_STEPS = [1, 1.5, 2, 3, 4];
+
+export interface ViewerFocus {
+  page: number;
+  item?: CheckItem;
+}
+
+interface Highlight {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// pdf.js is large, so only load it once the viewer is on screen
+const loadPdfText = () => import('@/lib/pdfText');
+
+function PageBadges({ critical, warnings }: { critical: number; warnings: number }) {
+  return (
+    <div className="absolute top-1 right-1 flex flex-col items-end gap-0.5">
+      {critical > 0 && <span className="px-1.5 rounded-full bg-pink-500 text-black text-[10px] font-bold">{critical}</span>}
+      {warnings > 0 && <span className="px-1.5 rounded-full bg-orange-500 text-black text-[10px] font-bold">{warnings}</span>}
+    </div>
+  );
+}
+
+// Thumbnail strip and a zoomable view of the drawing set, rendered in the
+// browser from the uploaded file (or from storage for a reopened report)
+export default function PageViewer({
+  source,
+  results,
+  focus,
+  onFocus,
+}: {
+  source: File | string;
+  results: AnalysisResults;
+  focus: ViewerFocus;
+  onFocus: (focus: ViewerFocus) => void;
+}) {
+  const [pdf, setPdf] = useState<PdfDocument | null>(null);
+  const [thumbnails, setThumbnails] = useState<string[]>([]);
+  const [zoom, setZoom] = useState(0);
+  const [highlight, setHighlight] = useState<Highlight | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isRendering, setIsRendering] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const highlightRef = useRef<HTMLDivElement>(null);
+
+  const issues = [...results.criticalIssues, ...results.warnings];
+  const countOn = (page: number, status: CheckItem['status']) => issues.filter((item) => item.page === page && item.status === status).length;
+
+  // Load the document
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: PdfDocument | null = null;
+
+    (async () => {
+      const bytes =
+        typeof source === 'string'
+          ? await fetch(source).then((response) => {
+              if (!response.ok) throw new Error('Failed to load the drawing from storage');
+              return response.arrayBuffer();
+            })
+          : await source.arrayBuffer();
+      const { openPdf } = await loadPdfText();
+      loaded = await openPdf(bytes);
+      if (cancelled) {
+        loaded.destroy();
+        return;
+      }
+      setPdf(loaded);
+    })().catch((err) => {
+      console.error('Page viewer error:', err);
+      if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to open the drawing');
+    });
+
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+    };
+  }, [source]);
+
+  // Thumbnails, one page at a time so the main view isn't starved
+  useEffect(() => {
+    if (!pdf) return;
+    let cancelled = false;
+
+    (async () => {
+      const rendered: string[] = [];
+      for (let pageNumber = 1; pageNumber <= pdf.numPages && !cancelled; pageNumber++) {
+        const page = await pdf.getPage(pageNumber);
+        const viewport = page.getViewport({ scale: (THUMBNAIL_WIDTH * 2) / page.getViewport({ scale: 1 }).width });
+        const canvas = document.createElement('canvas');
+        canvas.width = viewport.width;
+        canvas.height = viewport.height;
+        await page.render({ canvas, viewport }).promise;
+        rendered.push(canvas.toDataURL('image/jpeg', 0.7));
+        if (!cancelled) setThumbnails([...rendered]);
+      }
+    })().catch((err) => console.error('Thumbnail error:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pdf]);
+
+  // The focused page, with the finding's text outlined when we know where it is
+  useEffect(() => {
+    if (!pdf || !canvasRef.current || !containerRef.current) return;
+    let cancelled = false;
+    let renderTask: { cancel: () => void; promise: Promise<void> } | null = null;
+    setIsRendering(true);
+    setHighlight(null);
+
+    (async () => {
+      const page = await pdf.getPage(Math.min(Math.max(focus.page, 1), pdf.numPages));
+      const fitScale = containerRef.current!.clientWidth / page.getViewport({ scale: 1 }).width;
+      const viewport = page.getViewport({ scale: fitScale * ZOOM_STEPS[zoom] });
+      const ratio = window.devicePixelRatio || 1;
+
+      const canvas = canvasRef.current!;
+      canvas.width = Math.floor(viewport.width * ratio);
+      canvas.height = Math.floor(viewport.height * ratio);
+      canvas.style.width = `${viewport.width}px`;
+      canvas.style.height = `${viewport.height}px`;
+      renderTask = page.render({ canvas, viewport: page.getViewport({ scale: fitScale * ZOOM_STEPS[zoom] * ratio }) });
+      await renderTask.promise;
+      if (cancelled) return;
+
+      const item = focus.item;
+      let box = item?.location;
+      if (!box && item?.matchedText) {
+        const { locateText, readPageText } = await loadPdfText();
+        box = locateText(await readPageText(page), item.matchedText);
+      }
+      if (box && !cancelled) {
+        const [x1, y1, x2, y2] = viewport.convertToViewportRectangle([box.x, box.y, box.x + box.width, box.y + box.height]);
+        const padding = 6;
+        setHighlight({
+          left: Math.min(x1, x2) - padding,
+          top: Math.min(y1, y2) - padding,
+          width: Math.abs(x2 - x1) + padding * 2,
+          height: Math.abs(y2 - y1) + padding * 2,
+        });
+      }
+    })()
+      .catch((err) => {
+        if (!cancelled) console.error('Page render error:', err);
+      })
+      .finally(() => {
+        if (!cancelled) setIsRendering(false);
+      });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [pdf, focus, zoom]);
+
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ block: 'center', inline: 'center', behavior: 'smooth' });
+  }, [highlight]);
+
+  if (error) {
+    return (
+      <div className="p-4 bg-red-500/10 border border-red-500/30 rounded-xl flex items-center gap-3 text-red-400 text-sm">
+        <AlertCircle size={18} />
+        {error}
+      </div>
+    );
+  }
+
+  const focusColor = focus.item?.status === 'fail' ? 'border-pink-500 bg-pink-500/10' : 'border-orange-500 bg-orange-500/10';
+  const pageCount = pdf?.numPages ?? results.pageCount;
+  const onPage = issues.filter((item) => item.page === focus.page);
+
+  return (
+    <div className="space-y-3">
+      {/* Thumbnails */}
+      <div className="flex gap-2 overflow-x-auto pb-2">
+        {Array.from({ length: pageCount }, (_, index) => index + 1).map((pageNumber) => (
+          <button
+            key={pageNumber}
+            onClick={() => onFocus({ page: pageNumber })}
+            className={`relative flex-shrink-0 rounded-lg border-2 overflow-hidden bg-white ${
+              pageNumber === focus.page ? 'border-orange-500' : 'border-gray-800 hover:border-gray-600'
+            }`}
+            style={{ width: THUMBNAIL_WIDTH }}
+            title={`Page ${pageNumber}`}
+          >
+            {thumbnails[pageNumber - 1] ? (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img src={thumbnails[pageNumber - 1]} alt={`Page ${pageNumber}`} className="w-full" />
+            ) : (
+              <div className="h-24 bg-gray-900 flex items-center justify-center">
+                <Loader2 size={14} className="text-gray-600 animate-spin" />
+              </div>
+            )}
+            <span className="absolute bottom-0 left-0 right-0 bg-black/70 text-[10px] text-gray-300">{pageNumber}</span>
+            <PageBadges critical={countOn(pageNumber, 'fail')} warnings={countOn(pageNumber, 'warning')} />
+          </button>
+        ))}
+      </div>
+
+      {/* Toolbar */}
+      <div className="flex items-center justify-between text-sm text-gray-400">
+        <span>
+          Page {focus.page} of {pageCount}
+          {focus.item && <span className="text-gray-500"> • {focus.item.label}</span>}
+        </span>
+        <div className="flex items-center gap-1">
+          {isRendering && <Loader2 size={14} className="animate-spin mr-2" />}
+          <button onClick={() => setZoom((z) => Math.max(0, z - 1))} disabled={zoom === 0} className="p-1.5 rounded hover:bg-gray-800 disabled:opacity-40" title="Zoom out">
+            <ZoomOut size={16} />
+          </button>
+          <span className="w-12 text-center">{Math.round(ZOOM_STEPS[zoom] * 100)}%</span>
+          <button
+            onClick={() => setZoom((z) => Math.min(ZOOM_STEPS.length - 1, z + 1))}
+            disabled={zoom === ZOOM_STEPS.length - 1}
+            className="p-1.5 rounded hover:bg-gray-800 disabled:opacity-40"
+            title="Zoom in"
+          >
+            <ZoomIn size={16} />
+          </button>
+          <button onClick={() => setZoom(0)} className="p-1.5 rounded hover:bg-gray-800" title="Fit width">
+            <Maximize2 size={16} />
+          </button>
+        </div>
+      </div>
+
+      {/* Page */}
+      <div ref={containerRef} className="relative max-h-[75vh] overflow-auto rounded-xl border border-gray-800 bg-gray-900">
+        {!pdf && (
+          <div className="h-64 flex items-center justify-center">
+            <Loader2 className="text-orange-400 animate-spin" size={32} />
+          </div>
+        )}
+        <div className="relative w-fit">
+          <canvas ref={canvasRef} className="block" />
+          {highlight && (
+            <div
+              ref={highlightRef}
+              className={`absolute border-2 rounded ${focusColor} animate-pulse pointer-events-none`}
+              style={{ left: highlight.left, top: highlight.top, width: highlight.width, height: highlight.height }}
+            />
+          )}
+        </div>
+      </div>
+
+      {/* Findings on this page */}
+      {onPage.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {onPage.map((item, idx) => (
+            <button
+              key={idx}
+              onClick={() => onFocus({ page: focus.page, item })}
+              className={`px-2.5 py-1 rounded-full text-xs font-medium border ${
+                item === focus.item
+                  ? 'border-white text-white'
+                  : item.status === 'fail'
+                    ? 'border-pink-500/40 text-pink-400 hover:bg-pink-500/10'
+                    : 'border-orange-500/40 text-orange-400 hover:bg-orange-500/10'
+              }`}
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,369 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { AlertCircle, ArrowLeft, CheckCircle, History, Loader2, Plus, RotateCcw, Save } from 'lucide-react';
+import {
+  CATEGORIES,
+  PROJECT_FLAGS,
+  validateChecks,
+  type CheckCategory,
+  type CheckDefinition,
+  type ChecklistVersion,
+  type ProjectFlag,
+  type Severity,
+} from '@/lib/checklist';
+import type { ChecklistVersionSummary } from '@/lib/checklistStore';
+
+const EMPTY_NEW_CHECK: CheckDefinition = {
+  id: '',
+  category: 'spelling',
+  severity: 'critical',
+  appliesTo: [],
+  instruction: '',
+  enabled: true,
+};
+
+export default function ChecklistAdmin({ initialVersion }: { initialVersion?: number }) {
+  const [current, setCurrent] = useState<ChecklistVersion | null>(null);
+  const [versions, setVersions] = useState<ChecklistVersionSummary[]>([]);
+  const [draft, setDraft] = useState<CheckDefinition[]>([]);
+  const [viewing, setViewing] = useState<ChecklistVersion | null>(null);
+  const [newCheck, setNewCheck] = useState<CheckDefinition>(EMPTY_NEW_CHECK);
+  const [note, setNote] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const savedIds = new Set(current?.checks.map((check) => check.id));
+  const isDirty = current !== null && JSON.stringify(current.checks) !== JSON.stringify(draft);
+
+  const load = useCallback(async () => {
+    const response = await fetch('/api/checklist');
+    const data = await response.json();
+    if (!response.ok) {
+      setErrors([data.error || 'Failed to load checklist']);
+      return;
+    }
+    setCurrent(data.current);
+    setVersions(data.versions);
+    setDraft(data.current.checks);
+  }, []);
+
+  const viewVersion = useCallback(async (version: number) => {
+    const response = await fetch(`/api/checklist?version=${version}`);
+    const data = await response.json();
+    if (!response.ok) {
+      setErrors([data.error || `Failed to load version ${version}`]);
+      return;
+    }
+    setViewing(data.checklist);
+  }, []);
+
+  useEffect(() => {
+    load();
+    if (initialVersion !== undefined) {
+      viewVersion(initialVersion);
+    }
+  }, [load, viewVersion, initialVersion]);
+
+  const updateCheck = (id: string, changes: Partial<CheckDefinition>) => {
+    setDraft((prev) => prev.map((check) => (check.id === id ? { ...check, ...changes } : check)));
+  };
+
+  const toggleFlag = (check: CheckDefinition, flag: ProjectFlag) => {
+    const appliesTo = check.appliesTo.includes(flag) ? check.appliesTo.filter((f) => f !== flag) : [...check.appliesTo, flag];
+    updateCheck(check.id, { appliesTo });
+  };
+
+  const addCheck = () => {
+    const problems = validateChecks([...draft, newCheck]);
+    if (problems.length > 0) {
+      setErrors(problems);
+      return;
+    }
+    setDraft((prev) => [...prev, newCheck]);
+    setNewCheck({ ...EMPTY_NEW_CHECK, category: newCheck.category });
+    setErrors([]);
+  };
+
+  const save = async () => {
+    const problems = validateChecks(draft);
+    if (problems.length > 0) {
+      setErrors(problems);
+      return;
+    }
+
+    setIsSaving(true);
+    setErrors([]);
+    try {
+      const response = await fetch('/api/checklist', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ checks: draft, note }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setErrors(data.details || [data.error || 'Failed to save checklist']);
+        return;
+      }
+      setMessage(`Saved checklist version ${data.checklist.version}`);
+      setNote('');
+      await load();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const restore = (checklist: ChecklistVersion) => {
+    setDraft(checklist.checks);
+    setNote(`Restored from version ${checklist.version}`);
+    setViewing(null);
+  };
+
+  if (!current) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <Loader2 className="text-orange-400 animate-spin" size={40} />
+      </div>
+    );
+  }
+
+  const shown = viewing ? viewing.checks : draft;
+  const readOnly = viewing !== null;
+
+  return (
+    <div className="min-h-screen bg-black p-8">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <a href="/" className="text-sm text-gray-500 hover:text-gray-300 flex items-center gap-1 mb-2">
+              <ArrowLeft size={14} />
+              Back to QC
+            </a>
+            <h1 className="text-3xl font-bold text-white">Checklist</h1>
+            <p className="text-gray-400">
+              Current version {current.version} • {current.checks.filter((c) => c.enabled).length} of {current.checks.length} checks enabled
+            </p>
+          </div>
+        </div>
+
+        {/* Errors */}
+        {errors.length > 0 && (
+          <div className="mb-6 p-4 bg-red-500/10 border border-red-500/30 rounded-xl flex items-start gap-3 text-red-400">
+            <AlertCircle size={20} className="flex-shrink-0 mt-0.5" />
+            <ul className="space-y-1 text-sm">
+              {errors.map((error, idx) => (
+                <li key={idx}>{error}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {message && errors.length === 0 && (
+          <div className="mb-6 p-4 bg-emerald-500/10 border border-emerald-500/30 rounded-xl flex items-center gap-3 text-emerald-400">
+            <CheckCircle size={20} />
+            <span>{message}</span>
+          </div>
+        )}
+
+        <div className="grid grid-cols-3 gap-6">
+          {/* Checks */}
+          <div className="col-span-2 space-y-4">
+            {viewing && (
+              <div className="p-4 bg-orange-500/10 border border-orange-500/30 rounded-xl flex items-center justify-between text-orange-400">
+                <span>
+                  Viewing version {viewing.version} ({viewing.author}, {new Date(viewing.createdAt).toLocaleString()}) - read only
+                </span>
+                <div className="flex gap-2">
+                  <button onClick={() => restore(viewing)} className="px-3 py-1.5 bg-orange-500 text-black font-semibold rounded-lg flex items-center gap-1.5">
+                    <RotateCcw size={14} />
+                    Restore
+                  </button>
+                  <button onClick={() => setViewing(null)} className="px-3 py-1.5 border border-orange-500/50 rounded-lg">
+                    Close
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {CATEGORIES.map((category) => {
+              const checks = shown.filter((check) => check.category === category.id);
+              if (checks.length === 0) return null;
+              return (
+                <div key={category.id} className="border border-gray-800 rounded-xl overflow-hidden">
+                  <div className="p-4 bg-gray-900/50 border-b border-gray-800">
+                    <h3 className="font-bold text-white">{category.title}</h3>
+                  </div>
+                  <div className="divide-y divide-gray-800/50">
+                    {checks.map((check) => (
+                      <div key={check.id} className={`p-4 space-y-3 ${check.enabled ? '' : 'opacity-50'}`}>
+                        <div className="flex items-center gap-3 flex-wrap">
+                          <label className="flex items-center gap-2 text-sm text-gray-300">
+                            <input
+                              type="checkbox"
+                              checked={check.enabled}
+                              disabled={readOnly}
+                              onChange={(e) => updateCheck(check.id, { enabled: e.target.checked })}
+                            />
+                            Enabled
+                          </label>
+                          <code className="text-xs text-gray-500">{check.id}</code>
+                          {!savedIds.has(check.id) && !readOnly && <span className="text-xs text-orange-400">new</span>}
+                          <select
+                            value={check.severity}
+                            disabled={readOnly}
+                            onChange={(e) => updateCheck(check.id, { severity: e.target.value as Severity })}
+                            className="bg-gray-900 border border-gray-700 rounded-lg px-2 py-1 text-sm text-gray-300"
+                          >
+                            <option value="critical">Critical</option>
+                            <option value="warning">Warning</option>
+                          </select>
+                          <label className="flex items-center gap-2 text-sm text-gray-400" title="Decided once across the whole drawing set instead of per page batch">
+                            <input
+                              type="checkbox"
+                              checked={check.scope === 'document'}
+                              disabled={readOnly}
+                              onChange={(e) => updateCheck(check.id, { scope: e.target.checked ? 'document' : 'page' })}
+                            />
+                            Whole set
+                          </label>
+                          <div className="flex gap-1.5 ml-auto">
+                            {PROJECT_FLAGS.map((flag) => (
+                              <button
+                                key={flag.id}
+                                disabled={readOnly}
+                                onClick={() => toggleFlag(check, flag.id)}
+                                className={`px-2 py-0.5 rounded-full text-xs border ${
+                                  check.appliesTo.includes(flag.id) ? 'border-orange-500 text-orange-400 bg-orange-500/10' : 'border-gray-700 text-gray-500'
+                                }`}
+                              >
+                                {flag.label}
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                        <textarea
+                          value={check.instruction}
+                          readOnly={readOnly}
+                          onChange={(e) => updateCheck(check.id, { instruction: e.target.value })}
+                          rows={2}
+                          className="w-full bg-gray-900 border border-gray-800 rounded-lg p-2 text-sm text-gray-200"
+                        />
+                        {!savedIds.has(check.id) && !readOnly && (
+                          <button onClick={() => setDraft((prev) => prev.filter((c) => c.id !== check.id))} className="text-xs text-gray-500 hover:text-red-400">
+                            Remove
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+
+            {/* Add Check */}
+            {!readOnly && (
+              <div className="border border-dashed border-gray-700 rounded-xl p-4 space-y-3">
+                <h3 className="font-bold text-white flex items-center gap-2">
+                  <Plus size={18} />
+                  Add Check
+                </h3>
+                <div className="flex gap-3">
+                  <select
+                    value={newCheck.category}
+                    onChange={(e) => setNewCheck({ ...newCheck, category: e.target.value as CheckCategory })}
+                    className="bg-gray-900 border border-gray-700 rounded-lg px-2 py-1 text-sm text-gray-300"
+                  >
+                    {CATEGORIES.map((category) => (
+                      <option key={category.id} value={category.id}>
+                        {category.title}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    value={newCheck.id}
+                    onChange={(e) => setNewCheck({ ...newCheck, id: e.target.value })}
+                    placeholder="check_id"
+                    className="flex-1 bg-gray-900 border border-gray-700 rounded-lg px-2 py-1 text-sm text-gray-200 font-mono"
+                  />
+                  <select
+                    value={newCheck.severity}
+                    onChange={(e) => setNewCheck({ ...newCheck, severity: e.target.value as Severity })}
+                    className="bg-gray-900 border border-gray-700 rounded-lg px-2 py-1 text-sm text-gray-300"
+                  >
+                    <option value="critical">Critical</option>
+                    <option value="warning">Warning</option>
+                  </select>
+                </div>
+                <textarea
+                  value={newCheck.instruction}
+                  onChange={(e) => setNewCheck({ ...newCheck, instruction: e.target.value })}
+                  placeholder="What the reviewer should look for"
+                  rows={2}
+                  className="w-full bg-gray-900 border border-gray-800 rounded-lg p-2 text-sm text-gray-200"
+                />
+                <button onClick={addCheck} className="px-4 py-2 border border-gray-700 text-gray-300 rounded-lg hover:bg-gray-800 transition-colors">
+                  Add to draft
+                </button>
+              </div>
+            )}
+          </div>
+
+          {/* Sidebar */}
+          <div className="space-y-4">
+            {!readOnly && (
+              <div className="p-4 bg-gray-900/50 border border-gray-800 rounded-xl space-y-3">
+                <h3 className="font-bold text-white">Save Changes</h3>
+                <input
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="What changed?"
+                  className="w-full bg-gray-900 border border-gray-700 rounded-lg px-2 py-1.5 text-sm text-gray-200"
+                />
+                <button
+                  onClick={save}
+                  disabled={!isDirty || isSaving}
+                  className={`w-full py-2.5 rounded-lg font-bold flex items-center justify-center gap-2 ${
+                    isDirty ? 'bg-gradient-to-r from-orange-500 to-pink-500 text-black' : 'bg-gray-800 text-gray-500 cursor-not-allowed'
+                  }`}
+                >
+                  {isSaving ? <Loader2 size={16} className="animate-spin" /> : <Save size={16} />}
+                  Save as new version
+                </button>
+              </div>
+            )}
+
+            <div className="p-4 bg-gray-900/50 border border-gray-800 rounded-xl">
+              <h3 className="font-bold text-white flex items-center gap-2 mb-3">
+                <History size={18} />
+                Version History
+              </h3>
+              <div className="space-y-2">
+                {versions.map((version) => (
+                  <button
+                    key={version.version}
+                    onClick={() => viewVersion(version.version)}
+                    className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                      viewing?.version === version.version ? 'border-orange-500 bg-orange-500/10' : 'border-gray-800 hover:border-gray-700'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-semibold text-white">v{version.version}</span>
+                      {version.version === current.version && <span className="text-xs text-emerald-400">current</span>}
+                    </div>
+                    <div className="text-xs text-gray-500 mt-1">
+                      {version.author} • {version.version === 0 ? 'built-in' : new Date(version.createdAt).toLocaleDateString()} • {version.enabledCount}/
+                      {version.checkCount} enabled
+                    </div>
+                    {version.note && <div className="text-sm text-gray-400 mt-1">{version.note}</div>}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
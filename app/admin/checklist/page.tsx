@@ -0,0 +1,8 @@
+import ChecklistAdmin from './ChecklistAdmin';
+
+export const dynamic = 'force-dynamic';
+
+export default function ChecklistAdminPage({ searchParams }: { searchParams: { version?: string } }) {
+  const version = searchParams.version !== undefined ? Number(searchParams.version) : undefined;
+  return <ChecklistAdmin initialVersion={Number.isInteger(version) ? version : undefined} />;
+}
@@ -0,0 +1,231 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { AlertCircle, ArrowLeft, CheckCircle, Loader2, Plus, Save, Search, Trash2, X } from 'lucide-react';
+import { isAcceptedTerm, validateDictionary, type KnownTypo, type SpellingDictionary } from '@/lib/dictionary';
+
+const inputClass = 'w-full bg-gray-900 border border-gray-700 rounded-lg px-2 py-1.5 text-sm text-gray-200';
+
+export default function DictionaryAdmin() {
+  const [saved, setSaved] = useState<SpellingDictionary | null>(null);
+  const [draft, setDraft] = useState<SpellingDictionary | null>(null);
+  const [newTerms, setNewTerms] = useState('');
+  const [query, setQuery] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isDirty = saved !== null && JSON.stringify(saved) !== JSON.stringify(draft);
+
+  const load = useCallback(async () => {
+    const response = await fetch('/api/dictionary', { cache: 'no-store' });
+    const data = await response.json();
+    if (!response.ok) {
+      setErrors([data.error || 'Failed to load the dictionary']);
+      return;
+    }
+    setSaved(data.dictionary);
+    setDraft(data.dictionary);
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  if (!draft) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        {errors.length > 0 ? <p className="text-red-400">{errors[0]}</p> : <Loader2 className="text-orange-400 animate-spin" size={40} />}
+      </div>
+    );
+  }
+
+  // Comma separated, so a list can be pasted in at once
+  const addTerms = () => {
+    const terms = newTerms
+      .split(',')
+      .map((term) => term.trim())
+      .filter(Boolean);
+    const added = terms.filter((term, idx) => !isAcceptedTerm(draft, term) && terms.indexOf(term) === idx);
+    setDraft({ ...draft, terms: [...draft.terms, ...added] });
+    setNewTerms('');
+  };
+
+  const updateTypo = (index: number, changes: Partial<KnownTypo>) => {
+    setDraft({ ...draft, typos: draft.typos.map((entry, idx) => (idx === index ? { ...entry, ...changes } : entry)) });
+  };
+
+  const save = async () => {
+    const problems = validateDictionary(draft);
+    if (problems.length > 0) {
+      setErrors(problems);
+      return;
+    }
+
+    setIsSaving(true);
+    setErrors([]);
+    try {
+      const response = await fetch('/api/dictionary', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ dictionary: draft }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setErrors(data.details || [data.error || 'Failed to save the dictionary']);
+        return;
+      }
+      setMessage('Saved the dictionary; new analyses use it from now on');
+      setSaved(data.dictionary);
+      setDraft(data.dictionary);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const search = query.trim().toLowerCase();
+  const terms = draft.terms.filter((term) => !search || term.toLowerCase().includes(search));
+
+  return (
+    <div className="min-h-screen bg-black p-8">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <a href="/" className="text-sm text-gray-500 hover:text-gray-300 flex items-center gap-1 mb-2">
+              <ArrowLeft size={14} />
+              Back to QC
+            </a>
+            <h1 className="text-3xl font-bold text-white">Spelling Dictionary</h1>
+            <p className="text-gray-400">
+              Trade terms the spelling checks accept and typos they catch • last saved by {saved?.updatedBy}
+              {saved && saved.updatedBy !== 'Built-in' && `, ${new Date(saved.updatedAt).toLocaleString()}`}
+            </p>
+          </div>
+        </div>
+
+        {/* Errors */}
+        {errors.length > 0 && (
+          <div className="mb-6 p-4 bg-red-500/10 border border-red-500/30 rounded-xl flex items-start gap-3 text-red-400">
+            <AlertCircle size={20} className="flex-shrink-0 mt-0.5" />
+            <ul className="space-y-1 text-sm">
+              {errors.map((error, idx) => (
+                <li key={idx}>{error}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {message && errors.length === 0 && (
+          <div className="mb-6 p-4 bg-emerald-500/10 border border-emerald-500/30 rounded-xl flex items-center gap-3 text-emerald-400">
+            <CheckCircle size={20} />
+            <span>{message}</span>
+          </div>
+        )}
+
+        <div className="grid grid-cols-3 gap-6">
+          <div className="col-span-2 space-y-4">
+            {/* Accepted terms */}
+            <div className="border border-gray-800 rounded-xl overflow-hidden">
+              <div className="p-4 bg-gray-900/50 border-b border-gray-800 flex items-center justify-between gap-4">
+                <h3 className="font-bold text-white">ACCEPTED TERMS ({draft.terms.length})</h3>
+                <div className="relative w-64">
+                  <Search size={14} className="absolute left-2 top-1/2 -translate-y-1/2 text-gray-500" />
+                  <input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Filter" className={`${inputClass} pl-7`} />
+                </div>
+              </div>
+              <div className="p-4 flex flex-wrap gap-2">
+                {terms.map((term) => (
+                  <span key={term} className="inline-flex items-center gap-1 pl-2.5 pr-1 py-1 bg-gray-800 rounded-lg text-sm text-gray-200">
+                    {term}
+                    <button
+                      onClick={() => setDraft({ ...draft, terms: draft.terms.filter((t) => t !== term) })}
+                      className="p-0.5 text-gray-500 hover:text-red-400"
+                      title="Remove"
+                    >
+                      <X size={14} />
+                    </button>
+                  </span>
+                ))}
+                {terms.length === 0 && <span className="text-sm text-gray-500">{search ? 'No terms match.' : 'No accepted terms yet.'}</span>}
+              </div>
+              <div className="p-4 border-t border-gray-800 flex gap-2">
+                <input
+                  value={newTerms}
+                  onChange={(e) => setNewTerms(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && addTerms()}
+                  placeholder="Corian, HI-MACS, LED-24V-4.4 (comma separated)"
+                  className={inputClass}
+                />
+                <button onClick={addTerms} className="px-4 text-sm text-gray-400 hover:text-white flex items-center gap-2 whitespace-nowrap">
+                  <Plus size={16} />
+                  Add
+                </button>
+              </div>
+            </div>
+
+            {/* Known typos */}
+            <div className="border border-gray-800 rounded-xl overflow-hidden">
+              <div className="p-4 bg-gray-900/50 border-b border-gray-800 flex items-center justify-between">
+                <h3 className="font-bold text-white">KNOWN TYPOS ({draft.typos.length})</h3>
+                <span className="text-xs text-gray-500">Caught exactly wherever a page has a text layer</span>
+              </div>
+              <div className="divide-y divide-gray-800/50">
+                {draft.typos.map((entry, idx) => (
+                  <div key={idx} className="p-4 grid grid-cols-7 gap-3 items-end">
+                    <label className="col-span-3 block">
+                      <span className="text-xs text-gray-500">Typo</span>
+                      <input value={entry.typo} onChange={(e) => updateTypo(idx, { typo: e.target.value })} className={inputClass} />
+                    </label>
+                    <label className="col-span-3 block">
+                      <span className="text-xs text-gray-500">Correction</span>
+                      <input value={entry.correction} onChange={(e) => updateTypo(idx, { correction: e.target.value })} className={inputClass} />
+                    </label>
+                    <button
+                      onClick={() => setDraft({ ...draft, typos: draft.typos.filter((_, i) => i !== idx) })}
+                      className="p-2 text-gray-500 hover:text-red-400 justify-self-end"
+                      title="Remove"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <button
+                onClick={() => setDraft({ ...draft, typos: [...draft.typos, { typo: '', correction: '' }] })}
+                className="w-full p-3 border-t border-gray-800 text-sm text-gray-400 hover:text-white flex items-center justify-center gap-2"
+              >
+                <Plus size={16} />
+                Add typo
+              </button>
+            </div>
+          </div>
+
+          {/* Sidebar */}
+          <div className="space-y-4">
+            <div className="p-4 bg-gray-900/50 border border-gray-800 rounded-xl space-y-2 text-sm text-gray-400">
+              <h3 className="font-bold text-white">How It&apos;s Used</h3>
+              <p>Both lists go into the spelling section of the checklist prompt, and spelling findings on an accepted term are dropped.</p>
+              <p>Known typos are also matched in the PDF text layer, so they&apos;re caught on every page that has one.</p>
+              <p>From a report, reviewers can add a flagged word here or learn a typo in one click.</p>
+            </div>
+
+            <div className="p-4 bg-gray-900/50 border border-gray-800 rounded-xl space-y-3">
+              <h3 className="font-bold text-white">Save Changes</h3>
+              <button
+                onClick={save}
+                disabled={!isDirty || isSaving}
+                className={`w-full py-2.5 rounded-lg font-bold flex items-center justify-center gap-2 ${
+                  isDirty ? 'bg-gradient-to-r from-orange-500 to-pink-500 text-black' : 'bg-gray-800 text-gray-500 cursor-not-allowed'
+                }`}
+              >
+                {isSaving ? <Loader2 size={16} className="animate-spin" /> : <Save size={16} />}
+                Save dictionary
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,7 @@
+import DictionaryAdmin from './DictionaryAdmin';
+
+export const dynamic = 'force-dynamic';
+
+export default function DictionaryAdminPage() {
+  return <DictionaryAdmin />;
+}
@@ -0,0 +1,109 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, ArrowLeft, Loader2 } from 'lucide-react';
+import type { CheckFeedbackStats } from '@/lib/feedback';
+
+const percent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+// Which checks get dismissed as false positives most, to reword or disable
+// them at /admin/checklist
+export default function FeedbackAdmin() {
+  const [checks, setChecks] = useState<CheckFeedbackStats[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/feedback', { cache: 'no-store' })
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load feedback');
+        setChecks(data.checks);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load feedback'));
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-black p-8">
+      <div className="max-w-5xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <a href="/" className="text-sm text-gray-500 hover:text-gray-300 flex items-center gap-1 mb-2">
+            <ArrowLeft size={14} />
+            Back to QC
+          </a>
+          <h1 className="text-3xl font-bold text-white">Finding Feedback</h1>
+          <p className="text-gray-400">
+            How drafters and reviewers judged each check&apos;s findings, noisiest first. Reword or disable noisy checks in the{' '}
+            <a href="/admin/checklist" className="underline hover:text-gray-300">
+              checklist
+            </a>
+            .
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-500/10 border border-red-500/30 rounded-xl flex items-center gap-3 text-red-400">
+            <AlertCircle size={20} />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {checks === null ? (
+          !error && (
+            <div className="p-12 flex justify-center">
+              <Loader2 className="text-orange-400 animate-spin" size={32} />
+            </div>
+          )
+        ) : checks.length === 0 ? (
+          <div className="p-12 border border-dashed border-gray-800 rounded-xl text-center text-gray-500">
+            No feedback yet. Findings are marked confirmed, false positive or fixed from a report.
+          </div>
+        ) : (
+          <div className="border border-gray-800 rounded-xl overflow-hidden divide-y divide-gray-800/50">
+            <div className="px-4 py-2 grid grid-cols-12 gap-4 text-xs text-gray-500 bg-gray-900/50">
+              <span className="col-span-5">Check</span>
+              <span className="col-span-2 text-right">False positives</span>
+              <span className="col-span-2 text-right">Confirmed</span>
+              <span className="col-span-1 text-right">Fixed</span>
+              <span className="col-span-2 text-right">Projects</span>
+            </div>
+            {checks.map((check) => (
+              <div key={check.checkId} className="p-4">
+                <div className="grid grid-cols-12 gap-4 items-center text-sm">
+                  <div className="col-span-5 min-w-0">
+                    <div className="font-semibold text-white truncate">{check.label}</div>
+                    <div className="text-xs text-gray-500 font-mono truncate">{check.checkId}</div>
+                  </div>
+                  <div className="col-span-2 text-right">
+                    <span className={check.falsePositive > 0 ? 'text-pink-400 font-semibold' : 'text-gray-500'}>{check.falsePositive}</span>
+                    <span className="text-xs text-gray-500"> ({percent(check.falsePositiveRate)})</span>
+                  </div>
+                  <div className="col-span-2 text-right text-gray-300">{check.confirmed}</div>
+                  <div className="col-span-1 text-right text-gray-300">{check.fixed}</div>
+                  <div className="col-span-2 text-right text-gray-300">{check.projects}</div>
+                </div>
+                {check.recent.length > 0 && (
+                  <ul className="mt-3 space-y-1 text-xs text-gray-500">
+                    {check.recent.map((entry) => (
+                      <li key={`${entry.projectKey}-${entry.findingKey}`}>
+                        <a href={`/?job=${entry.jobId}`} className="text-gray-400 hover:text-orange-400 underline">
+                          {entry.filename}
+                        </a>
+                        {entry.page && <> p.{entry.page}</>}: {entry.notes}
+                        <span className="text-gray-600">
+                          {' '}
+                          - {entry.by}
+                          {entry.comment && <>: &ldquo;{entry.comment}&rdquo;</>}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
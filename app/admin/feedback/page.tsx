@@ -0,0 +1,7 @@
+import FeedbackAdmin from './FeedbackAdmin';
+
+export const dynamic = 'force-dynamic';
+
+export default function FeedbackAdminPage() {
+  return <FeedbackAdmin />;
+}
@@ -0,0 +1,271 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { AlertCircle, ArrowLeft, CheckCircle, Loader2, Plus, Save, Trash2 } from 'lucide-react';
+import { validateLedCatalog, type LedCatalog, type LedDriver, type LedProduct } from '@/lib/ledCatalog';
+
+// Ids only need to be unique; the name is what drafters see
+function nextId(prefix: string, taken: { id: string }[]): string {
+  let n = taken.length + 1;
+  while (taken.some((item) => item.id === `${prefix}_${n}`)) n++;
+  return `${prefix}_${n}`;
+}
+
+const inputClass = 'w-full bg-gray-900 border border-gray-700 rounded-lg px-2 py-1.5 text-sm text-gray-200';
+
+function NumberInput({ value, onChange, step = 'any' }: { value: number; onChange: (value: number) => void; step?: string }) {
+  return (
+    <input
+      type="number"
+      step={step}
+      value={Number.isNaN(value) ? '' : value}
+      onChange={(e) => onChange(e.target.value === '' ? NaN : Number(e.target.value))}
+      className={inputClass}
+    />
+  );
+}
+
+export default function LedCatalogAdmin() {
+  const [saved, setSaved] = useState<LedCatalog | null>(null);
+  const [draft, setDraft] = useState<LedCatalog | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isDirty = saved !== null && JSON.stringify(saved) !== JSON.stringify(draft);
+
+  const load = useCallback(async () => {
+    const response = await fetch('/api/led-catalog', { cache: 'no-store' });
+    const data = await response.json();
+    if (!response.ok) {
+      setErrors([data.error || 'Failed to load the LED catalog']);
+      return;
+    }
+    setSaved(data.catalog);
+    setDraft(data.catalog);
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  if (!draft) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        {errors.length > 0 ? <p className="text-red-400">{errors[0]}</p> : <Loader2 className="text-orange-400 animate-spin" size={40} />}
+      </div>
+    );
+  }
+
+  const updateProduct = (id: string, changes: Partial<LedProduct>) => {
+    setDraft({ ...draft, products: draft.products.map((product) => (product.id === id ? { ...product, ...changes } : product)) });
+  };
+
+  const updateDriver = (id: string, changes: Partial<LedDriver>) => {
+    setDraft({ ...draft, drivers: draft.drivers.map((driver) => (driver.id === id ? { ...driver, ...changes } : driver)) });
+  };
+
+  const addProduct = () => {
+    setDraft({
+      ...draft,
+      products: [
+        ...draft.products,
+        { id: nextId('product', draft.products), name: '', aliases: [], wattsPerFoot: NaN, rollLengthFeet: 16.4, maxSpacingInches: 6 },
+      ],
+    });
+  };
+
+  const addDriver = () => {
+    setDraft({ ...draft, drivers: [...draft.drivers, { id: nextId('driver', draft.drivers), name: '', watts: NaN }] });
+  };
+
+  const save = async () => {
+    const problems = validateLedCatalog(draft);
+    if (problems.length > 0) {
+      setErrors(problems);
+      return;
+    }
+
+    setIsSaving(true);
+    setErrors([]);
+    try {
+      const response = await fetch('/api/led-catalog', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ catalog: draft }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setErrors(data.details || [data.error || 'Failed to save the LED catalog']);
+        return;
+      }
+      setMessage('Saved the LED catalog; new analyses use it from now on');
+      setSaved(data.catalog);
+      setDraft(data.catalog);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-black p-8">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <a href="/" className="text-sm text-gray-500 hover:text-gray-300 flex items-center gap-1 mb-2">
+              <ArrowLeft size={14} />
+              Back to QC
+            </a>
+            <h1 className="text-3xl font-bold text-white">LED Catalog</h1>
+            <p className="text-gray-400">
+              Strips and drivers the backlit load check computes with • last saved by {saved?.updatedBy}
+              {saved && saved.updatedBy !== 'Built-in' && `, ${new Date(saved.updatedAt).toLocaleString()}`}
+            </p>
+          </div>
+        </div>
+
+        {/* Errors */}
+        {errors.length > 0 && (
+          <div className="mb-6 p-4 bg-red-500/10 border border-red-500/30 rounded-xl flex items-start gap-3 text-red-400">
+            <AlertCircle size={20} className="flex-shrink-0 mt-0.5" />
+            <ul className="space-y-1 text-sm">
+              {errors.map((error, idx) => (
+                <li key={idx}>{error}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {message && errors.length === 0 && (
+          <div className="mb-6 p-4 bg-emerald-500/10 border border-emerald-500/30 rounded-xl flex items-center gap-3 text-emerald-400">
+            <CheckCircle size={20} />
+            <span>{message}</span>
+          </div>
+        )}
+
+        <div className="grid grid-cols-3 gap-6">
+          <div className="col-span-2 space-y-4">
+            {/* LED products */}
+            <div className="border border-gray-800 rounded-xl overflow-hidden">
+              <div className="p-4 bg-gray-900/50 border-b border-gray-800 flex items-center justify-between">
+                <h3 className="font-bold text-white">LED STRIPS</h3>
+                <span className="text-xs text-gray-500">The first strip is assumed when a drawing doesn&apos;t name one</span>
+              </div>
+              <div className="divide-y divide-gray-800/50">
+                {draft.products.map((product) => (
+                  <div key={product.id} className="p-4 grid grid-cols-6 gap-3 items-end">
+                    <label className="col-span-2 block">
+                      <span className="text-xs text-gray-500">Name</span>
+                      <input value={product.name} onChange={(e) => updateProduct(product.id, { name: e.target.value })} className={inputClass} />
+                    </label>
+                    <label className="block">
+                      <span className="text-xs text-gray-500">W/ft</span>
+                      <NumberInput value={product.wattsPerFoot} onChange={(wattsPerFoot) => updateProduct(product.id, { wattsPerFoot })} />
+                    </label>
+                    <label className="block">
+                      <span className="text-xs text-gray-500">Roll length (ft)</span>
+                      <NumberInput value={product.rollLengthFeet} onChange={(rollLengthFeet) => updateProduct(product.id, { rollLengthFeet })} />
+                    </label>
+                    <label className="block">
+                      <span className="text-xs text-gray-500">Max spacing (in)</span>
+                      <NumberInput value={product.maxSpacingInches} onChange={(maxSpacingInches) => updateProduct(product.id, { maxSpacingInches })} />
+                    </label>
+                    <button
+                      onClick={() => setDraft({ ...draft, products: draft.products.filter((p) => p.id !== product.id) })}
+                      className="p-2 text-gray-500 hover:text-red-400 justify-self-end"
+                      title="Remove"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                    <label className="col-span-6 block">
+                      <span className="text-xs text-gray-500">Also called out as (comma separated)</span>
+                      <input
+                        value={product.aliases.join(', ')}
+                        onChange={(e) => updateProduct(product.id, { aliases: e.target.value.split(',').map((alias) => alias.trim()).filter(Boolean) })}
+                        className={inputClass}
+                      />
+                    </label>
+                  </div>
+                ))}
+              </div>
+              <button onClick={addProduct} className="w-full p-3 border-t border-gray-800 text-sm text-gray-400 hover:text-white flex items-center justify-center gap-2">
+                <Plus size={16} />
+                Add LED strip
+              </button>
+            </div>
+
+            {/* Drivers */}
+            <div className="border border-gray-800 rounded-xl overflow-hidden">
+              <div className="p-4 bg-gray-900/50 border-b border-gray-800">
+                <h3 className="font-bold text-white">DRIVERS</h3>
+              </div>
+              <div className="divide-y divide-gray-800/50">
+                {draft.drivers.map((driver) => (
+                  <div key={driver.id} className="p-4 grid grid-cols-6 gap-3 items-end">
+                    <label className="col-span-4 block">
+                      <span className="text-xs text-gray-500">Name</span>
+                      <input value={driver.name} onChange={(e) => updateDriver(driver.id, { name: e.target.value })} className={inputClass} />
+                    </label>
+                    <label className="block">
+                      <span className="text-xs text-gray-500">Watts</span>
+                      <NumberInput value={driver.watts} step="1" onChange={(watts) => updateDriver(driver.id, { watts })} />
+                    </label>
+                    <button
+                      onClick={() => setDraft({ ...draft, drivers: draft.drivers.filter((d) => d.id !== driver.id) })}
+                      className="p-2 text-gray-500 hover:text-red-400 justify-self-end"
+                      title="Remove"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <button onClick={addDriver} className="w-full p-3 border-t border-gray-800 text-sm text-gray-400 hover:text-white flex items-center justify-center gap-2">
+                <Plus size={16} />
+                Add driver
+              </button>
+            </div>
+          </div>
+
+          {/* Sidebar */}
+          <div className="space-y-4">
+            <div className="p-4 bg-gray-900/50 border border-gray-800 rounded-xl space-y-3">
+              <h3 className="font-bold text-white">Load Rules</h3>
+              <label className="block">
+                <span className="text-xs text-gray-500">Max driver load (%)</span>
+                <NumberInput value={Math.round(draft.driverLoadFactor * 100)} step="1" onChange={(percent) => setDraft({ ...draft, driverLoadFactor: percent / 100 })} />
+              </label>
+              <label className="block">
+                <span className="text-xs text-gray-500">Receiver capacity (W)</span>
+                <NumberInput value={draft.receiverWatts} step="1" onChange={(receiverWatts) => setDraft({ ...draft, receiverWatts })} />
+              </label>
+              <label className="block">
+                <span className="text-xs text-gray-500">Amplifier capacity (W)</span>
+                <NumberInput value={draft.amplifierWatts} step="1" onChange={(amplifierWatts) => setDraft({ ...draft, amplifierWatts })} />
+              </label>
+              <label className="block">
+                <span className="text-xs text-gray-500">Total wattage tolerance (%)</span>
+                <NumberInput value={Math.round(draft.wattageTolerance * 100)} step="1" onChange={(percent) => setDraft({ ...draft, wattageTolerance: percent / 100 })} />
+              </label>
+            </div>
+
+            <div className="p-4 bg-gray-900/50 border border-gray-800 rounded-xl space-y-3">
+              <h3 className="font-bold text-white">Save Changes</h3>
+              <button
+                onClick={save}
+                disabled={!isDirty || isSaving}
+                className={`w-full py-2.5 rounded-lg font-bold flex items-center justify-center gap-2 ${
+                  isDirty ? 'bg-gradient-to-r from-orange-500 to-pink-500 text-black' : 'bg-gray-800 text-gray-500 cursor-not-allowed'
+                }`}
+              >
+                {isSaving ? <Loader2 size={16} className="animate-spin" /> : <Save size={16} />}
+                Save catalog
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
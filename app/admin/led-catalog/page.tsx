@@ -0,0 +1,7 @@
+import LedCatalogAdmin from './LedCatalogAdmin';
+
+export const dynamic = 'force-dynamic';
+
+export default function LedCatalogAdminPage() {
+  return <LedCatalogAdmin />;
+}
@@ -0,0 +1,219 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { AlertCircle, ArrowLeft, CheckCircle, Loader2, Save } from 'lucide-react';
+import { CATEGORIES, type CheckCategory } from '@/lib/checklist';
+import { validateModelSettings, type ModelChoice, type ModelSettings } from '@/lib/modelSettings';
+
+const inputClass = 'w-full bg-gray-900 border border-gray-700 rounded-lg px-2 py-1.5 text-sm text-gray-200 disabled:text-gray-600';
+
+function ChoiceInputs({ choice, onChange, disabled = false }: { choice: ModelChoice; onChange: (choice: ModelChoice) => void; disabled?: boolean }) {
+  return (
+    <>
+      <label className="col-span-3 block">
+        <span className="text-xs text-gray-500">Model</span>
+        <input value={choice.model} disabled={disabled} onChange={(e) => onChange({ ...choice, model: e.target.value.trim() })} className={inputClass} />
+      </label>
+      <label className="block">
+        <span className="text-xs text-gray-500">Max reply tokens</span>
+        <input
+          type="number"
+          step="256"
+          value={Number.isNaN(choice.maxTokens) ? '' : choice.maxTokens}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...choice, maxTokens: e.target.value === '' ? NaN : Number(e.target.value) })}
+          className={inputClass}
+        />
+      </label>
+    </>
+  );
+}
+
+export default function ModelSettingsAdmin() {
+  const [saved, setSaved] = useState<ModelSettings | null>(null);
+  const [draft, setDraft] = useState<ModelSettings | null>(null);
+  const [provider, setProvider] = useState<string | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isDirty = saved !== null && JSON.stringify(saved) !== JSON.stringify(draft);
+
+  const load = useCallback(async () => {
+    const response = await fetch('/api/model-settings', { cache: 'no-store' });
+    const data = await response.json();
+    if (!response.ok) {
+      setErrors([data.error || 'Failed to load the model settings']);
+      return;
+    }
+    setSaved(data.settings);
+    setDraft(data.settings);
+    setProvider(data.provider);
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  if (!draft) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        {errors.length > 0 ? <p className="text-red-400">{errors[0]}</p> : <Loader2 className="text-orange-400 animate-spin" size={40} />}
+      </div>
+    );
+  }
+
+  const setCategory = (category: CheckCategory, choice: ModelChoice | undefined) => {
+    const categories = { ...draft.categories };
+    if (choice) {
+      categories[category] = choice;
+    } else {
+      delete categories[category];
+    }
+    setDraft({ ...draft, categories });
+  };
+
+  const save = async () => {
+    const problems = validateModelSettings(draft);
+    if (problems.length > 0) {
+      setErrors(problems);
+      return;
+    }
+
+    setIsSaving(true);
+    setErrors([]);
+    try {
+      const response = await fetch('/api/model-settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ settings: draft }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setErrors(data.details || [data.error || 'Failed to save the model settings']);
+        return;
+      }
+      setMessage('Saved the model settings; new analyses use them from now on');
+      setSaved(data.settings);
+      setDraft(data.settings);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-black p-8">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <a href="/" className="text-sm text-gray-500 hover:text-gray-300 flex items-center gap-1 mb-2">
+              <ArrowLeft size={14} />
+              Back to QC
+            </a>
+            <h1 className="text-3xl font-bold text-white">Models</h1>
+            <p className="text-gray-400">
+              Which model reads the drawings for each check category • last saved by {saved?.updatedBy}
+              {saved && saved.updatedBy !== 'Built-in' && `, ${new Date(saved.updatedAt).toLocaleString()}`}
+            </p>
+          </div>
+        </div>
+
+        {provider === 'fixtures' && (
+          <div className="mb-6 p-4 bg-amber-500/10 border border-amber-500/30 rounded-xl flex items-start gap-3 text-amber-400 text-sm">
+            <AlertCircle size={20} className="flex-shrink-0" />
+            <span>
+              Analyses on this server are answered from recorded fixtures, not Claude. Drawings without a recording get no AI findings, only the
+              rule checks.
+            </span>
+          </div>
+        )}
+
+        {/* Errors */}
+        {errors.length > 0 && (
+          <div className="mb-6 p-4 bg-red-500/10 border border-red-500/30 rounded-xl flex items-start gap-3 text-red-400">
+            <AlertCircle size={20} className="flex-shrink-0 mt-0.5" />
+            <ul className="space-y-1 text-sm">
+              {errors.map((error, idx) => (
+                <li key={idx}>{error}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {message && errors.length === 0 && (
+          <div className="mb-6 p-4 bg-emerald-500/10 border border-emerald-500/30 rounded-xl flex items-center gap-3 text-emerald-400">
+            <CheckCircle size={20} />
+            <span>{message}</span>
+          </div>
+        )}
+
+        <div className="grid grid-cols-3 gap-6">
+          <div className="col-span-2 space-y-4">
+            {/* Default */}
+            <div className="border border-gray-800 rounded-xl overflow-hidden">
+              <div className="p-4 bg-gray-900/50 border-b border-gray-800">
+                <h3 className="font-bold text-white">DEFAULT</h3>
+              </div>
+              <div className="p-4 grid grid-cols-4 gap-3 items-end">
+                <ChoiceInputs choice={draft.default} onChange={(choice) => setDraft({ ...draft, default: choice })} />
+              </div>
+            </div>
+
+            {/* Per category */}
+            <div className="border border-gray-800 rounded-xl overflow-hidden">
+              <div className="p-4 bg-gray-900/50 border-b border-gray-800 flex items-center justify-between">
+                <h3 className="font-bold text-white">BY CATEGORY</h3>
+                <span className="text-xs text-gray-500">Categories on another model are asked in a separate request</span>
+              </div>
+              <div className="divide-y divide-gray-800/50">
+                {CATEGORIES.map((category) => {
+                  const own = draft.categories[category.id];
+                  return (
+                    <div key={category.id} className="p-4 grid grid-cols-6 gap-3 items-end">
+                      <label className="col-span-2 flex items-center gap-2 pb-2 text-sm text-gray-300">
+                        <input
+                          type="checkbox"
+                          checked={!!own}
+                          onChange={(e) => setCategory(category.id, e.target.checked ? { ...draft.default } : undefined)}
+                          className="accent-orange-500"
+                        />
+                        {category.title}
+                      </label>
+                      <div className="col-span-4 grid grid-cols-4 gap-3">
+                        <ChoiceInputs choice={own ?? draft.default} disabled={!own} onChange={(choice) => setCategory(category.id, choice)} />
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          </div>
+
+          {/* Sidebar */}
+          <div className="space-y-4">
+            <div className="p-4 bg-gray-900/50 border border-gray-800 rounded-xl space-y-2 text-sm text-gray-400">
+              <h3 className="font-bold text-white">How It&apos;s Used</h3>
+              <p>Checks are grouped by model and each group is one request per drawing (or page batch).</p>
+              <p>A group gets the largest token limit among its categories. The group on the default model also reads the title blocks.</p>
+            </div>
+
+            <div className="p-4 bg-gray-900/50 border border-gray-800 rounded-xl space-y-3">
+              <h3 className="font-bold text-white">Save Changes</h3>
+              <button
+                onClick={save}
+                disabled={!isDirty || isSaving}
+                className={`w-full py-2.5 rounded-lg font-bold flex items-center justify-center gap-2 ${
+                  isDirty ? 'bg-gradient-to-r from-orange-500 to-pink-500 text-black' : 'bg-gray-800 text-gray-500 cursor-not-allowed'
+                }`}
+              >
+                {isSaving ? <Loader2 size={16} className="animate-spin" /> : <Save size={16} />}
+                Save settings
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,7 @@
+import ModelSettingsAdmin from './ModelSettingsAdmin';
+
+export const dynamic = 'force-dynamic';
+
+export default function ModelSettingsAdminPage() {
+  return <ModelSettingsAdmin />;
+}
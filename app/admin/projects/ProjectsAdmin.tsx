@@ -0,0 +1,252 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { AlertCircle, ArrowLeft, CheckCircle, Loader2, Pencil, Plus, Save, Search, Trash2, Upload } from 'lucide-react';
+import { RECORD_FIELDS, type RecordField } from '@/lib/titleBlock';
+import type { ProjectRecord } from '@/lib/types';
+
+type RecordForm = Record<RecordField, string>;
+
+const EMPTY_FORM = Object.fromEntries(RECORD_FIELDS.map((field) => [field.id, ''])) as RecordForm;
+
+const PLACEHOLDERS: Partial<RecordForm> = {
+  projectName: 'Hotel Lobby Feature Wall',
+  location: 'Austin, TX',
+  mrqNumber: '1234',
+  productionNumber: '5678',
+  version: 'V2',
+  date: '01/15/2025',
+};
+
+export default function ProjectsAdmin() {
+  const [projects, setProjects] = useState<ProjectRecord[] | null>(null);
+  const [query, setQuery] = useState('');
+  const [form, setForm] = useState<RecordForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const load = useCallback(async (search: string) => {
+    const response = await fetch(`/api/projects${search ? `?q=${encodeURIComponent(search)}` : ''}`, { cache: 'no-store' });
+    const data = await response.json();
+    if (!response.ok) {
+      setErrors([data.error || 'Failed to load project records']);
+      return;
+    }
+    setProjects(data.projects);
+  }, []);
+
+  useEffect(() => {
+    load(query);
+  }, [load, query]);
+
+  const edit = (project: ProjectRecord) => {
+    setEditingId(project.id);
+    setForm(Object.fromEntries(RECORD_FIELDS.map((field) => [field.id, project[field.id] ?? ''])) as RecordForm);
+    setErrors([]);
+    setMessage(null);
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const save = async () => {
+    setIsSaving(true);
+    setErrors([]);
+    try {
+      const response = await fetch(editingId ? `/api/projects/${editingId}` : '/api/projects', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ project: form }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setErrors([data.error || 'Failed to save project record']);
+        return;
+      }
+      setMessage(`Saved ${data.project.projectName || `MRQ ${data.project.mrqNumber}`}`);
+      cancelEdit();
+      await load(query);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const remove = async (project: ProjectRecord) => {
+    if (!window.confirm(`Delete the record for ${project.projectName || `MRQ ${project.mrqNumber}`}?`)) return;
+    const response = await fetch(`/api/projects/${project.id}`, { method: 'DELETE' });
+    if (!response.ok) {
+      const data = await response.json();
+      setErrors([data.error || 'Failed to delete project record']);
+      return;
+    }
+    if (editingId === project.id) cancelEdit();
+    await load(query);
+  };
+
+  const importCsv = async (file: File) => {
+    setIsImporting(true);
+    setErrors([]);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/projects/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ csv: await file.text() }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setErrors([data.error || 'Failed to import the CSV']);
+        return;
+      }
+      setMessage(`Imported ${file.name}: ${data.created} added, ${data.updated} updated`);
+      setErrors(data.skipped.map((skip: { row: number; reason: string }) => `Row ${skip.row} skipped: ${skip.reason}`));
+      await load(query);
+    } finally {
+      setIsImporting(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-black p-8">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <a href="/" className="text-sm text-gray-500 hover:text-gray-300 flex items-center gap-1 mb-2">
+              <ArrowLeft size={14} />
+              Back to QC
+            </a>
+            <h1 className="text-3xl font-bold text-white">Project Records</h1>
+            <p className="text-gray-400">Expected title block values. Each analysis is checked against the record its title blocks match, or the one the drafter picks.</p>
+          </div>
+          <div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={(e) => e.target.files?.[0] && importCsv(e.target.files[0])}
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isImporting}
+              className="px-4 py-2.5 bg-gradient-to-r from-orange-500 to-pink-500 text-black font-bold rounded-lg flex items-center gap-2"
+            >
+              {isImporting ? <Loader2 size={16} className="animate-spin" /> : <Upload size={16} />}
+              Import job list CSV
+            </button>
+          </div>
+        </div>
+
+        {/* Errors */}
+        {errors.length > 0 && (
+          <div className="mb-6 p-4 bg-red-500/10 border border-red-500/30 rounded-xl flex items-start gap-3 text-red-400">
+            <AlertCircle size={20} className="flex-shrink-0 mt-0.5" />
+            <ul className="space-y-1 text-sm">
+              {errors.map((error, idx) => (
+                <li key={idx}>{error}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {message && (
+          <div className="mb-6 p-4 bg-emerald-500/10 border border-emerald-500/30 rounded-xl flex items-center gap-3 text-emerald-400">
+            <CheckCircle size={20} />
+            <span>{message}</span>
+          </div>
+        )}
+
+        <div className="grid grid-cols-3 gap-6">
+          {/* Records */}
+          <div className="col-span-2 space-y-4">
+            <div className="relative">
+              <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500" />
+              <input
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search by project, location, MRQ # or production #"
+                className="w-full bg-gray-900 border border-gray-800 rounded-xl pl-9 pr-3 py-2.5 text-sm text-gray-200"
+              />
+            </div>
+
+            {projects === null ? (
+              <div className="p-12 flex justify-center">
+                <Loader2 className="text-orange-400 animate-spin" size={32} />
+              </div>
+            ) : projects.length === 0 ? (
+              <div className="p-12 border border-dashed border-gray-800 rounded-xl text-center text-gray-500">
+                {query ? 'No records match.' : 'No project records yet. Import the job list CSV or add one by hand.'}
+              </div>
+            ) : (
+              <div className="border border-gray-800 rounded-xl overflow-hidden divide-y divide-gray-800/50">
+                {projects.map((project) => (
+                  <div key={project.id} className={`p-4 flex items-start gap-4 ${editingId === project.id ? 'bg-orange-500/5' : ''}`}>
+                    <div className="flex-1 min-w-0">
+                      <div className="font-semibold text-white">{project.projectName || 'Unnamed project'}</div>
+                      <div className="text-sm text-gray-400 mt-1 flex flex-wrap gap-x-4 gap-y-1">
+                        {RECORD_FIELDS.filter((field) => field.id !== 'projectName' && project[field.id]).map((field) => (
+                          <span key={field.id}>
+                            <span className="text-gray-500">{field.label}:</span> {project[field.id]}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                    <button onClick={() => edit(project)} className="p-2 text-gray-500 hover:text-orange-400" title="Edit">
+                      <Pencil size={16} />
+                    </button>
+                    <button onClick={() => remove(project)} className="p-2 text-gray-500 hover:text-red-400" title="Delete">
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Add / Edit */}
+          <div className="p-4 bg-gray-900/50 border border-gray-800 rounded-xl space-y-3 self-start">
+            <h3 className="font-bold text-white flex items-center gap-2">
+              {editingId ? <Pencil size={18} /> : <Plus size={18} />}
+              {editingId ? 'Edit Record' : 'Add Record'}
+            </h3>
+            {RECORD_FIELDS.map((field) => (
+              <label key={field.id} className="block">
+                <span className="text-xs text-gray-500">{field.label}</span>
+                <input
+                  value={form[field.id]}
+                  onChange={(e) => setForm({ ...form, [field.id]: e.target.value })}
+                  placeholder={PLACEHOLDERS[field.id]}
+                  className="w-full bg-gray-900 border border-gray-700 rounded-lg px-2 py-1.5 text-sm text-gray-200"
+                />
+              </label>
+            ))}
+            <p className="text-xs text-gray-500">Title block dates older than the record&apos;s date are flagged as stale.</p>
+            <div className="flex gap-2">
+              <button
+                onClick={save}
+                disabled={isSaving}
+                className="flex-1 py-2.5 rounded-lg font-bold flex items-center justify-center gap-2 bg-gradient-to-r from-orange-500 to-pink-500 text-black"
+              >
+                {isSaving ? <Loader2 size={16} className="animate-spin" /> : <Save size={16} />}
+                Save
+              </button>
+              {editingId && (
+                <button onClick={cancelEdit} className="px-4 py-2.5 border border-gray-700 text-gray-300 rounded-lg hover:bg-gray-800">
+                  Cancel
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,7 @@
+import ProjectsAdmin from './ProjectsAdmin';
+
+export const dynamic = 'force-dynamic';
+
+export default function ProjectsAdminPage() {
+  return <ProjectsAdmin />;
+}
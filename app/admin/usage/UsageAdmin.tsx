@@ -0,0 +1,228 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { AlertCircle, ArrowLeft, CheckCircle, Loader2, Save } from 'lucide-react';
+import { formatCost, monthOf, validateBudget, type UsageBudget, type UsageSummary, type UsageTotals } from '@/lib/usage';
+
+const inputClass = 'w-full bg-gray-900 border border-gray-700 rounded-lg px-2 py-1.5 text-sm text-gray-200';
+
+const formatTokens = (totals: UsageTotals) => (totals.inputTokens + totals.outputTokens).toLocaleString();
+
+// Dollar amounts as typed; blank means no limit
+const toLimit = (text: string) => (text.trim() === '' ? null : Number(text));
+const fromLimit = (limit: number | null) => (limit === null ? '' : String(limit));
+
+function UsageTable({ title, rows, limit, empty }: { title: string; rows: UsageTotals[]; limit?: number | null; empty: string }) {
+  return (
+    <div className="border border-gray-800 rounded-xl overflow-hidden">
+      <div className="p-4 bg-gray-900/50 border-b border-gray-800">
+        <h3 className="font-bold text-white">{title}</h3>
+      </div>
+      {rows.length === 0 ? (
+        <p className="p-4 text-sm text-gray-500">{empty}</p>
+      ) : (
+        <div className="divide-y divide-gray-800/50 text-sm">
+          <div className="px-4 py-2 grid grid-cols-6 gap-4 text-xs text-gray-500">
+            <span className="col-span-3" />
+            <span className="text-right">Analyses</span>
+            <span className="text-right">Tokens</span>
+            <span className="text-right">Cost</span>
+          </div>
+          {rows.map((row) => (
+            <div key={row.key} className="px-4 py-2 grid grid-cols-6 gap-4">
+              <span className="col-span-3 text-gray-200 truncate">{row.key || '(no project)'}</span>
+              <span className="text-right text-gray-400">{row.analyses}</span>
+              <span className="text-right text-gray-400">{formatTokens(row)}</span>
+              <span className={`text-right font-semibold ${limit && row.costUsd >= limit ? 'text-pink-400' : 'text-gray-200'}`}>{formatCost(row.costUsd)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Spending by day, user and project, and the budgets that stop new analyses
+export default function UsageAdmin() {
+  const [month, setMonth] = useState(() => monthOf(new Date()));
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+  const [budget, setBudget] = useState<UsageBudget | null>(null);
+  const [draft, setDraft] = useState({ monthlyUsd: '', perUserMonthlyUsd: '' });
+  const [errors, setErrors] = useState<string[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    const response = await fetch(`/api/usage?month=${month}`, { cache: 'no-store' });
+    const data = await response.json();
+    if (!response.ok) {
+      setErrors([data.error || 'Failed to load usage']);
+      return;
+    }
+    setSummary(data.summary);
+    setBudget(data.budget);
+    setDraft({ monthlyUsd: fromLimit(data.budget.monthlyUsd), perUserMonthlyUsd: fromLimit(data.budget.perUserMonthlyUsd) });
+  }, [month]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const isDirty =
+    budget !== null && (toLimit(draft.monthlyUsd) !== budget.monthlyUsd || toLimit(draft.perUserMonthlyUsd) !== budget.perUserMonthlyUsd);
+
+  const save = async () => {
+    const edited = { monthlyUsd: toLimit(draft.monthlyUsd), perUserMonthlyUsd: toLimit(draft.perUserMonthlyUsd) };
+    const problems = validateBudget(edited);
+    if (problems.length > 0) {
+      setErrors(problems);
+      return;
+    }
+
+    setIsSaving(true);
+    setErrors([]);
+    try {
+      const response = await fetch('/api/usage', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ budget: edited }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setErrors(data.details || [data.error || 'Failed to save the budget']);
+        return;
+      }
+      setMessage('Saved the budget; it applies to the next analysis started');
+      setBudget(data.budget);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isCurrentMonth = month === monthOf(new Date());
+  const monthlyLimit = budget?.monthlyUsd ?? null;
+
+  return (
+    <div className="min-h-screen bg-black p-8">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="flex items-end justify-between mb-8">
+          <div>
+            <a href="/" className="text-sm text-gray-500 hover:text-gray-300 flex items-center gap-1 mb-2">
+              <ArrowLeft size={14} />
+              Back to QC
+            </a>
+            <h1 className="text-3xl font-bold text-white">Usage</h1>
+            <p className="text-gray-400">Tokens and cost of every analysis, failed ones included, at Anthropic list prices</p>
+          </div>
+          <input type="month" value={month} onChange={(e) => e.target.value && setMonth(e.target.value)} className="bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-200" />
+        </div>
+
+        {/* Errors */}
+        {errors.length > 0 && (
+          <div className="mb-6 p-4 bg-red-500/10 border border-red-500/30 rounded-xl flex items-start gap-3 text-red-400">
+            <AlertCircle size={20} className="flex-shrink-0 mt-0.5" />
+            <ul className="space-y-1 text-sm">
+              {errors.map((error, idx) => (
+                <li key={idx}>{error}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {message && errors.length === 0 && (
+          <div className="mb-6 p-4 bg-emerald-500/10 border border-emerald-500/30 rounded-xl flex items-center gap-3 text-emerald-400">
+            <CheckCircle size={20} />
+            <span>{message}</span>
+          </div>
+        )}
+
+        {!summary || !budget ? (
+          errors.length === 0 && (
+            <div className="p-12 flex justify-center">
+              <Loader2 className="text-orange-400 animate-spin" size={32} />
+            </div>
+          )
+        ) : (
+          <div className="grid grid-cols-3 gap-6">
+            <div className="col-span-2 space-y-4">
+              <div className="grid grid-cols-3 gap-4">
+                <div className="p-4 bg-gray-900/50 border border-gray-800 rounded-xl">
+                  <div className="text-xs text-gray-500">Spent</div>
+                  <div className={`text-2xl font-bold ${monthlyLimit && summary.totals.costUsd >= monthlyLimit ? 'text-pink-400' : 'text-white'}`}>
+                    {formatCost(summary.totals.costUsd)}
+                  </div>
+                  {monthlyLimit !== null && <div className="text-xs text-gray-500">of {formatCost(monthlyLimit)} budget</div>}
+                </div>
+                <div className="p-4 bg-gray-900/50 border border-gray-800 rounded-xl">
+                  <div className="text-xs text-gray-500">Analyses</div>
+                  <div className="text-2xl font-bold text-white">{summary.totals.analyses}</div>
+                  {summary.totals.analyses > 0 && (
+                    <div className="text-xs text-gray-500">{formatCost(summary.totals.costUsd / summary.totals.analyses)} each on average</div>
+                  )}
+                </div>
+                <div className="p-4 bg-gray-900/50 border border-gray-800 rounded-xl">
+                  <div className="text-xs text-gray-500">Tokens</div>
+                  <div className="text-2xl font-bold text-white">{formatTokens(summary.totals)}</div>
+                  <div className="text-xs text-gray-500">
+                    {summary.totals.inputTokens.toLocaleString()} in, {summary.totals.outputTokens.toLocaleString()} out
+                  </div>
+                </div>
+              </div>
+
+              <UsageTable title="BY DAY" rows={summary.byDay} empty="No analyses this month." />
+              <UsageTable title="BY USER" rows={summary.byUser} limit={isCurrentMonth ? budget.perUserMonthlyUsd : null} empty="No analyses this month." />
+              <UsageTable title="BY PROJECT" rows={summary.byProject} empty="No analyses this month." />
+            </div>
+
+            {/* Sidebar */}
+            <div className="space-y-4">
+              <div className="p-4 bg-gray-900/50 border border-gray-800 rounded-xl space-y-3">
+                <h3 className="font-bold text-white">Monthly Budgets</h3>
+                <p className="text-xs text-gray-500">
+                  New analyses are refused once a budget is used up, until the next month starts. Leave blank for no limit.
+                </p>
+                <label className="block">
+                  <span className="text-xs text-gray-500">Everyone ($)</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={draft.monthlyUsd}
+                    onChange={(e) => setDraft({ ...draft, monthlyUsd: e.target.value })}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="block">
+                  <span className="text-xs text-gray-500">Each user ($)</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={draft.perUserMonthlyUsd}
+                    onChange={(e) => setDraft({ ...draft, perUserMonthlyUsd: e.target.value })}
+                    className={inputClass}
+                  />
+                </label>
+                <button
+                  onClick={save}
+                  disabled={!isDirty || isSaving}
+                  className={`w-full py-2.5 rounded-lg font-bold flex items-center justify-center gap-2 ${
+                    isDirty ? 'bg-gradient-to-r from-orange-500 to-pink-500 text-black' : 'bg-gray-800 text-gray-500 cursor-not-allowed'
+                  }`}
+                >
+                  {isSaving ? <Loader2 size={16} className="animate-spin" /> : <Save size={16} />}
+                  Save budgets
+                </button>
+                <p className="text-xs text-gray-600">
+                  Last saved by {budget.updatedBy}
+                  {budget.updatedBy !== 'Built-in' && `, ${new Date(budget.updatedAt).toLocaleString()}`}
+                </p>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,7 @@
+import UsageAdmin from './UsageAdmin';
+
+export const dynamic = 'force-dynamic';
+
+export default function UsageAdminPage() {
+  return <UsageAdmin />;
+}
@@ -0,0 +1,201 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { AlertCircle, ArrowLeft, CheckCircle, KeyRound, Loader2, Plus, Trash2 } from 'lucide-react';
+import type { UserSummary } from '@/lib/auth/users';
+import { ROLES, type Role } from '@/lib/auth/types';
+
+const inputClass = 'w-full bg-gray-900 border border-gray-700 rounded-lg px-2 py-1.5 text-sm text-gray-200';
+
+const EMPTY_FORM = { username: '', name: '', role: 'drafter' as Role, password: '' };
+
+const ROLE_HINTS: Record<Role, string> = {
+  drafter: 'Uploads drawings, runs analyses and submits them for review.',
+  reviewer: 'Also approves submissions and manages the checklist, catalogs, projects and users.',
+};
+
+export default function UsersAdmin() {
+  const [users, setUsers] = useState<UserSummary[] | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    const response = await fetch('/api/users', { cache: 'no-store' });
+    const data = await response.json();
+    if (!response.ok) {
+      setError(data.error || 'Failed to load users');
+      return;
+    }
+    setUsers(data.users);
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const send = async (url: string, method: string, body?: object): Promise<boolean> => {
+    setError(null);
+    setMessage(null);
+    const response = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      setError(data.error || 'Failed to save user');
+      return false;
+    }
+    await load();
+    return true;
+  };
+
+  const create = async () => {
+    setIsSaving(true);
+    try {
+      if (await send('/api/users', 'POST', form)) {
+        setMessage(`Added ${form.name.trim()} as a ${form.role}`);
+        setForm(EMPTY_FORM);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const changeRole = async (user: UserSummary, role: Role) => {
+    if (await send(`/api/users/${user.id}`, 'PUT', { role })) {
+      setMessage(`${user.name} is now a ${role}`);
+    }
+  };
+
+  const resetPassword = async (user: UserSummary) => {
+    const password = window.prompt(`New password for ${user.name}`);
+    if (!password) return;
+    if (await send(`/api/users/${user.id}`, 'PUT', { password })) {
+      setMessage(`Reset the password for ${user.name}`);
+    }
+  };
+
+  const remove = async (user: UserSummary) => {
+    if (!window.confirm(`Delete the account for ${user.name}? Their past analyses and reviews keep their name.`)) return;
+    if (await send(`/api/users/${user.id}`, 'DELETE')) {
+      setMessage(`Deleted ${user.name}`);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-black p-8">
+      <div className="max-w-5xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <a href="/" className="text-sm text-gray-500 hover:text-gray-300 flex items-center gap-1 mb-2">
+            <ArrowLeft size={14} />
+            Back to QC
+          </a>
+          <h1 className="text-3xl font-bold text-white">Users</h1>
+          <p className="text-gray-400">Who can sign in, and whether they draft or review.</p>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-500/10 border border-red-500/30 rounded-xl flex items-center gap-3 text-red-400">
+            <AlertCircle size={20} />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {message && (
+          <div className="mb-6 p-4 bg-emerald-500/10 border border-emerald-500/30 rounded-xl flex items-center gap-3 text-emerald-400">
+            <CheckCircle size={20} />
+            <span>{message}</span>
+          </div>
+        )}
+
+        <div className="grid grid-cols-3 gap-6">
+          {/* Accounts */}
+          <div className="col-span-2">
+            {users === null ? (
+              <div className="p-12 flex justify-center">
+                <Loader2 className="text-orange-400 animate-spin" size={32} />
+              </div>
+            ) : (
+              <div className="border border-gray-800 rounded-xl overflow-hidden divide-y divide-gray-800/50">
+                {users.map((user) => (
+                  <div key={user.id} className="p-4 flex items-center gap-4">
+                    <div className="flex-1 min-w-0">
+                      <div className="font-semibold text-white">{user.name}</div>
+                      <div className="text-sm text-gray-500">{user.username}</div>
+                    </div>
+                    <select
+                      value={user.role}
+                      onChange={(e) => changeRole(user, e.target.value as Role)}
+                      className="bg-gray-900 border border-gray-700 rounded-lg px-2 py-1.5 text-sm text-gray-200"
+                    >
+                      {ROLES.map((role) => (
+                        <option key={role} value={role}>
+                          {role}
+                        </option>
+                      ))}
+                    </select>
+                    <button onClick={() => resetPassword(user)} className="p-2 text-gray-500 hover:text-orange-400" title="Reset password">
+                      <KeyRound size={16} />
+                    </button>
+                    <button onClick={() => remove(user)} className="p-2 text-gray-500 hover:text-red-400" title="Delete">
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Add */}
+          <div className="p-4 bg-gray-900/50 border border-gray-800 rounded-xl space-y-3 self-start">
+            <h3 className="font-bold text-white flex items-center gap-2">
+              <Plus size={18} />
+              Add User
+            </h3>
+            <label className="block">
+              <span className="text-xs text-gray-500">Username</span>
+              <input value={form.username} onChange={(e) => setForm({ ...form, username: e.target.value })} className={inputClass} />
+            </label>
+            <label className="block">
+              <span className="text-xs text-gray-500">Full name</span>
+              <input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} className={inputClass} />
+            </label>
+            <label className="block">
+              <span className="text-xs text-gray-500">Role</span>
+              <select value={form.role} onChange={(e) => setForm({ ...form, role: e.target.value as Role })} className={inputClass}>
+                {ROLES.map((role) => (
+                  <option key={role} value={role}>
+                    {role}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <p className="text-xs text-gray-500">{ROLE_HINTS[form.role]}</p>
+            <label className="block">
+              <span className="text-xs text-gray-500">Password</span>
+              <input
+                type="password"
+                value={form.password}
+                onChange={(e) => setForm({ ...form, password: e.target.value })}
+                autoComplete="new-password"
+                className={inputClass}
+              />
+            </label>
+            <button
+              onClick={create}
+              disabled={isSaving}
+              className="w-full py-2.5 rounded-lg font-bold flex items-center justify-center gap-2 bg-gradient-to-r from-orange-500 to-pink-500 text-black"
+            >
+              {isSaving ? <Loader2 size={16} className="animate-spin" /> : <Plus size={16} />}
+              Add user
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,7 @@
+import UsersAdmin from './UsersAdmin';
+
+export const dynamic = 'force-dynamic';
+
+export default function UsersAdminPage() {
+  return <UsersAdmin />;
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthProvider, setSessionCookie } from '@/lib/auth';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { username, password } = await request.json();
+    if (typeof username !== 'string' || typeof password !== 'string' || !username.trim() || !password) {
+      return NextResponse.json({ error: 'Enter your username and password' }, { status: 400 });
+    }
+
+    const user = await getAuthProvider().signIn({ username, password });
+    if (!user) {
+      return NextResponse.json({ error: 'Wrong username or password' }, { status: 401 });
+    }
+
+    const response = NextResponse.json({ user });
+    await setSessionCookie(response, user);
+    return response;
+  } catch (error) {
+    console.error('Sign in error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Sign in failed' },
+      { status: 500 }
+    );
+  }
+}
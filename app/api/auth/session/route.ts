@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import { hasUsers } from '@/lib/auth/users';
+
+export const dynamic = 'force-dynamic';
+
+// The signed-in user, or null with whether the first account still needs creating
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    return NextResponse.json({ user, needsSetup: !user && !(await hasUsers()) });
+  } catch (error) {
+    console.error('Session load error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load session' },
+      { status: 500 }
+    );
+  }
+}
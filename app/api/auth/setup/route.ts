@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { setSessionCookie } from '@/lib/auth';
+import { createUser, hasUsers, toSessionUser, UserInputError } from '@/lib/auth/users';
+
+// Create the first account, as a reviewer, on a fresh install. Later
+// accounts are added by a reviewer at /admin/users.
+export async function POST(request: NextRequest) {
+  try {
+    if (await hasUsers()) {
+      return NextResponse.json({ error: 'Accounts already exist; ask a reviewer to add you' }, { status: 409 });
+    }
+
+    const { username, name, password } = await request.json();
+    const user = toSessionUser(await createUser({ username, name, password, role: 'reviewer' }));
+
+    const response = NextResponse.json({ user }, { status: 201 });
+    await setSessionCookie(response, user);
+    return response;
+  } catch (error) {
+    if (error instanceof UserInputError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Account setup error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create the account' },
+      { status: 500 }
+    );
+  }
+}
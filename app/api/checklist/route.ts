@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthError, requireUser } from '@/lib/auth';
+import { validateChecks, type CheckDefinition } from '@/lib/checklist';
+import { getChecklistVersion, getCurrentChecklist, listChecklistVersions, saveChecklist } from '@/lib/checklistStore';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const versionParam = request.nextUrl.searchParams.get('version');
+
+    if (versionParam !== null) {
+      const checklist = await getChecklistVersion(Number(versionParam));
+      if (!checklist) {
+        return NextResponse.json({ error: `Checklist version ${versionParam} not found` }, { status: 404 });
+      }
+      return NextResponse.json({ checklist });
+    }
+
+    const [current, versions] = await Promise.all([getCurrentChecklist(), listChecklistVersions()]);
+    return NextResponse.json({ current, versions });
+  } catch (error) {
+    console.error('Checklist load error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load checklist' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const reviewer = await requireUser(request, 'reviewer');
+    const { checks, note } = await request.json();
+
+    const errors = validateChecks(checks, (await getCurrentChecklist()).checks);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Checklist is invalid', details: errors }, { status: 400 });
+    }
+
+    const checklist = await saveChecklist(
+      checks as CheckDefinition[],
+      reviewer.name,
+      typeof note === 'string' ? note.trim() : ''
+    );
+    return NextResponse.json({ checklist });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Checklist save error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to save checklist' },
+      { status: 500 }
+    );
+  }
+}
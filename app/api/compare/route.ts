@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fetchPdf } from '@/lib/analyze';
+import { compareRevisions, type RevisionInput } from '@/lib/compare';
+import { getJob } from '@/lib/jobStore';
+import { extractPdfText } from '@/lib/pdfText';
+
+export const dynamic = 'force-dynamic';
+
+// The previous and current revisions are finished analysis jobs
+async function loadRevision(jobId: string | null, which: string): Promise<RevisionInput | { error: string; status: number }> {
+  if (!jobId) {
+    return { error: `No ${which} analysis provided`, status: 400 };
+  }
+  const job = await getJob(jobId);
+  if (!job) {
+    return { error: `The ${which} analysis was not found`, status: 404 };
+  }
+  if (job.status !== 'done' || !job.results) {
+    return { error: `The ${which} analysis is ${job.status}`, status: 409 };
+  }
+
+  let text = null;
+  try {
+    text = await extractPdfText(await fetchPdf(job.blobUrl));
+  } catch (textError) {
+    console.error(`Text extraction failed for ${job.filename}, comparing findings only:`, textError);
+  }
+  return { jobId: job.id, filename: job.filename, results: job.results, text };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const [previous, current] = await Promise.all([
+      loadRevision(params.get('previous'), 'previous'),
+      loadRevision(params.get('current'), 'current'),
+    ]);
+
+    if ('error' in previous) {
+      return NextResponse.json({ error: previous.error }, { status: previous.status });
+    }
+    if ('error' in current) {
+      return NextResponse.json({ error: current.error }, { status: current.status });
+    }
+
+    return NextResponse.json({ comparison: compareRevisions(previous, current) });
+  } catch (error) {
+    console.error('Compare error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Comparison failed' },
+      { status: 500 }
+    );
+  }
+}
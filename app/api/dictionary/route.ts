@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthError, requireUser } from '@/lib/auth';
+import { validateDictionary, withTerm, withTypo, type SpellingDictionary } from '@/lib/dictionary';
+import { getDictionary, InvalidDictionaryError, saveDictionary, updateDictionary } from '@/lib/dictionaryStore';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const dictionary = await getDictionary();
+    return NextResponse.json({ dictionary });
+  } catch (error) {
+    console.error('Dictionary load error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load dictionary' },
+      { status: 500 }
+    );
+  }
+}
+
+// Replace the whole dictionary, from /admin/dictionary
+export async function PUT(request: NextRequest) {
+  try {
+    const reviewer = await requireUser(request, 'reviewer');
+    const { dictionary } = await request.json();
+
+    const errors = validateDictionary(dictionary);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Dictionary is invalid', details: errors }, { status: 400 });
+    }
+
+    const saved = await saveDictionary(dictionary as SpellingDictionary, reviewer.name);
+    return NextResponse.json({ dictionary: saved });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Dictionary save error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to save dictionary' },
+      { status: 500 }
+    );
+  }
+}
+
+// Accept one term ({ term }) or learn one typo ({ typo, correction }), from a
+// spelling finding in a report
+export async function POST(request: NextRequest) {
+  try {
+    const reviewer = await requireUser(request, 'reviewer');
+    const { term, typo, correction } = await request.json();
+
+    let change: (current: SpellingDictionary) => SpellingDictionary;
+    if (typeof term === 'string' && term.trim()) {
+      change = (current) => withTerm(current, term);
+    } else if (typeof typo === 'string' && typo.trim() && typeof correction === 'string' && correction.trim()) {
+      change = (current) => withTypo(current, typo, correction);
+    } else {
+      return NextResponse.json({ error: 'Give a term, or a typo and its correction' }, { status: 400 });
+    }
+
+    const saved = await updateDictionary(change, reviewer.name);
+    return NextResponse.json({ dictionary: saved });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof InvalidDictionaryError) {
+      return NextResponse.json({ error: error.message, details: error.errors }, { status: 400 });
+    }
+    console.error('Dictionary update error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update dictionary' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthError, requireUser } from '@/lib/auth';
+import { summarizeFeedback } from '@/lib/feedback';
+import { listProjectFeedback } from '@/lib/feedbackStore';
+
+export const dynamic = 'force-dynamic';
+
+// Finding verdicts per check across every project, noisiest checks first
+export async function GET(request: NextRequest) {
+  try {
+    await requireUser(request, 'reviewer');
+    return NextResponse.json({ checks: summarizeFeedback(await listProjectFeedback()) });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Feedback summary error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load feedback' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readLocalUpload } from '@/lib/localUploads';
+
+export const dynamic = 'force-dynamic';
+
+// A PDF uploaded to this server (see lib/localUploads.ts), for the page viewer
+export async function GET(_request: NextRequest, { params }: { params: { name: string } }) {
+  try {
+    const bytes = await readLocalUpload(`/api/files/${params.name}`);
+    if (!bytes) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+    return new NextResponse(bytes, { headers: { 'Content-Type': 'application/pdf', 'Cache-Control': 'private, max-age=3600' } });
+  } catch (error) {
+    console.error('File load error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load file' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { HISTORY_STATUSES, listAnalyses } from '@/lib/historyStore';
+
+export const dynamic = 'force-dynamic';
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const status = params.get('status') || undefined;
+    const from = params.get('from') || undefined;
+    const to = params.get('to') || undefined;
+
+    if (status && !HISTORY_STATUSES.includes(status)) {
+      return NextResponse.json({ error: `Unknown status: ${status}` }, { status: 400 });
+    }
+    if ((from && !DATE.test(from)) || (to && !DATE.test(to))) {
+      return NextResponse.json({ error: 'Dates must be YYYY-MM-DD' }, { status: 400 });
+    }
+
+    const analyses = await listAnalyses({ project: params.get('project') || undefined, status, from, to });
+    return NextResponse.json({ analyses });
+  } catch (error) {
+    console.error('History load error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load analysis history' },
+      { status: 500 }
+    );
+  }
+}
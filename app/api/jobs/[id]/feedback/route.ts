@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthError, requireOwnerOrReviewer, requireUser, type SessionUser } from '@/lib/auth';
+import { FEEDBACK_VERDICTS, findingKey } from '@/lib/feedback';
+import { clearFeedback, getFeedback, saveFeedback } from '@/lib/feedbackStore';
+import { getJob } from '@/lib/jobStore';
+import { projectKey } from '@/lib/titleBlock';
+import type { AnalysisJob, FeedbackVerdict } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+// The finished job and the project its feedback is kept under, or the response explaining why not
+async function loadProject(id: string, user: SessionUser): Promise<{ job: AnalysisJob; key: string } | NextResponse> {
+  const job = await getJob(id);
+  if (!job) {
+    return NextResponse.json({ error: 'Analysis job not found' }, { status: 404 });
+  }
+  requireOwnerOrReviewer(user, job.runById);
+  if (job.status !== 'done' || !job.results) {
+    return NextResponse.json({ error: `Analysis job is ${job.status}, only finished reports take feedback` }, { status: 409 });
+  }
+  const key = projectKey(job.results.projectRecord, job.results.extractedInfo);
+  if (!key) {
+    return NextResponse.json({ error: "The title block doesn't say which project this is, so feedback can't be kept for it" }, { status: 422 });
+  }
+  return { job, key };
+}
+
+// Verdicts given on this project's findings, on this analysis or earlier ones
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const project = await loadProject(params.id, await requireUser(request));
+    if (project instanceof NextResponse) return project;
+    return NextResponse.json({ projectKey: project.key, feedback: await getFeedback(project.key) });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Feedback load error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load feedback' },
+      { status: 500 }
+    );
+  }
+}
+
+// Mark one of the report's findings confirmed, a false positive or fixed
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await requireUser(request);
+    const { findingKey: key, verdict, comment } = await request.json();
+    if (!FEEDBACK_VERDICTS.some((option) => option.id === verdict)) {
+      return NextResponse.json({ error: `Verdict must be one of: ${FEEDBACK_VERDICTS.map((option) => option.id).join(', ')}` }, { status: 400 });
+    }
+
+    const project = await loadProject(params.id, user);
+    if (project instanceof NextResponse) return project;
+    const { job } = project;
+    const results = job.results!;
+    const finding = [...results.criticalIssues, ...results.warnings, ...results.manualReview, ...(results.dismissed ?? [])].find(
+      (item) => findingKey(item) === key
+    );
+    if (!finding) {
+      return NextResponse.json({ error: 'Finding not found in this report' }, { status: 404 });
+    }
+
+    const feedback = await saveFeedback(project.key, {
+      findingKey: key,
+      checkId: finding.checkId,
+      label: finding.label,
+      notes: finding.notes,
+      page: finding.page,
+      source: finding.source,
+      verdict: verdict as FeedbackVerdict,
+      comment: typeof comment === 'string' ? comment.trim() : '',
+      by: user.name,
+      at: new Date().toISOString(),
+      jobId: job.id,
+      filename: job.filename,
+    });
+    return NextResponse.json({ projectKey: project.key, feedback });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Feedback save error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to save feedback' },
+      { status: 500 }
+    );
+  }
+}
+
+// Take back a verdict, e.g. a false positive that turned out to be real
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await requireUser(request);
+    const key = request.nextUrl.searchParams.get('finding');
+    if (!key) {
+      return NextResponse.json({ error: 'Missing finding' }, { status: 400 });
+    }
+
+    const project = await loadProject(params.id, user);
+    if (project instanceof NextResponse) return project;
+    return NextResponse.json({ projectKey: project.key, feedback: await clearFeedback(project.key, key) });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Feedback delete error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to clear feedback' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthError, requireOwnerOrReviewer, requireUser } from '@/lib/auth';
+import { getJob } from '@/lib/jobStore';
+import { buildFindingsCsv, buildReportJson, buildReportPdf, REPORT_TYPES, reportFilename, type ReportFormat } from '@/lib/report';
+
+export const dynamic = 'force-dynamic';
+
+// A saved analysis as a PDF report, or its findings as CSV or JSON
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const format = (request.nextUrl.searchParams.get('format') || 'pdf') as ReportFormat;
+    if (!(format in REPORT_TYPES)) {
+      return NextResponse.json({ error: `Unknown format: ${format}. Use pdf, csv or json.` }, { status: 400 });
+    }
+
+    const user = await requireUser(request);
+    const job = await getJob(params.id);
+    if (!job) {
+      return NextResponse.json({ error: 'Analysis job not found' }, { status: 404 });
+    }
+    requireOwnerOrReviewer(user, job.runById);
+    if (job.status !== 'done' || !job.results) {
+      return NextResponse.json({ error: `Analysis job is ${job.status}` }, { status: 409 });
+    }
+
+    const body =
+      format === 'pdf'
+        ? Buffer.from(await buildReportPdf(job.results, job.filename))
+        : format === 'csv'
+          ? buildFindingsCsv(job.results, job.filename)
+          : buildReportJson(job.results, job.filename);
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': REPORT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${reportFilename(job.filename, format)}"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Report export error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to export the report' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthError, requireOwnerOrReviewer, requireUser } from '@/lib/auth';
+import { getJob } from '@/lib/jobStore';
+import { retryJob } from '@/lib/jobs';
+import { consumeAnalysis, RateLimitError } from '@/lib/rateLimit';
+import { BudgetError, checkBudget } from '@/lib/usageStore';
+
+// The retried job keeps running after the response is sent
+export const maxDuration = 300;
+
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await requireUser(request);
+    const job = await getJob(params.id);
+    if (!job) {
+      return NextResponse.json({ error: 'Analysis job not found' }, { status: 404 });
+    }
+    requireOwnerOrReviewer(user, job.runById);
+    if (job.status !== 'failed' && job.status !== 'cancelled') {
+      return NextResponse.json({ error: `Analysis job is ${job.status}, only failed or cancelled jobs can be retried` }, { status: 409 });
+    }
+    await checkBudget(user);
+    await consumeAnalysis(user);
+    return NextResponse.json({ job: await retryJob(job) }, { status: 202 });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof RateLimitError) {
+      return NextResponse.json({ error: error.message, code: 'analysis_limit' }, { status: 429, headers: { 'Retry-After': String(error.retryAfterSeconds) } });
+    }
+    if (error instanceof BudgetError) {
+      return NextResponse.json({ error: error.message, code: 'budget_exceeded' }, { status: 402 });
+    }
+    console.error('Job retry error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to retry analysis job' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthError, requireOwnerOrReviewer, requireUser } from '@/lib/auth';
+import { getJob } from '@/lib/jobStore';
+import { cancelJob } from '@/lib/jobs';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await requireUser(request);
+    const job = await getJob(params.id);
+    if (!job) {
+      return NextResponse.json({ error: 'Analysis job not found' }, { status: 404 });
+    }
+    requireOwnerOrReviewer(user, job.runById);
+    return NextResponse.json({ job });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Job load error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load analysis job' },
+      { status: 500 }
+    );
+  }
+}
+
+// Cancel a queued or running job
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await requireUser(request);
+    const job = await getJob(params.id);
+    if (!job) {
+      return NextResponse.json({ error: 'Analysis job not found' }, { status: 404 });
+    }
+    requireOwnerOrReviewer(user, job.runById);
+    if (job.status !== 'queued' && job.status !== 'running') {
+      return NextResponse.json({ error: `Analysis job is already ${job.status}` }, { status: 409 });
+    }
+    return NextResponse.json({ job: await cancelJob(job) });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Job cancel error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to cancel analysis job' },
+      { status: 500 }
+    );
+  }
+}
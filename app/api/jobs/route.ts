@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthError, requireUser } from '@/lib/auth';
+import { createJob } from '@/lib/jobStore';
+import { startJob } from '@/lib/jobs';
+import { getProjectRecord } from '@/lib/projectRecords';
+import { consumeAnalysis, RateLimitError } from '@/lib/rateLimit';
+import { BudgetError, checkBudget } from '@/lib/usageStore';
+
+// The job keeps running after the response is sent
+export const maxDuration = 300;
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    const { blobUrl, filename, projectType, projectId } = await request.json();
+
+    if (!blobUrl) {
+      return NextResponse.json({ error: 'No blob URL provided' }, { status: 400 });
+    }
+
+    if (projectId !== undefined && (typeof projectId !== 'string' || !(await getProjectRecord(projectId)))) {
+      return NextResponse.json({ error: 'Project record not found' }, { status: 404 });
+    }
+
+    await checkBudget(user);
+    await consumeAnalysis(user);
+    const job = await createJob(blobUrl, filename || 'document.pdf', projectType, projectId, user);
+    startJob(job);
+
+    return NextResponse.json({ job }, { status: 202 });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof RateLimitError) {
+      return NextResponse.json({ error: error.message, code: 'analysis_limit' }, { status: 429, headers: { 'Retry-After': String(error.retryAfterSeconds) } });
+    }
+    if (error instanceof BudgetError) {
+      return NextResponse.json({ error: error.message, code: 'budget_exceeded' }, { status: 402 });
+    }
+    console.error('Job create error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to start analysis' },
+      { status: 500 }
+    );
+  }
+}
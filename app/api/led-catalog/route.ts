@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthError, requireUser } from '@/lib/auth';
+import { validateLedCatalog, type LedCatalog } from '@/lib/ledCatalog';
+import { getLedCatalog, saveLedCatalog } from '@/lib/ledCatalogStore';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const catalog = await getLedCatalog();
+    return NextResponse.json({ catalog });
+  } catch (error) {
+    console.error('LED catalog load error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load LED catalog' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const reviewer = await requireUser(request, 'reviewer');
+    const { catalog } = await request.json();
+
+    const errors = validateLedCatalog(catalog);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'LED catalog is invalid', details: errors }, { status: 400 });
+    }
+
+    const saved = await saveLedCatalog(catalog as LedCatalog, reviewer.name);
+    return NextResponse.json({ catalog: saved });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('LED catalog save error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to save LED catalog' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthError, requireUser } from '@/lib/auth';
+import { validateModelSettings, type ModelSettings } from '@/lib/modelSettings';
+import { getModelSettings, saveModelSettings } from '@/lib/modelSettingsStore';
+import { getAnalysisProvider } from '@/lib/providers';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const settings = await getModelSettings();
+    return NextResponse.json({ settings, provider: getAnalysisProvider().name });
+  } catch (error) {
+    console.error('Model settings load error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load model settings' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const reviewer = await requireUser(request, 'reviewer');
+    const { settings } = await request.json();
+
+    const errors = validateModelSettings(settings);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Model settings are invalid', details: errors }, { status: 400 });
+    }
+
+    const saved = await saveModelSettings(settings as ModelSettings, reviewer.name);
+    return NextResponse.json({ settings: saved });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Model settings save error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to save model settings' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthError, requireUser } from '@/lib/auth';
+import { deleteProjectRecord, getProjectRecord, InvalidRecordError, saveProjectRecord } from '@/lib/projectRecords';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const project = await getProjectRecord(params.id);
+    if (!project) {
+      return NextResponse.json({ error: 'Project record not found' }, { status: 404 });
+    }
+    return NextResponse.json({ project });
+  } catch (error) {
+    console.error('Project record load error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load project record' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    await requireUser(request, 'reviewer');
+    if (!(await getProjectRecord(params.id))) {
+      return NextResponse.json({ error: 'Project record not found' }, { status: 404 });
+    }
+    const { project } = await request.json();
+    const { record } = await saveProjectRecord(project ?? {}, params.id);
+    return NextResponse.json({ project: record });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof InvalidRecordError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Project record save error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to save project record' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    await requireUser(request, 'reviewer');
+    if (!(await getProjectRecord(params.id))) {
+      return NextResponse.json({ error: 'Project record not found' }, { status: 404 });
+    }
+    await deleteProjectRecord(params.id);
+    return NextResponse.json({ deleted: params.id });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Project record delete error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete project record' },
+      { status: 500 }
+    );
+  }
+}
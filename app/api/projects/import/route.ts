@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthError, requireUser } from '@/lib/auth';
+import { importProjectRecords, InvalidRecordError } from '@/lib/projectRecords';
+
+// Import the job list exported as CSV, sent as { csv: "<file contents>" }
+export async function POST(request: NextRequest) {
+  try {
+    await requireUser(request, 'reviewer');
+    const { csv } = await request.json();
+    if (typeof csv !== 'string' || !csv.trim()) {
+      return NextResponse.json({ error: 'No CSV provided' }, { status: 400 });
+    }
+
+    const summary = await importProjectRecords(csv);
+    return NextResponse.json(summary);
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof InvalidRecordError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Project import error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to import project records' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthError, requireUser } from '@/lib/auth';
+import { InvalidRecordError, listProjectRecords, saveProjectRecord } from '@/lib/projectRecords';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const projects = await listProjectRecords(request.nextUrl.searchParams.get('q') ?? undefined);
+    return NextResponse.json({ projects });
+  } catch (error) {
+    console.error('Project records load error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load project records' },
+      { status: 500 }
+    );
+  }
+}
+
+// Add a project by hand, or update the one with the same MRQ #, production # or name
+export async function POST(request: NextRequest) {
+  try {
+    await requireUser(request, 'reviewer');
+    const { project } = await request.json();
+    const { record, created } = await saveProjectRecord(project ?? {});
+    return NextResponse.json({ project: record }, { status: created ? 201 : 200 });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof InvalidRecordError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Project record save error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to save project record' },
+      { status: 500 }
+    );
+  }
+}
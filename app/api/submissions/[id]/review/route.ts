@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthError, requireUser } from '@/lib/auth';
+import { getSubmission, InvalidTransitionError, reviewSubmission, type ReviewAction } from '@/lib/submissionStore';
+
+export const dynamic = 'force-dynamic';
+
+// Carlo approves the drawing or returns it to the drafter with comments
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const reviewer = await requireUser(request, 'reviewer');
+    const { action, comment } = await request.json();
+
+    if (action !== 'approve' && action !== 'return') {
+      return NextResponse.json({ error: 'Action must be "approve" or "return"' }, { status: 400 });
+    }
+    const text = typeof comment === 'string' ? comment.trim() : '';
+    if (action === 'return' && !text) {
+      return NextResponse.json({ error: 'Add a comment saying what needs to change' }, { status: 400 });
+    }
+
+    const submission = await getSubmission(params.id);
+    if (!submission) {
+      return NextResponse.json({ error: 'Submission not found' }, { status: 404 });
+    }
+
+    const reviewed = await reviewSubmission(submission.id, action as ReviewAction, reviewer.name, text);
+    return NextResponse.json({ submission: reviewed });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof InvalidTransitionError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error('Submission review error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to review submission' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSubmission } from '@/lib/submissionStore';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const submission = await getSubmission(params.id);
+    if (!submission) {
+      return NextResponse.json({ error: 'Submission not found' }, { status: 404 });
+    }
+    return NextResponse.json({ submission });
+  } catch (error) {
+    console.error('Submission load error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load submission' },
+      { status: 500 }
+    );
+  }
+}
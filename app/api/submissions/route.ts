@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthError, requireUser } from '@/lib/auth';
+import { getJob } from '@/lib/jobStore';
+import { createSubmission, getSubmission, listSubmissions } from '@/lib/submissionStore';
+import type { SubmissionStatus } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+const STATUSES: SubmissionStatus[] = ['pending', 'approved', 'returned'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const status = request.nextUrl.searchParams.get('status');
+    if (status && !STATUSES.includes(status as SubmissionStatus)) {
+      return NextResponse.json({ error: `Unknown status: ${status}` }, { status: 400 });
+    }
+    const submissions = await listSubmissions((status as SubmissionStatus) || undefined);
+    return NextResponse.json({ submissions });
+  } catch (error) {
+    console.error('Submissions load error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load submissions' },
+      { status: 500 }
+    );
+  }
+}
+
+// Send a finished report to Carlo's review queue
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    const { jobId, notes } = await request.json();
+
+    const job = typeof jobId === 'string' ? await getJob(jobId) : null;
+    if (!job) {
+      return NextResponse.json({ error: 'Analysis job not found' }, { status: 404 });
+    }
+    if (job.status !== 'done' || !job.results) {
+      return NextResponse.json({ error: `Analysis job is ${job.status}, only finished reports can be submitted` }, { status: 409 });
+    }
+    if (job.results.criticalIssues.length > 0) {
+      return NextResponse.json({ error: 'Fix the critical issues before sending the drawing to Carlo' }, { status: 409 });
+    }
+
+    const existing = job.submissionId ? await getSubmission(job.submissionId) : null;
+    if (existing) {
+      return NextResponse.json({ error: `This report was already submitted and is ${existing.status}` }, { status: 409 });
+    }
+
+    const submission = await createSubmission(job, user.name, typeof notes === 'string' ? notes.trim() : '');
+    return NextResponse.json({ submission }, { status: 201 });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Submission create error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to submit for review' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,28 +1,62 @@
 import { handleUpload, type HandleUploadBody } from '@vercel/blob/client';
 import { NextRequest, NextResponse } from 'next/server';
+import { AuthError, requireUser } from '@/lib/auth';
+import { saveLocalUpload } from '@/lib/localUploads';
+import { storeKind } from '@/lib/store';
 
-export async function POST(request: NextRequest) {
-  const body = (await request.json()) as HandleUploadBody;
+export const dynamic = 'force-dynamic';
+
+// Where the browser should upload to: Vercel Blob, or this server when
+// there's no blob storage (local development)
+export async function GET() {
+  return NextResponse.json({ storage: storeKind() === 'blob' ? 'blob' : 'local' });
+}
 
+// A PDF body saved to local uploads, answered with the URL the job refers to it by
+async function uploadLocally(request: NextRequest) {
+  await requireUser(request);
+  if (storeKind() === 'blob') {
+    return NextResponse.json({ error: 'Upload to blob storage instead' }, { status: 400 });
+  }
+  const bytes = await request.arrayBuffer();
+  if (new TextDecoder().decode(bytes.slice(0, 5)) !== '%PDF-') {
+    return NextResponse.json({ error: 'Only PDF files can be uploaded' }, { status: 400 });
+  }
+  const url = await saveLocalUpload(bytes);
+  return NextResponse.json({ url });
+}
+
+export async function POST(request: NextRequest) {
   try {
+    if (request.headers.get('content-type') === 'application/pdf') {
+      return await uploadLocally(request);
+    }
+
+    const body = (await request.json()) as HandleUploadBody;
     const jsonResponse = await handleUpload({
       body,
       request,
+      // Vercel Blob's upload-completed callback skips this, so the session is
+      // only needed when the browser asks for an upload token
       onBeforeGenerateToken: async () => {
-        // Authenticate user here if needed
+        const user = await requireUser(request);
         return {
           allowedContentTypes: ['application/pdf'],
-          maximumSizeInBytes: 50 * 1024 * 1024, // 50MB max
+          maximumSizeInBytes: 200 * 1024 * 1024, // 200MB max, large sets are analyzed in page batches
           addRandomSuffix: true,
+          tokenPayload: JSON.stringify({ userId: user.id }),
         };
       },
-      onUploadCompleted: async ({ blob }) => {
-        console.log('Upload completed:', blob.url);
+      onUploadCompleted: async ({ blob, tokenPayload }) => {
+        console.log('Upload completed:', blob.url, tokenPayload);
       },
     });
 
     return NextResponse.json(jsonResponse);
   } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('Upload error:', error);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Upload failed' },
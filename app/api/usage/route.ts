@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthError, requireUser } from '@/lib/auth';
+import { monthOf, summarizeUsage, validateBudget, type UsageBudget } from '@/lib/usage';
+import { getBudget, listUsage, saveBudget } from '@/lib/usageStore';
+
+export const dynamic = 'force-dynamic';
+
+// A month's spending by day, user and project (?month=YYYY-MM, this month
+// by default) with the budgets it's held to
+export async function GET(request: NextRequest) {
+  try {
+    await requireUser(request, 'reviewer');
+    const month = request.nextUrl.searchParams.get('month') || monthOf(new Date());
+    if (!/^\d{4}-\d{2}$/.test(month)) {
+      return NextResponse.json({ error: 'Month must be YYYY-MM' }, { status: 400 });
+    }
+
+    const [entries, budget] = await Promise.all([listUsage(month), getBudget()]);
+    return NextResponse.json({ summary: summarizeUsage(month, entries), budget });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Usage load error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load usage' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const reviewer = await requireUser(request, 'reviewer');
+    const { budget } = await request.json();
+
+    const errors = validateBudget(budget);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Budget is invalid', details: errors }, { status: 400 });
+    }
+
+    const saved = await saveBudget(budget as UsageBudget, reviewer.name);
+    return NextResponse.json({ budget: saved });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Budget save error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to save budget' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthError, requireUser } from '@/lib/auth';
+import { deleteUser, updateUser, UserInputError } from '@/lib/auth/users';
+
+export const dynamic = 'force-dynamic';
+
+// Rename a user, change their role or reset their password
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const reviewer = await requireUser(request, 'reviewer');
+    const { name, role, password } = await request.json();
+    if (params.id === reviewer.id && role !== undefined && role !== reviewer.role) {
+      return NextResponse.json({ error: "You can't change your own role" }, { status: 400 });
+    }
+
+    const user = await updateUser(params.id, { name, role, password: password || undefined });
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+    return NextResponse.json({ user });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof UserInputError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('User update error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update user' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const reviewer = await requireUser(request, 'reviewer');
+    if (params.id === reviewer.id) {
+      return NextResponse.json({ error: "You can't delete your own account" }, { status: 400 });
+    }
+    if (!(await deleteUser(params.id))) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+    return NextResponse.json({ deleted: params.id });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('User delete error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete user' },
+      { status: 500 }
+    );
+  }
+}
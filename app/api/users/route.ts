@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthError, requireUser } from '@/lib/auth';
+import { createUser, listUsers, UserInputError } from '@/lib/auth/users';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    await requireUser(request, 'reviewer');
+    return NextResponse.json({ users: await listUsers() });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Users load error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load users' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    await requireUser(request, 'reviewer');
+    const { username, name, role, password } = await request.json();
+    const user = await createUser({ username, name, role, password });
+    return NextResponse.json({ user }, { status: 201 });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof UserInputError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('User create error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create user' },
+      { status: 500 }
+    );
+  }
+}
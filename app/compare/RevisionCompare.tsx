@@ -0,0 +1,257 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, AlertTriangle, ArrowLeft, ArrowRight, CheckCircle, FileText, Loader2, XCircle } from 'lucide-react';
+import { fetchJob } from '@/lib/jobClient';
+import type { AnalysisJob, CheckItem, RevisionComparison } from '@/lib/types';
+
+// How often to check on analysis jobs that are still running
+const POLL_INTERVAL = 2000;
+
+function FindingRow({ item, tone }: { item: CheckItem; tone: 'resolved' | 'open' | 'introduced' }) {
+  const Icon = tone === 'resolved' ? CheckCircle : item.status === 'fail' ? XCircle : AlertTriangle;
+  const color = tone === 'resolved' ? 'text-emerald-400' : item.status === 'fail' ? 'text-pink-400' : 'text-orange-400';
+  return (
+    <div className="p-4 flex items-start gap-3">
+      <Icon size={18} className={`${color} flex-shrink-0 mt-0.5`} />
+      <div className="flex-1">
+        <div className="font-semibold text-white">{item.label}</div>
+        <div className="text-gray-400 text-sm mt-1">{item.notes}</div>
+        {item.page && <div className="text-xs text-gray-500 mt-1">Page {item.page}</div>}
+      </div>
+    </div>
+  );
+}
+
+function Section({ title, count, color, children }: { title: string; count: number; color: string; children: React.ReactNode }) {
+  return (
+    <div className="mb-4 border border-gray-800 rounded-xl overflow-hidden">
+      <div className="p-4 bg-gray-900/50 border-b border-gray-800">
+        <h3 className={`font-bold text-lg ${color}`}>
+          {title} ({count})
+        </h3>
+      </div>
+      {count > 0 ? <div className="divide-y divide-gray-800/50">{children}</div> : <p className="p-4 text-sm text-gray-500">None</p>}
+    </div>
+  );
+}
+
+export default function RevisionCompare({ previousJobId, currentJobId }: { previousJobId: string; currentJobId: string }) {
+  const [jobs, setJobs] = useState<{ previous?: AnalysisJob; current?: AnalysisJob }>({});
+  const [comparison, setComparison] = useState<RevisionComparison | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Wait for both analyses to finish (the previous PDF may have just been
+  // uploaded), then ask the server for the comparison
+  useEffect(() => {
+    if (!previousJobId || !currentJobId) {
+      setError('Two analyses are needed to compare. Start from a finished report.');
+      return;
+    }
+
+    const abort = new AbortController();
+    const run = async () => {
+      for (;;) {
+        const [previous, current] = await Promise.all([
+          fetchJob(previousJobId, abort.signal),
+          fetchJob(currentJobId, abort.signal),
+        ]);
+        setJobs({ previous, current });
+
+        const failed = [previous, current].find((job) => job.status === 'failed' || job.status === 'cancelled');
+        if (failed) {
+          throw new Error(`Analysis of ${failed.filename} ${failed.status === 'failed' ? 'failed' : 'was cancelled'}. Open it to retry.`);
+        }
+        if (previous.status === 'done' && current.status === 'done') break;
+
+        await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL));
+        abort.signal.throwIfAborted();
+      }
+
+      const response = await fetch(`/api/compare?previous=${previousJobId}&current=${currentJobId}`, { signal: abort.signal });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Comparison failed');
+      }
+      setComparison(data.comparison);
+    };
+
+    run().catch((err) => {
+      if (abort.signal.aborted) return;
+      setError(err instanceof Error ? err.message : 'Comparison failed');
+    });
+    return () => abort.abort();
+  }, [previousJobId, currentJobId]);
+
+  const header = (
+    <a href={currentJobId ? `/?job=${currentJobId}` : '/'} className="text-sm text-gray-500 hover:text-gray-300 flex items-center gap-1 mb-2">
+      <ArrowLeft size={14} />
+      Back to report
+    </a>
+  );
+
+  if (error) {
+    const failed = [jobs.previous, jobs.current].find((job) => job && job.status !== 'done');
+    return (
+      <div className="min-h-screen bg-black p-8">
+        <div className="max-w-4xl mx-auto">
+          {header}
+          <div className="mt-6 p-4 bg-red-500/10 border border-red-500/30 rounded-xl flex items-start gap-3 text-red-400">
+            <AlertCircle size={20} className="flex-shrink-0 mt-0.5" />
+            <div>
+              <span>{error}</span>
+              {failed && (
+                <div className="mt-2 text-sm">
+                  <a href={`/?job=${failed.id}`} className="underline hover:text-red-300">
+                    → Open {failed.filename}
+                  </a>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!comparison) {
+    const running = [jobs.previous, jobs.current].filter((job): job is AnalysisJob => !!job && job.status !== 'done');
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center p-8">
+        <div className="w-full max-w-md text-center space-y-6">
+          <Loader2 className="text-orange-400 animate-spin mx-auto" size={48} />
+          <h2 className="text-2xl font-bold text-white">Comparing Revisions</h2>
+          {running.map((job) => (
+            <div key={job.id} className="text-left">
+              <div className="flex justify-between text-sm text-gray-400 mb-1">
+                <span>{job.filename}</span>
+                <span>{job.percent}%</span>
+              </div>
+              <div className="w-full bg-gray-800 rounded-full h-2 overflow-hidden">
+                <div className="h-full bg-gradient-to-r from-orange-500 to-pink-500 transition-all duration-500" style={{ width: `${job.percent}%` }} />
+              </div>
+              <p className="text-xs text-gray-500 mt-1">{job.message}</p>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  const { previous, current, resolved, stillOpen, introduced, versionChanged, pageDiffs } = comparison;
+
+  return (
+    <div className="min-h-screen bg-black p-8">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <div className="mb-8 p-6 bg-gray-900/50 rounded-2xl border border-gray-800">
+          {header}
+          <div className="flex items-center gap-4 flex-wrap">
+            <div>
+              <div className="text-xs text-gray-500 uppercase tracking-wide">Previous</div>
+              <div className="text-lg font-semibold text-gray-300">{previous.filename}</div>
+              <div className="text-sm text-gray-500">{previous.version || 'Version unknown'} • {previous.pageCount} pages</div>
+            </div>
+            <ArrowRight className="text-orange-400" size={24} />
+            <div>
+              <div className="text-xs text-gray-500 uppercase tracking-wide">Current</div>
+              <div className="text-lg font-semibold text-white">{current.filename}</div>
+              <div className="text-sm text-gray-500">{current.version || 'Version unknown'} • {current.pageCount} pages</div>
+            </div>
+          </div>
+
+          {/* Stats */}
+          <div className="grid grid-cols-3 gap-4 mt-6">
+            <div className="text-center p-4 bg-emerald-500/10 rounded-xl">
+              <div className="text-4xl font-bold text-emerald-400">{resolved.length}</div>
+              <div className="text-sm text-emerald-400/70 mt-1">Resolved</div>
+            </div>
+            <div className="text-center p-4 bg-orange-500/10 rounded-xl">
+              <div className="text-4xl font-bold text-orange-400">{stillOpen.length}</div>
+              <div className="text-sm text-orange-400/70 mt-1">Still Open</div>
+            </div>
+            <div className="text-center p-4 bg-pink-500/10 rounded-xl">
+              <div className="text-4xl font-bold text-pink-400">{introduced.length}</div>
+              <div className="text-sm text-pink-400/70 mt-1">New</div>
+            </div>
+          </div>
+        </div>
+
+        {/* Version Check */}
+        {versionChanged === false && (
+          <div className="mb-4 p-4 bg-pink-500/10 border border-pink-500/30 rounded-xl flex items-start gap-3 text-pink-400">
+            <XCircle size={20} className="flex-shrink-0 mt-0.5" />
+            <span>The title block version didn't change ({current.version}). Bump the version before sending the revision to Carlo.</span>
+          </div>
+        )}
+        {versionChanged === null && (
+          <div className="mb-4 p-4 bg-gray-900/50 border border-gray-800 rounded-xl flex items-start gap-3 text-gray-400">
+            <AlertTriangle size={20} className="flex-shrink-0 mt-0.5" />
+            <span>Couldn&apos;t read the version from both title blocks. Check by hand that it changed.</span>
+          </div>
+        )}
+        {previous.checklistVersion !== current.checklistVersion && (
+          <div className="mb-4 p-4 bg-gray-900/50 border border-gray-800 rounded-xl flex items-start gap-3 text-gray-400 text-sm">
+            <AlertCircle size={18} className="flex-shrink-0 mt-0.5" />
+            <span>
+              The two reports used different checklists (v{previous.checklistVersion} and v{current.checklistVersion}), so some
+              differences may come from checklist edits rather than the drawing.
+            </span>
+          </div>
+        )}
+
+        <Section title="New Issues" count={introduced.length} color="text-pink-400">
+          {introduced.map((item, idx) => (
+            <FindingRow key={idx} item={item} tone="introduced" />
+          ))}
+        </Section>
+
+        <Section title="Still Open" count={stillOpen.length} color="text-orange-400">
+          {stillOpen.map(({ current: item }, idx) => (
+            <FindingRow key={idx} item={item} tone="open" />
+          ))}
+        </Section>
+
+        <Section title="Resolved" count={resolved.length} color="text-emerald-400">
+          {resolved.map((item, idx) => (
+            <FindingRow key={idx} item={item} tone="resolved" />
+          ))}
+        </Section>
+
+        {/* Page Text Changes */}
+        <div className="mb-4 border border-gray-800 rounded-xl overflow-hidden">
+          <div className="p-4 bg-gray-900/50 border-b border-gray-800">
+            <h3 className="font-bold text-lg text-gray-300 flex items-center gap-2">
+              <FileText size={20} />
+              Notes &amp; Callouts Changed {pageDiffs && `(${pageDiffs.length} page${pageDiffs.length === 1 ? '' : 's'})`}
+            </h3>
+          </div>
+          {pageDiffs === null ? (
+            <p className="p-4 text-sm text-gray-500">No text layer in one of the PDFs, so text changes can&apos;t be listed.</p>
+          ) : pageDiffs.length === 0 ? (
+            <p className="p-4 text-sm text-gray-500">No text changes between the two sets.</p>
+          ) : (
+            <div className="divide-y divide-gray-800/50">
+              {pageDiffs.map((diff) => (
+                <div key={diff.page} className="p-4">
+                  <div className="text-sm font-semibold text-white mb-2">
+                    Page {diff.page}
+                    {diff.status !== 'changed' && <span className="ml-2 text-xs text-gray-500">({diff.status === 'added' ? 'new page' : 'page removed'})</span>}
+                  </div>
+                  <div className="font-mono text-xs space-y-0.5">
+                    {diff.removed.map((line, idx) => (
+                      <div key={`r${idx}`} className="text-pink-400/80">− {line}</div>
+                    ))}
+                    {diff.added.map((line, idx) => (
+                      <div key={`a${idx}`} className="text-emerald-400/80">+ {line}</div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
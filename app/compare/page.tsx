@@ -0,0 +1,7 @@
+import RevisionCompare from './RevisionCompare';
+
+export const dynamic = 'force-dynamic';
+
+export default function ComparePage({ searchParams }: { searchParams: { previous?: string; current?: string } }) {
+  return <RevisionCompare previousJobId={searchParams.previous ?? ''} currentJobId={searchParams.current ?? ''} />;
+}
@@ -0,0 +1,172 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { AlertCircle, AlertTriangle, ArrowLeft, Ban, CheckCircle, History, Loader2, Search, XCircle } from 'lucide-react';
+import { formatCost } from '@/lib/usage';
+import type { AnalysisSummary } from '@/lib/types';
+
+interface Filters {
+  project: string;
+  status: string;
+  from: string;
+  to: string;
+}
+
+const STATUS_OPTIONS = [
+  { value: '', label: 'Any status' },
+  { value: 'fail', label: 'Critical issues' },
+  { value: 'warning', label: 'Warnings' },
+  { value: 'pass', label: 'Passed' },
+  { value: 'failed', label: 'Analysis failed' },
+  { value: 'cancelled', label: 'Cancelled' },
+];
+
+const STATUS_STYLES = {
+  pass: { icon: CheckCircle, color: 'text-emerald-400', label: 'Passed' },
+  warning: { icon: AlertTriangle, color: 'text-orange-400', label: 'Warnings' },
+  fail: { icon: XCircle, color: 'text-pink-400', label: 'Critical issues' },
+  failed: { icon: AlertCircle, color: 'text-red-400', label: 'Analysis failed' },
+  cancelled: { icon: Ban, color: 'text-gray-500', label: 'Cancelled' },
+};
+
+const inputClass = 'bg-gray-900 border border-gray-800 rounded-xl px-3 py-2.5 text-sm text-gray-200';
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+function StatusBadge({ analysis }: { analysis: AnalysisSummary }) {
+  const key = analysis.status === 'done' ? analysis.overallStatus : analysis.status;
+  const style = STATUS_STYLES[key as keyof typeof STATUS_STYLES];
+  if (!style) return null;
+  const Icon = style.icon;
+  return (
+    <span className={`flex items-center gap-1.5 text-sm ${style.color}`}>
+      <Icon size={16} />
+      {style.label}
+    </span>
+  );
+}
+
+export default function HistoryList() {
+  const [analyses, setAnalyses] = useState<AnalysisSummary[] | null>(null);
+  const [filters, setFilters] = useState<Filters>({ project: '', status: '', from: '', to: '' });
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async (current: Filters) => {
+    const params = new URLSearchParams();
+    (Object.keys(current) as (keyof Filters)[]).forEach((key) => {
+      if (current[key]) params.set(key, current[key]);
+    });
+    const response = await fetch(`/api/history?${params}`, { cache: 'no-store' });
+    const data = await response.json();
+    if (!response.ok) {
+      setError(data.error || 'Failed to load analysis history');
+      return;
+    }
+    setError(null);
+    setAnalyses(data.analyses);
+  }, []);
+
+  useEffect(() => {
+    load(filters);
+  }, [load, filters]);
+
+  const setFilter = (key: keyof Filters, value: string) => setFilters((prev) => ({ ...prev, [key]: value }));
+  const isFiltered = Object.values(filters).some(Boolean);
+
+  return (
+    <div className="min-h-screen bg-black p-8">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <a href="/" className="text-sm text-gray-500 hover:text-gray-300 flex items-center gap-1 mb-2">
+            <ArrowLeft size={14} />
+            Back to QC
+          </a>
+          <h1 className="text-3xl font-bold text-white">Analysis History</h1>
+          <p className="text-gray-400">Every drawing run through QC. Open one to see its full report.</p>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-500/10 border border-red-500/30 rounded-xl flex items-start gap-3 text-red-400">
+            <AlertCircle size={20} className="flex-shrink-0 mt-0.5" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {/* Filters */}
+        <div className="mb-6 flex flex-wrap gap-3">
+          <div className="relative flex-1 min-w-[16rem]">
+            <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500" />
+            <input
+              value={filters.project}
+              onChange={(e) => setFilter('project', e.target.value)}
+              placeholder="Search by project, MRQ # or filename"
+              className={`${inputClass} w-full pl-9`}
+            />
+          </div>
+          <select value={filters.status} onChange={(e) => setFilter('status', e.target.value)} className={inputClass}>
+            {STATUS_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2 text-sm text-gray-500">
+            From
+            <input type="date" value={filters.from} onChange={(e) => setFilter('from', e.target.value)} className={inputClass} />
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-500">
+            To
+            <input type="date" value={filters.to} onChange={(e) => setFilter('to', e.target.value)} className={inputClass} />
+          </label>
+        </div>
+
+        {analyses === null ? (
+          <div className="p-12 flex justify-center">
+            <Loader2 className="text-orange-400 animate-spin" size={32} />
+          </div>
+        ) : analyses.length === 0 ? (
+          <div className="p-12 border border-dashed border-gray-800 rounded-xl text-center text-gray-500">
+            <History className="mx-auto mb-2" size={24} />
+            {isFiltered ? 'No analyses match.' : 'No analyses yet. Finished runs show up here.'}
+          </div>
+        ) : (
+          <div className="border border-gray-800 rounded-xl overflow-hidden divide-y divide-gray-800/50">
+            {analyses.map((analysis) => (
+              <a key={analysis.jobId} href={`/?job=${analysis.jobId}`} className="p-4 flex items-start gap-4 hover:bg-gray-900/50 transition-colors">
+                <div className="flex-1 min-w-0">
+                  <div className="font-semibold text-white truncate">{analysis.filename}</div>
+                  <div className="text-sm text-gray-400 mt-1">
+                    {[analysis.projectName || 'Project unknown', analysis.mrqNumber && `MRQ ${analysis.mrqNumber}`].filter(Boolean).join(' • ')}
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1 flex flex-wrap gap-x-3 gap-y-1">
+                    <span>{new Date(analysis.createdAt).toLocaleString()}</span>
+                    {analysis.runBy && <span>by {analysis.runBy}</span>}
+                    {analysis.durationMs !== undefined && <span>took {formatDuration(analysis.durationMs)}</span>}
+                    {analysis.checklistVersion !== undefined && <span>checklist v{analysis.checklistVersion}</span>}
+                    {analysis.model && <span>{analysis.model}</span>}
+                    {analysis.costUsd !== undefined && <span>{formatCost(analysis.costUsd)}</span>}
+                  </div>
+                  {analysis.error && <div className="text-xs text-red-400 mt-1">{analysis.error}</div>}
+                </div>
+                <div className="text-right space-y-1 flex-shrink-0">
+                  <StatusBadge analysis={analysis} />
+                  {analysis.status === 'done' && (
+                    <div className="text-xs">
+                      <span className="text-pink-400">{analysis.criticalCount} critical</span>
+                      <span className="text-gray-600"> • </span>
+                      <span className="text-orange-400">{analysis.warningCount} warnings</span>
+                    </div>
+                  )}
+                </div>
+              </a>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
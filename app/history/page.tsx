@@ -0,0 +1,7 @@
+import HistoryList from './HistoryList';
+
+export const dynamic = 'force-dynamic';
+
+export default function HistoryPage() {
+  return <HistoryList />;
+}
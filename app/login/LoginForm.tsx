@@ -0,0 +1,107 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, Loader2, LogIn, UserPlus } from 'lucide-react';
+
+const inputClass = 'w-full mt-1 bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-200 focus:border-orange-500 outline-none';
+
+// Only return to pages on this site after signing in
+const safeNext = (next?: string) => (next && next.startsWith('/') && !next.startsWith('//') ? next : '/');
+
+export default function LoginForm({ next }: { next?: string }) {
+  const [needsSetup, setNeedsSetup] = useState<boolean | null>(null);
+  const [username, setUsername] = useState('');
+  const [name, setName] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    fetch('/api/auth/session', { cache: 'no-store' })
+      .then((response) => response.json())
+      .then((data) => {
+        if (data.user) {
+          window.location.href = safeNext(next);
+          return;
+        }
+        setNeedsSetup(Boolean(data.needsSetup));
+      })
+      .catch(() => setNeedsSetup(false));
+  }, [next]);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch(needsSetup ? '/api/auth/setup' : '/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(needsSetup ? { username, name, password } : { username, password }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Sign in failed');
+      }
+      window.location.href = safeNext(next);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign in failed');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-black flex items-center justify-center p-8">
+      <div className="w-full max-w-sm">
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold text-white">Shop Drawing QC</h1>
+          <p className="text-gray-400 mt-1">{needsSetup ? 'Create the first account to get started' : 'Sign in to continue'}</p>
+        </div>
+
+        {needsSetup === null ? (
+          <div className="flex justify-center">
+            <Loader2 className="text-orange-400 animate-spin" size={32} />
+          </div>
+        ) : (
+          <form onSubmit={submit} className="p-6 bg-gray-900/50 border border-gray-800 rounded-xl space-y-4">
+            {error && (
+              <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg flex items-start gap-2 text-sm text-red-400">
+                <AlertCircle size={16} className="flex-shrink-0 mt-0.5" />
+                <span>{error}</span>
+              </div>
+            )}
+            <label className="block">
+              <span className="text-xs text-gray-500">Username</span>
+              <input value={username} onChange={(e) => setUsername(e.target.value)} autoComplete="username" autoFocus className={inputClass} />
+            </label>
+            {needsSetup && (
+              <label className="block">
+                <span className="text-xs text-gray-500">Full name</span>
+                <input value={name} onChange={(e) => setName(e.target.value)} autoComplete="name" className={inputClass} />
+              </label>
+            )}
+            <label className="block">
+              <span className="text-xs text-gray-500">Password</span>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete={needsSetup ? 'new-password' : 'current-password'}
+                className={inputClass}
+              />
+            </label>
+            {needsSetup && <p className="text-xs text-gray-500">This account is a reviewer and can add drafters and other reviewers.</p>}
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full py-2.5 rounded-lg font-bold flex items-center justify-center gap-2 bg-gradient-to-r from-orange-500 to-pink-500 text-black disabled:opacity-50"
+            >
+              {isSubmitting ? <Loader2 size={16} className="animate-spin" /> : needsSetup ? <UserPlus size={16} /> : <LogIn size={16} />}
+              {needsSetup ? 'Create account' : 'Sign in'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,7 @@
+import LoginForm from './LoginForm';
+
+export const dynamic = 'force-dynamic';
+
+export default function LoginPage({ searchParams }: { searchParams: { next?: string } }) {
+  return <LoginForm next={searchParams.next} />;
+}
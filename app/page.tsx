@@ -1,8 +1,6 @@
 'use client';
 
-import React, { useState, useCallback } from 'react';
-import { PDFDocument } from 'pdf-lib';
-import { upload } from '@vercel/blob/client';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import {
   Upload,
   FileText,
@@ -12,6 +10,7 @@ import {
   ChevronRight,
   ChevronDown,
   Eye,
+  EyeOff,
   Send,
   RotateCcw,
   Loader2,
@@ -22,91 +21,201 @@ import {
   Zap,
   AlertCircle,
   Smile,
+  Cpu,
+  ListChecks,
+  GitCompare,
+  Clock,
+  Download,
+  Image as ImageIcon,
+  ArrowLeft,
+  BookPlus,
+  SpellCheck,
 } from 'lucide-react';
+import BatchUpload from './BatchUpload';
+import FindingVerdict from './FindingVerdict';
+import PageViewer, { type ViewerFocus } from './PageViewer';
+import { createBatchItems, runBatch, type BatchItem } from '@/lib/batchUpload';
+import { isSpellingFinding } from '@/lib/dictionary';
+import { findingKey } from '@/lib/feedback';
+import { ERROR_GUIDES } from '@/lib/errorGuides';
+import { fetchJob, JobError, parseJobId, POLL_INTERVAL, restartJob, uploadAndStartJob } from '@/lib/jobClient';
+import { compressPDF, MAX_FILE_SIZE, TARGET_SIZE } from '@/lib/pdfCompress';
+import { buildFindingsCsv, buildReportJson, buildReportPdf, REPORT_TYPES, reportFilename, type ReportFormat } from '@/lib/report';
+import { validateModelResults } from '@/lib/schema';
+import { RECORD_FIELDS, TITLE_BLOCK_CHECK_ID, TITLE_BLOCK_FIELDS } from '@/lib/titleBlock';
+import { formatCost } from '@/lib/usage';
+import type { SessionUser } from '@/lib/auth/types';
+import type { AnalysisJob, AnalysisResults, CheckItem, ErrorCode, FeedbackVerdict, FindingFeedback, ProjectAnswers, ProjectRecord, ProjectTypeDetection, Status, Submission } from '@/lib/types';
 
-type Status = 'pass' | 'warning' | 'fail' | 'pending' | 'skipped';
+// How often an open report checks whether Carlo has reviewed it
+const SUBMISSION_POLL_INTERVAL = 30000;
 
-interface CheckItem {
-  id: string;
-  label: string;
-  status: Status;
-  notes: string;
-  page?: number;
+const QUESTIONS = [
+  { id: 'isBacklit', label: 'Is this a backlit wall?', icon: Lightbulb, desc: 'LEDs behind the panels' },
+  { id: 'hasCutouts', label: 'Does it have cutouts?', icon: Square, desc: 'TV openings, pass-throughs' },
+  { id: 'hasCorners', label: 'Inside or outside corners?', icon: CornerDownRight, desc: 'Wall wraps around' },
+  { id: 'hasLogos', label: 'Logos or inlays?', icon: Building2, desc: 'Custom engravings' },
+];
+
+async function fetchSubmission(id: string): Promise<Submission | null> {
+  const response = await fetch(`/api/submissions/${id}`, { cache: 'no-store' });
+  if (!response.ok) return null;
+  return (await response.json()).submission;
 }
 
-interface AnalysisResults {
-  overallStatus: Status;
-  summary: string;
-  criticalIssues: CheckItem[];
-  warnings: CheckItem[];
-  passed: CheckItem[];
-  manualReview: CheckItem[];
-  projectType: {
-    isBacklit: boolean;
-    hasCutouts: boolean;
-    hasCorners: boolean;
-    hasLogos: boolean;
-  };
-  extractedInfo: {
-    projectName: string;
-    location: string;
-    version: string;
-    drawnBy: string;
-    pageCount: number;
-  };
+const feedbackByKey = (entries: FindingFeedback[]) => Object.fromEntries(entries.map((entry) => [entry.findingKey, entry]));
+
+// Verdicts on the findings of the report's project by finding key, or null
+// when the report can't take feedback (e.g. no project in the title block)
+async function fetchFeedback(jobId: string): Promise<Record<string, FindingFeedback> | null> {
+  const response = await fetch(`/api/jobs/${jobId}/feedback`, { cache: 'no-store' });
+  if (!response.ok) return null;
+  return feedbackByKey((await response.json()).feedback);
 }
 
-interface ProjectAnswers {
-  isBacklit: boolean;
-  hasCutouts: boolean;
-  hasCorners: boolean;
-  hasLogos: boolean;
+function saveDownload(content: BlobPart, type: string, name: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
 }
 
-// Target compression size (25MB) - try to compress anything over this
-const TARGET_SIZE = 25 * 1024 * 1024;
-// Maximum file size in bytes (32MB) - Anthropic's limit for PDFs
-const MAX_FILE_SIZE = 32 * 1024 * 1024;
+// Build a report export from the results in the page and save it
+async function downloadReport(results: AnalysisResults, filename: string, format: ReportFormat) {
+  const content =
+    format === 'pdf'
+      ? new Uint8Array(await buildReportPdf(results, filename))
+      : format === 'csv'
+        ? buildFindingsCsv(results, filename)
+        : buildReportJson(results, filename);
+  saveDownload(content, REPORT_TYPES[format], reportFilename(filename, format));
+}
 
-const QUESTIONS = [
-  { id: 'isBacklit', label: 'Is this a backlit wall?', icon: Lightbulb, desc: 'LEDs behind the panels' },
-  { id: 'hasCutouts', label: 'Does it have cutouts?', icon: Square, desc: 'TV openings, pass-throughs' },
-  { id: 'hasCorners', label: 'Inside or outside corners?', icon: CornerDownRight, desc: 'Wall wraps around' },
-  { id: 'hasLogos', label: 'Logos or inlays?', icon: Building2, desc: 'Custom engravings' },
-];
+// Stamp the report on the drawing set and save it. Built here rather than on
+// the server since a whole set is usually larger than a function response may be.
+async function downloadMarkedUpPdf(source: File | string, results: AnalysisResults, filename: string) {
+  const [{ buildMarkedUpPdf, markupFilename }, { extractPdfText }] = await Promise.all([import('@/lib/markup'), import('@/lib/pdfText')]);
+  const pdfBuffer = typeof source === 'string' ? await fetchPdfBytes(source) : await source.arrayBuffer();
+  let pdfText = null;
+  try {
+    pdfText = await extractPdfText(pdfBuffer);
+  } catch (textError) {
+    console.error('Text extraction failed, stamping findings in the margin:', textError);
+  }
+  const bytes = await buildMarkedUpPdf(pdfBuffer, results, filename, pdfText);
+  saveDownload(new Uint8Array(bytes), 'application/pdf', markupFilename(filename));
+}
 
-async function compressPDF(file: File): Promise<{ compressedFile: File; originalSize: number; compressedSize: number }> {
-  const originalSize = file.size;
-  const arrayBuffer = await file.arrayBuffer();
+async function fetchPdfBytes(url: string): Promise<ArrayBuffer> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Could not load the PDF (${response.status})`);
+  }
+  return response.arrayBuffer();
+}
 
-  // Load the PDF
-  const pdfDoc = await PDFDocument.load(arrayBuffer);
+// An error shown on the upload or questions step; a failed analysis carries
+// the server's error code
+interface ShownError {
+  message: string;
+  code?: ErrorCode;
+  details?: string[];
+}
 
-  // Remove metadata to reduce size
-  pdfDoc.setTitle('');
-  pdfDoc.setAuthor('');
-  pdfDoc.setSubject('');
-  pdfDoc.setKeywords([]);
-  pdfDoc.setProducer('');
-  pdfDoc.setCreator('');
+const errorButtonClass =
+  'px-4 py-2 border border-red-500/40 rounded-lg text-sm font-medium hover:bg-red-500/10 transition-colors flex items-center gap-2';
 
-  // Save with object streams enabled for better compression
-  const compressedBytes = await pdfDoc.save({
-    useObjectStreams: true,
-  });
+// The error with what its code says to do next. Errors without a code (file
+// checks, jobs that failed before codes were kept) show as they are.
+function ErrorPanel({
+  error,
+  retryLabel,
+  onRetry,
+  onUploadAgain,
+  onChooseAnother,
+  isReviewer,
+}: {
+  error: ShownError;
+  retryLabel: string;
+  // Retry the failed job, or run the analysis of the chosen file again
+  onRetry?: () => void;
+  // Upload the chosen file again and analyze it
+  onUploadAgain?: () => void;
+  onChooseAnother: () => void;
+  isReviewer: boolean;
+}) {
+  const guide = error.code ? ERROR_GUIDES[error.code] : null;
+  const action = guide?.action;
+  const compressLink = (
+    <a href="https://smallpdf.com/compress-pdf" target="_blank" rel="noopener noreferrer" className="underline hover:text-red-300 text-sm">
+      → Open SmallPDF Compressor
+    </a>
+  );
+  const retryButton = onRetry && (
+    <button onClick={onRetry} className={errorButtonClass}>
+      <RotateCcw size={14} />
+      {retryLabel}
+    </button>
+  );
 
-  // Convert Uint8Array to ArrayBuffer then to File
-  const outputBuffer = compressedBytes.buffer.slice(
-    compressedBytes.byteOffset,
-    compressedBytes.byteOffset + compressedBytes.byteLength
-  ) as ArrayBuffer;
-  const compressedFile = new File([outputBuffer], file.name, { type: 'application/pdf' });
-
-  return {
-    compressedFile,
-    originalSize,
-    compressedSize: compressedFile.size,
-  };
+  return (
+    <div className="mb-6 p-4 bg-red-500/10 border border-red-500/30 rounded-xl flex items-start gap-3 text-red-400">
+      <AlertCircle size={20} className="flex-shrink-0 mt-0.5" />
+      <div className="flex-1">
+        {guide && <p className="font-semibold">{guide.title}</p>}
+        <span>{error.message}</span>
+        {guide && <p className="mt-1 text-sm text-red-300/80">{guide.hint}</p>}
+        {error.details && error.details.length > 0 && (
+          <details className="mt-2 text-xs text-red-300/60">
+            <summary className="cursor-pointer">Details</summary>
+            <ul className="mt-1 space-y-0.5">
+              {error.details.slice(0, 10).map((detail, idx) => (
+                <li key={idx}>{detail}</li>
+              ))}
+            </ul>
+          </details>
+        )}
+
+        <div className="mt-3 flex flex-wrap items-center gap-3">
+          {!guide && error.message.includes('compress') && compressLink}
+          {(!guide || action === 'retry') && retryButton}
+          {action === 'compress' && (
+            <>
+              <button onClick={onChooseAnother} className={errorButtonClass}>
+                <Upload size={14} />
+                Choose a smaller PDF
+              </button>
+              {compressLink}
+            </>
+          )}
+          {action === 'upload' && (
+            <button onClick={onUploadAgain ?? onChooseAnother} className={errorButtonClass}>
+              <Upload size={14} />
+              {onUploadAgain ? 'Upload again and analyze' : 'Choose the PDF again'}
+            </button>
+          )}
+          {action === 'models' && isReviewer && (
+            <a href="/admin/models" className={errorButtonClass}>
+              <Cpu size={14} />
+              Open model settings
+            </a>
+          )}
+          {action === 'budget' && isReviewer && (
+            <a href="/admin/usage" className={errorButtonClass}>
+              Open usage &amp; budgets
+            </a>
+          )}
+          {error.code === 'credit_balance' && isReviewer && (
+            <a href="https://console.anthropic.com/settings/billing" target="_blank" rel="noopener noreferrer" className="underline hover:text-red-300 text-sm">
+              → Anthropic billing
+            </a>
+          )}
+        </div>
+      </div>
+    </div>
+  );
 }
 
 function StatusBadge({ status, critical }: { status: Status; critical?: boolean }) {
@@ -127,8 +236,156 @@ function StatusBadge({ status, critical }: { status: Status; critical?: boolean
   );
 }
 
+function SubmissionBadge({ status }: { status: Submission['status'] }) {
+  const configs = {
+    pending: { icon: Clock, bg: 'bg-orange-500/20', text: 'text-orange-400', label: 'With Carlo' },
+    approved: { icon: CheckCircle, bg: 'bg-emerald-500/20', text: 'text-emerald-400', label: 'Approved' },
+    returned: { icon: RotateCcw, bg: 'bg-pink-500/20', text: 'text-pink-400', label: 'Returned' },
+  };
+  const config = configs[status];
+  const Icon = config.icon;
+  return (
+    <span className={`inline-flex items-center gap-2 px-5 py-3 rounded-xl font-bold text-lg ${config.bg} ${config.text}`}>
+      <Icon size={20} />
+      {config.label}
+    </span>
+  );
+}
+
+function SourceBadge({ source }: { source?: CheckItem['source'] }) {
+  if (!source) return null;
+  const Icon = source === 'rule' ? ListChecks : Cpu;
+  return (
+    <span
+      className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-medium uppercase tracking-wide bg-gray-800 text-gray-400"
+      title={source === 'rule' ? 'Found by deterministic text-layer rules' : 'Found by Claude AI'}
+    >
+      <Icon size={10} />
+      {source === 'rule' ? 'Rule' : 'AI'}
+    </span>
+  );
+}
+
+// What the title blocks say, next to the project record's values when one was used
+function TitleBlockPanel({ results }: { results: AnalysisResults }) {
+  const info = results.extractedInfo;
+  const record = results.projectRecord;
+  const mismatched = new Set(
+    [...results.criticalIssues, ...results.warnings]
+      .filter((item) => item.checkId === TITLE_BLOCK_CHECK_ID)
+      .map((item) => RECORD_FIELDS.find((field) => item.id.startsWith(`title_block_${field.id}_`))?.id)
+  );
+
+  return (
+    <div className="mb-8 p-5 bg-gray-900/50 border border-gray-800 rounded-xl">
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <h3 className="font-bold text-white flex items-center gap-2">
+          <FileText size={18} className="text-orange-400" />
+          Title Block
+        </h3>
+        <span className="text-xs text-gray-500">
+          {record ? (
+            <>Checked against the record for {record.projectName || `MRQ ${record.mrqNumber}`}</>
+          ) : (
+            <>
+              No project record matched.{' '}
+              <a href="/admin/projects" className="underline hover:text-gray-300">
+                Add one
+              </a>{' '}
+              to check MRQ #, dates and versions.
+            </>
+          )}
+        </span>
+      </div>
+      <div className="grid grid-cols-3 gap-x-6 gap-y-3 text-sm">
+        {TITLE_BLOCK_FIELDS.map((field) => {
+          const expected = field.id === 'scale' ? undefined : record?.[field.id];
+          const wrong = mismatched.has(field.id as (typeof RECORD_FIELDS)[number]['id']);
+          return (
+            <div key={field.id}>
+              <div className="text-xs text-gray-500">{field.label}</div>
+              <div className={wrong ? 'text-pink-400 font-semibold' : 'text-gray-200'}>{info[field.id] || '-'}</div>
+              {expected && <div className={`text-xs ${wrong ? 'text-pink-400/80' : 'text-gray-500'}`}>Record: {expected}</div>}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+// One-click dictionary updates from a spelling finding, for reviewers: the
+// word is fine (accept it) or the model's correction should become a known typo
+function SpellingActions({ item }: { item: CheckItem }) {
+  const [done, setDone] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const update = async (body: object, message: string) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/dictionary', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update the dictionary');
+      }
+      setDone(message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update the dictionary');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (done) {
+    return <div className="mt-2 text-xs text-emerald-400">{done}</div>;
+  }
+  return (
+    <div className="mt-2 flex flex-wrap items-center gap-2 text-xs">
+      <button
+        onClick={() => update({ term: item.matchedText }, `Added "${item.matchedText}" to the dictionary`)}
+        disabled={isSaving}
+        className="inline-flex items-center gap-1 px-2 py-1 rounded-lg border border-gray-800 text-gray-500 hover:text-gray-300 hover:border-gray-700"
+      >
+        <BookPlus size={12} />
+        Add &ldquo;{item.matchedText}&rdquo; to dictionary
+      </button>
+      {item.suggestion && item.source !== 'rule' && (
+        <button
+          onClick={() => update({ typo: item.matchedText, correction: item.suggestion }, `Learned "${item.matchedText}" → "${item.suggestion}"`)}
+          disabled={isSaving}
+          className="inline-flex items-center gap-1 px-2 py-1 rounded-lg border border-gray-800 text-gray-500 hover:text-gray-300 hover:border-gray-700"
+        >
+          <SpellCheck size={12} />
+          Learn as known typo
+        </button>
+      )}
+      {isSaving && <Loader2 size={12} className="animate-spin text-gray-500" />}
+      {error && <span className="text-red-400">{error}</span>}
+    </div>
+  );
+}
+
+function PageLink({ item, onOpen }: { item: CheckItem; onOpen: (focus: ViewerFocus) => void }) {
+  return (
+    <button
+      onClick={() => onOpen({ page: item.page!, item })}
+      className="inline-flex items-center gap-1 text-xs text-gray-500 hover:text-orange-400 mt-2"
+      title="Show on the drawing"
+    >
+      <ImageIcon size={12} />
+      Page {item.page}
+    </button>
+  );
+}
+
 export default function ShopDrawingQC() {
-  const [step, setStep] = useState<'upload' | 'questions' | 'analyzing' | 'results'>('upload');
+  const [step, setStep] = useState<'upload' | 'questions' | 'batch' | 'analyzing' | 'results'>('upload');
   const [file, setFile] = useState<File | null>(null);
   const [projectAnswers, setProjectAnswers] = useState<ProjectAnswers>({
     isBacklit: false,
@@ -136,10 +393,40 @@ export default function ShopDrawingQC() {
     hasCorners: false,
     hasLogos: false,
   });
+  const [detection, setDetection] = useState<ProjectTypeDetection | null>(null);
+  const [isDetecting, setIsDetecting] = useState(false);
+  const detectingRef = useRef<File | null>(null);
+  const answersTouchedRef = useRef(false);
+  const [projects, setProjects] = useState<ProjectRecord[] | null>(null);
+  const [projectId, setProjectId] = useState('');
   const [results, setResults] = useState<AnalysisResults | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ShownError | null>(null);
   const [progress, setProgress] = useState(0);
   const [statusText, setStatusText] = useState('');
+  const [progressLog, setProgressLog] = useState<string[]>([]);
+  const [liveFindings, setLiveFindings] = useState<CheckItem[]>([]);
+  const [filename, setFilename] = useState('');
+  const [pdfUrl, setPdfUrl] = useState<string | null>(null);
+  const [viewerFocus, setViewerFocus] = useState<ViewerFocus | null>(null);
+  const [isBuildingMarkup, setIsBuildingMarkup] = useState(false);
+  const [markupError, setMarkupError] = useState<string | null>(null);
+  const [failedJobId, setFailedJobId] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const jobIdRef = useRef<string | null>(null);
+  const viewerRef = useRef<HTMLDivElement>(null);
+  const [previousLink, setPreviousLink] = useState('');
+  const [isStartingCompare, setIsStartingCompare] = useState(false);
+  const [compareError, setCompareError] = useState<string | null>(null);
+  const [submission, setSubmission] = useState<Submission | null>(null);
+  const [feedback, setFeedback] = useState<Record<string, FindingFeedback> | null>(null);
+  const [showSubmitForm, setShowSubmitForm] = useState(false);
+  const [user, setUser] = useState<SessionUser | null>(null);
+  const [drafterNotes, setDrafterNotes] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [batch, setBatch] = useState<BatchItem[] | null>(null);
+  const [isBatchRunning, setIsBatchRunning] = useState(false);
+  const batchAbortRef = useRef<AbortController | null>(null);
   const [isCompressing, setIsCompressing] = useState(false);
   const [compressionResult, setCompressionResult] = useState<{ original: number; compressed: number } | null>(null);
 
@@ -150,13 +437,35 @@ export default function ShopDrawingQC() {
     return null;
   };
 
+  // Read the project type off the drawing's text layer so the questions step
+  // starts from what the drawing shows, unless the drafter already answered
+  const detectProjectType = async (pdf: File) => {
+    detectingRef.current = pdf;
+    setDetection(null);
+    setIsDetecting(true);
+    try {
+      const [{ extractPdfText }, { detectFromText, summarizeDetection }] = await Promise.all([import('@/lib/pdfText'), import('@/lib/projectType')]);
+      const found = summarizeDetection(detectFromText(await extractPdfText(await pdf.arrayBuffer())));
+      if (detectingRef.current !== pdf) return;
+      setDetection(found);
+      if (!answersTouchedRef.current) {
+        setProjectAnswers(found.features);
+      }
+    } catch (err) {
+      console.error('Project type detection error:', err);
+    } finally {
+      if (detectingRef.current === pdf) setIsDetecting(false);
+    }
+  };
+
   const processFile = async (uploadedFile: File) => {
     const validationError = validateFile(uploadedFile);
     if (validationError) {
-      setError(validationError);
+      setError({ message: validationError });
       setFile(null);
       return;
     }
+    detectProjectType(uploadedFile);
 
     // If file is larger than target size, compress it
     if (uploadedFile.size > TARGET_SIZE) {
@@ -174,7 +483,7 @@ export default function ShopDrawingQC() {
         // Check if compressed file is still too large
         if (result.compressedFile.size > MAX_FILE_SIZE) {
           const sizeMB = (result.compressedFile.size / 1024 / 1024).toFixed(1);
-          setError(`PDF is still ${sizeMB}MB after compression. Please compress manually: Adobe Acrobat → File → Save As Other → Reduced Size PDF`);
+          setError({ message: `PDF is still ${sizeMB}MB after compression. Please compress manually: Adobe Acrobat → File → Save As Other → Reduced Size PDF` });
           setFile(null);
         } else {
           setFile(result.compressedFile);
@@ -182,7 +491,7 @@ export default function ShopDrawingQC() {
         }
       } catch (err) {
         console.error('Compression error:', err);
-        setError('Failed to compress PDF. Please try compressing manually at smallpdf.com');
+        setError({ message: 'Failed to compress PDF. Please try compressing manually at smallpdf.com' });
         setFile(null);
       } finally {
         setIsCompressing(false);
@@ -194,82 +503,379 @@ export default function ShopDrawingQC() {
     }
   };
 
-  const handleFileUpload = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const uploadedFile = e.target.files?.[0];
-    if (uploadedFile) {
-      processFile(uploadedFile);
+  // One file goes through the questions step; several go to the batch table
+  const processFiles = (files: File[]) => {
+    if (files.length > 1) {
+      setError(null);
+      setFile(null);
+      setCompressionResult(null);
+      setBatch(createBatchItems(files));
+      setStep('batch');
+    } else if (files.length === 1) {
+      processFile(files[0]);
     }
+  };
+
+  const handleFileUpload = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    processFiles(Array.from(e.target.files ?? []));
+    e.target.value = '';
   }, []);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
-    const droppedFile = e.dataTransfer.files?.[0];
-    if (droppedFile) {
-      processFile(droppedFile);
-    }
+    processFiles(Array.from(e.dataTransfer.files ?? []));
   }, []);
 
   const toggleAnswer = (questionId: keyof ProjectAnswers) => {
+    answersTouchedRef.current = true;
     setProjectAnswers((prev) => ({ ...prev, [questionId]: !prev[questionId] }));
   };
 
-  const runAnalysis = async () => {
-    if (!file) return;
+  const showFailure = (err: unknown, fallback: string) => {
+    if (err instanceof JobError) {
+      setError({ message: err.message, code: err.code, details: err.details });
+    } else {
+      setError({ message: err instanceof Error ? err.message : fallback });
+    }
+  };
 
+  const showJob = (job: AnalysisJob) => {
+    setFilename(job.filename);
+    setPdfUrl(job.blobUrl);
+    setProgress(job.percent);
+    setStatusText(job.message);
+    setProgressLog(job.log);
+    setLiveFindings(job.findings);
+  };
+
+  // Poll a background job until it finishes. The job id is kept in the URL so
+  // a reload or a closed tab can pick the same job back up.
+  const followJob = async (jobId: string) => {
+    const abort = new AbortController();
+    abortRef.current?.abort();
+    abortRef.current = abort;
+    jobIdRef.current = jobId;
+    window.history.replaceState(null, '', `?job=${jobId}`);
     setStep('analyzing');
-    setProgress(0);
     setError(null);
-    setStatusText('Uploading PDF to storage...');
+    setFailedJobId(null);
 
     try {
-      // Step 1: Upload directly to Vercel Blob (client-side, bypasses body limit)
-      setProgress(10);
+      for (;;) {
+        const job = await fetchJob(jobId, abort.signal);
+        showJob(job);
 
-      const blob = await upload(file.name, file, {
-        access: 'public',
-        handleUploadUrl: '/api/upload',
+        if (job.status === 'done' && job.results) {
+          const validation = validateModelResults(job.results, job.results.pageCount);
+          if (!validation.ok) {
+            console.error('Invalid analysis results:', validation.errors);
+            throw new Error('Received an invalid QC report from the server. Please try again.');
+          }
+          setResults(job.results);
+          setSubmission(job.submissionId ? await fetchSubmission(job.submissionId) : null);
+          setFeedback(await fetchFeedback(job.id));
+          setProgress(100);
+          setStep('results');
+          return;
+        }
+        if (job.status === 'failed') {
+          setFailedJobId(job.id);
+          throw JobError.from(job.error, 'Analysis failed');
+        }
+        if (job.status === 'cancelled') {
+          setFailedJobId(job.id);
+          throw new Error('Analysis was cancelled');
+        }
+
+        await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL));
+        abort.signal.throwIfAborted();
+      }
+    } catch (err) {
+      if (abort.signal.aborted) return;
+      showFailure(err, 'Analysis failed');
+      setStep(batch ? 'batch' : file ? 'questions' : 'upload');
+    } finally {
+      if (abortRef.current === abort) abortRef.current = null;
+    }
+  };
+
+  // Reattach to the job in the URL, if any
+  useEffect(() => {
+    const jobId = new URLSearchParams(window.location.search).get('job');
+    if (jobId) {
+      followJob(jobId);
+    }
+    fetch('/api/auth/session', { cache: 'no-store' })
+      .then((response) => response.json())
+      .then((data) => setUser(data.user ?? null))
+      .catch((err) => console.error('Session load error:', err));
+    return () => abortRef.current?.abort();
+  }, []);
+
+  // Pick up Carlo's decision while the report is open
+  useEffect(() => {
+    if (step !== 'results' || submission?.status !== 'pending') return;
+    const timer = setInterval(async () => {
+      const latest = await fetchSubmission(submission.id).catch(() => null);
+      if (latest) setSubmission(latest);
+    }, SUBMISSION_POLL_INTERVAL);
+    return () => clearInterval(timer);
+  }, [step, submission?.id, submission?.status]);
+
+  // Project records to pick from on the questions step
+  useEffect(() => {
+    if ((step !== 'questions' && step !== 'batch') || projects !== null) return;
+    fetch('/api/projects', { cache: 'no-store' })
+      .then((response) => (response.ok ? response.json() : { projects: [] }))
+      .then((data) => setProjects(data.projects))
+      .catch((err) => {
+        console.error('Project records load error:', err);
+        setProjects([]);
       });
+  }, [step, projects]);
 
-      setProgress(30);
-      setStatusText('Analyzing with Claude AI...');
+  // Send the report, with the drafter's notes, to Carlo's review queue
+  const submitForReview = async () => {
+    const jobId = jobIdRef.current;
+    if (!jobId) return;
 
-      // Step 2: Analyze using blob URL
-      const analyzeResponse = await fetch('/api/analyze', {
+    setIsSubmitting(true);
+    setSubmitError(null);
+    try {
+      const response = await fetch('/api/submissions', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          blobUrl: blob.url,
-          filename: file.name,
-          projectType: projectAnswers,
-        }),
+        body: JSON.stringify({ jobId, notes: drafterNotes }),
       });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to submit for review');
+      }
+      setSubmission(data.submission);
+      setShowSubmitForm(false);
+    } catch (err) {
+      setSubmitError(err instanceof Error ? err.message : 'Failed to submit for review');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Confirm, dismiss or mark fixed one finding; throws for FindingVerdict to show
+  const saveVerdict = async (item: CheckItem, verdict: FeedbackVerdict | null, comment = '') => {
+    const jobId = jobIdRef.current;
+    if (!jobId) return;
+    const key = findingKey(item);
+    const response = verdict
+      ? await fetch(`/api/jobs/${jobId}/feedback`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ findingKey: key, verdict, comment }),
+        })
+      : await fetch(`/api/jobs/${jobId}/feedback?finding=${encodeURIComponent(key)}`, { method: 'DELETE' });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to save feedback');
+    }
+    setFeedback(feedbackByKey(data.feedback));
+  };
 
-      setProgress(70);
-      setStatusText('Processing results...');
+  const runAnalysis = async () => {
+    if (!file) return;
+
+    const abort = new AbortController();
+    abortRef.current = abort;
+    setStep('analyzing');
+    setProgress(0);
+    setError(null);
+    setFailedJobId(null);
+    setFilename(file.name);
+    setProgressLog([]);
+    setLiveFindings([]);
+    setStatusText('Uploading PDF to storage...');
+
+    try {
+      // Upload to storage, then start a background analysis job for it
+      const job = await uploadAndStartJob(file, projectAnswers, {
+        projectId: projectId || undefined,
+        signal: abort.signal,
+        onUploadProgress: (percentage) => {
+          setProgress(Math.round(percentage * 0.15));
+          if (percentage === 100) setStatusText('Starting analysis...');
+        },
+      });
 
-      if (!analyzeResponse.ok) {
-        const errorData = await analyzeResponse.json();
-        throw new Error(errorData.error || 'Analysis failed');
+      // Poll the job until it's done
+      followJob(job.id);
+    } catch (err) {
+      if (abort.signal.aborted) {
+        setStep('questions');
+        return;
       }
+      showFailure(err, 'Analysis failed');
+      setStep('questions');
+    }
+  };
+
+  // Run a failed or cancelled job again without uploading the PDF again
+  const retryAnalysis = async () => {
+    if (!failedJobId) return;
 
-      const data = await analyzeResponse.json();
-      setResults(data.results);
-      setProgress(100);
-      setStep('results');
+    try {
+      const job = await restartJob(failedJobId);
+      showJob(job);
+      followJob(job.id);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Analysis failed');
-      setStep('upload');
+      showFailure(err, 'Failed to retry analysis');
     }
   };
 
+  const clearJob = () => {
+    abortRef.current?.abort();
+    jobIdRef.current = null;
+    window.history.replaceState(null, '', window.location.pathname);
+  };
+
+  const cancelAnalysis = async () => {
+    const jobId = jobIdRef.current;
+    clearJob();
+    setStep(batch ? 'batch' : file ? 'questions' : 'upload');
+    if (jobId) {
+      await fetch(`/api/jobs/${jobId}`, { method: 'DELETE' }).catch((err) => console.error('Cancel error:', err));
+    }
+  };
+
+  const updateBatchItem = (key: string, patch: Partial<BatchItem>) => {
+    setBatch((items) => items && items.map((item) => (item.key === key ? { ...item, ...patch } : item)));
+  };
+
+  // Compress, upload and analyze the batch's waiting files with the shared
+  // answers, except where a file has its own
+  const runBatchItems = async (items: BatchItem[]) => {
+    const abort = new AbortController();
+    batchAbortRef.current = abort;
+    setIsBatchRunning(true);
+    try {
+      await runBatch(items, {
+        answers: projectAnswers,
+        projectId: projectId || undefined,
+        signal: abort.signal,
+        onUpdate: updateBatchItem,
+      });
+    } finally {
+      if (batchAbortRef.current === abort) batchAbortRef.current = null;
+      setIsBatchRunning(false);
+    }
+  };
+
+  // Stop the batch and the analyses it already started
+  const cancelBatch = () => {
+    batchAbortRef.current?.abort();
+    batch?.forEach((item) => {
+      if (item.jobId && item.status === 'analyzing') {
+        fetch(`/api/jobs/${item.jobId}`, { method: 'DELETE' }).catch((err) => console.error('Cancel error:', err));
+      }
+    });
+  };
+
+  const retryBatch = () => {
+    if (!batch) return;
+    const items = batch.map((item) =>
+      item.status === 'failed' || item.status === 'cancelled'
+        ? { ...item, status: 'waiting' as const, percent: 0, message: 'Waiting' }
+        : item
+    );
+    setBatch(items);
+    runBatchItems(items);
+  };
+
+  const backToBatch = () => {
+    clearJob();
+    setResults(null);
+    setViewerFocus(null);
+    setSubmission(null);
+    setFeedback(null);
+    setShowSubmitForm(false);
+    setError(null);
+    setStep('batch');
+  };
+
+  const signOut = async () => {
+    await fetch('/api/auth/logout', { method: 'POST' });
+    window.location.href = '/login';
+  };
+
   const reset = () => {
+    clearJob();
+    batchAbortRef.current?.abort();
+    setBatch(null);
     setStep('upload');
     setFile(null);
+    setFilename('');
+    setPdfUrl(null);
+    setViewerFocus(null);
+    setFailedJobId(null);
     setResults(null);
+    setSubmission(null);
+    setFeedback(null);
+    setShowSubmitForm(false);
+    setDrafterNotes('');
     setError(null);
     setProgress(0);
     setProjectAnswers({ isBacklit: false, hasCutouts: false, hasCorners: false, hasLogos: false });
+    setDetection(null);
+    setProjectId('');
+    detectingRef.current = null;
+    answersTouchedRef.current = false;
     setCompressionResult(null);
+    setMarkupError(null);
+  };
+
+  const saveMarkedUpPdf = async () => {
+    const source = file ?? pdfUrl;
+    if (!source || !results) return;
+    setIsBuildingMarkup(true);
+    setMarkupError(null);
+    try {
+      await downloadMarkedUpPdf(source, results, filename);
+    } catch (err) {
+      console.error('Markup error:', err);
+      setMarkupError(err instanceof Error ? err.message : 'Failed to build the marked-up PDF');
+    } finally {
+      setIsBuildingMarkup(false);
+    }
+  };
+
+  // Compare this report with an earlier revision, given as that report's link
+  // or as the earlier PDF (analyzed with the same project answers)
+  const comparePrevious = async (previous: string | File) => {
+    const currentJobId = jobIdRef.current;
+    if (!currentJobId || !results) return;
+    setCompareError(null);
+
+    let previousJobId: string | null;
+    if (typeof previous === 'string') {
+      previousJobId = parseJobId(previous);
+      if (!previousJobId) {
+        setCompareError('Paste the link to the previous report, or upload the previous PDF');
+        return;
+      }
+    } else {
+      setIsStartingCompare(true);
+      try {
+        previousJobId = (await uploadAndStartJob(previous, results.projectType)).id;
+      } catch (err) {
+        setCompareError(err instanceof Error ? err.message : 'Failed to upload the previous PDF');
+        setIsStartingCompare(false);
+        return;
+      }
+    }
+
+    window.location.href = `/compare?previous=${previousJobId}&current=${currentJobId}`;
+  };
+
+  const openInViewer = (focus: ViewerFocus) => {
+    setViewerFocus(focus);
+    viewerRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
   };
 
   const formatSize = (bytes: number): string => {
@@ -299,19 +905,13 @@ export default function ShopDrawingQC() {
 
           {/* Error */}
           {error && (
-            <div className="mb-6 p-4 bg-red-500/10 border border-red-500/30 rounded-xl flex items-start gap-3 text-red-400">
-              <AlertCircle size={20} className="flex-shrink-0 mt-0.5" />
-              <div>
-                <span>{error}</span>
-                {error.includes('compress') && (
-                  <div className="mt-2 text-sm">
-                    <a href="https://smallpdf.com/compress-pdf" target="_blank" rel="noopener noreferrer" className="underline hover:text-red-300">
-                      → Open SmallPDF Compressor
-                    </a>
-                  </div>
-                )}
-              </div>
-            </div>
+            <ErrorPanel
+              error={error}
+              retryLabel={`Retry analysis${filename ? ` of ${filename}` : ''}`}
+              onRetry={failedJobId ? retryAnalysis : undefined}
+              onChooseAnother={reset}
+              isReviewer={user?.role === 'reviewer'}
+            />
           )}
 
           {/* Compression Status */}
@@ -337,7 +937,7 @@ export default function ShopDrawingQC() {
             <div className="flex items-center gap-2">
               <strong className="text-orange-400">Recommended: Under 15MB</strong>
               <span className="text-gray-500">|</span>
-              <span>Max upload: 32MB</span>
+              <span>Max upload: 200MB</span>
             </div>
             <div className="text-xs text-gray-500 space-y-1">
               <p><strong className="text-gray-400">If upload fails:</strong> Compress your PDF before uploading</p>
@@ -355,7 +955,7 @@ export default function ShopDrawingQC() {
             onDragOver={(e) => e.preventDefault()}
             onClick={() => !isCompressing && document.getElementById('fileInput')?.click()}
           >
-            <input id="fileInput" type="file" accept=".pdf" onChange={handleFileUpload} className="hidden" disabled={isCompressing} />
+            <input id="fileInput" type="file" accept=".pdf" multiple onChange={handleFileUpload} className="hidden" disabled={isCompressing} />
             {isCompressing ? (
               <div className="space-y-4">
                 <div className="w-20 h-20 mx-auto bg-orange-500/20 rounded-2xl flex items-center justify-center">
@@ -383,7 +983,7 @@ export default function ShopDrawingQC() {
                 </div>
                 <div>
                   <p className="text-xl font-semibold text-white">Drop your Shop Drawing PDF here</p>
-                  <p className="text-gray-400 mt-2">or click to browse</p>
+                  <p className="text-gray-400 mt-2">or click to browse • drop several to check a whole package</p>
                 </div>
               </div>
             )}
@@ -414,6 +1014,33 @@ export default function ShopDrawingQC() {
               <span>~30 seconds</span>
             </div>
           </div>
+
+          <div className="mt-6 flex items-center justify-center gap-4 text-xs text-gray-600">
+            <a href="/history" className="hover:text-gray-400 underline">History</a>
+            {user?.role === 'reviewer' && (
+              <>
+                <a href="/review" className="hover:text-gray-400 underline">Review queue</a>
+                <a href="/admin/checklist" className="hover:text-gray-400 underline">Checklist</a>
+                <a href="/admin/projects" className="hover:text-gray-400 underline">Project records</a>
+                <a href="/admin/led-catalog" className="hover:text-gray-400 underline">LED catalog</a>
+                <a href="/admin/dictionary" className="hover:text-gray-400 underline">Dictionary</a>
+                <a href="/admin/models" className="hover:text-gray-400 underline">Models</a>
+                <a href="/admin/usage" className="hover:text-gray-400 underline">Usage</a>
+                <a href="/admin/feedback" className="hover:text-gray-400 underline">Finding feedback</a>
+                <a href="/admin/users" className="hover:text-gray-400 underline">Users</a>
+              </>
+            )}
+          </div>
+          {user && (
+            <div className="mt-3 flex items-center justify-center gap-2 text-xs text-gray-600">
+              <span>
+                Signed in as {user.name} ({user.role})
+              </span>
+              <button onClick={signOut} className="hover:text-gray-400 underline">
+                Sign out
+              </button>
+            </div>
+          )}
         </div>
       </div>
     );
@@ -427,12 +1054,34 @@ export default function ShopDrawingQC() {
           <div className="text-center mb-8">
             <h2 className="text-2xl font-bold text-white mb-2">Project Details</h2>
             <p className="text-gray-400">Select all that apply to enable relevant checks</p>
+            {isDetecting && (
+              <p className="text-sm text-gray-500 mt-2 flex items-center justify-center gap-2">
+                <Loader2 size={14} className="animate-spin" />
+                Reading the drawing...
+              </p>
+            )}
+            {detection && detection.evidence.length > 0 && (
+              <p className="text-sm text-gray-500 mt-2">Pre-selected from the drawing&apos;s callouts. Change anything that&apos;s wrong.</p>
+            )}
           </div>
 
+          {/* A failed analysis keeps the file and answers, so it can be run again from here */}
+          {error && (
+            <ErrorPanel
+              error={error}
+              retryLabel={`Retry analysis of ${file?.name ?? filename}`}
+              onRetry={failedJobId ? retryAnalysis : runAnalysis}
+              onUploadAgain={runAnalysis}
+              onChooseAnother={reset}
+              isReviewer={user?.role === 'reviewer'}
+            />
+          )}
+
           <div className="space-y-3 mb-8">
             {QUESTIONS.map((q) => {
               const Icon = q.icon;
               const isSelected = projectAnswers[q.id as keyof ProjectAnswers];
+              const evidence = detection?.evidence.filter((e) => e.feature === q.id) ?? [];
               return (
                 <button
                   key={q.id}
@@ -447,6 +1096,14 @@ export default function ShopDrawingQC() {
                   <div className="flex-1">
                     <span className={`font-semibold text-lg ${isSelected ? 'text-white' : 'text-gray-300'}`}>{q.label}</span>
                     <p className="text-sm text-gray-500">{q.desc}</p>
+                    {evidence.length > 0 && (
+                      <p className={`text-xs mt-1 ${isSelected ? 'text-emerald-400' : 'text-orange-400'}`}>
+                        {isSelected ? 'Found on drawing' : 'Drawing shows'}: {evidence.map((e) => `"${e.text}" (page ${e.page})`).join(', ')}
+                      </p>
+                    )}
+                    {detection && isSelected && evidence.length === 0 && (
+                      <p className="text-xs mt-1 text-orange-400">Not found on the drawing&apos;s text. Keep it if the sheets show it.</p>
+                    )}
                   </div>
                   <div className={`w-7 h-7 rounded-full border-2 flex items-center justify-center ${isSelected ? 'border-pink-500 bg-pink-500' : 'border-gray-600'}`}>
                     {isSelected && <CheckCircle className="text-black" size={18} />}
@@ -456,6 +1113,26 @@ export default function ShopDrawingQC() {
             })}
           </div>
 
+          {/* Project Record */}
+          <div className="mb-8 p-5 bg-gray-900/50 border border-gray-800 rounded-xl">
+            <label className="block">
+              <span className="font-semibold text-white">Project record</span>
+              <p className="text-sm text-gray-500 mb-3">Title blocks are checked against this project&apos;s MRQ #, production #, version and date</p>
+              <select
+                value={projectId}
+                onChange={(e) => setProjectId(e.target.value)}
+                className="w-full bg-gray-900 border border-gray-700 rounded-lg px-3 py-2.5 text-gray-200"
+              >
+                <option value="">{projects === null ? 'Loading projects...' : 'Match from the title block'}</option>
+                {projects?.map((project) => (
+                  <option key={project.id} value={project.id}>
+                    {[project.projectName, project.mrqNumber && `MRQ ${project.mrqNumber}`, project.location].filter(Boolean).join(' • ')}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
           <div className="flex gap-4">
             <button onClick={() => setStep('upload')} className="px-8 py-4 border border-gray-700 text-gray-300 font-medium rounded-xl hover:bg-gray-900 transition-colors">
               Back
@@ -473,8 +1150,33 @@ export default function ShopDrawingQC() {
     );
   }
 
+  // ==================== BATCH STEP ====================
+  if (step === 'batch' && batch) {
+    return (
+      <BatchUpload
+        items={batch}
+        answers={projectAnswers}
+        onAnswersChange={setProjectAnswers}
+        onItemChange={updateBatchItem}
+        onRemove={(key) => setBatch(batch.filter((item) => item.key !== key))}
+        projects={projects}
+        projectId={projectId}
+        onProjectChange={setProjectId}
+        isRunning={isBatchRunning}
+        onStart={() => runBatchItems(batch)}
+        onCancel={cancelBatch}
+        onRetry={retryBatch}
+        onOpen={followJob}
+        onBack={reset}
+      />
+    );
+  }
+
   // ==================== ANALYZING STEP ====================
   if (step === 'analyzing') {
+    const liveCritical = liveFindings.filter((item) => item.status === 'fail').length;
+    const liveWarnings = liveFindings.filter((item) => item.status === 'warning').length;
+
     return (
       <div className="min-h-screen bg-black flex items-center justify-center p-8">
         <div className="w-full max-w-md text-center space-y-8">
@@ -489,6 +1191,51 @@ export default function ShopDrawingQC() {
             <div className="h-full bg-gradient-to-r from-orange-500 to-pink-500 transition-all duration-500" style={{ width: `${progress}%` }} />
           </div>
           <p className="text-gray-500">{progress}%</p>
+          {progress >= 15 && (
+            <p className="text-xs text-gray-500">Analysis runs on the server. You can close this tab and reopen this page's link later to see the results.</p>
+          )}
+
+          {/* Progress Log */}
+          {progressLog.length > 0 && (
+            <div className="text-left space-y-1.5 text-sm">
+              {progressLog.map((message, idx) => (
+                <div key={idx} className="flex items-center gap-2 text-gray-400">
+                  <CheckCircle size={14} className="text-emerald-400 flex-shrink-0" />
+                  <span>{message}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Live Findings */}
+          {liveFindings.length > 0 && (
+            <div className="text-left p-4 bg-gray-900/50 border border-gray-800 rounded-xl">
+              <div className="flex items-center gap-4 mb-3 text-sm">
+                <span className="text-pink-400 font-semibold">{liveCritical} critical</span>
+                <span className="text-orange-400 font-semibold">{liveWarnings} warnings</span>
+                <span className="text-gray-500">so far</span>
+              </div>
+              <div className="space-y-1.5 max-h-48 overflow-y-auto">
+                {liveFindings.map((item, idx) => (
+                  <div key={idx} className="text-sm flex items-start gap-2">
+                    {item.status === 'fail' ? (
+                      <XCircle size={14} className="text-pink-400 flex-shrink-0 mt-0.5" />
+                    ) : (
+                      <AlertTriangle size={14} className="text-orange-400 flex-shrink-0 mt-0.5" />
+                    )}
+                    <span className="text-gray-300">
+                      {item.label}
+                      {item.page && <span className="text-gray-500"> • Page {item.page}</span>}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <button onClick={cancelAnalysis} className="px-8 py-3 border border-gray-700 text-gray-300 font-medium rounded-xl hover:bg-gray-900 transition-colors">
+            Cancel
+          </button>
         </div>
       </div>
     );
@@ -500,6 +1247,7 @@ export default function ShopDrawingQC() {
     const totalWarnings = results.warnings?.length || 0;
     const totalPassed = results.passed?.length || 0;
     const totalManual = results.manualReview?.length || 0;
+    const totalFromRules = [...(results.criticalIssues || []), ...(results.warnings || [])].filter((item) => item.source === 'rule').length;
 
     return (
       <div className="min-h-screen bg-black p-8">
@@ -508,16 +1256,35 @@ export default function ShopDrawingQC() {
           <div className="mb-8 p-6 bg-gray-900/50 rounded-2xl border border-gray-800">
             <div className="flex items-start justify-between mb-6">
               <div>
-                <h2 className="text-2xl font-bold text-white mb-1">{file?.name}</h2>
+                <h2 className="text-2xl font-bold text-white mb-1">{filename}</h2>
                 <p className="text-gray-400">
                   {results.extractedInfo?.projectName || 'Shop Drawing'} • {results.extractedInfo?.location || ''} •{' '}
                   {results.projectType?.isBacklit ? '💡 Backlit' : 'Standard'}
                 </p>
               </div>
-              <button onClick={reset} className="px-4 py-2 border border-gray-700 text-gray-300 rounded-lg hover:bg-gray-800 transition-colors flex items-center gap-2">
-                <RotateCcw size={16} />
-                New Check
-              </button>
+              <div className="flex items-center gap-2">
+                {(file || pdfUrl) && (
+                  <button
+                    onClick={saveMarkedUpPdf}
+                    disabled={isBuildingMarkup}
+                    className="px-4 py-2 border border-gray-700 text-gray-300 rounded-lg hover:bg-gray-800 transition-colors flex items-center gap-2 disabled:opacity-50"
+                    title={markupError ?? 'The drawing set with a cover sheet and each finding stamped on its page'}
+                  >
+                    {isBuildingMarkup ? <Loader2 size={16} className="animate-spin" /> : markupError ? <AlertCircle size={16} className="text-red-400" /> : <Download size={16} />}
+                    Marked-up PDF
+                  </button>
+                )}
+                {batch && (
+                  <button onClick={backToBatch} className="px-4 py-2 border border-gray-700 text-gray-300 rounded-lg hover:bg-gray-800 transition-colors flex items-center gap-2">
+                    <ArrowLeft size={16} />
+                    Batch
+                  </button>
+                )}
+                <button onClick={reset} className="px-4 py-2 border border-gray-700 text-gray-300 rounded-lg hover:bg-gray-800 transition-colors flex items-center gap-2">
+                  <RotateCcw size={16} />
+                  New Check
+                </button>
+              </div>
             </div>
 
             {/* Stats */}
@@ -543,6 +1310,12 @@ export default function ShopDrawingQC() {
             {/* Summary */}
             <div className="p-4 bg-black/50 rounded-xl mb-6">
               <p className="text-gray-300">{results.summary}</p>
+              {totalFromRules > 0 && (
+                <p className="text-xs text-gray-500 mt-2 flex items-center gap-1.5">
+                  <ListChecks size={12} />
+                  {totalFromRules} finding{totalFromRules > 1 ? 's' : ''} from deterministic text checks, the rest from Claude AI
+                </p>
+              )}
             </div>
 
             {/* Overall Status */}
@@ -565,18 +1338,101 @@ export default function ShopDrawingQC() {
                   </>
                 )}
               </div>
-              <button
-                disabled={totalIssues > 0}
-                className={`px-8 py-3 rounded-xl font-bold text-lg flex items-center gap-2 transition-colors ${
-                  totalIssues > 0 ? 'bg-gray-800 text-gray-500 cursor-not-allowed' : 'bg-gradient-to-r from-orange-500 to-pink-500 hover:from-orange-400 hover:to-pink-400 text-black'
-                }`}
-              >
-                <Send size={20} />
-                Ready for Carlo
-              </button>
+              {submission ? (
+                <SubmissionBadge status={submission.status} />
+              ) : (
+                <button
+                  disabled={totalIssues > 0}
+                  onClick={() => setShowSubmitForm(true)}
+                  className={`px-8 py-3 rounded-xl font-bold text-lg flex items-center gap-2 transition-colors ${
+                    totalIssues > 0 ? 'bg-gray-800 text-gray-500 cursor-not-allowed' : 'bg-gradient-to-r from-orange-500 to-pink-500 hover:from-orange-400 hover:to-pink-400 text-black'
+                  }`}
+                >
+                  <Send size={20} />
+                  Ready for Carlo
+                </button>
+              )}
             </div>
           </div>
 
+          {/* Title Block */}
+          <TitleBlockPanel results={results} />
+
+          {/* Submit to Carlo */}
+          {showSubmitForm && !submission && (
+            <div className="mb-8 p-5 bg-gray-900/50 border border-orange-500/30 rounded-xl space-y-3">
+              <h3 className="font-bold text-white flex items-center gap-2">
+                <Send size={18} className="text-orange-400" />
+                Send to Carlo for review
+              </h3>
+              {submitError && <p className="text-sm text-red-400">{submitError}</p>}
+              <textarea
+                value={drafterNotes}
+                onChange={(e) => setDrafterNotes(e.target.value)}
+                placeholder="Notes for Carlo (what changed, warnings you checked, anything to look at)"
+                rows={3}
+                className="w-full px-3 py-2 bg-black border border-gray-700 rounded-lg text-sm text-gray-200 placeholder-gray-600 focus:border-orange-500 outline-none"
+              />
+              <div className="flex gap-3 justify-end">
+                <button onClick={() => setShowSubmitForm(false)} className="px-4 py-2 border border-gray-700 text-gray-300 text-sm rounded-lg hover:bg-gray-800 transition-colors">
+                  Cancel
+                </button>
+                <button
+                  onClick={submitForReview}
+                  disabled={isSubmitting}
+                  className="px-4 py-2 bg-gradient-to-r from-orange-500 to-pink-500 text-black font-semibold text-sm rounded-lg disabled:opacity-50 flex items-center gap-2"
+                >
+                  {isSubmitting && <Loader2 size={14} className="animate-spin" />}
+                  Submit
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Review Status */}
+          {submission && (
+            <div className="mb-8 p-5 bg-gray-900/50 border border-gray-800 rounded-xl">
+              <h3 className="font-bold text-white mb-3">Review history</h3>
+              <div className="space-y-3">
+                {submission.history.map((event, idx) => (
+                  <div key={idx} className="text-sm">
+                    <div className="text-gray-300">
+                      <span className="font-semibold capitalize">{event.action}</span> by {event.by}
+                      <span className="text-gray-500"> • {new Date(event.at).toLocaleString()}</span>
+                    </div>
+                    {event.comment && <div className="text-gray-400 mt-1 whitespace-pre-wrap">{event.comment}</div>}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Drawing */}
+          {(file || pdfUrl) && (
+            <div ref={viewerRef} className="mb-4 p-5 bg-gray-900/50 border border-gray-800 rounded-xl scroll-mt-4">
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <h3 className="font-bold text-white flex items-center gap-2">
+                    <ImageIcon size={18} className="text-orange-400" />
+                    Drawing
+                  </h3>
+                  <p className="text-sm text-gray-500 mt-1">Click a page number on any issue to jump to it on the sheet.</p>
+                </div>
+                <button
+                  onClick={() => setViewerFocus(viewerFocus ? null : { page: 1 })}
+                  className="px-4 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg text-sm font-medium"
+                >
+                  {viewerFocus ? 'Hide pages' : 'Show pages'}
+                </button>
+              </div>
+              {viewerFocus && (
+                <div className="mt-4">
+                  <PageViewer source={file ?? pdfUrl!} results={results} focus={viewerFocus} onFocus={setViewerFocus} />
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Critical Issues */}
           {results.criticalIssues && results.criticalIssues.length > 0 && (
             <div className="mb-4 border border-pink-500/30 rounded-xl overflow-hidden">
@@ -591,9 +1447,25 @@ export default function ShopDrawingQC() {
                   <div key={idx} className="p-4 flex items-start gap-4 bg-pink-500/5">
                     <StatusBadge status="fail" critical />
                     <div className="flex-1">
-                      <div className="font-semibold text-white">{item.label}</div>
+                      <div className="font-semibold text-white flex items-center gap-2">
+                        {item.label}
+                        <SourceBadge source={item.source} />
+                      </div>
                       <div className="text-pink-400 mt-1">{item.notes}</div>
-                      {item.page && <div className="text-xs text-gray-500 mt-2">Page {item.page}</div>}
+                      {item.suggestion && (
+                        <div className="text-sm text-gray-400 mt-1">
+                          Suggested: <span className="text-emerald-400">{item.suggestion}</span>
+                        </div>
+                      )}
+                      {item.page && <PageLink item={item} onOpen={openInViewer} />}
+                      {user?.role === 'reviewer' && isSpellingFinding(item) && <SpellingActions item={item} />}
+                      {feedback && (
+                        <FindingVerdict
+                          feedback={feedback[findingKey(item)]}
+                          onSave={(verdict, comment) => saveVerdict(item, verdict, comment)}
+                          onClear={() => saveVerdict(item, null)}
+                        />
+                      )}
                     </div>
                   </div>
                 ))}
@@ -615,9 +1487,25 @@ export default function ShopDrawingQC() {
                   <div key={idx} className="p-4 flex items-start gap-4 bg-orange-500/5">
                     <StatusBadge status="warning" />
                     <div className="flex-1">
-                      <div className="font-semibold text-white">{item.label}</div>
+                      <div className="font-semibold text-white flex items-center gap-2">
+                        {item.label}
+                        <SourceBadge source={item.source} />
+                      </div>
                       <div className="text-orange-400 mt-1">{item.notes}</div>
-                      {item.page && <div className="text-xs text-gray-500 mt-2">Page {item.page}</div>}
+                      {item.suggestion && (
+                        <div className="text-sm text-gray-400 mt-1">
+                          Suggested: <span className="text-emerald-400">{item.suggestion}</span>
+                        </div>
+                      )}
+                      {item.page && <PageLink item={item} onOpen={openInViewer} />}
+                      {user?.role === 'reviewer' && isSpellingFinding(item) && <SpellingActions item={item} />}
+                      {feedback && (
+                        <FindingVerdict
+                          feedback={feedback[findingKey(item)]}
+                          onSave={(verdict, comment) => saveVerdict(item, verdict, comment)}
+                          onClear={() => saveVerdict(item, null)}
+                        />
+                      )}
                     </div>
                   </div>
                 ))}
@@ -639,7 +1527,10 @@ export default function ShopDrawingQC() {
                   <div key={idx} className="p-4 flex items-start gap-4">
                     <StatusBadge status="pass" />
                     <div className="flex-1">
-                      <div className="font-semibold text-white">{item.label}</div>
+                      <div className="font-semibold text-white flex items-center gap-2">
+                        {item.label}
+                        <SourceBadge source={item.source} />
+                      </div>
                       <div className="text-gray-400 mt-1">{item.notes}</div>
                     </div>
                   </div>
@@ -662,8 +1553,72 @@ export default function ShopDrawingQC() {
                   <div key={idx} className="p-4 flex items-start gap-4">
                     <StatusBadge status="pending" />
                     <div className="flex-1">
-                      <div className="font-semibold text-white">{item.label}</div>
+                      <div className="font-semibold text-white flex items-center gap-2">
+                        {item.label}
+                        <SourceBadge source={item.source} />
+                      </div>
                       <div className="text-gray-400 mt-1">{item.notes}</div>
+                      {item.suggestion && (
+                        <div className="text-sm text-gray-400 mt-1">
+                          Suggested: <span className="text-emerald-400">{item.suggestion}</span>
+                        </div>
+                      )}
+                      {item.page && <PageLink item={item} onOpen={openInViewer} />}
+                      {user?.role === 'reviewer' && isSpellingFinding(item) && <SpellingActions item={item} />}
+                      {feedback && (
+                        <FindingVerdict
+                          feedback={feedback[findingKey(item)]}
+                          onSave={(verdict, comment) => saveVerdict(item, verdict, comment)}
+                          onClear={() => saveVerdict(item, null)}
+                        />
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Previously Dismissed */}
+          {results.dismissed && results.dismissed.length > 0 && (
+            <div className="mb-4 border border-gray-800 rounded-xl overflow-hidden">
+              <div className="p-4 bg-gray-900/50 border-b border-gray-800">
+                <h3 className="font-bold text-lg text-gray-500 flex items-center gap-2">
+                  <EyeOff size={20} />
+                  Previously Dismissed ({results.dismissed.length})
+                </h3>
+                <p className="text-sm text-gray-500 mt-1">Marked false positives on an earlier analysis of this project, so left out of the result.</p>
+              </div>
+              <div className="divide-y divide-gray-800/50">
+                {results.dismissed.map((item, idx) => (
+                  <div key={idx} className="p-4 flex items-start gap-4 opacity-75">
+                    <StatusBadge status={item.status} />
+                    <div className="flex-1">
+                      <div className="font-semibold text-gray-300 flex items-center gap-2">
+                        {item.label}
+                        <SourceBadge source={item.source} />
+                      </div>
+                      <div className="text-gray-500 mt-1">{item.notes}</div>
+                      {item.dismissed && (
+                        <div className="text-xs text-gray-500 mt-1">
+                          Dismissed by {item.dismissed.by} on {new Date(item.dismissed.at).toLocaleDateString()}
+                          {item.dismissed.comment && <>: {item.dismissed.comment}</>}
+                        </div>
+                      )}
+                      {item.suggestion && (
+                        <div className="text-sm text-gray-400 mt-1">
+                          Suggested: <span className="text-emerald-400">{item.suggestion}</span>
+                        </div>
+                      )}
+                      {item.page && <PageLink item={item} onOpen={openInViewer} />}
+                      {user?.role === 'reviewer' && isSpellingFinding(item) && <SpellingActions item={item} />}
+                      {feedback && (
+                        <FindingVerdict
+                          feedback={feedback[findingKey(item)]}
+                          onSave={(verdict, comment) => saveVerdict(item, verdict, comment)}
+                          onClear={() => saveVerdict(item, null)}
+                        />
+                      )}
                     </div>
                   </div>
                 ))}
@@ -671,9 +1626,81 @@ export default function ShopDrawingQC() {
             </div>
           )}
 
+          {/* Export */}
+          <div className="mt-8 p-5 bg-gray-900/50 border border-gray-800 rounded-xl flex items-center justify-between gap-4">
+            <div>
+              <h3 className="font-bold text-white flex items-center gap-2">
+                <Download size={18} className="text-orange-400" />
+                Export report
+              </h3>
+              <p className="text-sm text-gray-500">For email, the project folder or the tracking spreadsheet</p>
+            </div>
+            <div className="flex gap-2">
+              {(['pdf', 'csv', 'json'] as const).map((format) => (
+                <button
+                  key={format}
+                  onClick={() => downloadReport(results, filename, format).catch((err) => console.error('Export error:', err))}
+                  className="px-4 py-2 border border-gray-700 text-gray-300 text-sm font-medium rounded-lg hover:bg-gray-800 transition-colors uppercase"
+                >
+                  {format}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Compare with Previous Revision */}
+          <div className="mt-8 p-5 bg-gray-900/50 border border-gray-800 rounded-xl">
+            <h3 className="font-bold text-white flex items-center gap-2 mb-1">
+              <GitCompare size={18} className="text-orange-400" />
+              Compare with previous revision
+            </h3>
+            <p className="text-sm text-gray-500 mb-4">See which issues this version fixed, which are still open and what's new.</p>
+            {compareError && <p className="text-sm text-red-400 mb-3">{compareError}</p>}
+            <div className="flex gap-3">
+              <input
+                type="text"
+                value={previousLink}
+                onChange={(e) => setPreviousLink(e.target.value)}
+                placeholder="Link to the previous report"
+                className="flex-1 px-3 py-2 bg-black border border-gray-700 rounded-lg text-sm text-gray-200 placeholder-gray-600 focus:border-orange-500 outline-none"
+              />
+              <button
+                onClick={() => comparePrevious(previousLink)}
+                disabled={isStartingCompare || !previousLink.trim()}
+                className="px-4 py-2 bg-gradient-to-r from-orange-500 to-pink-500 text-black font-semibold text-sm rounded-lg disabled:opacity-50"
+              >
+                Compare
+              </button>
+              <label className={`px-4 py-2 border border-gray-700 text-gray-300 text-sm rounded-lg hover:bg-gray-800 transition-colors flex items-center gap-2 ${isStartingCompare ? 'opacity-50' : 'cursor-pointer'}`}>
+                {isStartingCompare ? <Loader2 size={14} className="animate-spin" /> : <Upload size={14} />}
+                Previous PDF
+                <input
+                  type="file"
+                  accept=".pdf"
+                  className="hidden"
+                  disabled={isStartingCompare}
+                  onChange={(e) => e.target.files?.[0] && comparePrevious(e.target.files[0])}
+                />
+              </label>
+            </div>
+          </div>
+
           {/* Footer */}
           <div className="mt-10 text-center text-sm text-gray-500">
             Powered by Claude AI • M|R Walls Shop Drawing QC
+            {results.checklistVersion !== undefined && (
+              <>
+                {' '}•{' '}
+                <a href={`/admin/checklist?version=${results.checklistVersion}`} className="underline hover:text-gray-300">
+                  Checklist v{results.checklistVersion}
+                </a>
+              </>
+            )}
+            {results.usage && results.usage.inputTokens + results.usage.outputTokens > 0 && (
+              <>
+                {' '}• {(results.usage.inputTokens + results.usage.outputTokens).toLocaleString()} tokens, {formatCost(results.usage.costUsd)}
+              </>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,250 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { AlertCircle, AlertTriangle, ArrowLeft, CheckCircle, Eye, Inbox, Loader2, RotateCcw, XCircle } from 'lucide-react';
+import type { CheckItem, Submission, SubmissionStatus, SubmissionSummary } from '@/lib/types';
+
+const TABS: { status: SubmissionStatus; label: string }[] = [
+  { status: 'pending', label: 'Pending' },
+  { status: 'returned', label: 'Returned' },
+  { status: 'approved', label: 'Approved' },
+];
+
+function FindingList({ title, items, icon: Icon, color }: { title: string; items: CheckItem[]; icon: typeof XCircle; color: string }) {
+  if (items.length === 0) return null;
+  return (
+    <div>
+      <h4 className={`text-sm font-bold mb-2 ${color}`}>
+        {title} ({items.length})
+      </h4>
+      <div className="space-y-2">
+        {items.map((item, idx) => (
+          <div key={idx} className="flex items-start gap-2 text-sm">
+            <Icon size={14} className={`${color} flex-shrink-0 mt-0.5`} />
+            <div>
+              <span className="text-gray-200">{item.label}</span>
+              {item.page && <span className="text-gray-500"> • Page {item.page}</span>}
+              <div className="text-gray-500">{item.notes}</div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default function ReviewQueue({ initialId }: { initialId?: string }) {
+  const [tab, setTab] = useState<SubmissionStatus>('pending');
+  const [submissions, setSubmissions] = useState<SubmissionSummary[] | null>(null);
+  const [selected, setSelected] = useState<Submission | null>(null);
+  const [comment, setComment] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const load = useCallback(async (status: SubmissionStatus) => {
+    const response = await fetch(`/api/submissions?status=${status}`, { cache: 'no-store' });
+    const data = await response.json();
+    if (!response.ok) {
+      setError(data.error || 'Failed to load submissions');
+      return;
+    }
+    setSubmissions(data.submissions);
+  }, []);
+
+  const open = useCallback(async (id: string) => {
+    const response = await fetch(`/api/submissions/${id}`, { cache: 'no-store' });
+    const data = await response.json();
+    if (!response.ok) {
+      setError(data.error || 'Failed to load submission');
+      return;
+    }
+    setSelected(data.submission);
+    setComment('');
+    setError(null);
+    window.history.replaceState(null, '', `?id=${id}`);
+  }, []);
+
+  useEffect(() => {
+    load(tab);
+  }, [load, tab]);
+
+  useEffect(() => {
+    if (initialId) open(initialId);
+  }, [initialId, open]);
+
+  const review = async (action: 'approve' | 'return') => {
+    if (!selected) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/submissions/${selected.id}/review`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, comment }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save review');
+      }
+      setSelected(data.submission);
+      setComment('');
+      await load(tab);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save review');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-black p-8">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <a href="/" className="text-sm text-gray-500 hover:text-gray-300 flex items-center gap-1 mb-2">
+            <ArrowLeft size={14} />
+            Back to QC
+          </a>
+          <h1 className="text-3xl font-bold text-white">Review Queue</h1>
+          <p className="text-gray-400">Drawings sent for review, with their QC reports</p>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-500/10 border border-red-500/30 rounded-xl flex items-start gap-3 text-red-400">
+            <AlertCircle size={20} className="flex-shrink-0 mt-0.5" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <div className="grid grid-cols-[18rem_1fr] gap-6">
+          {/* Queue */}
+          <div>
+            <div className="flex gap-1 mb-4 p-1 bg-gray-900 rounded-lg">
+              {TABS.map((t) => (
+                <button
+                  key={t.status}
+                  onClick={() => setTab(t.status)}
+                  className={`flex-1 py-1.5 text-sm rounded-md transition-colors ${tab === t.status ? 'bg-gray-700 text-white' : 'text-gray-400 hover:text-gray-200'}`}
+                >
+                  {t.label}
+                </button>
+              ))}
+            </div>
+
+            {submissions === null ? (
+              <Loader2 className="text-orange-400 animate-spin mx-auto" size={24} />
+            ) : submissions.length === 0 ? (
+              <div className="p-6 text-center text-sm text-gray-500 border border-gray-800 rounded-xl">
+                <Inbox className="mx-auto mb-2" size={24} />
+                Nothing {tab}
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {submissions.map((item) => (
+                  <button
+                    key={item.id}
+                    onClick={() => open(item.id)}
+                    className={`w-full p-3 text-left rounded-xl border transition-colors ${
+                      selected?.id === item.id ? 'border-orange-500 bg-orange-500/10' : 'border-gray-800 bg-gray-900/50 hover:border-gray-700'
+                    }`}
+                  >
+                    <div className="font-semibold text-white text-sm truncate">{item.filename}</div>
+                    <div className="text-xs text-gray-500 mt-1">
+                      {item.submittedBy} • {new Date(item.createdAt).toLocaleDateString()}
+                    </div>
+                    <div className="text-xs mt-1">
+                      <span className="text-orange-400">{item.warningCount} warnings</span>
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Selected Submission */}
+          {selected ? (
+            <div className="grid grid-cols-2 gap-6">
+              <iframe src={selected.blobUrl} title={selected.filename} className="w-full h-[80vh] rounded-xl border border-gray-800 bg-white" />
+
+              <div className="space-y-6 max-h-[80vh] overflow-y-auto pr-2">
+                <div>
+                  <h2 className="text-xl font-bold text-white">{selected.filename}</h2>
+                  <p className="text-sm text-gray-400">
+                    {selected.results.extractedInfo.projectName || 'Shop Drawing'} • {selected.results.extractedInfo.version || 'Version unknown'} •{' '}
+                    <a href={`/?job=${selected.jobId}`} className="underline hover:text-gray-200">
+                      Full QC report
+                    </a>
+                  </p>
+                </div>
+
+                {selected.drafterNotes && (
+                  <div className="p-4 bg-gray-900/50 border border-gray-800 rounded-xl">
+                    <h4 className="text-sm font-bold text-gray-300 mb-1">Notes from {selected.submittedBy}</h4>
+                    <p className="text-sm text-gray-400 whitespace-pre-wrap">{selected.drafterNotes}</p>
+                  </div>
+                )}
+
+                <div className="space-y-4">
+                  <p className="text-sm text-gray-300">{selected.results.summary}</p>
+                  <FindingList title="Critical" items={selected.results.criticalIssues} icon={XCircle} color="text-pink-400" />
+                  <FindingList title="Warnings" items={selected.results.warnings} icon={AlertTriangle} color="text-orange-400" />
+                  <FindingList title="Manual Review" items={selected.results.manualReview} icon={Eye} color="text-gray-400" />
+                </div>
+
+                {/* Decision */}
+                {selected.status === 'pending' && (
+                  <div className="p-4 bg-gray-900/50 border border-gray-800 rounded-xl space-y-3">
+                    <textarea
+                      value={comment}
+                      onChange={(e) => setComment(e.target.value)}
+                      placeholder="Comments for the drafter (required when returning)"
+                      rows={4}
+                      className="w-full px-3 py-2 bg-black border border-gray-700 rounded-lg text-sm text-gray-200 placeholder-gray-600 focus:border-orange-500 outline-none"
+                    />
+                    <div className="flex gap-3">
+                      <button
+                        onClick={() => review('return')}
+                        disabled={isSaving || !comment.trim()}
+                        className="flex-1 py-2 border border-pink-500/50 text-pink-400 font-semibold text-sm rounded-lg hover:bg-pink-500/10 disabled:opacity-50 flex items-center justify-center gap-2"
+                      >
+                        <RotateCcw size={14} />
+                        Return
+                      </button>
+                      <button
+                        onClick={() => review('approve')}
+                        disabled={isSaving}
+                        className="flex-1 py-2 bg-emerald-500 text-black font-semibold text-sm rounded-lg hover:bg-emerald-400 disabled:opacity-50 flex items-center justify-center gap-2"
+                      >
+                        <CheckCircle size={14} />
+                        Approve
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {/* Audit Trail */}
+                <div>
+                  <h4 className="text-sm font-bold text-gray-300 mb-2">History</h4>
+                  <div className="space-y-2">
+                    {selected.history.map((event, idx) => (
+                      <div key={idx} className="text-sm">
+                        <span className="text-gray-300 capitalize font-semibold">{event.action}</span>
+                        <span className="text-gray-400"> by {event.by}</span>
+                        <span className="text-gray-500"> • {new Date(event.at).toLocaleString()}</span>
+                        {event.comment && <div className="text-gray-500 whitespace-pre-wrap">{event.comment}</div>}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            </div>
+          ) : (
+            <div className="flex items-center justify-center text-gray-500 border border-gray-800 rounded-xl min-h-[40vh]">
+              Select a submission to review
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
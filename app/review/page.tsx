@@ -0,0 +1,7 @@
+import ReviewQueue from './ReviewQueue';
+
+export const dynamic = 'force-dynamic';
+
+export default function ReviewPage({ searchParams }: { searchParams: { id?: string } }) {
+  return <ReviewQueue initialId={searchParams.id} />;
+}
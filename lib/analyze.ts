@@ -0,0 +1,516 @@
+import { mapWithConcurrency } from './async';
+import { mergeBatchResults, mergeDocumentResults, splitPdf, type PdfBatch } from './batching';
+import { applicableChecks, buildChecklistPrompt, isDocumentCheck, type CheckDefinition } from './checklist';
+import { getCurrentChecklist } from './checklistStore';
+import { withoutAcceptedTerms, type SpellingDictionary } from './dictionary';
+import { getDictionary } from './dictionaryStore';
+import { checkCorners, DIMENSION_CHECK_IDS } from './dimensions';
+import { applyFeedback, describeDismissed } from './feedback';
+import { getFeedback } from './feedbackStore';
+import { getLedCatalog } from './ledCatalogStore';
+import { checkLedLoad, LED_CHECK_ID } from './ledCheck';
+import { isLocalUpload, readLocalUpload } from './localUploads';
+import { groupByModel, type ModelGroup } from './modelSettings';
+import { getModelSettings } from './modelSettingsStore';
+import { extractPdfText, type PdfText } from './pdfText';
+import { findProjectRecord, getProjectRecord } from './projectRecords';
+import { getAnalysisProvider, type AnalysisRequest } from './providers';
+import { detectFromText, reconcileProjectType, summarizeDetection } from './projectType';
+import { describeRuleCoverage, mergeRuleFindings, runRuleChecks, type RuleFindings } from './rules';
+import { overallStatusFor, validateCorners, validateLedSystem, validateModelResults, validateProjectFeatures, validateSheets, type ValidationResult } from './schema';
+import { checkAgainstRecord, projectKey, titleBlockInfo } from './titleBlock';
+import { priceUsage } from './usage';
+import { recordUsage } from './usageStore';
+import type { AnalysisEvent, AnalysisResults, FeatureEvidence, ModelResults, ProjectAnswers, TokenUsage } from './types';
+
+const PROMPT_INTRO = `You are an expert quality control reviewer for M|R Walls shop drawings. Analyze this PDF and identify issues BEFORE they get to Carlo for review.`;
+
+// The checks themselves come from the checklist registry (lib/checklist.ts)
+const RESPONSE_FORMAT = `## RESPONSE FORMAT
+
+IMPORTANT: Return ONLY valid JSON. No text before or after. No markdown code blocks. Start directly with { and end with }
+
+{
+  "overallStatus": "pass" | "warning" | "fail",
+  "summary": "Brief 1-2 sentence summary of findings",
+  "criticalIssues": [
+    {"id": "unique_id", "checkId": "check_id", "label": "Issue Name", "status": "fail", "notes": "What's wrong and where", "page": 1}
+  ],
+  "warnings": [
+    {"id": "unique_id", "checkId": "check_id", "label": "Warning Name", "status": "warning", "notes": "What to review", "page": 2}
+  ],
+  "passed": [
+    {"id": "unique_id", "checkId": "check_id", "label": "Check Name", "status": "pass", "notes": "Brief confirmation"}
+  ],
+  "manualReview": [
+    {"id": "unique_id", "checkId": "check_id", "label": "Check Name", "status": "pending", "notes": "Why a person needs to look at this", "page": 3}
+  ],
+  "extractedInfo": {"projectName": "From title block", "location": "City, State", "version": "e.g. V2", "drawnBy": "Initials or name"},
+  "pageCount": 4
+}
+
+Every id must be unique across all sections. Page numbers start at 1. Use "" for any extractedInfo field you cannot find.
+
+Be thorough. Focus on issues Carlo would catch. If something fails, explain exactly what's wrong and where.`;
+
+const SHEETS_FORMAT = `Also add a "sheets" array to the JSON with exactly one entry per page of this PDF, copying each sheet's title block as written:
+"sheets": [{"page": 1, "hasLogo": true, "projectName": "From title block", "location": "City, State", "mrqNumber": "MRQ #", "productionNumber": "PRODUCTION #", "design": "Design name", "version": "V2", "date": "01/15/2025", "scale": "1/2\" = 1'-0\"", "drawnBy": "Initials", "drawingType": "Elevation"}]
+Use "" for anything not shown on that sheet.`;
+
+// Asked of every reply that sees the PDF, so the project type can be checked
+// against the drafter's answers (see lib/projectType.ts)
+const FEATURES_FORMAT = `Also add a "projectFeatures" array listing what the drawing itself shows, whatever the project context says:
+"projectFeatures": [{"feature": "isBacklit", "page": 3, "text": "LED driver callout"}]
+Use "isBacklit" for LEDs, drivers or a backlit wall, "hasCutouts" for cutout outlines or notes, "hasCorners" for inside/outside corner details, and "hasLogos" for logo inlays, engraving or artwork (not the M|R logo in the title block). Use [] if none apply.`;
+
+// Asked when the LED load check runs; the numbers are checked against the
+// LED catalog in code (see lib/ledCheck.ts)
+const LED_FORMAT = `Also add an "ledSystem" object with the LED layout read from the wiring diagram and component list, or null if the drawing has none:
+"ledSystem": {"product": "LED strip as called out", "spacingInches": 4, "runs": [{"count": 12, "lengthInches": 96, "page": 3}], "rolls": 6, "drivers": 2, "driverWatts": 96, "receivers": 1, "amplifiers": 1, "totalWattage": 275, "page": 3}
+List each group of equal-length strip runs once with how many there are. Use null for any number the drawing doesn't state and [] for runs you can't read. Do not report [${LED_CHECK_ID}] findings yourself - the load is computed from ledSystem.`;
+
+// Asked when the corner panel width check runs; the butt joint arithmetic is
+// done in code (see lib/dimensions.ts)
+const CORNERS_FORMAT = `Also add a "corners" array with every inside or outside corner where two panels meet at a butt joint:
+"corners": [{"page": 2, "type": "outside", "thickness": "1/2\"", "sides": [{"label": "Panel A4", "layoutWidth": "2'-0\"", "panelWidth": "2'-0 1/2\""}, {"label": "Panel B1", "layoutWidth": "2'-0\"", "panelWidth": "2'-0\""}]}]
+For each of the two panels give the width it covers on the elevation layout and the width it is cut to, copied as written. "thickness" is the panel material thickness if stated, else "". Use [] if there are no corners. Do not report [${DIMENSION_CHECK_IDS.corners}] findings yourself - the adjustment is computed from corners.`;
+
+// Page batches sent to Claude at once for a split drawing set
+const BATCH_CONCURRENCY = 4;
+
+export interface AnalyzeOptions {
+  pdfBuffer: ArrayBuffer;
+  filename: string;
+  projectType?: Partial<ProjectAnswers>;
+  // Project record to check the title blocks against; matched from them when omitted
+  projectId?: string;
+  // The signed-in user who started the analysis
+  analyzedBy?: string;
+  analyzedById?: string;
+  // Progress and partial findings, shown on the job while it runs
+  emit?: (event: AnalysisEvent) => void;
+  signal?: AbortSignal;
+  // Awaited before each model request, e.g. to notice a cancel made through
+  // another instance before another request is paid for
+  beforeRequest?: () => Promise<void>;
+  // Evaluation runs stay off the usage ledger and ignore the project's
+  // verdicts, so their scores don't move when someone marks a false positive
+  skipUsage?: boolean;
+  skipFeedback?: boolean;
+}
+
+// Sends requests through the analysis provider (see lib/providers) and
+// notes which models answered and the tokens each one used, for the report
+function modelRequester(signal?: AbortSignal, beforeRequest?: () => Promise<void>) {
+  const provider = getAnalysisProvider();
+  const models = new Set<string>();
+  const tokens = new Map<string, TokenUsage>();
+  const onUsage = (model: string, usage: TokenUsage) => {
+    const sum = tokens.get(model) ?? { inputTokens: 0, outputTokens: 0 };
+    tokens.set(model, { inputTokens: sum.inputTokens + usage.inputTokens, outputTokens: sum.outputTokens + usage.outputTokens });
+  };
+  const ask = async <T>(request: Omit<AnalysisRequest<T>, 'signal' | 'onUsage'>): Promise<T> => {
+    await beforeRequest?.();
+    signal?.throwIfAborted();
+    const reply = await provider.analyze({ ...request, signal, onUsage });
+    models.add(reply.model);
+    return reply.value;
+  };
+  return { models, tokens, ask };
+}
+
+type Requester = ReturnType<typeof modelRequester>;
+
+type Ask = Requester['ask'];
+
+function buildContextNote(projectType: Partial<ProjectAnswers> | undefined): string {
+  let contextNote = '';
+  if (projectType?.isBacklit) {
+    contextNote += ' This is a BACKLIT wall - check all backlit requirements carefully.';
+  }
+  if (projectType?.hasCutouts) {
+    contextNote += ' This has CUTOUTS - verify cutout border and fabrication notes.';
+  }
+  if (projectType?.hasCorners) {
+    contextNote += ' This has CORNERS - check butt joint dimension adjustments.';
+  }
+  if (projectType?.hasLogos) {
+    contextNote += ' This has LOGOS/INLAYS - check artwork references, engraving depth and finish, logo placement relative to panel seams, and artwork approval notes.';
+  }
+  return contextNote;
+}
+
+interface PromptParts {
+  checks: CheckDefinition[];
+  dictionary: SpellingDictionary;
+  contextNote: string;
+  ruleNote: string;
+  extra?: string;
+}
+
+function buildPrompt({ checks, dictionary, contextNote, ruleNote, extra }: PromptParts): string {
+  return `${PROMPT_INTRO}\n\n${buildChecklistPrompt(checks, dictionary)}\n\n${RESPONSE_FORMAT}${extra ? '\n\n' + extra : ''}${
+    contextNote ? '\n\nPROJECT CONTEXT:' + contextNote : ''
+  }${ruleNote ? '\n\n' + ruleNote : ''}\n\nREMEMBER: Output ONLY the JSON object. No other text.`;
+}
+
+// Validated results with the model's project features attached
+function withProjectFeatures(validation: ValidationResult<ModelResults>, parsed: unknown, pageCount?: number): ValidationResult<ModelResults> {
+  if (!validation.ok) return validation;
+  const features = validateProjectFeatures((parsed as { projectFeatures?: unknown }).projectFeatures, pageCount);
+  return features.ok ? { ok: true, value: { ...validation.value, projectFeatures: features.value } } : features;
+}
+
+// Validated results with the per-sheet title blocks attached, reporting the
+// errors in both together so one repair round can fix them
+function withSheets(validation: ValidationResult<ModelResults>, parsed: unknown, pageCount: number): ValidationResult<ModelResults> {
+  const sheets = validateSheets((parsed as { sheets?: unknown } | null)?.sheets, pageCount);
+  if (validation.ok && sheets.ok) {
+    return { ok: true, value: { ...validation.value, sheets: sheets.value } };
+  }
+  return { ok: false, errors: [...(validation.ok ? [] : validation.errors), ...(sheets.ok ? [] : sheets.errors)] };
+}
+
+// Validated results with the LED layout attached
+function withLedSystem(validation: ValidationResult<ModelResults>, parsed: unknown, pageCount?: number): ValidationResult<ModelResults> {
+  const ledSystem = validateLedSystem((parsed as { ledSystem?: unknown } | null)?.ledSystem, pageCount);
+  if (validation.ok && ledSystem.ok) {
+    return { ok: true, value: { ...validation.value, ledSystem: ledSystem.value } };
+  }
+  return { ok: false, errors: [...(validation.ok ? [] : validation.errors), ...(ledSystem.ok ? [] : ledSystem.errors)] };
+}
+
+// Validated results with the corners attached
+function withCorners(validation: ValidationResult<ModelResults>, parsed: unknown, pageCount?: number): ValidationResult<ModelResults> {
+  const corners = validateCorners((parsed as { corners?: unknown } | null)?.corners, pageCount);
+  if (validation.ok && corners.ok) {
+    return { ok: true, value: { ...validation.value, corners: corners.value } };
+  }
+  return { ok: false, errors: [...(validation.ok ? [] : validation.errors), ...(corners.ok ? [] : corners.errors)] };
+}
+
+const checksLedLoad = (checks: CheckDefinition[]) => checks.some((check) => check.id === LED_CHECK_ID);
+const checksCorners = (checks: CheckDefinition[]) => checks.some((check) => check.id === DIMENSION_CHECK_IDS.corners);
+
+// The extra reply sections the checks need, and their validation
+function checkExtras(checks: CheckDefinition[]) {
+  const led = checksLedLoad(checks);
+  const corners = checksCorners(checks);
+  return {
+    prompt: [led ? LED_FORMAT : '', corners ? CORNERS_FORMAT : ''].filter(Boolean).join('\n\n'),
+    validate(validation: ValidationResult<ModelResults>, parsed: unknown, pageCount?: number) {
+      if (led) validation = withLedSystem(validation, parsed, pageCount);
+      return corners ? withCorners(validation, parsed, pageCount) : validation;
+    },
+  };
+}
+
+// One reply from the replies of each model group
+function mergeGroupResults(replies: ModelResults[]): ModelResults {
+  return replies.reduce((merged, next) => ({
+    ...mergeDocumentResults(merged, next),
+    summary: [merged.summary, next.summary].filter(Boolean).join(' '),
+    ledSystem: merged.ledSystem ?? next.ledSystem,
+    corners: merged.corners ?? next.corners,
+  }));
+}
+
+interface PdfRequest {
+  bytes: Uint8Array;
+  // Known once the PDF has been split; the title block of every sheet is asked for then
+  pageCount?: number;
+  dictionary: SpellingDictionary;
+  contextNote: string;
+  ruleNote: string;
+  intro?: string;
+}
+
+// Ask about a PDF (or page batch) once per model group. The first group also
+// reads the sheets and project features; LED and corner facts go with the
+// group that has those checks.
+async function analyzePdf(ask: Ask, groups: ModelGroup[], { bytes, pageCount, dictionary, contextNote, ruleNote, intro }: PdfRequest) {
+  const replies = await Promise.all(
+    groups.map((group, index) => {
+      const primary = index === 0;
+      const checkIds = group.checks.map((check) => check.id);
+      const extras = checkExtras(group.checks);
+      const extra = [primary ? FEATURES_FORMAT : '', intro ?? '', primary && pageCount ? SHEETS_FORMAT : '', extras.prompt].filter(Boolean).join('\n\n');
+
+      return ask({
+        document: bytes,
+        pageCount,
+        settings: group,
+        prompt: buildPrompt({ checks: group.checks, dictionary, contextNote, ruleNote, extra }),
+        validate: (parsed) => {
+          let validation = validateModelResults(parsed, pageCount, checkIds);
+          if (primary) {
+            validation = withProjectFeatures(validation, parsed, pageCount);
+            if (pageCount) validation = withSheets(validation, parsed, pageCount);
+          }
+          return extras.validate(validation, parsed, pageCount);
+        },
+      });
+    })
+  );
+  return mergeGroupResults(replies);
+}
+
+// One page range of a split set, with page checks only and per-sheet facts
+async function analyzeBatch(
+  ask: Ask,
+  batch: PdfBatch,
+  pageCount: number,
+  groups: ModelGroup[],
+  dictionary: SpellingDictionary,
+  contextNote: string,
+  ruleFindings: RuleFindings | null
+) {
+  const intro =
+    `DRAWING SET EXCERPT: This PDF is pages ${batch.startPage}-${batch.endPage} of a ${pageCount}-page drawing set. ` +
+    'Number pages from 1 for the first page of THIS PDF. Checks that apply to the whole set are evaluated separately, so only run the checks listed above.';
+  const ruleNote = ruleFindings ? describeRuleCoverage(ruleFindings, batch) : '';
+
+  const results = await analyzePdf(ask, groups, {
+    bytes: batch.bytes,
+    pageCount: batch.endPage - batch.startPage + 1,
+    dictionary,
+    contextNote,
+    ruleNote,
+    intro,
+  });
+
+  console.log(`Batch ${batch.index + 1} (pages ${batch.startPage}-${batch.endPage}) done`);
+  return { batch, results };
+}
+
+// Whole-set checks decided once from the per-sheet facts, without the PDF
+async function analyzeDocumentChecks(ask: Ask, merged: ModelResults, groups: ModelGroup[], contextNote: string): Promise<ModelResults> {
+  const findings = [...merged.criticalIssues, ...merged.warnings]
+    .map((item) => `- [${item.status}] ${item.label}${item.page ? ` (page ${item.page})` : ''}: ${item.notes}`)
+    .join('\n');
+
+  const replies = await Promise.all(
+    groups.map((group) => {
+      const text =
+        `You are an expert quality control reviewer for M|R Walls shop drawings. A ${merged.pageCount}-page drawing set was reviewed in page batches. ` +
+        'Decide the whole-set checks below using the title block facts read from each sheet.\n\n' +
+        `SHEETS:\n${JSON.stringify(merged.sheets ?? [], null, 1)}\n\n` +
+        `FINDINGS FROM THE PAGE BATCHES (already reported, do not repeat):\n${findings || '(none)'}\n\n` +
+        `${buildChecklistPrompt(group.checks)}\n\n${RESPONSE_FORMAT}\n\n` +
+        'Only report findings for the checks listed above. Use the summary field for a 1-2 sentence summary of the WHOLE set, including the findings from the page batches.' +
+        `${contextNote ? '\n\nPROJECT CONTEXT:' + contextNote : ''}\n\nREMEMBER: Output ONLY the JSON object. No other text.`;
+
+      const checkIds = group.checks.map((check) => check.id);
+      return ask({
+        pageCount: merged.pageCount,
+        settings: group,
+        prompt: text,
+        validate: (parsed) => validateModelResults(parsed, merged.pageCount, checkIds),
+      });
+    })
+  );
+  return mergeGroupResults(replies);
+}
+
+// The uploaded PDF is gone from storage or couldn't be read back
+export class PdfFetchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PdfFetchError';
+  }
+}
+
+export async function fetchPdf(blobUrl: string, signal?: AbortSignal): Promise<ArrayBuffer> {
+  if (isLocalUpload(blobUrl)) {
+    const local = await readLocalUpload(blobUrl);
+    if (!local) {
+      throw new PdfFetchError('Failed to read PDF from local uploads');
+    }
+    return local;
+  }
+
+  // Fetch PDF from Vercel Blob
+  const pdfResponse = await fetch(blobUrl, { signal });
+  if (!pdfResponse.ok) {
+    throw new PdfFetchError(`Failed to fetch PDF from storage (${pdfResponse.status})`);
+  }
+  return pdfResponse.arrayBuffer();
+}
+
+// Findings from a model reply shifted to global page numbers, for the job's progress
+function partialFindings(results: ModelResults, offset = 0) {
+  return [...results.criticalIssues, ...results.warnings].map((item) => ({
+    ...item,
+    page: item.page ? item.page + offset : undefined,
+    source: 'ai' as const,
+  }));
+}
+
+async function runAnalysis(
+  { pdfBuffer, filename, projectType, projectId, analyzedBy, emit = () => {}, signal, skipFeedback }: AnalyzeOptions,
+  { models, tokens, ask }: Requester
+): Promise<AnalysisResults> {
+  const fileSizeMB = pdfBuffer.byteLength / (1024 * 1024);
+  console.log(`Processing PDF: ${filename}, Size: ${fileSizeMB.toFixed(2)}MB`);
+
+  const checklist = await getCurrentChecklist();
+  const checks = applicableChecks(checklist.checks, projectType);
+  const checkIds = checks.map((check) => check.id);
+  const dictionary = await getDictionary();
+  const modelSettings = await getModelSettings();
+
+  // Deterministic text-layer checks first, so the model only gets what rules can't decide
+  let ruleFindings: RuleFindings | null = null;
+  let pdfText: PdfText | null = null;
+  let textEvidence: FeatureEvidence[] = [];
+  try {
+    pdfText = await extractPdfText(pdfBuffer);
+    ruleFindings = runRuleChecks(pdfText, checkIds, dictionary);
+    textEvidence = detectFromText(pdfText);
+    console.log(
+      `Rule checks: ${ruleFindings.criticalIssues.length} issues, text layer on ${ruleFindings.checkedPages.length}/${pdfText.pageCount} pages`
+    );
+    emit({
+      type: 'progress',
+      stage: 'rules',
+      message: `Rule checks done: ${ruleFindings.criticalIssues.length} issue${ruleFindings.criticalIssues.length === 1 ? '' : 's'} found`,
+      percent: 25,
+    });
+    if (ruleFindings.criticalIssues.length > 0) {
+      emit({ type: 'findings', items: ruleFindings.criticalIssues });
+    }
+  } catch (textError) {
+    console.error('Text extraction failed, falling back to AI-only checks:', textError);
+  }
+  signal?.throwIfAborted();
+
+  let batches: PdfBatch[];
+  try {
+    batches = await splitPdf(pdfBuffer);
+  } catch (splitError) {
+    // pdf-lib can't read every PDF Claude can; send it whole and let the model count
+    console.error('PDF split failed, analyzing as one document:', splitError);
+    batches = [];
+  }
+  const pageCount = batches.length > 0 ? batches[batches.length - 1].endPage : undefined;
+
+  // With the project picked up front, the model is told what was dismissed
+  // on it before; otherwise dismissed findings are only left out afterwards
+  const pickedRecord = projectId ? await getProjectRecord(projectId) : null;
+  const pickedKey = projectKey(pickedRecord);
+  const pickedFeedback = pickedKey && !skipFeedback ? await getFeedback(pickedKey) : [];
+  const contextNote = buildContextNote(projectType) + describeDismissed(pickedFeedback);
+  if (pageCount) {
+    emit({
+      type: 'progress',
+      stage: 'pages',
+      message: `${pageCount} page${pageCount === 1 ? '' : 's'}${batches.length > 1 ? ` in ${batches.length} batches` : ''}`,
+      percent: 28,
+    });
+  }
+  signal?.throwIfAborted();
+
+  let modelResults: ModelResults;
+  if (batches.length <= 1) {
+    const bytes = batches[0]?.bytes ?? new Uint8Array(pdfBuffer);
+    const ruleNote = ruleFindings ? describeRuleCoverage(ruleFindings) : '';
+    emit({ type: 'progress', stage: 'model', message: 'Analyzing with Claude AI...', percent: 30 });
+    modelResults = await analyzePdf(ask, groupByModel(checks, modelSettings), { bytes, pageCount, dictionary, contextNote, ruleNote });
+    emit({ type: 'findings', items: partialFindings(modelResults) });
+  } else {
+    console.log(`Split ${pageCount} pages into ${batches.length} batches`);
+    const pageGroups = groupByModel(checks.filter((check) => !isDocumentCheck(check)), modelSettings);
+    const documentChecks = checks.filter(isDocumentCheck);
+
+    emit({ type: 'progress', stage: 'model', message: `Analyzing ${batches.length} page batches with Claude AI...`, percent: 30 });
+    let batchesDone = 0;
+    const batchResults = await mapWithConcurrency(batches, BATCH_CONCURRENCY, async (batch) => {
+      const done = await analyzeBatch(ask, batch, pageCount!, pageGroups, dictionary, contextNote, ruleFindings);
+      batchesDone++;
+      emit({
+        type: 'progress',
+        stage: 'batch',
+        message: `Pages ${batch.startPage}-${batch.endPage} done (${batchesDone} of ${batches.length} batches)`,
+        percent: 30 + Math.round((60 * batchesDone) / batches.length),
+      });
+      emit({ type: 'findings', items: partialFindings(done.results, batch.startPage - 1) });
+      return done;
+    });
+    modelResults = mergeBatchResults(batchResults, pageCount!);
+
+    if (documentChecks.length > 0) {
+      emit({ type: 'progress', stage: 'document', message: 'Checking the whole set (logo, versions)...', percent: 92 });
+      const documentResults = await analyzeDocumentChecks(ask, modelResults, groupByModel(documentChecks, modelSettings), contextNote);
+      emit({ type: 'findings', items: partialFindings(documentResults) });
+      modelResults = mergeDocumentResults(modelResults, documentResults);
+    }
+  }
+  emit({ type: 'progress', stage: 'validated', message: 'Results validated', percent: 98 });
+
+  const finalPageCount = pageCount ?? modelResults.pageCount;
+  const { projectFeatures, ...model } = modelResults;
+  const results: AnalysisResults = {
+    ...model,
+    overallStatus: overallStatusFor(model),
+    pageCount: finalPageCount,
+    projectType: {
+      isBacklit: !!projectType?.isBacklit,
+      hasCutouts: !!projectType?.hasCutouts,
+      hasCorners: !!projectType?.hasCorners,
+      hasLogos: !!projectType?.hasLogos,
+    },
+    extractedInfo: titleBlockInfo(modelResults.extractedInfo, modelResults.sheets, finalPageCount),
+    checklistVersion: checklist.version,
+    analyzedAt: new Date().toISOString(),
+    analyzedBy,
+    model: Array.from(models).join(', '),
+    usage: priceUsage(tokens),
+  };
+
+  const detection = summarizeDetection([...textEvidence, ...(projectFeatures ?? []).map((entry) => ({ ...entry, source: 'ai' as const }))]);
+  let reconciled = reconcileProjectType(
+    withoutAcceptedTerms(ruleFindings ? mergeRuleFindings(results, ruleFindings) : results, dictionary),
+    detection,
+    pdfText
+  );
+  if (checksLedLoad(checks)) {
+    reconciled = checkLedLoad(reconciled, await getLedCatalog(), pdfText);
+  }
+  if (checksCorners(checks)) {
+    reconciled = checkCorners(reconciled, modelResults.corners ?? []);
+  }
+
+  // The drafter's pick, or the record whose MRQ #, production # or name the title blocks show
+  const record = projectId ? pickedRecord : await findProjectRecord([results.extractedInfo, ...(results.sheets ?? [])]);
+  if (record) {
+    console.log(`Checking title blocks against project record ${record.id} (${record.projectName || record.mrqNumber})`);
+    reconciled = checkAgainstRecord(reconciled, record);
+  }
+
+  const key = projectKey(reconciled.projectRecord, reconciled.extractedInfo);
+  const feedback = key === pickedKey || skipFeedback ? pickedFeedback : key ? await getFeedback(key) : [];
+  return applyFeedback(reconciled, feedback);
+}
+
+// Analyze a drawing and add what its model calls cost to the usage ledger,
+// whether or not it finished
+export async function analyzeDrawing(options: AnalyzeOptions): Promise<AnalysisResults> {
+  const requester = modelRequester(options.signal, options.beforeRequest);
+  let results: AnalysisResults | undefined;
+  try {
+    results = await runAnalysis(options, requester);
+    return results;
+  } finally {
+    if (requester.tokens.size > 0 && !options.skipUsage) {
+      await recordUsage({
+        ...priceUsage(requester.tokens),
+        at: new Date().toISOString(),
+        userId: options.analyzedById,
+        userName: options.analyzedBy || 'Unknown',
+        project: results?.projectRecord?.projectName || results?.extractedInfo.projectName || results?.extractedInfo.mrqNumber || '',
+        filename: options.filename,
+        failed: !results,
+      }).catch((error) => console.error('Usage record error:', error));
+    }
+  }
+}
@@ -0,0 +1,77 @@
+import type { NextRequest, NextResponse } from 'next/server';
+import { createSessionToken, readSessionToken, SESSION_COOKIE, SESSION_MAX_AGE_SECONDS } from './session';
+import type { AuthProvider, Role, SessionUser } from './types';
+import { getUser, toSessionUser, verifyPassword } from './users';
+
+export type { AuthProvider, Role, SessionUser } from './types';
+
+// Username and password checked against the user store
+const localProvider: AuthProvider = {
+  name: 'local',
+  signIn: ({ username, password }) => verifyPassword(username, password),
+};
+
+const PROVIDERS: Record<string, AuthProvider> = {
+  local: localProvider,
+};
+
+// QC_AUTH_PROVIDER picks how users sign in; only local accounts for now
+export function getAuthProvider(): AuthProvider {
+  const name = process.env.QC_AUTH_PROVIDER || 'local';
+  const provider = PROVIDERS[name];
+  if (!provider) {
+    throw new Error(`Unknown auth provider: ${name}`);
+  }
+  return provider;
+}
+
+export class AuthError extends Error {
+  constructor(public status: 401 | 403, message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+// The signed-in user, as the user store has them now, so a changed role or
+// a deleted account takes effect before the session expires
+export async function getSessionUser(request: NextRequest): Promise<SessionUser | null> {
+  const session = await readSessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+  const user = session && (await getUser(session.id));
+  return user ? toSessionUser(user) : null;
+}
+
+// The signed-in user, who must have the role if one is given. Throws
+// AuthError (401 or 403) otherwise.
+export async function requireUser(request: NextRequest, role?: Role): Promise<SessionUser> {
+  const user = await getSessionUser(request);
+  if (!user) {
+    throw new AuthError(401, 'Sign in to continue');
+  }
+  if (role && user.role !== role) {
+    throw new AuthError(403, `Only a ${role} can do that`);
+  }
+  return user;
+}
+
+// Drafters may only see and act on what they ran themselves; reviewers on
+// everything. Throws AuthError (403) otherwise, also for records that don't
+// say who made them.
+export function requireOwnerOrReviewer(user: SessionUser, ownerId: string | undefined): void {
+  if (user.role !== 'reviewer' && user.id !== ownerId) {
+    throw new AuthError(403, 'Only whoever ran this analysis or a reviewer can open it');
+  }
+}
+
+export async function setSessionCookie(response: NextResponse, user: SessionUser): Promise<void> {
+  response.cookies.set(SESSION_COOKIE, await createSessionToken(user), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: SESSION_MAX_AGE_SECONDS,
+  });
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE, '', { httpOnly: true, path: '/', maxAge: 0 });
+}
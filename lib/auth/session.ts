@@ -0,0 +1,56 @@
+import type { SessionUser } from './types';
+
+// Signed session cookies. Only Web Crypto is used here so middleware.ts can
+// verify sessions on the edge runtime too.
+
+export const SESSION_COOKIE = 'qc-session';
+
+// Drafters sign in once per working day
+export const SESSION_MAX_AGE_SECONDS = 12 * 60 * 60;
+
+// Local development only; deployments must set QC_AUTH_SECRET
+const DEV_SECRET = 'qc-local-development-secret';
+
+function secret(): string {
+  const value = process.env.QC_AUTH_SECRET;
+  if (value) return value;
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('QC_AUTH_SECRET must be set to sign sessions');
+  }
+  return DEV_SECRET;
+}
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode.apply(null, Array.from(bytes))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (text: string) =>
+  Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), (c) => c.charCodeAt(0));
+
+async function hmacKey(): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', new TextEncoder().encode(secret()), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+}
+
+// "<payload>.<signature>", both base64url
+export async function createSessionToken(user: SessionUser): Promise<string> {
+  const payload = toBase64Url(
+    new TextEncoder().encode(JSON.stringify({ ...user, exp: Math.floor(Date.now() / 1000) + SESSION_MAX_AGE_SECONDS }))
+  );
+  const signature = await crypto.subtle.sign('HMAC', await hmacKey(), new TextEncoder().encode(payload));
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+// The user a session token was issued to, or null if it's missing, forged or expired
+export async function readSessionToken(token: string | undefined): Promise<SessionUser | null> {
+  const [payload, signature] = (token ?? '').split('.');
+  if (!payload || !signature) return null;
+
+  try {
+    const valid = await crypto.subtle.verify('HMAC', await hmacKey(), fromBase64Url(signature), new TextEncoder().encode(payload));
+    if (!valid) return null;
+    const { exp, id, username, name, role } = JSON.parse(new TextDecoder().decode(fromBase64Url(payload)));
+    if (typeof exp !== 'number' || exp * 1000 < Date.now()) return null;
+    return { id, username, name, role };
+  } catch {
+    return null;
+  }
+}
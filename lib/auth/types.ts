@@ -0,0 +1,23 @@
+// Drafters upload drawings and run analyses; reviewers also approve or
+// return submissions and edit the checklist, project records, LED catalog
+// and user accounts
+export type Role = 'drafter' | 'reviewer';
+
+export const ROLES: Role[] = ['drafter', 'reviewer'];
+
+// Who a request was made by, as carried in the session cookie
+export interface SessionUser {
+  id: string;
+  username: string;
+  name: string;
+  role: Role;
+}
+
+// Checks sign-in credentials. Every provider answers with a user kept in the
+// user store (see lib/auth/users.ts), so roles and "run by" names work the
+// same whichever one signed the user in; an SSO provider would create or
+// update that user the first time someone signs in through it.
+export interface AuthProvider {
+  name: string;
+  signIn(credentials: { username: string; password: string }): Promise<SessionUser | null>;
+}
@@ -0,0 +1,148 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { getStore } from '../store';
+import { ROLES, type Role, type SessionUser } from './types';
+
+const userKey = (id: string) => `users/${id}`;
+
+const MIN_PASSWORD_LENGTH = 8;
+
+interface StoredUser extends SessionUser {
+  // scrypt hash and salt, hex; empty for users signed in through SSO
+  passwordHash: string;
+  salt: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type UserSummary = Omit<StoredUser, 'passwordHash' | 'salt'>;
+
+export class UserInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UserInputError';
+  }
+}
+
+const summarize = ({ passwordHash, salt, ...user }: StoredUser): UserSummary => user;
+
+export const toSessionUser = ({ id, username, name, role }: SessionUser): SessionUser => ({ id, username, name, role });
+
+const normalizeUsername = (username: string) => username.trim().toLowerCase();
+
+function hashPassword(password: string, salt: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, 64, (error, key) => (error ? reject(error) : resolve(key.toString('hex'))));
+  });
+}
+
+function checkPassword(password: unknown): string {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    throw new UserInputError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  return password;
+}
+
+function checkRole(role: unknown): Role {
+  if (!ROLES.includes(role as Role)) {
+    throw new UserInputError(`Role must be one of: ${ROLES.join(', ')}`);
+  }
+  return role as Role;
+}
+
+async function allUsers(): Promise<StoredUser[]> {
+  const store = getStore();
+  const keys = await store.list('users/');
+  const users = await Promise.all(keys.map((key) => store.get<StoredUser>(key)));
+  return users.filter((user): user is StoredUser => user !== null);
+}
+
+export async function listUsers(): Promise<UserSummary[]> {
+  return (await allUsers()).sort((a, b) => a.name.localeCompare(b.name)).map(summarize);
+}
+
+export async function hasUsers(): Promise<boolean> {
+  return (await getStore().list('users/')).length > 0;
+}
+
+export async function getUser(id: string): Promise<UserSummary | null> {
+  if (!/^[\w-]+$/.test(id)) {
+    return null;
+  }
+  const user = await getStore().get<StoredUser>(userKey(id));
+  return user ? summarize(user) : null;
+}
+
+export async function createUser(input: { username: unknown; name: unknown; role: unknown; password: unknown }): Promise<UserSummary> {
+  const username = typeof input.username === 'string' ? normalizeUsername(input.username) : '';
+  if (!/^[a-z0-9._-]{2,}$/.test(username)) {
+    throw new UserInputError('Username must be at least 2 letters, digits, dots, dashes or underscores');
+  }
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name) {
+    throw new UserInputError('Name must not be empty');
+  }
+  const role = checkRole(input.role);
+  const password = checkPassword(input.password);
+  if ((await allUsers()).some((user) => user.username === username)) {
+    throw new UserInputError(`Username "${username}" is taken`);
+  }
+
+  const now = new Date().toISOString();
+  const salt = randomBytes(16).toString('hex');
+  const user: StoredUser = {
+    id: crypto.randomUUID(),
+    username,
+    name,
+    role,
+    passwordHash: await hashPassword(password, salt),
+    salt,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await getStore().put(userKey(user.id), user);
+  console.log(`User ${username} created as ${role}`);
+  return summarize(user);
+}
+
+// Change a user's name, role or password; fields left out stay as they are
+export async function updateUser(id: string, changes: { name?: unknown; role?: unknown; password?: unknown }): Promise<UserSummary | null> {
+  const user = /^[\w-]+$/.test(id) ? await getStore().get<StoredUser>(userKey(id)) : null;
+  if (!user) {
+    return null;
+  }
+
+  const updated: StoredUser = { ...user, updatedAt: new Date().toISOString() };
+  if (changes.name !== undefined) {
+    const name = typeof changes.name === 'string' ? changes.name.trim() : '';
+    if (!name) throw new UserInputError('Name must not be empty');
+    updated.name = name;
+  }
+  if (changes.role !== undefined) {
+    updated.role = checkRole(changes.role);
+  }
+  if (changes.password !== undefined) {
+    updated.salt = randomBytes(16).toString('hex');
+    updated.passwordHash = await hashPassword(checkPassword(changes.password), updated.salt);
+  }
+  await getStore().put(userKey(id), updated);
+  return summarize(updated);
+}
+
+export async function deleteUser(id: string): Promise<boolean> {
+  if (!(await getUser(id))) {
+    return false;
+  }
+  await getStore().delete(userKey(id));
+  return true;
+}
+
+// The user with these credentials, or null
+export async function verifyPassword(username: string, password: string): Promise<SessionUser | null> {
+  const user = (await allUsers()).find((candidate) => candidate.username === normalizeUsername(username));
+  if (!user || !user.passwordHash) {
+    return null;
+  }
+  const expected = Buffer.from(user.passwordHash, 'hex');
+  const actual = Buffer.from(await hashPassword(password, user.salt), 'hex');
+  return actual.length === expected.length && timingSafeEqual(actual, expected) ? toSessionUser(user) : null;
+}
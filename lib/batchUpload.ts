@@ -0,0 +1,126 @@
+import { mapWithConcurrency } from './async';
+import { fetchJob, JobError, POLL_INTERVAL, restartJob, uploadAndStartJob } from './jobClient';
+import { compressPDF, MAX_FILE_SIZE, TARGET_SIZE } from './pdfCompress';
+import type { AnalysisJob, AnalysisResults, ProjectAnswers } from './types';
+
+// Files compressed, uploaded and analyzed at once. Each one holds its slot
+// until its analysis finishes, so a big package doesn't start a dozen
+// server jobs together.
+export const BATCH_CONCURRENCY = 3;
+
+export type BatchItemStatus = 'waiting' | 'compressing' | 'uploading' | 'analyzing' | 'done' | 'failed' | 'cancelled' | 'skipped';
+
+// One file of a multi-file upload, as the batch table shows it
+export interface BatchItem {
+  key: string;
+  file: File;
+  // Replaces the shared project answers for this file
+  answers?: ProjectAnswers;
+  status: BatchItemStatus;
+  percent: number;
+  message: string;
+  jobId?: string;
+  overallStatus?: AnalysisResults['overallStatus'];
+  criticalCount?: number;
+  warningCount?: number;
+}
+
+export interface BatchOptions {
+  answers: ProjectAnswers;
+  projectId?: string;
+  signal: AbortSignal;
+  onUpdate: (key: string, patch: Partial<BatchItem>) => void;
+}
+
+// Table rows for dropped files; anything that isn't a PDF is listed but skipped
+export function createBatchItems(files: File[]): BatchItem[] {
+  return files.map((file, index) => {
+    const isPdf = file.type === 'application/pdf';
+    return {
+      key: `${index}-${file.name}`,
+      file,
+      status: isPdf ? 'waiting' : 'skipped',
+      percent: 0,
+      message: isPdf ? 'Waiting' : 'Not a PDF',
+    };
+  });
+}
+
+// Compress the file if it's big, upload it and start its analysis job
+async function upload(item: BatchItem, { answers, projectId, signal, onUpdate }: BatchOptions): Promise<AnalysisJob> {
+  const update = (patch: Partial<BatchItem>) => onUpdate(item.key, patch);
+
+  let file = item.file;
+  if (file.size > TARGET_SIZE) {
+    update({ status: 'compressing', message: 'Compressing...' });
+    file = (await compressPDF(file)).compressedFile;
+  }
+  if (file.size > MAX_FILE_SIZE) {
+    throw new Error(`Still ${(file.size / 1024 / 1024).toFixed(1)}MB after compression; compress it manually`);
+  }
+  signal.throwIfAborted();
+
+  update({ status: 'uploading', message: 'Uploading...' });
+  return uploadAndStartJob(file, item.answers ?? answers, {
+    projectId,
+    signal,
+    onUploadProgress: (percentage) => update({ percent: Math.round(percentage * 0.15) }),
+  });
+}
+
+// Take one file through to a finished analysis; a file whose job already
+// exists (it failed or was cancelled) is retried without uploading it again
+async function runItem(item: BatchItem, options: BatchOptions): Promise<void> {
+  const { signal, onUpdate } = options;
+  const update = (patch: Partial<BatchItem>) => onUpdate(item.key, patch);
+
+  try {
+    const started = item.jobId ? await restartJob(item.jobId, signal) : await upload(item, options);
+    update({ status: 'analyzing', jobId: started.id, percent: started.percent, message: started.message });
+
+    for (;;) {
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL));
+      signal.throwIfAborted();
+      const job = await fetchJob(started.id, signal);
+
+      if (job.status === 'done' && job.results) {
+        update({
+          status: 'done',
+          percent: 100,
+          message: 'Done',
+          overallStatus: job.results.overallStatus,
+          criticalCount: job.results.criticalIssues.length,
+          warningCount: job.results.warnings.length,
+        });
+        return;
+      }
+      if (job.status === 'failed') {
+        throw JobError.from(job.error, 'Analysis failed');
+      }
+      if (job.status === 'cancelled') {
+        update({ status: 'cancelled', message: 'Cancelled' });
+        return;
+      }
+      update({ percent: job.percent, message: job.message });
+    }
+  } catch (err) {
+    if (signal.aborted) {
+      update({ status: 'cancelled', message: 'Cancelled' });
+    } else {
+      update({ status: 'failed', message: err instanceof Error ? err.message : 'Analysis failed' });
+    }
+  }
+}
+
+// Compress, upload and analyze every waiting file, BATCH_CONCURRENCY at a
+// time. A file that fails doesn't stop the others.
+export async function runBatch(items: BatchItem[], options: BatchOptions): Promise<void> {
+  const waiting = items.filter((item) => item.status === 'waiting');
+  await mapWithConcurrency(waiting, BATCH_CONCURRENCY, async (item) => {
+    if (options.signal.aborted) {
+      options.onUpdate(item.key, { status: 'cancelled', message: 'Cancelled' });
+      return;
+    }
+    await runItem(item, options);
+  });
+}
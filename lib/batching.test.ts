@@ -0,0 +1,124 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { mergeBatchResults, mergeDocumentResults, type BatchResults, type PdfBatch } from './batching';
+import { report } from './testFixtures';
+import type { AnalysisResults, CheckItem } from './types';
+
+const batch = (index: number, startPage: number, endPage: number): PdfBatch => ({ index, startPage, endPage, bytes: new Uint8Array() });
+
+const item = (id: string, checkId: string, status: CheckItem['status'], changes: Partial<CheckItem> = {}): CheckItem => ({
+  id,
+  checkId,
+  label: checkId.replace(/_/g, ' '),
+  status,
+  notes: '',
+  ...changes,
+});
+
+const batchOf = (index: number, startPage: number, endPage: number, changes: Partial<AnalysisResults>): BatchResults => ({
+  batch: batch(index, startPage, endPage),
+  results: report({ pageCount: endPage - startPage + 1, ...changes }),
+});
+
+describe('mergeBatchResults', () => {
+  it('renumbers pages and finding ids across batches', () => {
+    const merged = mergeBatchResults(
+      [
+        batchOf(0, 1, 20, { criticalIssues: [item('typo_1', 'spelling', 'fail', { page: 2 })] }),
+        batchOf(1, 21, 25, { criticalIssues: [item('typo_1', 'spelling', 'fail', { page: 2, notes: '"Bakclight"' })] }),
+      ],
+      25
+    );
+    assert.deepEqual(
+      merged.criticalIssues.map(({ id, page }) => [id, page]),
+      [
+        ['typo_1', 2],
+        ['typo_1_b2', 22],
+      ]
+    );
+    assert.equal(merged.pageCount, 25);
+    assert.equal(merged.overallStatus, 'fail');
+  });
+
+  it('drops a set-wide finding every batch repeats but keeps one per page', () => {
+    const installNote = item('note_1', 'install_note', 'warning', { notes: 'No "removable for LED access" note' });
+    const merged = mergeBatchResults(
+      [
+        batchOf(0, 1, 20, { warnings: [installNote, item('logo_1', 'logo_seam', 'warning', { page: 20 })] }),
+        batchOf(1, 21, 40, { warnings: [installNote, item('logo_1', 'logo_seam', 'warning', { page: 1 })] }),
+      ],
+      40
+    );
+    assert.deepEqual(
+      merged.warnings.map(({ id, page }) => [id, page]),
+      [
+        ['note_1', undefined],
+        ['logo_1', 20],
+        ['logo_1_b2', 21],
+      ]
+    );
+    assert.equal(merged.overallStatus, 'warning');
+  });
+
+  it('keeps one pass per check, and none for a check that failed in any batch', () => {
+    const merged = mergeBatchResults(
+      [
+        batchOf(0, 1, 20, { passed: [item('mrq_1', 'placeholders', 'pass'), item('typo_ok', 'spelling', 'pass', { label: 'No typos' })] }),
+        batchOf(1, 21, 30, {
+          criticalIssues: [item('typo_1', 'spelling', 'fail', { page: 3 })],
+          passed: [item('mrq_2', 'placeholders', 'pass', { label: 'MRQ # filled in' })],
+        }),
+      ],
+      30
+    );
+    assert.deepEqual(
+      merged.passed.map((found) => found.id),
+      ['mrq_1']
+    );
+  });
+
+  it('takes title block fields from the first batch that read them and joins the summaries', () => {
+    const merged = mergeBatchResults(
+      [
+        batchOf(0, 1, 20, { summary: 'Two typos.', extractedInfo: { projectName: '', location: 'Los Angeles, CA', version: '', drawnBy: '', pageCount: 20 } }),
+        batchOf(1, 21, 22, { summary: 'Clean.', extractedInfo: { projectName: 'Lobby Wall', location: 'Austin, TX', version: 'V2', drawnBy: '', pageCount: 2 } }),
+      ],
+      22
+    );
+    assert.deepEqual(merged.extractedInfo, { projectName: 'Lobby Wall', location: 'Los Angeles, CA', version: 'V2', drawnBy: '' });
+    assert.equal(merged.summary, 'Pages 1-20: Two typos. Pages 21-22: Clean.');
+    assert.equal(merged.overallStatus, 'pass');
+  });
+
+  it('offsets the pages of corners and LED runs', () => {
+    const merged = mergeBatchResults(
+      [
+        batchOf(0, 1, 20, { ledSystem: { product: '', runs: [{ count: 4, lengthInches: 96, page: 3 }] } }),
+        batchOf(1, 21, 24, {
+          corners: [{ page: 2, type: 'inside', thickness: '1/2"', sides: [] }],
+          ledSystem: { product: 'HO LED', runs: [{ count: 2, lengthInches: 48, page: 1 }], drivers: 2, page: 4 },
+        }),
+      ],
+      24
+    );
+    assert.deepEqual(
+      merged.ledSystem?.runs.map((run) => run.page),
+      [3, 21]
+    );
+    assert.equal(merged.ledSystem?.page, 24);
+    assert.equal(merged.corners?.[0].page, 22);
+  });
+});
+
+describe('mergeDocumentResults', () => {
+  it('adds the set-wide findings, renaming ids the batches already used', () => {
+    const merged = report({ summary: 'Pages 1-20: Clean.', passed: [item('check_1', 'placeholders', 'pass')] });
+    const combined = mergeDocumentResults(merged, report({ summary: 'Logo crosses a seam.', warnings: [item('check_1', 'logo_seam', 'warning')] }));
+    assert.deepEqual(
+      combined.warnings.map((found) => found.id),
+      ['check_1_set']
+    );
+    assert.equal(combined.overallStatus, 'warning');
+    assert.equal(combined.summary, 'Logo crosses a seam.');
+  });
+});
@@ -0,0 +1,175 @@
+import { PDFDocument } from 'pdf-lib';
+import { combineLedSystems } from './ledCheck';
+import { overallStatusFor } from './schema';
+import type { CheckItem, ModelResults, SheetInfo } from './types';
+
+// Anthropic accepts PDFs up to 100 pages and 32MB per request, and base64
+// encoding adds a third on top of the file size
+export const MAX_BATCH_PAGES = 20;
+export const MAX_BATCH_BYTES = 22 * 1024 * 1024;
+
+export interface PdfBatch {
+  index: number;
+  // Global, 1-based, inclusive
+  startPage: number;
+  endPage: number;
+  bytes: Uint8Array;
+}
+
+export interface BatchResults {
+  batch: PdfBatch;
+  results: ModelResults;
+}
+
+export class PageTooLargeError extends Error {
+  constructor(public page: number, public bytes: number) {
+    super(`Page ${page} alone is ${(bytes / 1024 / 1024).toFixed(1)}MB, too large to analyze`);
+    this.name = 'PageTooLargeError';
+  }
+}
+
+// Split a drawing set into page ranges small enough for one request each.
+// Small sets come back as a single batch holding the original bytes.
+export async function splitPdf(pdfBuffer: ArrayBuffer): Promise<PdfBatch[]> {
+  const source = await PDFDocument.load(pdfBuffer, { ignoreEncryption: true });
+  const pageCount = source.getPageCount();
+
+  if (pageCount <= MAX_BATCH_PAGES && pdfBuffer.byteLength <= MAX_BATCH_BYTES) {
+    return [{ index: 0, startPage: 1, endPage: pageCount, bytes: new Uint8Array(pdfBuffer) }];
+  }
+
+  const build = async (startPage: number, endPage: number) => {
+    const doc = await PDFDocument.create();
+    const indices = Array.from({ length: endPage - startPage + 1 }, (_, i) => startPage - 1 + i);
+    const pages = await doc.copyPages(source, indices);
+    pages.forEach((page) => doc.addPage(page));
+    return doc.save({ useObjectStreams: true });
+  };
+
+  // Halve any range that comes out too large until it fits
+  const splitRange = async (startPage: number, endPage: number): Promise<Omit<PdfBatch, 'index'>[]> => {
+    const bytes = await build(startPage, endPage);
+    if (bytes.byteLength <= MAX_BATCH_BYTES) {
+      return [{ startPage, endPage, bytes }];
+    }
+    if (startPage === endPage) {
+      throw new PageTooLargeError(startPage, bytes.byteLength);
+    }
+    const mid = Math.floor((startPage + endPage) / 2);
+    return [...(await splitRange(startPage, mid)), ...(await splitRange(mid + 1, endPage))];
+  };
+
+  const ranges: Omit<PdfBatch, 'index'>[] = [];
+  for (let start = 1; start <= pageCount; start += MAX_BATCH_PAGES) {
+    ranges.push(...(await splitRange(start, Math.min(start + MAX_BATCH_PAGES - 1, pageCount))));
+  }
+  return ranges.map((range, index) => ({ ...range, index }));
+}
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Same check, same page and same wording means the same finding
+function duplicateKey(item: CheckItem): string {
+  return [item.checkId ?? '', item.page ?? '', normalize(item.label), item.page ? '' : normalize(item.notes)].join('|');
+}
+
+// Combine per-batch results into one report with global page numbers.
+// Duplicates are dropped, and a check that failed anywhere loses its pass items.
+export function mergeBatchResults(batchResults: BatchResults[], pageCount: number): ModelResults {
+  const ids = new Set<string>();
+  const seen = new Set<string>();
+
+  const collect = (pick: (results: ModelResults) => CheckItem[]) => {
+    const items: CheckItem[] = [];
+    for (const { batch, results } of batchResults) {
+      const offset = batch.startPage - 1;
+      for (const item of pick(results)) {
+        const global = { ...item, page: item.page ? item.page + offset : undefined };
+        const key = `${global.status}|${duplicateKey(global)}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        // Batches number their findings independently
+        let id = global.id;
+        for (let n = 2; ids.has(id); n++) id = `${global.id}_b${batch.index + 1}${n > 2 ? `_${n}` : ''}`;
+        ids.add(id);
+        items.push({ ...global, id });
+      }
+    }
+    return items;
+  };
+
+  const criticalIssues = collect((r) => r.criticalIssues);
+  const warnings = collect((r) => r.warnings);
+  const manualReview = collect((r) => r.manualReview);
+
+  const failedChecks = new Set([...criticalIssues, ...warnings].map((item) => item.checkId).filter(Boolean));
+  const passedChecks = new Set<string>();
+  const passed = collect((r) => r.passed).filter((item) => {
+    if (!item.checkId) return true;
+    if (failedChecks.has(item.checkId) || passedChecks.has(item.checkId)) return false;
+    passedChecks.add(item.checkId);
+    return true;
+  });
+
+  const sheets: SheetInfo[] = batchResults.flatMap(({ batch, results }) =>
+    (results.sheets ?? []).map((sheet) => ({ ...sheet, page: sheet.page + batch.startPage - 1 }))
+  );
+
+  const projectFeatures = batchResults.flatMap(({ batch, results }) =>
+    (results.projectFeatures ?? []).map((entry) => ({ ...entry, page: entry.page ? entry.page + batch.startPage - 1 : undefined }))
+  );
+
+  const corners = batchResults.flatMap(({ batch, results }) =>
+    (results.corners ?? []).map((corner) => ({ ...corner, page: corner.page ? corner.page + batch.startPage - 1 : undefined }))
+  );
+
+  const ledSystem = combineLedSystems(
+    batchResults.flatMap(({ batch, results }) => {
+      if (!results.ledSystem) return [];
+      const offset = (page?: number) => (page ? page + batch.startPage - 1 : undefined);
+      const { runs, page } = results.ledSystem;
+      return [{ ...results.ledSystem, page: offset(page), runs: runs.map((run) => ({ ...run, page: offset(run.page) })) }];
+    })
+  );
+
+  // Title blocks repeat on every sheet, so take each field from the first batch that found it
+  const extractedInfo = { projectName: '', location: '', version: '', drawnBy: '' };
+  for (const field of Object.keys(extractedInfo) as (keyof typeof extractedInfo)[]) {
+    extractedInfo[field] = batchResults.map(({ results }) => results.extractedInfo[field]).find((value) => value) ?? '';
+  }
+
+  return {
+    overallStatus: overallStatusFor({ criticalIssues, warnings }),
+    summary: batchResults.map(({ batch, results }) => `Pages ${batch.startPage}-${batch.endPage}: ${results.summary}`).join(' '),
+    criticalIssues,
+    warnings,
+    passed,
+    manualReview,
+    extractedInfo,
+    pageCount,
+    sheets,
+    projectFeatures,
+    corners,
+    ledSystem,
+  };
+}
+
+// Fold the once-per-set document check results into the merged batch results
+export function mergeDocumentResults(merged: ModelResults, documentResults: ModelResults): ModelResults {
+  const ids = new Set([...merged.criticalIssues, ...merged.warnings, ...merged.passed, ...merged.manualReview].map((item) => item.id));
+  const reId = (items: CheckItem[]) => items.map((item) => (ids.has(item.id) ? { ...item, id: `${item.id}_set` } : item));
+
+  const criticalIssues = [...merged.criticalIssues, ...reId(documentResults.criticalIssues)];
+  const warnings = [...merged.warnings, ...reId(documentResults.warnings)];
+
+  return {
+    ...merged,
+    overallStatus: overallStatusFor({ criticalIssues, warnings }),
+    summary: documentResults.summary || merged.summary,
+    criticalIssues,
+    warnings,
+    passed: [...merged.passed, ...reId(documentResults.passed)],
+    manualReview: [...merged.manualReview, ...reId(documentResults.manualReview)],
+  };
+}
@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { applicableChecks, DEFAULT_CHECKLIST, DEFAULT_CHECKS, validateChecks, withBuiltInChecks, type CheckDefinition } from './checklist';
+
+const custom: CheckDefinition = {
+  id: 'stamp_present',
+  category: 'required',
+  severity: 'warning',
+  appliesTo: ['isBacklit'],
+  instruction: 'Check the engineer stamp is on the cover sheet',
+  enabled: true,
+};
+
+describe('validateChecks', () => {
+  it('accepts the built-in checklist with a new check', () => {
+    assert.deepEqual(validateChecks([...DEFAULT_CHECKS, custom], DEFAULT_CHECKS), []);
+  });
+
+  it('refuses to leave out a saved check', () => {
+    const [first, ...rest] = DEFAULT_CHECKS;
+    assert.deepEqual(validateChecks(rest, DEFAULT_CHECKS), [`Check "${first.id}" is saved and can't be removed; disable it instead`]);
+    assert.deepEqual(validateChecks([{ ...first, enabled: false }, ...rest], DEFAULT_CHECKS), []);
+  });
+
+  it('reports bad ids, duplicates and fields', () => {
+    const errors = validateChecks([custom, { ...custom }, { ...custom, id: 'Bad Id', severity: 'info', instruction: ' ', appliesTo: ['isRound'] }]);
+    assert.deepEqual(errors, [
+      'Check 2: id "stamp_present" is used more than once',
+      'Check 3: id must be lowercase letters, digits and underscores',
+      'Check 3: severity must be critical or warning',
+      'Check 3: appliesTo contains an unknown project flag',
+      'Check 3: instruction must not be empty',
+    ]);
+  });
+});
+
+describe('withBuiltInChecks', () => {
+  it('adds built-in checks released after the version was saved', () => {
+    const [first, ...rest] = DEFAULT_CHECKS;
+    const checklist = withBuiltInChecks({ ...DEFAULT_CHECKLIST, checks: [custom, ...rest] });
+    assert.deepEqual(
+      checklist.checks.map((check) => check.id),
+      [custom.id, ...rest.map((check) => check.id), first.id]
+    );
+  });
+});
+
+describe('applicableChecks', () => {
+  it('runs enabled checks whose project answers are all true', () => {
+    const checks = [custom, { ...custom, id: 'off', enabled: false }, { ...custom, id: 'always', appliesTo: [] }];
+    assert.deepEqual(
+      applicableChecks(checks, { isBacklit: false }).map((check) => check.id),
+      ['always']
+    );
+    assert.deepEqual(
+      applicableChecks(checks, { isBacklit: true }).map((check) => check.id),
+      ['stamp_present', 'always']
+    );
+  });
+});
@@ -0,0 +1,374 @@
+import { describeDictionary, type SpellingDictionary } from './dictionary';
+import type { ProjectAnswers } from './types';
+
+export type CheckCategory = 'spelling' | 'placeholders' | 'required' | 'materials' | 'backlit' | 'situational' | 'dimensions' | 'layout';
+
+export type Severity = 'critical' | 'warning';
+
+export type ProjectFlag = keyof ProjectAnswers;
+
+// Page checks run on every batch of a split drawing set; document checks
+// are decided once across the whole set (e.g. "logo present somewhere")
+export type CheckScope = 'page' | 'document';
+
+export interface CheckDefinition {
+  id: string;
+  category: CheckCategory;
+  severity: Severity;
+  // Project answers that must all be true for the check to run; empty = always
+  appliesTo: ProjectFlag[];
+  instruction: string;
+  enabled: boolean;
+  scope?: CheckScope;
+}
+
+export interface ChecklistVersion {
+  version: number;
+  createdAt: string;
+  author: string;
+  note: string;
+  checks: CheckDefinition[];
+}
+
+export const CATEGORIES: { id: CheckCategory; title: string }[] = [
+  { id: 'spelling', title: 'SPELLING ERRORS' },
+  { id: 'placeholders', title: 'TBD/PLACEHOLDER TEXT' },
+  { id: 'required', title: 'MISSING REQUIRED ELEMENTS' },
+  { id: 'materials', title: 'MATERIAL/FINISH CALLOUTS' },
+  { id: 'backlit', title: 'BACKLIT REQUIREMENTS' },
+  { id: 'situational', title: 'SITUATIONAL' },
+  { id: 'dimensions', title: 'DIMENSIONS' },
+  { id: 'layout', title: 'LAYOUT' },
+];
+
+export const PROJECT_FLAGS: { id: ProjectFlag; label: string }[] = [
+  { id: 'isBacklit', label: 'Backlit' },
+  { id: 'hasCutouts', label: 'Cutouts' },
+  { id: 'hasCorners', label: 'Corners' },
+  { id: 'hasLogos', label: 'Logos/Inlays' },
+];
+
+// The built-in checklist, starting from what used to be hard-coded in the
+// analyze route's prompt. Used until someone saves the first edited version.
+export const DEFAULT_CHECKS: CheckDefinition[] = [
+  {
+    id: 'spelling_known_typos',
+    category: 'spelling',
+    severity: 'critical',
+    appliesTo: [],
+    instruction: 'Look for the known typos listed in this section, e.g. "Existig" → "Existing"',
+    enabled: true,
+  },
+  {
+    id: 'spelling_other',
+    category: 'spelling',
+    severity: 'critical',
+    appliesTo: [],
+    instruction: 'Any other spelling errors in callouts, notes, or labels, except the accepted terms listed in this section',
+    enabled: true,
+  },
+  {
+    id: 'placeholder_tbd',
+    category: 'placeholders',
+    severity: 'critical',
+    appliesTo: [],
+    instruction: 'Flag "PRODUCTION #: TBD", "MRQ: TBD", "Design: TBD" and any other field showing "TBD"',
+    enabled: true,
+  },
+  {
+    id: 'required_logo',
+    category: 'required',
+    severity: 'critical',
+    appliesTo: [],
+    instruction: 'M|R Walls logo present',
+    enabled: true,
+    scope: 'document',
+  },
+  {
+    id: 'required_project_name',
+    category: 'required',
+    severity: 'critical',
+    appliesTo: [],
+    instruction: 'Project name clearly stated',
+    enabled: true,
+    scope: 'document',
+  },
+  {
+    id: 'required_drawing_type',
+    category: 'required',
+    severity: 'critical',
+    appliesTo: [],
+    instruction: 'Drawing type identified (Elevation, Plan, Detail)',
+    enabled: true,
+  },
+  { id: 'required_version', category: 'required', severity: 'critical', appliesTo: [], instruction: 'Version/revision number', enabled: true },
+  {
+    id: 'required_version_consistency',
+    category: 'required',
+    severity: 'critical',
+    appliesTo: [],
+    instruction: 'Same version/revision number on every sheet of the set',
+    enabled: true,
+    scope: 'document',
+  },
+  { id: 'required_scale', category: 'required', severity: 'critical', appliesTo: [], instruction: 'Scale indicated', enabled: true },
+  { id: 'required_date', category: 'required', severity: 'critical', appliesTo: [], instruction: 'Date', enabled: true },
+  {
+    id: 'material_callout',
+    category: 'materials',
+    severity: 'critical',
+    appliesTo: [],
+    instruction: 'Material: "Corian Solid Surface" or "Solid Surface"',
+    enabled: true,
+  },
+  { id: 'material_color', category: 'materials', severity: 'critical', appliesTo: [], instruction: 'Color specified', enabled: true },
+  { id: 'material_seam_note', category: 'materials', severity: 'warning', appliesTo: [], instruction: 'Panel seam note if applicable', enabled: true },
+  {
+    id: 'material_scale_consistency',
+    category: 'materials',
+    severity: 'warning',
+    appliesTo: [],
+    instruction: 'Scale consistency across similar details',
+    enabled: true,
+  },
+  {
+    id: 'backlit_gap_note',
+    category: 'backlit',
+    severity: 'critical',
+    appliesTo: ['isBacklit'],
+    instruction: '"REQUIRED: M|R Wall needs 3" gap for proper LED light diffusion"',
+    enabled: true,
+  },
+  { id: 'backlit_ceiling_gap', category: 'backlit', severity: 'critical', appliesTo: ['isBacklit'], instruction: 'Ceiling gap for LED access', enabled: true },
+  {
+    id: 'backlit_removable_note',
+    category: 'backlit',
+    severity: 'critical',
+    appliesTo: ['isBacklit'],
+    instruction: '"removable for LED access" OR "glued with silicone for removability"',
+    enabled: true,
+  },
+  {
+    id: 'backlit_wiring_diagram',
+    category: 'backlit',
+    severity: 'critical',
+    appliesTo: ['isBacklit'],
+    instruction: 'Wiring diagram with LED strip spacing',
+    enabled: true,
+  },
+  {
+    id: 'backlit_component_list',
+    category: 'backlit',
+    severity: 'critical',
+    appliesTo: ['isBacklit'],
+    instruction: 'Component list: receivers, drivers, amplifiers, LED rolls with counts',
+    enabled: true,
+  },
+  { id: 'backlit_total_wattage', category: 'backlit', severity: 'critical', appliesTo: ['isBacklit'], instruction: '"Total Wattage: XXXW"', enabled: true },
+  {
+    id: 'backlit_led_load',
+    category: 'backlit',
+    severity: 'critical',
+    appliesTo: ['isBacklit'],
+    instruction: 'LED load adds up: drivers sized for the strip wattage, enough LED rolls for the strip runs, stated total wattage matches the runs',
+    enabled: true,
+  },
+  {
+    id: 'backlit_install_note',
+    category: 'backlit',
+    severity: 'warning',
+    appliesTo: ['isBacklit'],
+    instruction: '"Full set of install diagrams will be provided once final shop drawings have been approved"',
+    enabled: true,
+  },
+  {
+    id: 'cutout_notes',
+    category: 'situational',
+    severity: 'critical',
+    appliesTo: ['hasCutouts'],
+    instruction: 'Cutouts: Border notes, fabrication note',
+    enabled: true,
+  },
+  {
+    id: 'corner_butt_joint',
+    category: 'situational',
+    severity: 'critical',
+    appliesTo: ['hasCorners'],
+    instruction: 'Corners: Butt joint dimension adjustments',
+    enabled: true,
+  },
+  {
+    id: 'logo_artwork_reference',
+    category: 'situational',
+    severity: 'critical',
+    appliesTo: ['hasLogos'],
+    instruction: 'Logos/inlays: Artwork reference callout for each logo or inlay (artwork file name or client artwork ID)',
+    enabled: true,
+  },
+  {
+    id: 'logo_engraving_depth',
+    category: 'situational',
+    severity: 'critical',
+    appliesTo: ['hasLogos'],
+    instruction: 'Logos/inlays: Engraving or inlay depth called out (e.g. "1/8" deep engraving")',
+    enabled: true,
+  },
+  {
+    id: 'logo_finish_note',
+    category: 'situational',
+    severity: 'warning',
+    appliesTo: ['hasLogos'],
+    instruction: 'Logos/inlays: Finish note for the engraved or inlaid area (paint fill, inlay material/color, or natural)',
+    enabled: true,
+  },
+  {
+    id: 'logo_dimensions_placement',
+    category: 'situational',
+    severity: 'critical',
+    appliesTo: ['hasLogos'],
+    instruction:
+      'Logos/inlays: Overall logo dimensions and placement dimensioned from a panel edge; flag any logo that crosses a panel seam without a note addressing it',
+    enabled: true,
+  },
+  {
+    id: 'logo_artwork_approval',
+    category: 'situational',
+    severity: 'warning',
+    appliesTo: ['hasLogos'],
+    instruction: 'Logos/inlays: Note that client artwork approval is required (or received) before fabrication',
+    enabled: true,
+  },
+  {
+    id: 'dimension_chain_sums',
+    category: 'dimensions',
+    severity: 'critical',
+    appliesTo: [],
+    instruction: 'Chained dimensions add up to the overall dimension they sit under',
+    enabled: true,
+  },
+  {
+    id: 'corner_panel_widths',
+    category: 'dimensions',
+    severity: 'critical',
+    appliesTo: ['hasCorners'],
+    instruction: 'Panel widths at inside/outside corners adjusted for the butt joint material thickness',
+    enabled: true,
+  },
+  { id: 'layout_overcrowded', category: 'layout', severity: 'warning', appliesTo: [], instruction: 'Any page overcrowded?', enabled: true },
+  {
+    id: 'layout_text_sizes',
+    category: 'layout',
+    severity: 'warning',
+    appliesTo: [],
+    instruction: 'Consistent dimension/leader text sizes?',
+    enabled: true,
+  },
+  { id: 'layout_page_scales', category: 'layout', severity: 'warning', appliesTo: [], instruction: 'Consistent scales on same page?', enabled: true },
+];
+
+export const DEFAULT_CHECKLIST: ChecklistVersion = {
+  version: 0,
+  createdAt: '1970-01-01T00:00:00.000Z',
+  author: 'Built-in',
+  note: 'Original hard-coded checklist',
+  checks: DEFAULT_CHECKS,
+};
+
+// Add built-in checks introduced after a checklist version was saved, so new
+// releases reach stored checklists. Saved checks can only be disabled, never
+// deleted, so a missing built-in id is always a new one.
+// Checks saved before scopes existed inherit the built-in scope.
+export function withBuiltInChecks(checklist: ChecklistVersion): ChecklistVersion {
+  const builtIn = new Map(DEFAULT_CHECKS.map((check) => [check.id, check]));
+  const ids = new Set(checklist.checks.map((check) => check.id));
+  const checks = checklist.checks.map((check) =>
+    check.scope === undefined && builtIn.get(check.id)?.scope ? { ...check, scope: builtIn.get(check.id)!.scope } : check
+  );
+  const missing = DEFAULT_CHECKS.filter((check) => !ids.has(check.id));
+  return { ...checklist, checks: [...checks, ...missing] };
+}
+
+export function isDocumentCheck(check: CheckDefinition): boolean {
+  return check.scope === 'document';
+}
+
+export function applicableChecks(checks: CheckDefinition[], answers: Partial<ProjectAnswers> | undefined): CheckDefinition[] {
+  return checks.filter((check) => check.enabled && check.appliesTo.every((flag) => answers?.[flag]));
+}
+
+// The checklist part of the prompt, one numbered section per category with
+// each check tagged by id and severity so findings can be traced back. The
+// spelling section lists the dictionary's accepted terms and known typos.
+export function buildChecklistPrompt(checks: CheckDefinition[], dictionary?: SpellingDictionary): string {
+  const sections: string[] = [];
+
+  for (const category of CATEGORIES) {
+    const inCategory = checks.filter((check) => check.category === category.id);
+    if (inCategory.length === 0) continue;
+
+    const lines = inCategory.map((check) => `- [${check.id}] (${check.severity.toUpperCase()}) ${check.instruction}`);
+    if (category.id === 'spelling' && dictionary) {
+      lines.push(describeDictionary(dictionary));
+    }
+    sections.push(`### ${sections.length + 1}. ${category.title}:\n${lines.join('\n')}`);
+  }
+
+  return `## CHECKS
+
+Each check is tagged [check_id] (SEVERITY). Report a failed CRITICAL check in criticalIssues and a failed WARNING check in warnings. Set "checkId" on every finding to the id of the check it belongs to.
+
+${sections.join('\n\n')}`;
+}
+
+// Problems with an edited checklist, empty when it can be saved
+export function validateChecks(checks: unknown, saved: CheckDefinition[] = []): string[] {
+  if (!Array.isArray(checks) || checks.length === 0) {
+    return ['Checklist must contain at least one check'];
+  }
+
+  const errors: string[] = [];
+  const ids = new Set<string>();
+  const categories = CATEGORIES.map((c) => c.id) as string[];
+  const flags = PROJECT_FLAGS.map((f) => f.id) as string[];
+
+  checks.forEach((check, index) => {
+    const where = `Check ${index + 1}`;
+    if (typeof check !== 'object' || check === null) {
+      errors.push(`${where} is not an object`);
+      return;
+    }
+    if (typeof check.id !== 'string' || !/^[a-z][a-z0-9_]*$/.test(check.id)) {
+      errors.push(`${where}: id must be lowercase letters, digits and underscores`);
+    } else if (ids.has(check.id)) {
+      errors.push(`${where}: id "${check.id}" is used more than once`);
+    } else {
+      ids.add(check.id);
+    }
+    if (!categories.includes(check.category)) {
+      errors.push(`${where}: unknown category "${check.category}"`);
+    }
+    if (check.severity !== 'critical' && check.severity !== 'warning') {
+      errors.push(`${where}: severity must be critical or warning`);
+    }
+    if (!Array.isArray(check.appliesTo) || check.appliesTo.some((flag: unknown) => !flags.includes(flag as string))) {
+      errors.push(`${where}: appliesTo contains an unknown project flag`);
+    }
+    if (typeof check.instruction !== 'string' || !check.instruction.trim()) {
+      errors.push(`${where}: instruction must not be empty`);
+    }
+    if (typeof check.enabled !== 'boolean') {
+      errors.push(`${where}: enabled must be true or false`);
+    }
+    if (check.scope !== undefined && check.scope !== 'page' && check.scope !== 'document') {
+      errors.push(`${where}: scope must be page or document`);
+    }
+  });
+
+  // withBuiltInChecks would bring a removed built-in back enabled, and other
+  // saved checks are kept for the reports that used them
+  saved
+    .filter((check) => !ids.has(check.id))
+    .forEach((check) => errors.push(`Check "${check.id}" is saved and can't be removed; disable it instead`));
+
+  return errors;
+}
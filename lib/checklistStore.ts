@@ -0,0 +1,59 @@
+import { DEFAULT_CHECKLIST, withBuiltInChecks, type CheckDefinition, type ChecklistVersion } from './checklist';
+import { getStore } from './store';
+
+// Versions are immutable; "checklist/current" points at the active one
+const CURRENT_KEY = 'checklist/current';
+const versionKey = (version: number) => `checklist/versions/${version}`;
+
+export type ChecklistVersionSummary = Omit<ChecklistVersion, 'checks'> & { checkCount: number; enabledCount: number };
+
+export async function getChecklistVersion(version: number): Promise<ChecklistVersion | null> {
+  if (version === DEFAULT_CHECKLIST.version) {
+    return DEFAULT_CHECKLIST;
+  }
+  const checklist = await getStore().get<ChecklistVersion>(versionKey(version));
+  return checklist && withBuiltInChecks(checklist);
+}
+
+export async function getCurrentChecklist(): Promise<ChecklistVersion> {
+  const current = await getStore().get<{ version: number }>(CURRENT_KEY);
+  if (!current) {
+    return DEFAULT_CHECKLIST;
+  }
+  return (await getChecklistVersion(current.version)) ?? DEFAULT_CHECKLIST;
+}
+
+export async function listChecklistVersions(): Promise<ChecklistVersionSummary[]> {
+  const store = getStore();
+  const keys = await store.list('checklist/versions/');
+  const versions = await Promise.all(keys.map((key) => store.get<ChecklistVersion>(key)));
+
+  return [DEFAULT_CHECKLIST, ...versions.filter((v): v is ChecklistVersion => v !== null)]
+    .map(({ checks, ...summary }) => ({
+      ...summary,
+      checkCount: checks.length,
+      enabledCount: checks.filter((check) => check.enabled).length,
+    }))
+    .sort((a, b) => b.version - a.version);
+}
+
+// Save an edited checklist as a new version and make it current. Callers
+// validate the checks first (see validateChecks).
+export async function saveChecklist(checks: CheckDefinition[], author: string, note: string): Promise<ChecklistVersion> {
+  const store = getStore();
+  const keys = await store.list('checklist/versions/');
+  const latest = keys.reduce((max, key) => Math.max(max, Number(key.split('/').pop()) || 0), 0);
+
+  const saved: ChecklistVersion = {
+    version: latest + 1,
+    createdAt: new Date().toISOString(),
+    author,
+    note,
+    checks,
+  };
+
+  await store.put(versionKey(saved.version), saved);
+  await store.put(CURRENT_KEY, { version: saved.version });
+  return saved;
+}
+
@@ -0,0 +1,157 @@
+import { findingKey } from './feedback';
+import { hasTextLayer, type PageText, type PdfText } from './pdfText';
+import { normalizeVersion } from './titleBlock';
+import type { AnalysisResults, CheckItem, PageTextDiff, RevisionComparison, RevisionSide } from './types';
+
+// Items closer together than this (in PDF points) vertically share a line
+const LINE_TOLERANCE = 2;
+
+// Per page, so a redrawn sheet doesn't swamp the comparison
+const MAX_DIFF_LINES = 40;
+
+const VERSION_PATTERN = /\b(?:VERSION|REV(?:ISION)?)\s*[:#.]?\s*([A-Z]?\d+[A-Z]?)\b/gi;
+
+export function compareFindings(previous: AnalysisResults, current: AnalysisResults) {
+  const previousIssues = [...previous.criticalIssues, ...previous.warnings];
+  const currentIssues = [...current.criticalIssues, ...current.warnings];
+
+  const stillOpen: RevisionComparison['stillOpen'] = [];
+  const pair = (keyOf: (item: CheckItem) => string) => {
+    const paired = new Set<CheckItem>(stillOpen.flatMap((open) => [open.previous, open.current]));
+    const unmatched = new Map<string, CheckItem[]>();
+    currentIssues
+      .filter((item) => !paired.has(item))
+      .forEach((item) => {
+        const key = keyOf(item);
+        unmatched.set(key, [...(unmatched.get(key) ?? []), item]);
+      });
+    previousIssues
+      .filter((item) => !paired.has(item))
+      .forEach((item) => {
+        const match = unmatched.get(keyOf(item))?.shift();
+        if (match) stillOpen.push({ previous: item, current: match });
+      });
+  };
+  // The same finding first, then the model's rewordings of one by check and page
+  pair(findingKey);
+  pair((item) => `${item.checkId || item.label}|${item.page ?? ''}`);
+  stillOpen.sort((a, b) => previousIssues.indexOf(a.previous) - previousIssues.indexOf(b.previous));
+
+  const resolved = previousIssues.filter((item) => !stillOpen.some((open) => open.previous === item));
+  const introduced = currentIssues.filter((item) => !stillOpen.some((open) => open.current === item));
+  return { resolved, stillOpen, introduced };
+}
+
+// Rebuild text lines from item positions; CAD exports rarely mark line ends
+function pageLines(page: PageText): string[] {
+  const rows: { y: number; items: PageText['items'] }[] = [];
+  page.items
+    .filter((item) => item.str.trim())
+    .forEach((item) => {
+      const row = rows.find((r) => Math.abs(r.y - item.y) <= LINE_TOLERANCE);
+      if (row) {
+        row.items.push(item);
+      } else {
+        rows.push({ y: item.y, items: [item] });
+      }
+    });
+
+  return rows
+    .sort((a, b) => b.y - a.y)
+    .map((row) =>
+      row.items
+        .sort((a, b) => a.x - b.x)
+        .map((item) => item.str.trim())
+        .join(' ')
+        .replace(/\s+/g, ' ')
+    )
+    .filter((line) => line.length > 2);
+}
+
+// Lines in one list but not the other, counting repeats
+function missingFrom(lines: string[], other: string[]): string[] {
+  const remaining = new Map<string, number>();
+  other.forEach((line) => remaining.set(line, (remaining.get(line) ?? 0) + 1));
+  return lines.filter((line) => {
+    const count = remaining.get(line) ?? 0;
+    if (count === 0) return true;
+    remaining.set(line, count - 1);
+    return false;
+  });
+}
+
+// Notes and callouts added or removed on each page. Pages are paired by
+// number, so an inserted sheet shows up as changes on every later page.
+export function diffPageText(previous: PdfText, current: PdfText): PageTextDiff[] | null {
+  if (!previous.pages.some(hasTextLayer) || !current.pages.some(hasTextLayer)) {
+    return null;
+  }
+
+  const diffs: PageTextDiff[] = [];
+  for (let page = 1; page <= Math.max(previous.pageCount, current.pageCount); page++) {
+    const before = previous.pages[page - 1] ? pageLines(previous.pages[page - 1]) : null;
+    const after = current.pages[page - 1] ? pageLines(current.pages[page - 1]) : null;
+
+    const added = after ? missingFrom(after, before ?? []) : [];
+    const removed = before ? missingFrom(before, after ?? []) : [];
+    if (added.length === 0 && removed.length === 0) continue;
+
+    diffs.push({
+      page,
+      status: !before ? 'added' : !after ? 'removed' : 'changed',
+      added: added.slice(0, MAX_DIFF_LINES),
+      removed: removed.slice(0, MAX_DIFF_LINES),
+    });
+  }
+  return diffs;
+}
+
+// The version most title blocks in the set show, for when the model didn't report one
+export function findVersionLabel(pdfText: PdfText): string {
+  const counts = new Map<string, number>();
+  pdfText.pages.forEach((page) => {
+    Array.from(page.text.matchAll(VERSION_PATTERN)).forEach((match) => {
+      const version = match[1].toUpperCase();
+      counts.set(version, (counts.get(version) ?? 0) + 1);
+    });
+  });
+
+  let best = '';
+  counts.forEach((count, version) => {
+    if (!best || count > (counts.get(best) ?? 0)) best = version;
+  });
+  return best;
+}
+
+export interface RevisionInput {
+  jobId: string;
+  filename: string;
+  results: AnalysisResults;
+  // null when the PDF couldn't be read
+  text: PdfText | null;
+}
+
+function describeSide({ jobId, filename, results, text }: RevisionInput): RevisionSide {
+  return {
+    jobId,
+    filename,
+    version: results.extractedInfo.version || (text ? findVersionLabel(text) : ''),
+    pageCount: results.pageCount,
+    overallStatus: results.overallStatus,
+    checklistVersion: results.checklistVersion,
+  };
+}
+
+export function compareRevisions(previous: RevisionInput, current: RevisionInput): RevisionComparison {
+  const before = describeSide(previous);
+  const after = describeSide(current);
+
+  return {
+    previous: before,
+    current: after,
+    ...compareFindings(previous.results, current.results),
+    versionChanged:
+      before.version && after.version ? normalizeVersion(before.version) !== normalizeVersion(after.version) : null,
+    pageDiffs: previous.text && current.text ? diffPageText(previous.text, current.text) : null,
+  };
+}
@@ -0,0 +1,185 @@
+import { overallStatusFor } from './schema';
+import type { CheckItem, ModelResults } from './types';
+
+// Trade vocabulary the spelling checks accept and typos they know the fix
+// for, editable at /admin/dictionary (see lib/dictionaryStore.ts). Used by
+// the text-layer typo rule (lib/rules.ts) and the checklist prompt.
+
+export interface KnownTypo {
+  typo: string;
+  correction: string;
+}
+
+export interface SpellingDictionary {
+  // Spelled right as written: brand and product names, abbreviations, part numbers
+  terms: string[];
+  // Caught exactly in the text layer wherever there is one
+  typos: KnownTypo[];
+  updatedAt: string;
+  updatedBy: string;
+}
+
+// Terms and typos sent with the prompt; the text-layer rule uses all of them
+const MAX_PROMPT_TERMS = 200;
+const MAX_PROMPT_TYPOS = 100;
+
+export const DEFAULT_DICTIONARY: SpellingDictionary = {
+  terms: [
+    'M|R',
+    'M|R Walls',
+    'MRQ',
+    'Corian',
+    'DuPont',
+    'HI-MACS',
+    'Staron',
+    'Krion',
+    'Wilsonart',
+    'Avonite',
+    'solid surface',
+    'thermoformed',
+    'backlit',
+    'LED',
+    'RGBW',
+    'CNC',
+  ],
+  // The typos Carlo kept catching, from before the dictionary existed
+  typos: [
+    { typo: 'Existig', correction: 'Existing' },
+    { typo: 'supllying', correction: 'supplying' },
+    { typo: 'exisitng', correction: 'existing' },
+    { typo: 'Bakclight', correction: 'Backlight' },
+    { typo: 'removility', correction: 'removability' },
+    { typo: 'seperate', correction: 'separate' },
+  ],
+  updatedAt: '1970-01-01T00:00:00.000Z',
+  updatedBy: 'Built-in',
+};
+
+const normalize = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Is this word or phrase in the accepted terms? Case doesn't matter.
+export function isAcceptedTerm(dictionary: SpellingDictionary, text: string): boolean {
+  const value = normalize(text);
+  return dictionary.terms.some((term) => normalize(term) === value);
+}
+
+// Corrections keyed by lowercase typo
+export function typoCorrections(dictionary: SpellingDictionary): Map<string, string> {
+  return new Map(dictionary.typos.map(({ typo, correction }) => [normalize(typo), correction]));
+}
+
+// Spelling findings name the word in matchedText; the model is asked for a
+// suggestion on every one (see describeDictionary)
+export const isSpellingFinding = (item: CheckItem) => !!item.matchedText && (!!item.suggestion || !!item.checkId?.startsWith('spelling'));
+
+// Lines for the spelling section of the checklist prompt
+export function describeDictionary(dictionary: SpellingDictionary): string {
+  const terms = dictionary.terms.slice(0, MAX_PROMPT_TERMS).map((term) => `"${term}"`);
+  const typos = dictionary.typos.slice(0, MAX_PROMPT_TYPOS).map(({ typo, correction }) => `"${typo}" → "${correction}"`);
+  return [
+    terms.length > 0 ? `- Accepted terms, spelled correctly as written - never report these: ${terms.join(', ')}` : '',
+    typos.length > 0 ? `- Known typos: ${typos.join(', ')}` : '',
+    '- On every spelling finding set "matchedText" to the misspelled word exactly as written and "suggestion" to the correct spelling.',
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+// The dictionary with a term accepted, no longer listed as a typo if it was one
+export function withTerm(dictionary: SpellingDictionary, term: string): SpellingDictionary {
+  const value = normalize(term);
+  return {
+    ...dictionary,
+    terms: isAcceptedTerm(dictionary, term) ? dictionary.terms : [...dictionary.terms, term.trim()],
+    typos: dictionary.typos.filter(({ typo }) => normalize(typo) !== value),
+  };
+}
+
+// The dictionary with a typo learned, replacing any earlier correction for it
+export function withTypo(dictionary: SpellingDictionary, typo: string, correction: string): SpellingDictionary {
+  const value = normalize(typo);
+  return {
+    ...dictionary,
+    typos: [...dictionary.typos.filter((entry) => normalize(entry.typo) !== value), { typo: typo.trim(), correction: correction.trim() }],
+  };
+}
+
+type SpellingResults = Pick<ModelResults, 'overallStatus' | 'criticalIssues' | 'warnings' | 'manualReview'>;
+
+// Drop spelling findings on accepted terms, which the model still raises now
+// and then, and settle overallStatus on what's left
+export function withoutAcceptedTerms<T extends SpellingResults>(results: T, dictionary: SpellingDictionary): T {
+  let dropped = 0;
+  const keep = (items: CheckItem[]) =>
+    items.filter((item) => {
+      const accepted = isSpellingFinding(item) && isAcceptedTerm(dictionary, item.matchedText!);
+      if (accepted) dropped++;
+      return !accepted;
+    });
+
+  const criticalIssues = keep(results.criticalIssues);
+  const warnings = keep(results.warnings);
+  const manualReview = keep(results.manualReview);
+  if (dropped === 0) {
+    return results;
+  }
+
+  console.log(`Dropped ${dropped} spelling finding${dropped === 1 ? '' : 's'} on accepted terms`);
+  return {
+    ...results,
+    overallStatus: overallStatusFor({ criticalIssues, warnings }),
+    criticalIssues,
+    warnings,
+    manualReview,
+  };
+}
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+// Problems with an edited dictionary, empty when it can be saved
+export function validateDictionary(dictionary: unknown): string[] {
+  if (typeof dictionary !== 'object' || dictionary === null) {
+    return ['Dictionary must be an object'];
+  }
+  const { terms, typos } = dictionary as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const seenTerms = new Set<string>();
+  if (!Array.isArray(terms)) {
+    errors.push('Terms must be a list');
+  } else {
+    terms.forEach((term, index) => {
+      if (!isText(term)) {
+        errors.push(`Term ${index + 1} must not be empty`);
+      } else if (seenTerms.has(normalize(term))) {
+        errors.push(`"${term}" is listed more than once`);
+      } else {
+        seenTerms.add(normalize(term));
+      }
+    });
+  }
+
+  if (!Array.isArray(typos)) {
+    errors.push('Typos must be a list');
+  } else {
+    const seenTypos = new Set<string>();
+    typos.forEach((entry, index) => {
+      const where = `Typo ${index + 1}`;
+      if (typeof entry !== 'object' || entry === null || !isText(entry.typo) || !isText(entry.correction)) {
+        errors.push(`${where}: typo and correction must not be empty`);
+        return;
+      }
+      const typo = normalize(entry.typo);
+      if (typo === normalize(entry.correction)) {
+        errors.push(`${where}: "${entry.typo}" is its own correction`);
+      } else if (seenTypos.has(typo)) {
+        errors.push(`${where}: "${entry.typo}" is listed more than once`);
+      } else if (seenTerms.has(typo)) {
+        errors.push(`${where}: "${entry.typo}" is also an accepted term`);
+      }
+      seenTypos.add(typo);
+    });
+  }
+
+  return errors;
+}
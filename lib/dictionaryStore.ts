@@ -0,0 +1,45 @@
+import { DEFAULT_DICTIONARY, validateDictionary, type SpellingDictionary } from './dictionary';
+import { getStore, updateDocument } from './store';
+
+const DICTIONARY_KEY = 'dictionary/current';
+
+export class InvalidDictionaryError extends Error {
+  constructor(public errors: string[]) {
+    super(errors[0]);
+    this.name = 'InvalidDictionaryError';
+  }
+}
+
+export async function getDictionary(): Promise<SpellingDictionary> {
+  return (await getStore().get<SpellingDictionary>(DICTIONARY_KEY)) ?? DEFAULT_DICTIONARY;
+}
+
+// Change the dictionary as stored now, after any change already under way, so
+// two reviewers adding terms at once both land. Throws InvalidDictionaryError
+// when the change leaves it invalid (see validateDictionary).
+export async function updateDictionary(
+  change: (current: SpellingDictionary) => Pick<SpellingDictionary, 'terms' | 'typos'>,
+  author: string
+): Promise<SpellingDictionary> {
+  const tidy = (text: string) => text.trim().replace(/\s+/g, ' ');
+  const saved = await updateDocument<SpellingDictionary>(DICTIONARY_KEY, (current) => {
+    const dictionary = change(current ?? DEFAULT_DICTIONARY);
+    const errors = validateDictionary(dictionary);
+    if (errors.length > 0) {
+      throw new InvalidDictionaryError(errors);
+    }
+    return {
+      terms: dictionary.terms.map(tidy),
+      typos: dictionary.typos.map(({ typo, correction }) => ({ typo: tidy(typo), correction: tidy(correction) })),
+      updatedAt: new Date().toISOString(),
+      updatedBy: author,
+    };
+  });
+  console.log(`Dictionary saved by ${author}: ${saved.terms.length} terms, ${saved.typos.length} typos`);
+  return saved;
+}
+
+// Replace the dictionary
+export function saveDictionary(dictionary: Pick<SpellingDictionary, 'terms' | 'typos'>, author: string): Promise<SpellingDictionary> {
+  return updateDictionary(() => dictionary, author);
+}
@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { checkCornerJoints, checkCorners, DIMENSION_CHECK_IDS, formatDimension, parseDimension } from './dimensions';
+import { report } from './testFixtures';
+import type { CheckItem, CornerJoint } from './types';
+
+const corner = (type: CornerJoint['type'], a: [string, string], b: [string, string]): CornerJoint => ({
+  page: 3,
+  type,
+  thickness: '1/2"',
+  sides: [
+    { label: 'Panel A', layoutWidth: a[0], panelWidth: a[1] },
+    { label: 'Panel B', layoutWidth: b[0], panelWidth: b[1] },
+  ],
+});
+
+describe('parseDimension', () => {
+  it('reads feet-inch strings', () => {
+    assert.equal(parseDimension(`12'-6 1/2"`), 150.5);
+    assert.equal(parseDimension(`12' 6"`), 150);
+    assert.equal(parseDimension(`10'`), 120);
+    assert.equal(parseDimension(`3/4"`), 0.75);
+    assert.equal(parseDimension(`3’-0 3/4”`), 36.75);
+  });
+
+  it('refuses bare numbers and other text', () => {
+    assert.equal(parseDimension('12'), undefined);
+    assert.equal(parseDimension('TBD'), undefined);
+    assert.equal(parseDimension(`0"`), undefined);
+  });
+});
+
+describe('formatDimension', () => {
+  it('writes feet, inches and the nearest sixteenth', () => {
+    assert.equal(formatDimension(150.5), `12'-6 1/2"`);
+    assert.equal(formatDimension(36), `3'-0"`);
+    assert.equal(formatDimension(0.75), `3/4"`);
+    assert.equal(formatDimension(-36.25), `-3'-0 1/4"`);
+    assert.equal(formatDimension(0), `0"`);
+  });
+
+  it('writes zero inches before a fraction after feet', () => {
+    assert.equal(formatDimension(36.75), `3'-0 3/4"`);
+    assert.equal(parseDimension(formatDimension(36.75)), 36.75);
+  });
+});
+
+describe('checkCornerJoints', () => {
+  it('passes an outside corner with one panel the thickness longer', () => {
+    assert.deepEqual(checkCornerJoints([corner('outside', [`4'-0"`, `4'-0 1/2"`], [`3'-0"`, `3'-0"`])]), []);
+  });
+
+  it('flags corners adjusted the wrong way, twice or not at all', () => {
+    const labels = checkCornerJoints([
+      corner('inside', [`4'-0"`, `4'-0 1/2"`], [`3'-0"`, `3'-0"`]),
+      corner('outside', [`4'-0"`, `4'-0 1/2"`], [`3'-0"`, `3'-0 1/2"`]),
+      corner('outside', [`4'-0"`, `4'-0"`], [`3'-0"`, `3'-0"`]),
+    ]).map((finding) => finding.label);
+    assert.deepEqual(labels, ['Wrong Butt Joint Adjustment', 'Butt Joint Adjusted Twice', 'Butt Joint Not Adjusted']);
+  });
+});
+
+describe('checkCorners', () => {
+  const modelFinding: CheckItem = {
+    id: 'corner_model',
+    checkId: DIMENSION_CHECK_IDS.corners,
+    label: 'Corner widths look off',
+    status: 'fail',
+    notes: '',
+  };
+
+  it('clears a failing status once the model finding it replaces is gone', () => {
+    const checked = checkCorners(report({ criticalIssues: [modelFinding] }), [
+      corner('outside', [`4'-0"`, `4'-0 1/2"`], [`3'-0"`, `3'-0"`]),
+    ]);
+    assert.equal(checked.overallStatus, 'pass');
+    assert.deepEqual(checked.criticalIssues, []);
+    assert.deepEqual(
+      checked.passed.map((item) => item.id),
+      ['corner_panel_widths_ok']
+    );
+  });
+
+  it('fails the report on a corner finding', () => {
+    const checked = checkCorners(report({}), [corner('outside', [`4'-0"`, `4'-0"`], [`3'-0"`, `3'-0"`])]);
+    assert.equal(checked.overallStatus, 'fail');
+    assert.equal(checked.criticalIssues.length, 1);
+  });
+});
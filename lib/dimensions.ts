@@ -0,0 +1,286 @@
+import type { PageText, PdfText, TextItem } from './pdfText';
+import { overallStatusFor } from './schema';
+import type { AnalysisResults, CheckItem, CornerJoint } from './types';
+
+// Checklist registry ids for the dimension arithmetic (see lib/checklist.ts)
+export const DIMENSION_CHECK_IDS = {
+  chains: 'dimension_chain_sums',
+  corners: 'corner_panel_widths',
+};
+
+// Drawings round to the nearest 1/16"; anything past this is a real discrepancy
+export const DIMENSION_TOLERANCE_INCHES = 1 / 8;
+
+// Used when a corners drawing doesn't state the panel material thickness
+export const DEFAULT_PANEL_THICKNESS_INCHES = 1 / 2;
+
+// Grouping dimension strings into chains from the text layer (PDF points):
+// strings on one dimension line share a baseline within LINE_TOLERANCE, a gap
+// wider than MAX_CHAIN_GAP ends the line, and overall dimensions sit alone on
+// a parallel line within MAX_OVERALL_DISTANCE of it.
+const LINE_TOLERANCE = 3;
+const MAX_CHAIN_GAP = 216;
+const MAX_OVERALL_DISTANCE = 72;
+
+// A chain off by more than this share of the overall was probably paired with
+// the wrong overall dimension, so it isn't reported
+const MAX_PLAUSIBLE_ERROR = 0.1;
+
+// "6", "6.5", "6 1/2" or "1/2" inches
+function parseInches(text: string): number | undefined {
+  const match = text.trim().match(/^(?:(\d+(?:\.\d+)?)(?:\s+(\d+)\/(\d+))?|(\d+)\/(\d+))$/);
+  if (!match) return undefined;
+  if (match[4]) return Number(match[4]) / Number(match[5]);
+  return Number(match[1]) + (match[2] ? Number(match[2]) / Number(match[3]) : 0);
+}
+
+// Inches in a feet-inch dimension string: 12'-6 1/2", 12' 6", 10', 3/4".
+// undefined for anything else, including a bare number.
+export function parseDimension(text: string): number | undefined {
+  const normalized = text
+    .trim()
+    .replace(/[’′]/g, "'")
+    .replace(/[”″]|''/g, '"');
+  const match = normalized.match(/^(?:(\d+)\s*')?(?:\s*-?\s*([\d./ ]+?)\s*("?))?$/);
+  if (!match || (!match[1] && !match[3]) || (!match[1] && !match[2])) return undefined;
+
+  const inches = match[2] ? parseInches(match[2]) : 0;
+  if (inches === undefined) return undefined;
+  const total = (match[1] ? Number(match[1]) * 12 : 0) + inches;
+  return total > 0 ? total : undefined;
+}
+
+// 150.5 → 12'-6 1/2", to the nearest 1/16"
+export function formatDimension(inches: number): string {
+  const sixteenths = Math.round(Math.abs(inches) * 16);
+  const feet = Math.floor(sixteenths / 192);
+  const rest = sixteenths - feet * 192;
+  let numerator = rest % 16;
+  let denominator = 16;
+  while (numerator && numerator % 2 === 0) {
+    numerator /= 2;
+    denominator /= 2;
+  }
+  const whole = Math.floor(rest / 16);
+  const fraction = numerator ? `${numerator}/${denominator}` : '';
+  // Inches are always written after feet, "3'-0 3/4"", so the fraction isn't read as inches
+  const showWhole = feet > 0 || whole > 0 || !fraction;
+  const inchText = `${showWhole ? whole : ''}${showWhole && fraction ? ' ' : ''}${fraction}"`;
+  return `${inches < 0 ? '-' : ''}${feet ? `${feet}'-` : ''}${inchText}`;
+}
+
+interface PlacedDimension {
+  inches: number;
+  item: TextItem;
+}
+
+const along = (d: PlacedDimension) => (d.item.vertical ? d.item.y : d.item.x);
+const across = (d: PlacedDimension) => (d.item.vertical ? d.item.x : d.item.y);
+const end = (d: PlacedDimension) => along(d) + d.item.width;
+
+// Dimension strings on the same dimension line, split where the gap is too
+// wide for them to be one chain
+function dimensionLines(page: PageText): PlacedDimension[][] {
+  const dimensions: PlacedDimension[] = [];
+  page.items.forEach((item) => {
+    const inches = parseDimension(item.str);
+    if (inches !== undefined) dimensions.push({ inches, item });
+  });
+  dimensions.sort((a, b) => Number(!!a.item.vertical) - Number(!!b.item.vertical) || across(a) - across(b) || along(a) - along(b));
+
+  const lines: PlacedDimension[][] = [];
+  let line: PlacedDimension[] = [];
+  dimensions.forEach((dimension) => {
+    const first = line[0];
+    if (first && (!!first.item.vertical !== !!dimension.item.vertical || across(dimension) - across(first) > LINE_TOLERANCE)) {
+      lines.push(line);
+      line = [];
+    }
+    line.push(dimension);
+  });
+  if (line.length > 0) lines.push(line);
+
+  return lines.flatMap((members) => {
+    const sorted = [...members].sort((a, b) => along(a) - along(b));
+    const chains: PlacedDimension[][] = [[sorted[0]]];
+    for (let i = 1; i < sorted.length; i++) {
+      if (along(sorted[i]) - end(sorted[i - 1]) > MAX_CHAIN_GAP) {
+        chains.push([]);
+      }
+      chains[chains.length - 1].push(sorted[i]);
+    }
+    return chains;
+  });
+}
+
+const center = (d: PlacedDimension) => along(d) + d.item.width / 2;
+
+// Chains with the overall dimension each sits under: the lone dimensions on
+// a nearby parallel line, with each member of the line going to the closest
+// one so two elevations side by side split into their own chains
+function chainsWithOveralls(lines: PlacedDimension[][]): { chain: PlacedDimension[]; overall: PlacedDimension }[] {
+  const pairs: { chain: PlacedDimension[]; overall: PlacedDimension }[] = [];
+
+  lines.forEach((line) => {
+    if (line.length < 2) return;
+    const start = along(line[0]);
+    const stop = end(line[line.length - 1]);
+    const overalls = lines
+      .filter((other) => {
+        if (other.length !== 1 || !!other[0].item.vertical !== !!line[0].item.vertical) return false;
+        const distance = Math.abs(across(other[0]) - across(line[0]));
+        return distance > LINE_TOLERANCE && distance <= MAX_OVERALL_DISTANCE && center(other[0]) >= start && center(other[0]) <= stop;
+      })
+      .map((other) => other[0]);
+    if (overalls.length === 0) return;
+
+    const groups = new Map<PlacedDimension, PlacedDimension[]>();
+    line.forEach((member) => {
+      const closest = overalls.reduce((best, overall) =>
+        Math.abs(center(overall) - center(member)) < Math.abs(center(best) - center(member)) ? overall : best
+      );
+      groups.set(closest, [...(groups.get(closest) ?? []), member]);
+    });
+    groups.forEach((chain, overall) => {
+      if (chain.length >= 2 && overall.inches > Math.max(...chain.map((d) => d.inches))) {
+        pairs.push({ chain, overall });
+      }
+    });
+  });
+
+  return pairs;
+}
+
+export interface ChainFindings {
+  findings: CheckItem[];
+  // Chains that had an overall dimension to check against
+  checked: number;
+}
+
+// Chained dimensions that don't sum to their overall dimension, on the
+// given pages of the text layer
+export function findChainErrors(pdfText: PdfText, pages: number[]): ChainFindings {
+  const findings: CheckItem[] = [];
+  let checked = 0;
+
+  for (const page of pdfText.pages) {
+    if (!pages.includes(page.page)) continue;
+
+    for (const { chain, overall } of chainsWithOveralls(dimensionLines(page))) {
+      const sum = chain.reduce((total, d) => total + d.inches, 0);
+      const difference = sum - overall.inches;
+      if (Math.abs(difference) > overall.inches * MAX_PLAUSIBLE_ERROR) continue;
+      checked++;
+      if (Math.abs(difference) <= DIMENSION_TOLERANCE_INCHES) continue;
+
+      const { str, vertical, ...location } = overall.item;
+      findings.push({
+        id: `rule_dimension_chain_p${page.page}_${findings.length + 1}`,
+        checkId: DIMENSION_CHECK_IDS.chains,
+        label: "Dimension Chain Doesn't Add Up",
+        status: 'fail',
+        notes:
+          `${chain.map((d) => d.item.str.trim()).join(' + ')} = ${formatDimension(sum)}, but the overall dimension reads ${str.trim()} ` +
+          `(${formatDimension(Math.abs(difference))} ${difference > 0 ? 'over' : 'short'})`,
+        page: page.page,
+        source: 'rule',
+        matchedText: str.trim(),
+        location,
+      });
+    }
+  }
+
+  return { findings, checked };
+}
+
+// Findings for the butt joint at each corner: exactly one side's panel should
+// be cut the material thickness longer (outside corner, wrapping the other
+// panel's edge) or shorter (inside corner, butting into its face) than its
+// layout width
+export function checkCornerJoints(corners: CornerJoint[]): CheckItem[] {
+  const findings: CheckItem[] = [];
+
+  corners.forEach((corner, index) => {
+    const stated = parseDimension(corner.thickness);
+    const thickness = stated ?? DEFAULT_PANEL_THICKNESS_INCHES;
+    const thicknessNote = `${formatDimension(thickness)} material${stated === undefined ? ' (assumed, no thickness stated)' : ''}`;
+    const expected = corner.type === 'outside' ? thickness : -thickness;
+    const where = `${corner.type === 'outside' ? 'Outside' : 'Inside'} corner${corner.page ? ` on page ${corner.page}` : ''}`;
+
+    const sides = corner.sides
+      .map((side) => {
+        const layout = parseDimension(side.layoutWidth);
+        const panel = parseDimension(side.panelWidth);
+        return layout !== undefined && panel !== undefined ? { ...side, adjustment: panel - layout } : null;
+      })
+      .filter((side): side is NonNullable<typeof side> => side !== null);
+    if (sides.length < 2) return;
+
+    const near = (value: number, target: number) => Math.abs(value - target) <= DIMENSION_TOLERANCE_INCHES;
+    const adjusted = sides.filter((side) => !near(side.adjustment, 0));
+    const signed = (inches: number) => `${inches > 0 ? '+' : '-'}${formatDimension(Math.abs(inches))}`;
+    const add = (label: string, notes: string) =>
+      findings.push({
+        id: `corner_panel_width_${index + 1}`,
+        checkId: DIMENSION_CHECK_IDS.corners,
+        label,
+        status: 'fail',
+        notes,
+        page: corner.page,
+        source: 'ai',
+      });
+
+    if (adjusted.length === 0) {
+      add(
+        'Butt Joint Not Adjusted',
+        `${where}: ${sides.map((side) => `${side.label} is cut to its ${side.layoutWidth} layout width`).join(' and ')}; ` +
+          `one panel needs ${signed(expected)} for the ${thicknessNote}`
+      );
+    } else if (adjusted.length > 1) {
+      add(
+        'Butt Joint Adjusted Twice',
+        `${where}: ${adjusted.map((side) => `${side.label} (${side.layoutWidth} cut to ${side.panelWidth})`).join(' and ')} are both adjusted; ` +
+          `only one panel takes the ${signed(expected)} for the ${thicknessNote}`
+      );
+    } else if (!near(adjusted[0].adjustment, expected)) {
+      const side = adjusted[0];
+      add(
+        'Wrong Butt Joint Adjustment',
+        `${where}: ${side.label} is cut to ${side.panelWidth} for a ${side.layoutWidth} layout width (${signed(side.adjustment)}); ` +
+          `the ${thicknessNote} needs ${signed(expected)}, so ${formatDimension(parseDimension(side.layoutWidth)! + expected)}`
+      );
+    }
+  });
+
+  return findings;
+}
+
+// Add the corner check to a report, replacing anything the model reported for
+// it, with a pass item when every corner it could read is adjusted right
+export function checkCorners(results: AnalysisResults, corners: CornerJoint[]): AnalysisResults {
+  const findings = checkCornerJoints(corners);
+  const others = (items: CheckItem[]) => items.filter((item) => item.checkId !== DIMENSION_CHECK_IDS.corners);
+  const criticalIssues = [...findings, ...others(results.criticalIssues)];
+  const passed = others(results.passed);
+  if (findings.length === 0 && corners.length > 0) {
+    passed.push({
+      id: 'corner_panel_widths_ok',
+      checkId: DIMENSION_CHECK_IDS.corners,
+      label: 'Corner Panel Widths Adjusted',
+      status: 'pass',
+      notes: `${corners.length} corner${corners.length === 1 ? '' : 's'} carry the butt joint adjustment`,
+      source: 'ai',
+    });
+  }
+
+  const warnings = others(results.warnings);
+  return {
+    ...results,
+    corners,
+    overallStatus: overallStatusFor({ criticalIssues, warnings }),
+    criticalIssues,
+    warnings,
+    passed,
+    manualReview: others(results.manualReview),
+  };
+}
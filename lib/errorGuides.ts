@@ -0,0 +1,93 @@
+import type { ErrorCode } from './types';
+
+// What the page tells the drafter about each error code, beside the server's
+// message, and the one way out it offers
+
+export type RecoveryAction =
+  // Run the same analysis again
+  | 'retry'
+  // Make the PDF smaller, then start over with it
+  | 'compress'
+  // Send the PDF again
+  | 'upload'
+  // Nothing to do until the hourly limit resets
+  | 'wait'
+  // A reviewer fixes it on an admin page
+  | 'models'
+  | 'budget'
+  // Whoever runs the app fixes it
+  | 'admin';
+
+export interface ErrorGuide {
+  title: string;
+  hint: string;
+  action: RecoveryAction;
+}
+
+export const ERROR_GUIDES: Record<ErrorCode, ErrorGuide> = {
+  invalid_results: {
+    title: "Claude's report didn't check out",
+    hint: "The reply didn't match the report format even after repair attempts. Retrying usually works.",
+    action: 'retry',
+  },
+  page_too_large: {
+    title: 'A page is too large to analyze',
+    hint: 'Reduce the PDF size, then upload it again.',
+    action: 'compress',
+  },
+  document_rejected: {
+    title: "Claude couldn't read this PDF",
+    hint: 'Very large or complex sets are refused. Reduce the PDF size or flatten its layers, then upload it again.',
+    action: 'compress',
+  },
+  pdf_unavailable: {
+    title: 'The uploaded PDF is missing',
+    hint: 'Storage no longer has the file, so it needs uploading again.',
+    action: 'upload',
+  },
+  model_rate_limited: {
+    title: 'Claude is busy',
+    hint: 'Requests were rate limited and still were after several automatic retries. Give it a minute, then retry.',
+    action: 'retry',
+  },
+  model_overloaded: {
+    title: 'Claude is overloaded',
+    hint: 'Anthropic is under heavy load and several automatic retries failed. Retry in a few minutes.',
+    action: 'retry',
+  },
+  model_unavailable: {
+    title: "Claude didn't answer",
+    hint: 'The request timed out or the connection dropped, even after several automatic retries.',
+    action: 'retry',
+  },
+  model_auth: {
+    title: 'The Anthropic API key was refused',
+    hint: 'No analysis can run until whoever runs the QC app checks ANTHROPIC_API_KEY.',
+    action: 'admin',
+  },
+  model_request: {
+    title: 'Claude refused the request',
+    hint: "This is usually a model in the model settings that the API doesn't offer. A reviewer can change it.",
+    action: 'models',
+  },
+  credit_balance: {
+    title: 'Out of Anthropic credits',
+    hint: 'No analysis can run until credits are added to the Anthropic account.',
+    action: 'admin',
+  },
+  budget_exceeded: {
+    title: 'Analysis budget used up',
+    hint: 'New analyses are stopped until next month unless a reviewer raises the budget.',
+    action: 'budget',
+  },
+  analysis_limit: {
+    title: 'Hourly analysis limit reached',
+    hint: 'Each user can start a limited number of analyses an hour.',
+    action: 'wait',
+  },
+  unknown: {
+    title: 'Analysis failed',
+    hint: 'If a retry fails the same way, send the report link to whoever runs the QC app.',
+    action: 'retry',
+  },
+};
@@ -0,0 +1,146 @@
+import Anthropic from '@anthropic-ai/sdk';
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { PdfFetchError } from './analyze';
+import { PageTooLargeError } from './batching';
+import { describeError } from './errors';
+import { CreditBalanceError, DocumentRejectedError, InvalidResultsError, ModelAuthError, ModelOverloadedError, ModelRequestError } from './providers';
+import { AnthropicProvider } from './providers/anthropic';
+
+describe('describeError', () => {
+  const described = (error: unknown) => {
+    const { status, body } = describeError(error);
+    return [status, body.code];
+  };
+
+  it('gives each failure its status and code', () => {
+    assert.deepEqual(described(new PageTooLargeError(3, 40 * 1024 * 1024)), [400, 'page_too_large']);
+    assert.deepEqual(described(new PdfFetchError('Could not download the uploaded PDF')), [502, 'pdf_unavailable']);
+    assert.deepEqual(described(new ModelOverloadedError('Overloaded')), [503, 'model_overloaded']);
+    assert.deepEqual(described(new CreditBalanceError('Your credit balance is too low')), [402, 'credit_balance']);
+    assert.deepEqual(described(new ModelAuthError('invalid x-api-key', 401)), [500, 'model_auth']);
+    assert.deepEqual(described(new DocumentRejectedError('The PDF has too many pages', 400)), [400, 'document_rejected']);
+    assert.deepEqual(described(new ModelRequestError('max_tokens: too large', 400)), [502, 'model_request']);
+    assert.deepEqual(described(new Error('disk full')), [500, 'unknown']);
+  });
+
+  it("keeps the API's wording and the validation errors in details", () => {
+    assert.deepEqual(describeError(new ModelOverloadedError('Overloaded')).body.details, ['Overloaded']);
+    assert.deepEqual(describeError(new InvalidResultsError(['summary must be a non-empty string'])).body, {
+      error: 'Claude could not produce a valid QC report for this drawing. Please try again.',
+      code: 'invalid_results',
+      details: ['summary must be a non-empty string'],
+    });
+  });
+
+  it('adds the compression steps to size problems', () => {
+    assert.match(describeError(new PageTooLargeError(3, 40 * 1024 * 1024)).body.error, /^Page 3 alone is 40\.0MB.*Reduced Size PDF/);
+  });
+});
+
+describe('AnthropicProvider retries', () => {
+  const apiError = (status: number, message: string, headers: Record<string, string> = {}) =>
+    Anthropic.APIError.generate(status, { type: 'error', error: { type: 'api_error', message } }, message, headers);
+
+  const message = (text: string) => ({
+    model: 'claude-sonnet-4-20250514',
+    stop_reason: 'end_turn',
+    usage: { input_tokens: 1200, output_tokens: 80 },
+    content: [{ type: 'text', text }],
+  });
+
+  // A provider whose model calls fail with each error given, then answer
+  const providerFailing = (...errors: unknown[]) => {
+    const provider = new AnthropicProvider('test-key');
+    const calls = { count: 0 };
+    const client = (provider as unknown as { client: Anthropic }).client;
+    client.messages.create = (async () => {
+      const error = errors[calls.count++];
+      if (error) throw error;
+      return message('{"summary": "Clean"}');
+    }) as unknown as typeof client.messages.create;
+    return { provider, calls };
+  };
+
+  const request = (signal?: AbortSignal) => ({
+    prompt: 'Check the drawing',
+    settings: { model: 'claude-sonnet-4-20250514', maxTokens: 4000 },
+    validate: (parsed: unknown) => ({ ok: true as const, value: parsed }),
+    signal,
+  });
+
+  const turn = () => new Promise((resolve) => setImmediate(resolve));
+
+  // Let the retry waits pass until the request settles
+  const settle = async <T>(promise: Promise<T>): Promise<T> => {
+    let settled = false;
+    promise.then(
+      () => (settled = true),
+      () => (settled = true)
+    );
+    while (!settled) {
+      await turn();
+      mock.timers.tick(60_000);
+    }
+    return promise;
+  };
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['setTimeout'] });
+    mock.method(console, 'warn', () => {});
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+    mock.restoreAll();
+  });
+
+  it('asks again after an overload, a server error and a dropped connection', async () => {
+    const { provider, calls } = providerFailing(
+      apiError(529, 'Overloaded'),
+      apiError(500, 'Internal server error'),
+      new Anthropic.APIConnectionError({ message: 'socket hang up' })
+    );
+    const reply = await settle(provider.analyze(request()));
+    assert.deepEqual(reply.value, { summary: 'Clean' });
+    assert.equal(calls.count, 4);
+  });
+
+  it('gives up after four retries with the typed error', async () => {
+    const { provider, calls } = providerFailing(...Array.from({ length: 5 }, () => apiError(529, 'Overloaded')));
+    await assert.rejects(settle(provider.analyze(request())), ModelOverloadedError);
+    assert.equal(calls.count, 5);
+  });
+
+  it('does not retry a request that cannot pass', async () => {
+    const { provider, calls } = providerFailing(apiError(400, 'Your credit balance is too low to access the Anthropic API.'));
+    await assert.rejects(settle(provider.analyze(request())), CreditBalanceError);
+    assert.equal(calls.count, 1);
+
+    const rejected = providerFailing(apiError(400, 'The PDF specified was not valid.'));
+    await assert.rejects(settle(rejected.provider.analyze(request())), DocumentRejectedError);
+    assert.equal(rejected.calls.count, 1);
+  });
+
+  it('waits as long as a rate limit says', async () => {
+    const { provider, calls } = providerFailing(apiError(429, 'Rate limited', { 'retry-after': '20' }));
+    const reply = provider.analyze(request());
+    await turn();
+    mock.timers.tick(19_999);
+    await turn();
+    assert.equal(calls.count, 1);
+    mock.timers.tick(1);
+    assert.deepEqual((await reply).value, { summary: 'Clean' });
+    assert.equal(calls.count, 2);
+  });
+
+  it('stops waiting when the job is cancelled', async () => {
+    const controller = new AbortController();
+    const { provider, calls } = providerFailing(apiError(529, 'Overloaded'));
+    const reply = provider.analyze(request(controller.signal));
+    await turn();
+    controller.abort(new Error('Cancelled'));
+    await assert.rejects(reply, /Cancelled/);
+    assert.equal(calls.count, 1);
+  });
+});
@@ -0,0 +1,69 @@
+import { PdfFetchError } from './analyze';
+import { PageTooLargeError } from './batching';
+import {
+  CreditBalanceError,
+  DocumentRejectedError,
+  InvalidResultsError,
+  ModelAuthError,
+  ModelError,
+  ModelOverloadedError,
+  ModelRateLimitError,
+  ModelUnavailableError,
+} from './providers';
+import type { ErrorCode } from './types';
+
+export interface ErrorBody {
+  error: string;
+  code: ErrorCode;
+  details?: string[];
+}
+
+const COMPRESS_HINT = 'Please compress in Adobe Acrobat: File → Save As Other → Reduced Size PDF, then try again.';
+
+// Map an analysis failure to an HTTP status, a stable code and a message the
+// drafter can act on. Model errors arrive typed from the provider, after its
+// retries for the ones that can pass.
+export function describeError(error: unknown): { status: number; body: ErrorBody } {
+  const errorMessage = error instanceof Error ? error.message : 'Analysis failed';
+
+  if (error instanceof InvalidResultsError) {
+    return {
+      status: 502,
+      body: { error: 'Claude could not produce a valid QC report for this drawing. Please try again.', code: 'invalid_results', details: error.errors },
+    };
+  }
+
+  if (error instanceof PageTooLargeError) {
+    return { status: 400, body: { error: `${error.message}. ${COMPRESS_HINT}`, code: 'page_too_large' } };
+  }
+
+  if (error instanceof PdfFetchError) {
+    return { status: 502, body: { error: `${error.message}. Please upload the PDF again.`, code: 'pdf_unavailable' } };
+  }
+
+  if (error instanceof ModelError) {
+    // The API's own wording goes in details for whoever looks into it
+    const details = [error.message];
+    if (error instanceof ModelRateLimitError) {
+      return { status: 429, body: { error: 'Claude is rate limiting our requests right now. Wait a minute, then retry.', code: error.code, details } };
+    }
+    if (error instanceof ModelOverloadedError) {
+      return { status: 503, body: { error: 'Claude is overloaded right now. Wait a few minutes, then retry.', code: error.code, details } };
+    }
+    if (error instanceof ModelUnavailableError) {
+      return { status: 503, body: { error: 'Could not get an answer from Claude. Please retry.', code: error.code, details } };
+    }
+    if (error instanceof CreditBalanceError) {
+      return { status: 402, body: { error: 'Anthropic API credit balance is too low. Please add credits at console.anthropic.com.', code: error.code, details } };
+    }
+    if (error instanceof ModelAuthError) {
+      return { status: 500, body: { error: 'The Anthropic API key was refused. ANTHROPIC_API_KEY needs checking.', code: error.code, details } };
+    }
+    if (error instanceof DocumentRejectedError) {
+      return { status: 400, body: { error: `Claude could not process this PDF, likely too large or complex. ${COMPRESS_HINT}`, code: error.code, details } };
+    }
+    return { status: 502, body: { error: `Claude refused the request: ${error.message}`, code: error.code } };
+  }
+
+  return { status: 500, body: { error: errorMessage, code: 'unknown' } };
+}
@@ -0,0 +1,92 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { diffRuns, type DrawingOutcome, type EvaluationRun, type ExpectedFinding, type FoundFinding, matchFindings, missedCritical, scoreDrawings } from './evaluation';
+
+const expected = (checkId: string, page?: number): ExpectedFinding => ({ checkId, page, severity: 'critical' });
+const found = (checkId: string, page?: number): FoundFinding => ({ checkId, page, severity: 'critical', label: checkId });
+
+const outcome = (drawing: string, labels: ExpectedFinding[], findings: FoundFinding[]): DrawingOutcome => ({
+  drawing,
+  expected: labels,
+  found: findings,
+  matches: matchFindings(labels, findings),
+});
+
+const run = (id: string, drawings: DrawingOutcome[]): EvaluationRun => ({
+  id,
+  startedAt: '2025-01-15T12:00:00.000Z',
+  finishedAt: '2025-01-15T12:05:00.000Z',
+  models: ['claude-sonnet'],
+  checklistVersions: [1],
+  drawings,
+  ...scoreDrawings(drawings),
+});
+
+describe('matchFindings', () => {
+  it('pairs findings by check and page, one to one', () => {
+    const matches = matchFindings([expected('placeholder_tbd', 1), expected('placeholder_tbd', 1)], [found('placeholder_tbd', 1), found('placeholder_tbd', 2)]);
+    assert.deepEqual(matches, [{ expected: 0, found: 0 }]);
+  });
+
+  it('matches an unpaged label on any page', () => {
+    assert.deepEqual(matchFindings([expected('corner_panel_width')], [found('corner_panel_width', 4)]), [{ expected: 0, found: 0 }]);
+  });
+
+  it('matches paged labels before unpaged ones', () => {
+    const matches = matchFindings([expected('placeholder_tbd'), expected('placeholder_tbd', 2)], [found('placeholder_tbd', 2), found('placeholder_tbd', 3)]);
+    assert.deepEqual(matches, [
+      { expected: 0, found: 1 },
+      { expected: 1, found: 0 },
+    ]);
+  });
+});
+
+describe('scoreDrawings', () => {
+  it('counts precision and recall per check and overall', () => {
+    const { checks, totals } = scoreDrawings([
+      outcome('lobby', [expected('placeholder_tbd', 1), expected('corner_panel_width', 2)], [found('placeholder_tbd', 1), found('(none)', 3)]),
+      outcome('atrium', [expected('placeholder_tbd', 1)], [found('placeholder_tbd', 1), found('placeholder_tbd', 2)]),
+    ]);
+    assert.deepEqual(
+      checks.map(({ checkId, truePositives, falsePositives, falseNegatives }) => [checkId, truePositives, falsePositives, falseNegatives]),
+      [
+        ['(none)', 0, 1, 0],
+        ['corner_panel_width', 0, 0, 1],
+        ['placeholder_tbd', 2, 1, 0],
+      ]
+    );
+    assert.equal(checks[0].recall, null);
+    assert.equal(checks[1].precision, null);
+    assert.equal(totals.precision, 2 / 4);
+    assert.equal(totals.recall, 2 / 3);
+  });
+
+  it('leaves out drawings that failed to analyze', () => {
+    const failed = { ...outcome('lobby', [expected('placeholder_tbd', 1)], []), error: 'Analysis failed' };
+    assert.deepEqual(scoreDrawings([failed]).checks, []);
+  });
+});
+
+describe('comparing runs', () => {
+  const labels = [expected('placeholder_tbd', 1), expected('corner_panel_width', 2)];
+  const before = run('before', [outcome('lobby', labels, [found('placeholder_tbd', 1)])]);
+  const after = run('after', [outcome('lobby', labels, [found('corner_panel_width', 2)])]);
+
+  it('lists critical findings no analysis reported', () => {
+    assert.deepEqual(missedCritical(after), ['lobby: placeholder_tbd p.1']);
+  });
+
+  it('reports findings newly missed and caught', () => {
+    const diff = diffRuns(before, after);
+    assert.equal(diff.against, 'before');
+    assert.deepEqual(diff.newlyMissed, ['lobby: placeholder_tbd p.1']);
+    assert.deepEqual(diff.newlyCaught, ['lobby: corner_panel_width p.2']);
+    assert.deepEqual(
+      diff.checks.map((check) => [check.checkId, check.recall]),
+      [
+        ['corner_panel_width', [0, 1]],
+        ['placeholder_tbd', [1, 0]],
+      ]
+    );
+  });
+});
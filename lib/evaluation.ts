@@ -0,0 +1,280 @@
+import type { Severity } from './checklist';
+import type { AnalysisResults, ProjectAnswers } from './types';
+
+// Scoring analyses against hand-labeled drawings (the golden corpus), so a
+// checklist, prompt or model change can be judged before it's deployed. Run
+// with `npm run evaluate` (scripts/evaluate.ts).
+
+// A finding Carlo would raise on the drawing. Without a page it matches the
+// check on any page.
+export interface ExpectedFinding {
+  checkId: string;
+  page?: number;
+  severity: Severity;
+  note?: string;
+}
+
+// <drawing>.json next to <drawing>.pdf in the corpus folder
+export interface DrawingLabels {
+  projectType?: Partial<ProjectAnswers>;
+  projectId?: string;
+  expected: ExpectedFinding[];
+}
+
+export interface FoundFinding {
+  // Rule and AI findings without a checklist id are scored as "(none)"
+  checkId: string;
+  page?: number;
+  severity: Severity;
+  label: string;
+}
+
+export interface DrawingOutcome {
+  drawing: string;
+  expected: ExpectedFinding[];
+  found: FoundFinding[];
+  // Indexes into expected and found
+  matches: { expected: number; found: number }[];
+  error?: string;
+}
+
+export interface CheckScore {
+  checkId: string;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  // Null when there's nothing to divide by
+  precision: number | null;
+  recall: number | null;
+}
+
+export interface EvaluationRun {
+  id: string;
+  startedAt: string;
+  finishedAt: string;
+  models: string[];
+  checklistVersions: number[];
+  drawings: DrawingOutcome[];
+  checks: CheckScore[];
+  totals: CheckScore;
+}
+
+export interface RunDiff {
+  against: string;
+  checks: { checkId: string; precision: [number | null, number | null]; recall: [number | null, number | null] }[];
+  // "drawing: check p.N" for expected findings caught in one run and not the other
+  newlyMissed: string[];
+  newlyCaught: string[];
+}
+
+const NO_CHECK = '(none)';
+
+const isPositiveInteger = (value: unknown) => typeof value === 'number' && Number.isInteger(value) && value >= 1;
+
+// Problems with a drawing's labels, empty when they can be scored
+export function validateLabels(labels: unknown): string[] {
+  if (typeof labels !== 'object' || labels === null) {
+    return ['Labels must be an object'];
+  }
+  const { expected, projectType, projectId } = labels as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (projectType !== undefined && (typeof projectType !== 'object' || projectType === null)) {
+    errors.push('projectType must be an object of project answers');
+  }
+  if (projectId !== undefined && typeof projectId !== 'string') {
+    errors.push('projectId must be a string');
+  }
+  if (!Array.isArray(expected)) {
+    errors.push('expected must be a list of findings (use [] for a clean drawing)');
+  } else {
+    expected.forEach((finding, index) => {
+      const where = `expected[${index}]`;
+      if (typeof finding !== 'object' || finding === null) {
+        errors.push(`${where} is not an object`);
+        return;
+      }
+      if (typeof finding.checkId !== 'string' || !finding.checkId) {
+        errors.push(`${where}.checkId must be a checklist id`);
+      }
+      if (finding.page !== undefined && !isPositiveInteger(finding.page)) {
+        errors.push(`${where}.page must be a page number from 1`);
+      }
+      if (finding.severity !== 'critical' && finding.severity !== 'warning') {
+        errors.push(`${where}.severity must be "critical" or "warning"`);
+      }
+    });
+  }
+  return errors;
+}
+
+// The critical issues and warnings an analysis reported, one per check and
+// page; manual review items and dismissed findings don't count as found
+export function foundFindings(results: AnalysisResults): FoundFinding[] {
+  const found: FoundFinding[] = [];
+  const add = (severity: Severity) => (item: AnalysisResults['criticalIssues'][number]) => {
+    const checkId = item.checkId || NO_CHECK;
+    if (!found.some((other) => other.checkId === checkId && other.page === item.page)) {
+      found.push({ checkId, page: item.page, severity, label: item.label });
+    }
+  };
+  results.criticalIssues.forEach(add('critical'));
+  results.warnings.forEach(add('warning'));
+  return found;
+}
+
+// Pair expected and found findings one to one: same check, and the same page
+// when the label has one. Paged labels are matched first so an unpaged label
+// doesn't take the finding a paged one needs.
+export function matchFindings(expected: ExpectedFinding[], found: FoundFinding[]): DrawingOutcome['matches'] {
+  const matches: DrawingOutcome['matches'] = [];
+  const used = new Set<number>();
+  const order = expected.map((_, index) => index).sort((a, b) => Number(expected[a].page === undefined) - Number(expected[b].page === undefined));
+
+  for (const index of order) {
+    const label = expected[index];
+    const match = found.findIndex(
+      (finding, foundIndex) => !used.has(foundIndex) && finding.checkId === label.checkId && (label.page === undefined || finding.page === label.page)
+    );
+    if (match !== -1) {
+      used.add(match);
+      matches.push({ expected: index, found: match });
+    }
+  }
+  return matches.sort((a, b) => a.expected - b.expected);
+}
+
+const ratio = (part: number, whole: number) => (whole === 0 ? null : part / whole);
+
+function score(checkId: string, truePositives: number, falsePositives: number, falseNegatives: number): CheckScore {
+  return {
+    checkId,
+    truePositives,
+    falsePositives,
+    falseNegatives,
+    precision: ratio(truePositives, truePositives + falsePositives),
+    recall: ratio(truePositives, truePositives + falseNegatives),
+  };
+}
+
+// Precision and recall per check across the drawings that analyzed, and overall
+export function scoreDrawings(drawings: DrawingOutcome[]): { checks: CheckScore[]; totals: CheckScore } {
+  const counts = new Map<string, [number, number, number]>();
+  const count = (checkId: string, slot: 0 | 1 | 2) => {
+    const entry = counts.get(checkId) ?? [0, 0, 0];
+    entry[slot]++;
+    counts.set(checkId, entry);
+  };
+
+  for (const drawing of drawings) {
+    if (drawing.error) continue;
+    const matchedExpected = new Set(drawing.matches.map((match) => match.expected));
+    const matchedFound = new Set(drawing.matches.map((match) => match.found));
+    drawing.expected.forEach((label, index) => count(label.checkId, matchedExpected.has(index) ? 0 : 2));
+    drawing.found.forEach((finding, index) => {
+      if (!matchedFound.has(index)) count(finding.checkId, 1);
+    });
+  }
+
+  const checks: CheckScore[] = [];
+  let totals = [0, 0, 0];
+  counts.forEach(([truePositives, falsePositives, falseNegatives], checkId) => {
+    checks.push(score(checkId, truePositives, falsePositives, falseNegatives));
+    totals = [totals[0] + truePositives, totals[1] + falsePositives, totals[2] + falseNegatives];
+  });
+  return { checks: checks.sort((a, b) => a.checkId.localeCompare(b.checkId)), totals: score('all', totals[0], totals[1], totals[2]) };
+}
+
+const labelKey = (drawing: string, label: ExpectedFinding) => `${drawing}: ${label.checkId}${label.page ? ` p.${label.page}` : ''}`;
+
+// Expected findings an analysis caught, keyed by drawing, check and page
+function caughtKeys(run: EvaluationRun): { caught: Set<string>; missed: Set<string> } {
+  const caught = new Set<string>();
+  const missed = new Set<string>();
+  for (const drawing of run.drawings) {
+    if (drawing.error) continue;
+    const matched = new Set(drawing.matches.map((match) => match.expected));
+    drawing.expected.forEach((label, index) => (matched.has(index) ? caught : missed).add(labelKey(drawing.drawing, label)));
+  }
+  return { caught, missed };
+}
+
+export function diffRuns(previous: EvaluationRun, current: EvaluationRun): RunDiff {
+  const checkIds = Array.from(new Set([...previous.checks, ...current.checks].map((check) => check.checkId))).sort();
+  const before = caughtKeys(previous);
+  const after = caughtKeys(current);
+
+  return {
+    against: previous.id,
+    checks: checkIds
+      .map((checkId) => {
+        const old = previous.checks.find((check) => check.checkId === checkId);
+        const now = current.checks.find((check) => check.checkId === checkId);
+        return {
+          checkId,
+          precision: [old?.precision ?? null, now?.precision ?? null] as [number | null, number | null],
+          recall: [old?.recall ?? null, now?.recall ?? null] as [number | null, number | null],
+        };
+      })
+      .filter((check) => check.precision[0] !== check.precision[1] || check.recall[0] !== check.recall[1]),
+    newlyMissed: Array.from(after.missed).filter((key) => before.caught.has(key)),
+    newlyCaught: Array.from(after.caught).filter((key) => before.missed.has(key)),
+  };
+}
+
+// Expected critical findings no analysis reported, as "drawing: check p.N"
+export function missedCritical(run: EvaluationRun): string[] {
+  const missed: string[] = [];
+  for (const drawing of run.drawings) {
+    if (drawing.error) continue;
+    const matched = new Set(drawing.matches.map((match) => match.expected));
+    drawing.expected.forEach((label, index) => {
+      if (label.severity === 'critical' && !matched.has(index)) {
+        missed.push(`${labelKey(drawing.drawing, label)}${label.note ? ` (${label.note})` : ''}`);
+      }
+    });
+  }
+  return missed;
+}
+
+const percent = (value: number | null) => (value === null ? '  -  ' : `${Math.round(value * 100)}%`.padStart(5));
+
+// Plain-text report for the terminal
+export function formatRun(run: EvaluationRun, diff: RunDiff | null): string {
+  const lines: string[] = [];
+  const analyzed = run.drawings.filter((drawing) => !drawing.error).length;
+  lines.push(`Evaluation ${run.id}: ${analyzed}/${run.drawings.length} drawings, model ${run.models.join(', ') || '-'}, checklist v${run.checklistVersions.join(', v')}`);
+  for (const drawing of run.drawings.filter((entry) => entry.error)) {
+    lines.push(`  FAILED ${drawing.drawing}: ${drawing.error}`);
+  }
+
+  lines.push('', `${'check'.padEnd(32)} ${'TP'.padStart(4)} ${'FP'.padStart(4)} ${'FN'.padStart(4)}  prec.  recall`);
+  for (const check of [...run.checks, run.totals]) {
+    lines.push(
+      `${check.checkId.padEnd(32)} ${String(check.truePositives).padStart(4)} ${String(check.falsePositives).padStart(4)} ${String(
+        check.falseNegatives
+      ).padStart(4)}  ${percent(check.precision)}  ${percent(check.recall)}`
+    );
+  }
+
+  const missed = missedCritical(run);
+  lines.push('', missed.length > 0 ? `Missed critical issues (${missed.length}):` : 'No critical issues missed');
+  missed.forEach((entry) => lines.push(`  - ${entry}`));
+
+  if (diff) {
+    lines.push('', `Compared with ${diff.against}:`);
+    if (diff.checks.length === 0 && diff.newlyMissed.length === 0 && diff.newlyCaught.length === 0) {
+      lines.push('  no change');
+    }
+    for (const check of diff.checks) {
+      lines.push(
+        `  ${check.checkId.padEnd(30)} precision ${percent(check.precision[0])} → ${percent(check.precision[1])}, recall ${percent(check.recall[0])} → ${percent(
+          check.recall[1]
+        )}`
+      );
+    }
+    diff.newlyMissed.forEach((entry) => lines.push(`  now missed: ${entry}`));
+    diff.newlyCaught.forEach((entry) => lines.push(`  now caught: ${entry}`));
+  }
+  return lines.join('\n');
+}
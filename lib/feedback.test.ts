@@ -0,0 +1,95 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { applyFeedback, findingKey } from './feedback';
+import { report } from './testFixtures';
+import type { CheckItem, FindingFeedback } from './types';
+
+const finding = (id: string, changes: Partial<CheckItem> = {}): CheckItem => ({
+  id,
+  checkId: 'cutout_dimensions',
+  label: 'Cutout not dimensioned',
+  status: 'fail',
+  notes: '',
+  page: 2,
+  source: 'ai',
+  ...changes,
+});
+
+const falsePositive = (item: CheckItem): FindingFeedback => ({
+  findingKey: findingKey(item),
+  checkId: item.checkId,
+  label: item.label,
+  notes: item.notes,
+  page: item.page,
+  source: item.source,
+  verdict: 'false_positive',
+  comment: 'Dimensioned on the detail sheet',
+  by: 'reviewer',
+  at: '2025-01-15T12:00:00.000Z',
+  jobId: 'job-1',
+  filename: 'lobby-wall.pdf',
+});
+
+describe('findingKey', () => {
+  it('tells apart model findings of one check on one page by label', () => {
+    const outlet = finding('a', { label: 'Outlet cutout not dimensioned' });
+    const switchBox = finding('b', { label: 'Switch cutout not dimensioned' });
+    assert.notEqual(findingKey(outlet), findingKey(switchBox));
+  });
+
+  it('uses the matched text of rule findings', () => {
+    const mrq = finding('a', { checkId: 'placeholder_tbd', label: 'Placeholder: MRQ', matchedText: 'MRQ: TBD', source: 'rule' });
+    assert.equal(findingKey(mrq), 'placeholder_tbd|2|mrq tbd');
+  });
+
+  it('tells apart same-labelled model findings on one page by what they say', () => {
+    const existing = finding('a', { checkId: undefined, label: 'Spelling Error', notes: '"Existig" should be "Existing"' });
+    const supplying = finding('b', { checkId: undefined, label: 'Spelling Error', notes: '"supllying" should be "supplying"' });
+    assert.notEqual(findingKey(existing), findingKey(supplying));
+    assert.match(findingKey(existing), /^spelling error\|2\|[0-9a-f]{8}$/);
+  });
+
+  it('ignores case and punctuation', () => {
+    assert.equal(findingKey(finding('a', { label: 'Cutout: NOT dimensioned!' })), findingKey(finding('b')));
+  });
+});
+
+describe('applyFeedback', () => {
+  it('dismisses only the finding the verdict was given on', () => {
+    const outlet = finding('a', { label: 'Outlet cutout not dimensioned' });
+    const switchBox = finding('b', { label: 'Switch cutout not dimensioned' });
+    const results = applyFeedback(report({ criticalIssues: [outlet, switchBox] }), [falsePositive(outlet)]);
+    assert.deepEqual(
+      results.criticalIssues.map((item) => item.id),
+      ['b']
+    );
+    assert.deepEqual(
+      results.dismissed?.map((item) => item.id),
+      ['a']
+    );
+    assert.equal(results.dismissed?.[0].dismissed?.comment, 'Dimensioned on the detail sheet');
+  });
+
+  it('keeps a same-labelled model finding on the page', () => {
+    const existing = finding('a', { checkId: undefined, label: 'Spelling Error', notes: '"Existig" should be "Existing"' });
+    const supplying = finding('b', { checkId: undefined, label: 'Spelling Error', notes: '"supllying" should be "supplying"' });
+    const results = applyFeedback(report({ criticalIssues: [existing, supplying] }), [falsePositive(existing)]);
+    assert.deepEqual(
+      results.criticalIssues.map((item) => item.id),
+      ['b']
+    );
+  });
+
+  it('settles the status on what is left', () => {
+    const outlet = finding('a');
+    const note = finding('b', { checkId: 'general_notes', label: 'Note wording', status: 'warning' });
+    assert.equal(applyFeedback(report({ criticalIssues: [outlet], warnings: [note] }), [falsePositive(outlet)]).overallStatus, 'warning');
+    assert.equal(applyFeedback(report({ criticalIssues: [outlet] }), [falsePositive(outlet)]).overallStatus, 'pass');
+  });
+
+  it('leaves the report alone without false positives', () => {
+    const outlet = finding('a');
+    const results = report({ criticalIssues: [outlet] });
+    assert.equal(applyFeedback(results, [{ ...falsePositive(outlet), verdict: 'confirmed' }]), results);
+  });
+});
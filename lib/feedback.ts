@@ -0,0 +1,142 @@
+import { overallStatusFor } from './schema';
+import type { AnalysisResults, CheckItem, FeedbackVerdict, FindingFeedback } from './types';
+
+export const FEEDBACK_VERDICTS: { id: FeedbackVerdict; label: string }[] = [
+  { id: 'confirmed', label: 'Confirmed' },
+  { id: 'false_positive', label: 'False positive' },
+  { id: 'fixed', label: 'Fixed' },
+];
+
+// Dismissals listed in the prompt; older ones are still left out afterwards
+const MAX_PROMPT_DISMISSALS = 30;
+
+// Shown per check on the noisy checks page
+const MAX_RECENT_DISMISSALS = 3;
+
+// How often a check's findings were judged, across every project
+export interface CheckFeedbackStats {
+  // The checklist check, or the finding's label when it has none
+  checkId: string;
+  label: string;
+  confirmed: number;
+  falsePositive: number;
+  fixed: number;
+  // Share of verdicts that were false positives
+  falsePositiveRate: number;
+  projects: number;
+  // Latest false positives, newest first
+  recent: (FindingFeedback & { projectKey: string })[];
+}
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// FNV-1a, hex; findingKey runs in the browser too, so no node crypto
+function textHash(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+// One finding: its check, page and what it's about. That's the matched text
+// when there is one; otherwise a hash of the label and notes, since model
+// findings often share a generic label ("Spelling Error") on a page. Verdicts
+// are stored, shown and applied by this key.
+export function findingKey(item: CheckItem): string {
+  const about = item.matchedText ? normalize(item.matchedText) : textHash(normalize(`${item.label} ${item.notes}`));
+  return [item.checkId || normalize(item.label), item.page ?? '', about].join('|');
+}
+
+const falsePositives = (feedback: FindingFeedback[]) => feedback.filter((entry) => entry.verdict === 'false_positive');
+
+// Prompt lines asking the model not to raise dismissed findings again
+export function describeDismissed(feedback: FindingFeedback[]): string {
+  const dismissed = falsePositives(feedback)
+    .sort((a, b) => b.at.localeCompare(a.at))
+    .slice(0, MAX_PROMPT_DISMISSALS);
+  if (dismissed.length === 0) {
+    return '';
+  }
+  const lines = dismissed.map(
+    (entry) =>
+      `- ${entry.checkId ? `[${entry.checkId}] ` : ''}${entry.label}${entry.page ? ` (page ${entry.page})` : ''}: ${entry.notes}` +
+      `${entry.comment ? ` - reviewer: "${entry.comment}"` : ''}`
+  );
+  return (
+    ' These findings were reported on an earlier revision of this project and marked FALSE POSITIVES by the team;' +
+    ` do not report them again unless the drawing has changed there:\n${lines.join('\n')}`
+  );
+}
+
+// Move findings marked false positives on the project out of the issues and
+// into dismissed, and settle overallStatus on what's left
+export function applyFeedback(results: AnalysisResults, feedback: FindingFeedback[]): AnalysisResults {
+  const dismissals = new Map<string, FindingFeedback>();
+  falsePositives(feedback).forEach((entry) => dismissals.set(entry.findingKey, entry));
+  if (dismissals.size === 0) {
+    return results;
+  }
+
+  const dismissed: CheckItem[] = [];
+  const keep = (items: CheckItem[]) =>
+    items.filter((item) => {
+      const entry = dismissals.get(findingKey(item));
+      if (!entry) return true;
+      dismissed.push({ ...item, dismissed: { by: entry.by, at: entry.at, comment: entry.comment } });
+      return false;
+    });
+
+  const criticalIssues = keep(results.criticalIssues);
+  const warnings = keep(results.warnings);
+  const manualReview = keep(results.manualReview);
+  if (dismissed.length === 0) {
+    return results;
+  }
+
+  console.log(`Left out ${dismissed.length} previously dismissed finding${dismissed.length === 1 ? '' : 's'}`);
+  return {
+    ...results,
+    overallStatus: overallStatusFor({ criticalIssues, warnings }),
+    criticalIssues,
+    warnings,
+    manualReview,
+    dismissed,
+  };
+}
+
+// Verdicts per check across projects, noisiest (most false positives) first
+export function summarizeFeedback(projects: { projectKey: string; findings: FindingFeedback[] }[]): CheckFeedbackStats[] {
+  const stats = new Map<string, CheckFeedbackStats & { projectKeys: Set<string> }>();
+
+  projects.forEach(({ projectKey, findings }) => {
+    findings.forEach((entry) => {
+      const checkId = entry.checkId || normalize(entry.label);
+      let check = stats.get(checkId);
+      if (!check) {
+        check = { checkId, label: entry.label, confirmed: 0, falsePositive: 0, fixed: 0, falsePositiveRate: 0, projects: 0, recent: [], projectKeys: new Set() };
+        stats.set(checkId, check);
+      }
+      if (entry.verdict === 'confirmed') check.confirmed++;
+      if (entry.verdict === 'fixed') check.fixed++;
+      if (entry.verdict === 'false_positive') {
+        check.falsePositive++;
+        check.projectKeys.add(projectKey);
+        check.recent.push({ ...entry, projectKey });
+      }
+    });
+  });
+
+  const summaries: CheckFeedbackStats[] = [];
+  stats.forEach(({ projectKeys, ...check }) => {
+    const total = check.confirmed + check.falsePositive + check.fixed;
+    summaries.push({
+      ...check,
+      falsePositiveRate: total > 0 ? check.falsePositive / total : 0,
+      projects: projectKeys.size,
+      recent: check.recent.sort((a, b) => b.at.localeCompare(a.at)).slice(0, MAX_RECENT_DISMISSALS),
+    });
+  });
+  return summaries.sort((a, b) => b.falsePositive - a.falsePositive || b.falsePositiveRate - a.falsePositiveRate);
+}
@@ -0,0 +1,43 @@
+import { getStore, updateDocument } from './store';
+import type { FindingFeedback } from './types';
+
+const feedbackKey = (projectKey: string) => `feedback/${projectKey}`;
+
+// Every verdict given on one project's findings, the latest per finding
+interface ProjectFeedback {
+  projectKey: string;
+  findings: FindingFeedback[];
+}
+
+// Keys come from projectKey in lib/titleBlock.ts
+export async function getFeedback(projectKey: string): Promise<FindingFeedback[]> {
+  if (!/^[\w-]+$/.test(projectKey)) {
+    return [];
+  }
+  return (await getStore().get<ProjectFeedback>(feedbackKey(projectKey)))?.findings ?? [];
+}
+
+// Record a verdict, replacing any earlier one on the same finding
+export async function saveFeedback(projectKey: string, entry: FindingFeedback): Promise<FindingFeedback[]> {
+  const { findings } = await updateDocument<ProjectFeedback>(feedbackKey(projectKey), (current) => ({
+    projectKey,
+    findings: [...(current?.findings ?? []).filter((existing) => existing.findingKey !== entry.findingKey), entry],
+  }));
+  console.log(`Finding ${entry.findingKey} on ${projectKey} marked ${entry.verdict} by ${entry.by}`);
+  return findings;
+}
+
+export async function clearFeedback(projectKey: string, findingKey: string): Promise<FindingFeedback[]> {
+  const { findings } = await updateDocument<ProjectFeedback>(feedbackKey(projectKey), (current) => ({
+    projectKey,
+    findings: (current?.findings ?? []).filter((existing) => existing.findingKey !== findingKey),
+  }));
+  return findings;
+}
+
+export async function listProjectFeedback(): Promise<ProjectFeedback[]> {
+  const store = getStore();
+  const keys = await store.list('feedback/');
+  const projects = await Promise.all(keys.map((key) => store.get<ProjectFeedback>(key)));
+  return projects.filter((project): project is ProjectFeedback => project !== null);
+}
@@ -0,0 +1,77 @@
+import { getStore } from './store';
+import type { AnalysisJob, AnalysisSummary, JobStatus } from './types';
+
+const historyKey = (jobId: string) => `history/${jobId}`;
+
+export interface HistoryFilters {
+  // Matched against the project name, MRQ # and filename
+  project?: string;
+  // A report's overall status (pass/warning/fail), or failed/cancelled for
+  // jobs that never finished
+  status?: string;
+  // Inclusive YYYY-MM-DD dates the job was started between
+  from?: string;
+  to?: string;
+}
+
+export const HISTORY_STATUSES = ['pass', 'warning', 'fail', 'failed', 'cancelled'];
+
+const summarize = (job: AnalysisJob): AnalysisSummary => {
+  const { results } = job;
+  const finishedAt = job.finishedAt ?? job.updatedAt;
+  const startedAt = job.startedAt ? Date.parse(job.startedAt) : NaN;
+  return {
+    jobId: job.id,
+    filename: job.filename,
+    blobUrl: job.blobUrl,
+    status: job.status,
+    runBy: job.runBy,
+    createdAt: job.createdAt,
+    finishedAt,
+    durationMs: isNaN(startedAt) ? undefined : Date.parse(finishedAt) - startedAt,
+    projectType: job.projectType,
+    projectName: results?.projectRecord?.projectName || results?.extractedInfo.projectName || '',
+    mrqNumber: results?.projectRecord?.mrqNumber || results?.extractedInfo.mrqNumber || undefined,
+    overallStatus: results?.overallStatus,
+    criticalCount: results?.criticalIssues.length ?? 0,
+    warningCount: results?.warnings.length ?? 0,
+    checklistVersion: results?.checklistVersion,
+    model: results?.model,
+    costUsd: results?.usage?.costUsd,
+    error: job.error?.error,
+  };
+};
+
+// Add a job that stopped running to the history, replacing the entry from
+// an earlier attempt
+export async function recordAnalysis(job: AnalysisJob): Promise<void> {
+  const ended: JobStatus[] = ['done', 'failed', 'cancelled'];
+  if (!ended.includes(job.status)) {
+    return;
+  }
+  await getStore().put(historyKey(job.id), summarize(job));
+}
+
+const matches = (summary: AnalysisSummary, { project, status, from, to }: HistoryFilters) => {
+  const day = summary.createdAt.slice(0, 10);
+  if (from && day < from) return false;
+  if (to && day > to) return false;
+  if (status && (summary.status === 'done' ? summary.overallStatus : summary.status) !== status) return false;
+  if (project) {
+    const query = project.trim().toLowerCase();
+    const text = [summary.projectName, summary.mrqNumber, summary.filename].join(' ').toLowerCase();
+    if (!text.includes(query)) return false;
+  }
+  return true;
+};
+
+// Newest first
+export async function listAnalyses(filters: HistoryFilters = {}): Promise<AnalysisSummary[]> {
+  const store = getStore();
+  const keys = await store.list('history/');
+  const summaries = await Promise.all(keys.map((key) => store.get<AnalysisSummary>(key)));
+
+  return summaries
+    .filter((summary): summary is AnalysisSummary => summary !== null && matches(summary, filters))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
@@ -0,0 +1,112 @@
+import { upload } from '@vercel/blob/client';
+import type { AnalysisError, AnalysisJob, ErrorCode, ProjectAnswers } from './types';
+
+// Uploads above this go to storage in parallel parts
+const MULTIPART_SIZE = 20 * 1024 * 1024;
+// How often to check on a running analysis job
+export const POLL_INTERVAL = 2000;
+
+// A failed analysis, or a refused request to start one, with the server's
+// error code so the page can say what to do about it
+export class JobError extends Error {
+  constructor(message: string, public code?: ErrorCode, public details?: string[]) {
+    super(message);
+    this.name = 'JobError';
+  }
+
+  static from(body: Partial<AnalysisError> | undefined, fallback: string): JobError {
+    return new JobError(body?.error || fallback, body?.code, body?.details);
+  }
+}
+
+let storage: Promise<'blob' | 'local'> | null = null;
+
+// Vercel Blob, or the app server itself when it has no blob storage
+function uploadStorage(): Promise<'blob' | 'local'> {
+  storage ??= fetch('/api/upload', { cache: 'no-store' })
+    .then((response) => response.json())
+    .then((data) => (data.storage === 'local' ? 'local' : 'blob'));
+  return storage;
+}
+
+// Upload a PDF straight to Vercel Blob (client-side, bypasses the body
+// limit), or to the app server without one; answers the PDF's URL
+async function uploadPdf(file: File, options: { signal?: AbortSignal; onUploadProgress?: (percentage: number) => void }): Promise<string> {
+  if ((await uploadStorage()) === 'local') {
+    const response = await fetch('/api/upload', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/pdf' },
+      body: file,
+      signal: options.signal,
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Upload failed');
+    }
+    options.onUploadProgress?.(100);
+    return data.url;
+  }
+
+  const blob = await upload(file.name, file, {
+    access: 'public',
+    handleUploadUrl: '/api/upload',
+    multipart: file.size > MULTIPART_SIZE,
+    abortSignal: options.signal,
+    onUploadProgress: ({ percentage }) => options.onUploadProgress?.(percentage),
+  });
+  return blob.url;
+}
+
+// Upload a PDF and start a background analysis job for it
+export async function uploadAndStartJob(
+  file: File,
+  projectType: ProjectAnswers,
+  options: { projectId?: string; signal?: AbortSignal; onUploadProgress?: (percentage: number) => void } = {}
+): Promise<AnalysisJob> {
+  const blobUrl = await uploadPdf(file, options);
+
+  const response = await fetch('/api/jobs', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      blobUrl,
+      filename: file.name,
+      projectType,
+      projectId: options.projectId,
+    }),
+    signal: options.signal,
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw JobError.from(data, 'Analysis failed');
+  }
+  return data.job;
+}
+
+export async function fetchJob(jobId: string, signal?: AbortSignal): Promise<AnalysisJob> {
+  const response = await fetch(`/api/jobs/${jobId}`, { cache: 'no-store', signal });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load analysis job');
+  }
+  return data.job;
+}
+
+// Run a failed or cancelled job again from the PDF already in storage
+export async function restartJob(jobId: string, signal?: AbortSignal): Promise<AnalysisJob> {
+  const response = await fetch(`/api/jobs/${jobId}/retry`, { method: 'POST', signal });
+  const data = await response.json();
+  if (!response.ok) {
+    throw JobError.from(data, 'Failed to retry analysis');
+  }
+  return data.job;
+}
+
+// Accept a pasted report link (".../?job=<id>") or a bare job id
+export function parseJobId(input: string): string | null {
+  const text = input.trim();
+  const fromLink = text.match(/[?&]job=([\w-]+)/);
+  if (fromLink) return fromLink[1];
+  return /^[\w-]+$/.test(text) ? text : null;
+}
@@ -0,0 +1,73 @@
+import { recordAnalysis } from './historyStore';
+import { getStore } from './store';
+import type { AnalysisJob, ProjectAnswers } from './types';
+
+const jobKey = (id: string) => `jobs/${id}`;
+
+// A job runs inside one function invocation, capped at 300 seconds on Vercel.
+// One still marked running well past that was killed mid-analysis.
+const STALE_AFTER_MS = 6 * 60 * 1000;
+
+export async function createJob(
+  blobUrl: string,
+  filename: string,
+  projectType?: Partial<ProjectAnswers>,
+  projectId?: string,
+  runBy?: { id: string; name: string }
+): Promise<AnalysisJob> {
+  const now = new Date().toISOString();
+  const job: AnalysisJob = {
+    id: crypto.randomUUID(),
+    status: 'queued',
+    blobUrl,
+    filename,
+    projectType: {
+      isBacklit: !!projectType?.isBacklit,
+      hasCutouts: !!projectType?.hasCutouts,
+      hasCorners: !!projectType?.hasCorners,
+      hasLogos: !!projectType?.hasLogos,
+    },
+    projectId,
+    runBy: runBy?.name,
+    runById: runBy?.id,
+    createdAt: now,
+    updatedAt: now,
+    attempts: 0,
+    percent: 15,
+    message: 'Waiting to start...',
+    log: ['PDF uploaded to storage'],
+    findings: [],
+  };
+  await getStore().put(jobKey(job.id), job);
+  return job;
+}
+
+export async function getJob(id: string): Promise<AnalysisJob | null> {
+  if (!/^[\w-]+$/.test(id)) {
+    return null;
+  }
+  const job = await getStore().get<AnalysisJob>(jobKey(id));
+  if (!job) {
+    return null;
+  }
+
+  const active = job.status === 'queued' || job.status === 'running';
+  if (active && Date.now() - Date.parse(job.updatedAt) > STALE_AFTER_MS) {
+    const failed = await saveJob({
+      ...job,
+      status: 'failed',
+      message: 'Analysis was interrupted',
+      error: { error: 'Analysis was interrupted before it finished. Please retry.', status: 504 },
+      finishedAt: job.updatedAt,
+    });
+    await recordAnalysis(failed);
+    return failed;
+  }
+  return job;
+}
+
+export async function saveJob(job: AnalysisJob): Promise<AnalysisJob> {
+  const saved = { ...job, updatedAt: new Date().toISOString() };
+  await getStore().put(jobKey(job.id), saved);
+  return saved;
+}
@@ -0,0 +1,130 @@
+import { waitUntil } from '@vercel/functions';
+import { analyzeDrawing, fetchPdf } from './analyze';
+import { describeError } from './errors';
+import { recordAnalysis } from './historyStore';
+import { getJob, saveJob } from './jobStore';
+import type { AnalysisEvent, AnalysisJob } from './types';
+
+// Jobs running in this process, so a cancel can stop them straight away
+const running = new Map<string, AbortController>();
+
+// How often a running job looks in the store for a cancel made through
+// another instance, which can't reach its AbortController
+const CANCEL_POLL_MS = 5000;
+
+async function runJob(job: AnalysisJob): Promise<void> {
+  const abort = new AbortController();
+  running.set(job.id, abort);
+
+  const checkCancelled = async () => {
+    if (!abort.signal.aborted && (await getJob(job.id))?.status === 'cancelled') {
+      abort.abort();
+    }
+  };
+  // Stops a model call in flight, so a cancelled job isn't billed to the end
+  const cancelPoll = setInterval(() => checkCancelled().catch((error) => console.error('Job status check error:', error)), CANCEL_POLL_MS);
+
+  let current: AnalysisJob = {
+    ...job,
+    status: 'running',
+    attempts: job.attempts + 1,
+    message: 'Starting analysis...',
+    results: undefined,
+    error: undefined,
+    startedAt: new Date().toISOString(),
+    finishedAt: undefined,
+  };
+
+  // Writes are chained so progress lands in order, and never overwrite a
+  // cancel made through another instance
+  let writes: Promise<unknown> = saveJob(current);
+  const update = (patch: Partial<AnalysisJob>) => {
+    current = { ...current, ...patch };
+    const snapshot = current;
+    writes = writes
+      .then(async () => {
+        await checkCancelled();
+        if (!abort.signal.aborted) {
+          await saveJob(snapshot);
+        }
+      })
+      .catch((error) => console.error('Job update error:', error));
+  };
+
+  const emit = (event: AnalysisEvent) => {
+    if (event.type === 'progress') {
+      update({ percent: event.percent, message: event.message, log: [...current.log, event.message] });
+    } else if (event.type === 'findings') {
+      update({ findings: [...current.findings, ...event.items] });
+    }
+  };
+
+  try {
+    const pdfBuffer = await fetchPdf(job.blobUrl, abort.signal);
+    emit({
+      type: 'progress',
+      stage: 'fetched',
+      message: `Fetched ${(pdfBuffer.byteLength / 1024 / 1024).toFixed(1)}MB from storage`,
+      percent: 20,
+    });
+
+    const results = await analyzeDrawing({
+      pdfBuffer,
+      filename: job.filename,
+      projectType: job.projectType,
+      projectId: job.projectId,
+      analyzedBy: job.runBy,
+      analyzedById: job.runById,
+      emit,
+      signal: abort.signal,
+      beforeRequest: checkCancelled,
+    });
+    update({ status: 'done', percent: 100, message: 'Done', results, findings: [], finishedAt: new Date().toISOString() });
+  } catch (error) {
+    if (abort.signal.aborted) {
+      console.log(`Analysis job ${job.id} cancelled`);
+      update({ status: 'cancelled', message: 'Cancelled', finishedAt: new Date().toISOString() });
+    } else {
+      console.error('Analysis job error:', error);
+      const { status, body } = describeError(error);
+      update({ status: 'failed', message: body.error, error: { status, ...body }, finishedAt: new Date().toISOString() });
+    }
+  } finally {
+    clearInterval(cancelPoll);
+    running.delete(job.id);
+  }
+
+  await writes;
+  // cancelJob recorded a cancelled job already
+  if (abort.signal.aborted) return;
+  await recordAnalysis(current).catch((error) => console.error('History record error:', error));
+}
+
+// Run a job after the response is sent. On Vercel waitUntil keeps the
+// function alive for it (up to the route's maxDuration).
+export function startJob(job: AnalysisJob): void {
+  waitUntil(runJob(job));
+}
+
+// Start a failed or cancelled job again from the PDF already in storage
+export async function retryJob(job: AnalysisJob): Promise<AnalysisJob> {
+  const queued = await saveJob({
+    ...job,
+    status: 'queued',
+    percent: 15,
+    message: 'Waiting to start...',
+    log: ['PDF uploaded to storage'],
+    findings: [],
+    results: undefined,
+    error: undefined,
+  });
+  startJob(queued);
+  return queued;
+}
+
+export async function cancelJob(job: AnalysisJob): Promise<AnalysisJob> {
+  running.get(job.id)?.abort();
+  const cancelled = await saveJob({ ...job, status: 'cancelled', message: 'Cancelled', finishedAt: new Date().toISOString() });
+  await recordAnalysis(cancelled);
+  return cancelled;
+}
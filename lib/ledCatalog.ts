@@ -0,0 +1,140 @@
+// LED strips and drivers the backlit load check computes with, editable at
+// /admin/led-catalog (see lib/ledCatalogStore.ts and lib/ledCheck.ts)
+
+export interface LedProduct {
+  id: string;
+  name: string;
+  // Other ways drawings call the product out, matched case-insensitively
+  aliases: string[];
+  wattsPerFoot: number;
+  rollLengthFeet: number;
+  // Widest strip spacing that still diffuses evenly through the panels
+  maxSpacingInches: number;
+}
+
+export interface LedDriver {
+  id: string;
+  name: string;
+  watts: number;
+}
+
+export interface LedCatalog {
+  // The first product is assumed when a drawing doesn't name its strip
+  products: LedProduct[];
+  drivers: LedDriver[];
+  // Share of its rating a driver may be loaded to (0.8 = the 80% rule)
+  driverLoadFactor: number;
+  // Load one receiver, and each amplifier after it, can carry
+  receiverWatts: number;
+  amplifierWatts: number;
+  // How far the stated total wattage may be off before it's flagged (0.1 = 10%)
+  wattageTolerance: number;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+export const DEFAULT_LED_CATALOG: LedCatalog = {
+  products: [
+    {
+      id: 'standard_24v',
+      name: '24V LED strip 4.4W/ft',
+      aliases: ['standard LED', '24V LED', '4.4W/FT', '4.4 W/FT'],
+      wattsPerFoot: 4.4,
+      rollLengthFeet: 16.4,
+      maxSpacingInches: 6,
+    },
+    {
+      id: 'high_output_24v',
+      name: 'High output 24V LED strip 6W/ft',
+      aliases: ['HO LED', 'high output', '6W/FT', '6 W/FT'],
+      wattsPerFoot: 6,
+      rollLengthFeet: 16.4,
+      maxSpacingInches: 8,
+    },
+  ],
+  drivers: [
+    { id: 'driver_60', name: '60W driver', watts: 60 },
+    { id: 'driver_96', name: '96W driver', watts: 96 },
+    { id: 'driver_150', name: '150W driver', watts: 150 },
+    { id: 'driver_240', name: '240W driver', watts: 240 },
+    { id: 'driver_320', name: '320W driver', watts: 320 },
+  ],
+  driverLoadFactor: 0.8,
+  receiverWatts: 120,
+  amplifierWatts: 192,
+  wattageTolerance: 0.1,
+  updatedAt: '1970-01-01T00:00:00.000Z',
+  updatedBy: 'Built-in',
+};
+
+const isPositive = (value: unknown) => typeof value === 'number' && isFinite(value) && value > 0;
+
+// Problems with an edited catalog, empty when it can be saved
+export function validateLedCatalog(catalog: unknown): string[] {
+  if (typeof catalog !== 'object' || catalog === null) {
+    return ['Catalog must be an object'];
+  }
+  const { products, drivers, driverLoadFactor, receiverWatts, amplifierWatts, wattageTolerance } = catalog as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (!Array.isArray(products) || products.length === 0) {
+    errors.push('Catalog must list at least one LED product');
+  } else {
+    const ids = new Set<string>();
+    products.forEach((product, index) => {
+      const where = `Product ${index + 1}`;
+      if (typeof product !== 'object' || product === null) {
+        errors.push(`${where} is not an object`);
+        return;
+      }
+      if (typeof product.id !== 'string' || !/^[a-z][a-z0-9_]*$/.test(product.id)) {
+        errors.push(`${where}: id must be lowercase letters, digits and underscores`);
+      } else if (ids.has(product.id)) {
+        errors.push(`${where}: id "${product.id}" is used more than once`);
+      } else {
+        ids.add(product.id);
+      }
+      if (typeof product.name !== 'string' || !product.name.trim()) {
+        errors.push(`${where}: name must not be empty`);
+      }
+      if (!Array.isArray(product.aliases) || product.aliases.some((alias: unknown) => typeof alias !== 'string')) {
+        errors.push(`${where}: aliases must be a list of strings`);
+      }
+      for (const field of ['wattsPerFoot', 'rollLengthFeet', 'maxSpacingInches']) {
+        if (!isPositive(product[field])) {
+          errors.push(`${where}: ${field} must be a positive number`);
+        }
+      }
+    });
+  }
+
+  if (!Array.isArray(drivers) || drivers.length === 0) {
+    errors.push('Catalog must list at least one driver');
+  } else {
+    drivers.forEach((driver, index) => {
+      const where = `Driver ${index + 1}`;
+      if (typeof driver !== 'object' || driver === null) {
+        errors.push(`${where} is not an object`);
+        return;
+      }
+      if (typeof driver.id !== 'string' || !driver.id.trim() || typeof driver.name !== 'string' || !driver.name.trim()) {
+        errors.push(`${where}: id and name must not be empty`);
+      }
+      if (!isPositive(driver.watts)) {
+        errors.push(`${where}: watts must be a positive number`);
+      }
+    });
+  }
+
+  if (!isPositive(driverLoadFactor) || (driverLoadFactor as number) > 1) {
+    errors.push('Driver load factor must be between 0 and 1');
+  }
+  if (!isPositive(receiverWatts) || !isPositive(amplifierWatts)) {
+    errors.push('Receiver and amplifier watts must be positive numbers');
+  }
+  if (typeof wattageTolerance !== 'number' || !(wattageTolerance >= 0 && wattageTolerance < 1)) {
+    errors.push('Wattage tolerance must be between 0 and 1');
+  }
+
+  return errors;
+}
@@ -0,0 +1,24 @@
+import { DEFAULT_LED_CATALOG, type LedCatalog } from './ledCatalog';
+import { getStore } from './store';
+
+const CATALOG_KEY = 'led-catalog/current';
+
+export async function getLedCatalog(): Promise<LedCatalog> {
+  return (await getStore().get<LedCatalog>(CATALOG_KEY)) ?? DEFAULT_LED_CATALOG;
+}
+
+// Replace the catalog. Callers validate it first (see validateLedCatalog).
+export async function saveLedCatalog(catalog: Omit<LedCatalog, 'updatedAt' | 'updatedBy'>, author: string): Promise<LedCatalog> {
+  const saved: LedCatalog = {
+    products: catalog.products,
+    drivers: catalog.drivers,
+    driverLoadFactor: catalog.driverLoadFactor,
+    receiverWatts: catalog.receiverWatts,
+    amplifierWatts: catalog.amplifierWatts,
+    wattageTolerance: catalog.wattageTolerance,
+    updatedAt: new Date().toISOString(),
+    updatedBy: author,
+  };
+  await getStore().put(CATALOG_KEY, saved);
+  return saved;
+}
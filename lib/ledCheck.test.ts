@@ -0,0 +1,167 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DEFAULT_LED_CATALOG } from './ledCatalog';
+import { checkLedLoad, combineLedSystems, LED_CHECK_ID, readComponentList, verifyLedSystem } from './ledCheck';
+import { pdfOf, report } from './testFixtures';
+import type { LedSystem } from './types';
+
+// Eight 8' runs of the standard 4.4W/ft strip: 64 ft, 281.6W
+const lobbyWall: LedSystem = {
+  product: '24V LED 4.4W/FT',
+  spacingInches: 6,
+  runs: [{ count: 8, lengthInches: 96 }],
+  rolls: 4,
+  drivers: 2,
+  driverWatts: 240,
+  receivers: 1,
+  amplifiers: 1,
+  totalWattage: 280,
+  page: 4,
+};
+
+const componentList = `LED COMPONENT LIST
+(4) LED ROLLS - 24V LED 4.4W/FT
+(2) 240W LED DRIVERS
+(1) RF RECEIVER
+(1) AMPLIFIER
+TOTAL WATTAGE: 280W`;
+
+const idsOf = (system: LedSystem) => verifyLedSystem(system, DEFAULT_LED_CATALOG).map((finding) => finding.id);
+
+describe('readComponentList', () => {
+  it('reads the counts, driver wattage and total from a component list', () => {
+    const { values, texts } = readComponentList(pdfOf('ELEVATION A - LOBBY WALL SCALE 1/2" = 1\'-0"', componentList));
+    assert.deepEqual(values, { rolls: 4, drivers: 2, driverWatts: 240, receivers: 1, amplifiers: 1, totalWattage: 280 });
+    assert.deepEqual(texts.totalWattage, { page: 2, text: 'TOTAL WATTAGE: 280W', location: undefined });
+    assert.equal(texts.drivers?.text, '(2) 240W LED DRIVERS');
+  });
+
+  it('reads power supplies with the wattage after them and QTY or x counts', () => {
+    const { values } = readComponentList(pdfOf('WIRING DIAGRAM\nQTY 3 POWER SUPPLIES @ 96W\n6x LED STRIP ROLLS\n2 x AMPS'));
+    assert.deepEqual(values, { drivers: 3, driverWatts: 96, rolls: 6, amplifiers: 2 });
+  });
+
+  it('leaves out what the list does not state and pages without a text layer', () => {
+    assert.deepEqual(readComponentList(pdfOf('(2) LED DRIVERS', 'WIRING DIAGRAM: (2) LED DRIVERS')).values, { drivers: 2 });
+  });
+});
+
+describe('verifyLedSystem', () => {
+  it('passes a layout whose load adds up', () => {
+    const findings = verifyLedSystem(lobbyWall, DEFAULT_LED_CATALOG);
+    assert.deepEqual(
+      findings.map((finding) => [finding.id, finding.status]),
+      [['led_load', 'pass']]
+    );
+    assert.equal(findings[0].notes, '64 ft of 24V LED strip 4.4W/ft draws 282W: (2) 240W drivers, (4) rolls, 280W stated');
+    assert.equal(findings[0].checkId, LED_CHECK_ID);
+  });
+
+  it('flags a stated total wattage off by more than the tolerance', () => {
+    assert.deepEqual(idsOf({ ...lobbyWall, totalWattage: 300 }), ['led_load']);
+    const [finding] = verifyLedSystem({ ...lobbyWall, totalWattage: 350 }, DEFAULT_LED_CATALOG, {
+      totalWattage: { page: 4, text: 'TOTAL WATTAGE: 350W' },
+    });
+    assert.equal(finding.id, 'led_total_wattage');
+    assert.equal(finding.status, 'fail');
+    assert.equal(finding.source, 'rule');
+    assert.equal(finding.matchedText, 'TOTAL WATTAGE: 350W');
+    assert.match(finding.notes, /reads 350W; 64 ft .* is 282W/);
+  });
+
+  it('sizes drivers at 80% of their rating', () => {
+    // 281.6W on one 240W driver (192W usable), and on two 150W drivers (240W usable)
+    const one = verifyLedSystem({ ...lobbyWall, drivers: 1 }, DEFAULT_LED_CATALOG);
+    assert.deepEqual(one.map((finding) => finding.id), ['led_drivers']);
+    assert.match(one[0].notes, /needs \(2\) 240W drivers$/);
+    assert.match(verifyLedSystem({ ...lobbyWall, driverWatts: 150 }, DEFAULT_LED_CATALOG)[0].notes, /needs \(3\) 150W drivers$/);
+    assert.deepEqual(idsOf({ ...lobbyWall, drivers: 3, driverWatts: 150 }), ['led_load']);
+  });
+
+  it('flags drivers without a wattage or not in the catalog', () => {
+    assert.deepEqual(idsOf({ ...lobbyWall, driverWatts: undefined }), ['led_driver_watts']);
+    assert.deepEqual(idsOf({ ...lobbyWall, drivers: 4, driverWatts: 100 }), ['led_driver_catalog']);
+  });
+
+  it('counts rolls from the total run length', () => {
+    // 82 ft is exactly five 16.4 ft rolls; an inch more needs a sixth
+    const fiveRolls = { ...lobbyWall, runs: [{ count: 10, lengthInches: 98.4 }], rolls: 5, drivers: 2, driverWatts: 320, totalWattage: 361, amplifiers: 2 };
+    assert.deepEqual(idsOf(fiveRolls), ['led_load']);
+    assert.deepEqual(idsOf({ ...fiveRolls, runs: [...fiveRolls.runs, { count: 1, lengthInches: 1 }] }), ['led_rolls']);
+    assert.deepEqual(idsOf({ ...fiveRolls, rolls: 7 }), ['led_rolls']);
+    assert.equal(verifyLedSystem({ ...fiveRolls, rolls: 7 }, DEFAULT_LED_CATALOG)[0].status, 'warning');
+    assert.deepEqual(idsOf({ ...fiveRolls, rolls: 6 }), ['led_load']);
+  });
+
+  it('checks receiver and amplifier capacity', () => {
+    const findings = verifyLedSystem({ ...lobbyWall, amplifiers: 0 }, DEFAULT_LED_CATALOG);
+    assert.deepEqual(findings.map((finding) => finding.id), ['led_amplifiers']);
+    assert.match(findings[0].notes, /carry 120W but the strips draw 282W; needs \(1\) receiver and \(1\) amplifier$/);
+  });
+
+  it('sizes against the stated total when the runs are unreadable', () => {
+    const findings = verifyLedSystem({ ...lobbyWall, runs: [], totalWattage: 500 }, DEFAULT_LED_CATALOG);
+    assert.deepEqual(
+      findings.map((finding) => [finding.id, finding.status]),
+      [
+        ['led_not_verified', 'pending'],
+        ['led_drivers', 'fail'],
+        ['led_amplifiers', 'warning'],
+      ]
+    );
+    assert.match(findings[1].notes, /the stated total wattage is 500W; needs \(3\) 240W drivers$/);
+  });
+
+  it('assumes the first catalog strip when the drawing does not name one', () => {
+    const [finding] = verifyLedSystem({ ...lobbyWall, product: '' }, DEFAULT_LED_CATALOG);
+    assert.match(finding.notes, /24V LED strip 4\.4W\/ft \(assumed/);
+    assert.deepEqual(idsOf({ ...lobbyWall, product: 'HO LED', totalWattage: 384, amplifiers: 2 }), ['led_load']);
+  });
+
+  it('flags strips spaced wider than the product allows', () => {
+    assert.deepEqual(idsOf({ ...lobbyWall, spacingInches: 8 }), ['led_spacing']);
+  });
+});
+
+describe('combineLedSystems', () => {
+  it('joins the runs of every batch and takes the rest from the first to read it', () => {
+    const combined = combineLedSystems([
+      { product: '', runs: [{ count: 4, lengthInches: 96, page: 3 }] },
+      { product: 'HO LED', runs: [{ count: 2, lengthInches: 48, page: 21 }], drivers: 2, driverWatts: 240, page: 22 },
+      { product: 'standard LED', runs: [], drivers: 5, totalWattage: 300 },
+    ]);
+    assert.deepEqual(combined, {
+      product: 'HO LED',
+      runs: [
+        { count: 4, lengthInches: 96, page: 3 },
+        { count: 2, lengthInches: 48, page: 21 },
+      ],
+      drivers: 2,
+      driverWatts: 240,
+      totalWattage: 300,
+      page: 22,
+    });
+  });
+
+  it('is undefined without any batch', () => {
+    assert.equal(combineLedSystems([]), undefined);
+  });
+});
+
+describe('checkLedLoad', () => {
+  it('uses the text layer counts over the model and replaces its LED findings', () => {
+    const modelFinding = { id: 'led_guess', checkId: LED_CHECK_ID, label: 'LED load', status: 'fail' as const, notes: '' };
+    const checked = checkLedLoad(
+      report({ overallStatus: 'fail', criticalIssues: [modelFinding], ledSystem: { ...lobbyWall, drivers: 1 } }),
+      DEFAULT_LED_CATALOG,
+      pdfOf(componentList)
+    );
+    assert.equal(checked.ledSystem?.drivers, 2);
+    assert.equal(checked.overallStatus, 'pass');
+    assert.deepEqual(checked.criticalIssues, []);
+    assert.deepEqual(
+      checked.passed.map((item) => item.id),
+      ['led_load']
+    );
+  });
+});
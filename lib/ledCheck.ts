@@ -0,0 +1,267 @@
+import type { LedCatalog, LedProduct } from './ledCatalog';
+import { hasTextLayer, locateText, type PdfText } from './pdfText';
+import { overallStatusFor } from './schema';
+import type { AnalysisResults, CheckItem, LedSystem, TextBox } from './types';
+
+// Checklist registry id the LED load check stands in for (see lib/checklist.ts)
+export const LED_CHECK_ID = 'backlit_led_load';
+
+type ComponentField = 'rolls' | 'drivers' | 'receivers' | 'amplifiers' | 'totalWattage';
+
+// Where the text layer showed a component list value
+interface ComponentText {
+  page: number;
+  text: string;
+  location?: TextBox;
+}
+
+export type ComponentTexts = Partial<Record<ComponentField, ComponentText>>;
+
+// "(6)", "6x" or "QTY 6" before a component name
+const COUNT = '(?:\\((\\d+)\\)|(\\d+)\\s*x|QTY\\.?:?\\s*(\\d+))\\s*';
+
+// Component list lines, e.g. "(6) LED ROLLS", "(2) 96W LED DRIVERS", "TOTAL WATTAGE: 275W"
+const COMPONENT_PATTERNS: Record<ComponentField, RegExp> = {
+  rolls: new RegExp(`${COUNT}(?:LED\\s+)?(?:STRIP\\s+)?ROLLS?\\b`, 'i'),
+  drivers: new RegExp(`${COUNT}(?:(\\d+)\\s*W\\s+)?(?:LED\\s+)?(?:DRIVERS?|POWER\\s+SUPPL(?:Y|IES))\\b(?:\\s*[-@,]?\\s*(\\d+)\\s*W\\b)?`, 'i'),
+  receivers: new RegExp(`${COUNT}(?:LED\\s+)?(?:RF\\s+)?RECEIVERS?\\b`, 'i'),
+  amplifiers: new RegExp(`${COUNT}(?:LED\\s+)?(?:AMPLIFIERS?|AMPS)\\b`, 'i'),
+  totalWattage: /TOTAL\s+WATTAGE\s*[:=]?\s*(\d+(?:\.\d+)?)\s*W\b/i,
+};
+
+const countOf = (match: RegExpMatchArray) => Number(match[1] ?? match[2] ?? match[3]);
+
+// Component counts and the stated total wattage from the text layer. These
+// are exact where the model's reading of them can be off by a digit.
+export function readComponentList(pdfText: PdfText): { values: Partial<LedSystem>; texts: ComponentTexts } {
+  const values: Partial<LedSystem> = {};
+  const texts: ComponentTexts = {};
+
+  for (const field of Object.keys(COMPONENT_PATTERNS) as ComponentField[]) {
+    for (const page of pdfText.pages) {
+      if (!hasTextLayer(page)) continue;
+      const match = page.text.match(COMPONENT_PATTERNS[field]);
+      if (!match) continue;
+
+      if (field === 'totalWattage') {
+        values.totalWattage = Number(match[1]);
+      } else {
+        values[field] = countOf(match);
+      }
+      if (field === 'drivers' && (match[4] || match[5])) {
+        values.driverWatts = Number(match[4] ?? match[5]);
+      }
+      const text = match[0].trim();
+      texts[field] = { page: page.page, text, location: locateText(page, text) };
+      break;
+    }
+  }
+
+  return { values, texts };
+}
+
+// One LED system from the batches of a split set: runs from every batch,
+// everything else from the first batch that read it
+export function combineLedSystems(systems: LedSystem[]): LedSystem | undefined {
+  if (systems.length === 0) {
+    return undefined;
+  }
+  const combined: LedSystem = { product: systems.map((s) => s.product).find((p) => p) ?? '', runs: systems.flatMap((s) => s.runs) };
+  for (const field of ['spacingInches', 'rolls', 'drivers', 'driverWatts', 'receivers', 'amplifiers', 'totalWattage', 'page'] as const) {
+    const value = systems.map((s) => s[field]).find((v) => v !== undefined);
+    if (value !== undefined) combined[field] = value;
+  }
+  return combined;
+}
+
+// The catalog product a callout names (longest matching name or alias), or
+// the first product when the drawing doesn't say
+function matchProduct(catalog: LedCatalog, callout: string): { product: LedProduct; assumed: boolean } {
+  const text = callout.toLowerCase();
+  let best: { product: LedProduct; length: number } | undefined;
+  if (text) {
+    catalog.products.forEach((product) => {
+      [product.name, ...product.aliases].forEach((name) => {
+        if (name.trim() && text.includes(name.toLowerCase()) && (!best || name.length > best.length)) {
+          best = { product, length: name.length };
+        }
+      });
+    });
+  }
+  return best ? { product: best.product, assumed: false } : { product: catalog.products[0], assumed: true };
+}
+
+const round = (value: number, places = 1) => Math.round(value * 10 ** places) / 10 ** places;
+
+const plural = (count: number, word: string) => `(${count}) ${word}${count === 1 ? '' : 's'}`;
+
+// Findings for the LED layout: the load from the strip runs recomputed with
+// the catalog and compared with the drivers, rolls, receivers/amplifiers and
+// stated total wattage on the drawing
+export function verifyLedSystem(system: LedSystem, catalog: LedCatalog, texts: ComponentTexts = {}): CheckItem[] {
+  const findings: CheckItem[] = [];
+  const { product, assumed } = matchProduct(catalog, system.product);
+  const productNote = assumed ? `${product.name} (assumed, the drawing doesn't name the strip)` : product.name;
+
+  const add = (id: string, label: string, status: CheckItem['status'], notes: string, field?: ComponentField) => {
+    const text = field ? texts[field] : undefined;
+    findings.push({
+      id: `led_${id}`,
+      checkId: LED_CHECK_ID,
+      label,
+      status,
+      notes,
+      page: text?.page ?? system.page,
+      source: text ? 'rule' : 'ai',
+      matchedText: text?.text,
+      location: text?.location,
+    });
+  };
+
+  const feet = system.runs.reduce((sum, run) => sum + (run.count * run.lengthInches) / 12, 0);
+  const computedLoad = feet > 0 ? feet * product.wattsPerFoot : undefined;
+  // Without readable runs, the stated total is the best load to size against
+  const load = computedLoad ?? system.totalWattage;
+  const loadNote = computedLoad !== undefined ? `the strips draw ${Math.round(computedLoad)}W` : `the stated total wattage is ${system.totalWattage}W`;
+
+  if (computedLoad === undefined) {
+    add(
+      'not_verified',
+      'LED Load Not Verified',
+      'pending',
+      'LED strip runs could not be read from the wiring diagram; check the rolls, drivers and total wattage by hand'
+    );
+  }
+
+  if (computedLoad !== undefined && system.totalWattage !== undefined) {
+    const off = Math.abs(system.totalWattage - computedLoad) / computedLoad;
+    if (off > catalog.wattageTolerance) {
+      add(
+        'total_wattage',
+        "Total Wattage Doesn't Add Up",
+        'fail',
+        `Total wattage reads ${system.totalWattage}W; ${round(feet)} ft of ${productNote} at ${product.wattsPerFoot}W/ft is ${Math.round(computedLoad)}W`,
+        'totalWattage'
+      );
+    }
+  }
+
+  if (computedLoad !== undefined && system.rolls !== undefined) {
+    const needed = Math.ceil(feet / product.rollLengthFeet);
+    if (system.rolls < needed) {
+      add(
+        'rolls',
+        'Too Few LED Rolls',
+        'fail',
+        `(${system.rolls}) LED rolls listed; ${round(feet)} ft of strip needs (${needed}) ${product.rollLengthFeet} ft rolls`,
+        'rolls'
+      );
+    } else if (system.rolls > needed + 1) {
+      add(
+        'rolls',
+        'Extra LED Rolls',
+        'warning',
+        `(${system.rolls}) LED rolls listed; ${round(feet)} ft of strip only needs (${needed}) ${product.rollLengthFeet} ft rolls`,
+        'rolls'
+      );
+    }
+  }
+
+  if (load !== undefined && system.drivers !== undefined) {
+    if (system.driverWatts === undefined) {
+      add(
+        'driver_watts',
+        'Driver Wattage Not Stated',
+        'warning',
+        `${plural(system.drivers, 'driver')} listed without a wattage, so ${loadNote} can't be checked against them`,
+        'drivers'
+      );
+    } else {
+      const usable = system.driverWatts * catalog.driverLoadFactor;
+      if (load > system.drivers * usable) {
+        const needed = Math.ceil(load / usable);
+        add(
+          'drivers',
+          'Undersized Drivers',
+          'fail',
+          `(${system.drivers}) ${system.driverWatts}W drivers carry ${Math.round(system.drivers * usable)}W at ${Math.round(catalog.driverLoadFactor * 100)}% load ` +
+            `but ${loadNote}; needs (${needed}) ${system.driverWatts}W drivers`,
+          'drivers'
+        );
+      }
+      if (!catalog.drivers.some((driver) => driver.watts === system.driverWatts)) {
+        add(
+          'driver_catalog',
+          'Driver Not In Catalog',
+          'warning',
+          `${system.driverWatts}W drivers aren't in the LED catalog (${catalog.drivers.map((driver) => `${driver.watts}W`).join(', ')})`,
+          'drivers'
+        );
+      }
+    }
+  }
+
+  if (load !== undefined && (system.receivers !== undefined || system.amplifiers !== undefined)) {
+    const receivers = system.receivers ?? 0;
+    const capacity = receivers * catalog.receiverWatts + (system.amplifiers ?? 0) * catalog.amplifierWatts;
+    if (load > capacity) {
+      const needed = Math.ceil(Math.max(0, load - Math.max(receivers, 1) * catalog.receiverWatts) / catalog.amplifierWatts);
+      add(
+        'amplifiers',
+        'Not Enough Amplifiers',
+        'warning',
+        `${plural(receivers, 'receiver')} and ${plural(system.amplifiers ?? 0, 'amplifier')} carry ${capacity}W but ${loadNote}; ` +
+          `needs ${plural(Math.max(receivers, 1), 'receiver')} and ${plural(needed, 'amplifier')}`,
+        system.amplifiers !== undefined ? 'amplifiers' : 'receivers'
+      );
+    }
+  }
+
+  if (system.spacingInches !== undefined && system.spacingInches > product.maxSpacingInches) {
+    add(
+      'spacing',
+      'LED Strip Spacing Too Wide',
+      'warning',
+      `LED strips are ${system.spacingInches}" on center; ${product.name} needs ${product.maxSpacingInches}" or less to light the panels evenly`
+    );
+  }
+
+  if (computedLoad !== undefined && findings.length === 0) {
+    const parts = [
+      system.drivers !== undefined && system.driverWatts !== undefined ? `(${system.drivers}) ${system.driverWatts}W drivers` : '',
+      system.rolls !== undefined ? `(${system.rolls}) rolls` : '',
+      system.totalWattage !== undefined ? `${system.totalWattage}W stated` : '',
+    ].filter(Boolean);
+    add(
+      'load',
+      'LED Load Adds Up',
+      'pass',
+      `${round(feet)} ft of ${productNote} draws ${Math.round(computedLoad)}W${parts.length > 0 ? `: ${parts.join(', ')}` : ''}`
+    );
+  }
+
+  return findings;
+}
+
+// Add the LED load check to a report, replacing anything the model reported
+// for it. The text layer's component counts win over the model's.
+export function checkLedLoad(results: AnalysisResults, catalog: LedCatalog, pdfText: PdfText | null): AnalysisResults {
+  const fromText = pdfText ? readComponentList(pdfText) : { values: {}, texts: {} };
+  const system: LedSystem = { product: '', runs: [], ...results.ledSystem, ...fromText.values };
+  const findings = verifyLedSystem(system, catalog, fromText.texts);
+
+  const others = (items: CheckItem[]) => items.filter((item) => item.checkId !== LED_CHECK_ID);
+  const pick = (status: CheckItem['status']) => findings.filter((item) => item.status === status);
+  const criticalIssues = [...pick('fail'), ...others(results.criticalIssues)];
+  const warnings = [...pick('warning'), ...others(results.warnings)];
+
+  return {
+    ...results,
+    ledSystem: system,
+    overallStatus: overallStatusFor({ criticalIssues, warnings }),
+    criticalIssues,
+    warnings,
+    passed: [...others(results.passed), ...pick('pass')],
+    manualReview: [...others(results.manualReview), ...pick('pending')],
+  };
+}
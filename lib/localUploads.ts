@@ -0,0 +1,39 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { dataDir } from './store';
+
+// Uploaded PDFs kept next to the file store when there's no Vercel Blob, so
+// drawings can be uploaded and analyzed offline. Jobs refer to them by a
+// same-origin URL the browser can open and the server reads back from disk.
+
+const URL_PREFIX = '/api/files/';
+
+const uploadsDir = () => path.resolve(dataDir(), 'uploads');
+
+export const isLocalUpload = (url: string) => url.startsWith(URL_PREFIX);
+
+// The stored file for a local upload URL, or null for anything else
+function uploadPath(url: string): string | null {
+  const name = url.slice(URL_PREFIX.length);
+  return isLocalUpload(url) && /^[\w-]+\.pdf$/.test(name) ? path.join(uploadsDir(), name) : null;
+}
+
+export async function saveLocalUpload(bytes: ArrayBuffer): Promise<string> {
+  const name = `${randomUUID()}.pdf`;
+  await fs.mkdir(uploadsDir(), { recursive: true });
+  await fs.writeFile(path.join(uploadsDir(), name), new Uint8Array(bytes));
+  return `${URL_PREFIX}${name}`;
+}
+
+export async function readLocalUpload(url: string): Promise<ArrayBuffer | null> {
+  const file = uploadPath(url);
+  if (!file) return null;
+  try {
+    const bytes = await fs.readFile(file);
+    return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
@@ -0,0 +1,239 @@
+import { PDFDocument, PDFHexString, StandardFonts, degrees, rgb, type PDFFont, type PDFPage, type RGB } from 'pdf-lib';
+import { LETTER, TextFlow, truncate } from './pdfLayout';
+import { locateText, type PdfText } from './pdfText';
+import type { AnalysisResults, CheckItem, TextBox } from './types';
+
+type StampStatus = 'fail' | 'warning' | 'pending';
+
+const STAMP_COLORS: Record<StampStatus, [number, number, number]> = {
+  fail: [0.86, 0.15, 0.27],
+  warning: [0.96, 0.55, 0.1],
+  pending: [0.45, 0.45, 0.5],
+};
+
+const STATUS_LABELS: Record<StampStatus, string> = {
+  fail: 'CRITICAL',
+  warning: 'WARNING',
+  pending: 'MANUAL',
+};
+
+const color = (status: StampStatus): RGB => rgb(...STAMP_COLORS[status]);
+
+interface Stamp {
+  number: number;
+  item: CheckItem;
+  status: StampStatus;
+}
+
+// Maps between the page as displayed (after /Rotate) and PDF user space, so
+// stamps read upright and sit in the visible margin of rotated CAD sheets
+function pageFrame(page: PDFPage) {
+  const angle = ((page.getRotation().angle % 360) + 360) % 360;
+  const box = page.getCropBox();
+  const sideways = angle === 90 || angle === 270;
+
+  const toUser = (vx: number, vy: number) => {
+    switch (angle) {
+      case 90:
+        return { x: box.x + box.width - vy, y: box.y + vx };
+      case 180:
+        return { x: box.x + box.width - vx, y: box.y + box.height - vy };
+      case 270:
+        return { x: box.x + vy, y: box.y + box.height - vx };
+      default:
+        return { x: box.x + vx, y: box.y + vy };
+    }
+  };
+
+  const toDisplay = (x: number, y: number) => {
+    switch (angle) {
+      case 90:
+        return { x: y - box.y, y: box.width - (x - box.x) };
+      case 180:
+        return { x: box.width - (x - box.x), y: box.height - (y - box.y) };
+      case 270:
+        return { x: box.height - (y - box.y), y: x - box.x };
+      default:
+        return { x: x - box.x, y: y - box.y };
+    }
+  };
+
+  // User space bounds of a display rectangle
+  const userRect = (vx: number, vy: number, width: number, height: number) => {
+    const corners = [toUser(vx, vy), toUser(vx + width, vy + height)];
+    return {
+      x1: Math.min(corners[0].x, corners[1].x),
+      y1: Math.min(corners[0].y, corners[1].y),
+      x2: Math.max(corners[0].x, corners[1].x),
+      y2: Math.max(corners[0].y, corners[1].y),
+    };
+  };
+
+  return {
+    angle,
+    width: sideways ? box.height : box.width,
+    height: sideways ? box.width : box.height,
+    toUser,
+    toDisplay,
+    userRect,
+  };
+}
+
+// A sticky-note comment holding the full finding, shown in the viewer's comments pane
+function addComment(doc: PDFDocument, page: PDFPage, rect: { x1: number; y1: number; x2: number; y2: number }, stamp: Stamp) {
+  const annotation = doc.context.obj({
+    Type: 'Annot',
+    Subtype: 'Text',
+    Rect: [rect.x1, rect.y1, rect.x2, rect.y2],
+    Contents: PDFHexString.fromText(`#${stamp.number} ${STATUS_LABELS[stamp.status]}: ${stamp.item.label}\n\n${stamp.item.notes}`),
+    T: PDFHexString.fromText('Shop Drawing QC'),
+    Subj: PDFHexString.fromText(stamp.item.label),
+    Name: 'Comment',
+    C: STAMP_COLORS[stamp.status],
+    F: 4,
+    Open: false,
+  });
+  page.node.addAnnot(doc.context.register(annotation));
+}
+
+function stampPage(doc: PDFDocument, page: PDFPage, stamps: { stamp: Stamp; location?: TextBox }[], font: PDFFont) {
+  const frame = pageFrame(page);
+  const size = Math.min(22, Math.max(7, Math.min(frame.width, frame.height) / 70));
+  const padding = size * 0.4;
+  const tagHeight = size + padding * 2;
+  const maxTagWidth = frame.width * 0.35;
+  const margin = size * 1.5;
+  let marginSlot = 0;
+
+  stamps.forEach(({ stamp, location }) => {
+    const text = truncate(`#${stamp.number} ${stamp.item.label}`, font, size, maxTagWidth - padding * 2);
+    const tagWidth = font.widthOfTextAtSize(text, size) + padding * 2;
+    const stampColor = color(stamp.status);
+
+    let vx: number;
+    let vy: number;
+    if (location) {
+      // Outline the matched text and put the tag just above it
+      page.drawRectangle({
+        x: location.x - 2,
+        y: location.y - 2,
+        width: location.width + 4,
+        height: location.height + 4,
+        borderColor: stampColor,
+        borderWidth: Math.max(1, size / 8),
+      });
+      const corners = [frame.toDisplay(location.x, location.y), frame.toDisplay(location.x + location.width, location.y + location.height)];
+      vx = Math.min(corners[0].x, corners[1].x);
+      vy = Math.max(corners[0].y, corners[1].y) + size * 0.5;
+    } else {
+      // Stack findings without a location down the right-hand margin
+      vx = frame.width - margin - tagWidth;
+      vy = frame.height - margin - (marginSlot + 1) * (tagHeight + padding);
+      marginSlot++;
+    }
+    vx = Math.min(Math.max(vx, margin / 2), frame.width - tagWidth - margin / 2);
+    vy = Math.min(Math.max(vy, margin / 2), frame.height - tagHeight - margin / 2);
+
+    const origin = frame.toUser(vx, vy);
+    page.drawRectangle({
+      x: origin.x,
+      y: origin.y,
+      width: tagWidth,
+      height: tagHeight,
+      color: rgb(1, 1, 1),
+      opacity: 0.9,
+      borderColor: stampColor,
+      borderWidth: Math.max(1, size / 8),
+      rotate: degrees(frame.angle),
+    });
+    const textOrigin = frame.toUser(vx + padding, vy + padding + size * 0.2);
+    page.drawText(text, { x: textOrigin.x, y: textOrigin.y, size, font, color: stampColor, rotate: degrees(frame.angle) });
+
+    addComment(doc, page, frame.userRect(vx, vy, tagWidth, tagHeight), stamp);
+  });
+}
+
+// Summary pages put in front of the drawing set
+function addCoverSheet(doc: PDFDocument, results: AnalysisResults, filename: string, stamps: Stamp[], fonts: { regular: PDFFont; bold: PDFFont }) {
+  let pageIndex = 0;
+  const flow = new TextFlow(fonts, () => doc.insertPage(pageIndex++, LETTER));
+
+  const info = results.extractedInfo;
+  flow.write('M|R Walls Shop Drawing QC', { size: 20, font: fonts.bold });
+  flow.write(filename, { size: 12 });
+  flow.space(8);
+  flow.write([info.projectName, info.location, info.version, info.drawnBy && `Drawn by ${info.drawnBy}`].filter(Boolean).join(' - ') || 'Shop Drawing', {
+    color: rgb(0.35, 0.35, 0.35),
+  });
+  flow.write(`${results.pageCount} pages - Checklist v${results.checklistVersion} - Generated ${new Date().toLocaleString('en-US')}`, {
+    size: 9,
+    color: rgb(0.45, 0.45, 0.45),
+  });
+
+  flow.space(16);
+  const overall = { fail: ['FAIL', color('fail')], warning: ['NEEDS REVIEW', color('warning')], pass: ['PASS', rgb(0.1, 0.6, 0.35)] } as const;
+  const [overallLabel, overallColor] = overall[results.overallStatus];
+  flow.write(overallLabel, { size: 24, font: fonts.bold, color: overallColor });
+  flow.write(
+    `${results.criticalIssues.length} critical - ${results.warnings.length} warnings - ${results.passed.length} passed - ${results.manualReview.length} manual review`,
+    { size: 11, font: fonts.bold }
+  );
+  flow.space(8);
+  flow.write(results.summary);
+
+  flow.space(16);
+  flow.write('Findings', { size: 14, font: fonts.bold });
+  flow.write('Numbers match the stamps on the drawing pages. Page numbers refer to the drawing set, not counting these cover pages.', {
+    size: 8,
+    color: rgb(0.45, 0.45, 0.45),
+  });
+  if (stamps.length === 0) {
+    flow.write('No issues found.', { color: rgb(0.45, 0.45, 0.45) });
+  }
+  stamps.forEach((stamp) => {
+    flow.space(6);
+    flow.ensureRoom(30);
+    flow.write(`#${stamp.number}  ${STATUS_LABELS[stamp.status]}  ${stamp.item.page ? `Page ${stamp.item.page}` : 'Whole set'}  ${stamp.item.label}`, {
+      font: fonts.bold,
+      color: color(stamp.status),
+    });
+    flow.write(stamp.item.notes, { size: 9, indent: 12, color: rgb(0.25, 0.25, 0.25) });
+  });
+}
+
+// "Lobby Wall v2.pdf" → "Lobby_Wall_v2-QC.pdf"
+export const markupFilename = (filename: string) => filename.replace(/\.pdf$/i, '').replace(/[^\w.-]+/g, '_') + '-QC.pdf';
+
+// The original drawing set with a cover sheet summarizing the report and each
+// finding stamped on its page, plus a matching comment for the viewer's comment list
+export async function buildMarkedUpPdf(pdfBuffer: ArrayBuffer, results: AnalysisResults, filename: string, pdfText: PdfText | null): Promise<Uint8Array> {
+  const doc = await PDFDocument.load(pdfBuffer, { ignoreEncryption: true });
+  const fonts = {
+    regular: await doc.embedFont(StandardFonts.Helvetica),
+    bold: await doc.embedFont(StandardFonts.HelveticaBold),
+  };
+
+  const stamps: Stamp[] = [
+    ...results.criticalIssues.map((item) => ({ item, status: 'fail' as const })),
+    ...results.warnings.map((item) => ({ item, status: 'warning' as const })),
+    ...results.manualReview.map((item) => ({ item, status: 'pending' as const })),
+  ].map((stamp, index) => ({ ...stamp, number: index + 1 }));
+
+  const pages = doc.getPages();
+  pages.forEach((page, index) => {
+    const pageText = pdfText?.pages[index];
+    const onPage = stamps
+      .filter((stamp) => stamp.item.page === index + 1)
+      .map((stamp) => ({
+        stamp,
+        // Older reports have the matched text but no position for it
+        location: stamp.item.location ?? (pageText && stamp.item.matchedText ? locateText(pageText, stamp.item.matchedText) : undefined),
+      }));
+    if (onPage.length > 0) {
+      stampPage(doc, page, onPage, fonts.bold);
+    }
+  });
+
+  addCoverSheet(doc, results, filename, stamps, fonts);
+  return doc.save();
+}
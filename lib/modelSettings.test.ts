@@ -0,0 +1,72 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { CheckDefinition } from './checklist';
+import { DEFAULT_MODEL_SETTINGS, groupByModel, validateModelSettings, type ModelSettings } from './modelSettings';
+
+const SONNET = 'claude-sonnet-4-20250514';
+const HAIKU = 'claude-3-5-haiku-20241022';
+const OPUS = 'claude-opus-4-20250514';
+
+const check = (id: string, category: CheckDefinition['category']): CheckDefinition => ({
+  id,
+  category,
+  severity: 'critical',
+  appliesTo: [],
+  instruction: id,
+  enabled: true,
+});
+
+const settings = (categories: ModelSettings['categories']): ModelSettings => ({ ...DEFAULT_MODEL_SETTINGS, categories });
+
+const summaryOf = (groups: ReturnType<typeof groupByModel>) => groups.map(({ model, maxTokens, checks }) => [model, maxTokens, checks.map((c) => c.id)]);
+
+describe('groupByModel', () => {
+  it('asks every check in one request without overrides', () => {
+    const groups = groupByModel([check('typos', 'spelling'), check('tbd', 'placeholders')], DEFAULT_MODEL_SETTINGS);
+    assert.deepEqual(summaryOf(groups), [[SONNET, 4096, ['typos', 'tbd']]]);
+  });
+
+  it('puts the default model first and gives each group its largest token limit', () => {
+    const groups = groupByModel(
+      [check('typos', 'spelling'), check('tbd', 'placeholders'), check('joints', 'dimensions'), check('logo', 'required')],
+      settings({
+        spelling: { model: HAIKU, maxTokens: 2048 },
+        placeholders: { model: HAIKU, maxTokens: 8192 },
+        dimensions: { model: SONNET, maxTokens: 16000 },
+      })
+    );
+    assert.deepEqual(summaryOf(groups), [
+      [SONNET, 16000, ['joints', 'logo']],
+      [HAIKU, 8192, ['typos', 'tbd']],
+    ]);
+  });
+
+  it('keeps a group off the default model first when no check uses the default', () => {
+    const groups = groupByModel(
+      [check('typos', 'spelling'), check('tbd', 'placeholders')],
+      settings({ spelling: { model: OPUS, maxTokens: 4096 }, placeholders: { model: HAIKU, maxTokens: 4096 } })
+    );
+    assert.deepEqual(
+      groups.map((group) => group.model),
+      [OPUS, HAIKU]
+    );
+  });
+
+  it('still makes the sheet-reading request with no checks', () => {
+    assert.deepEqual(summaryOf(groupByModel([], settings({ spelling: { model: HAIKU, maxTokens: 2048 } }))), [[SONNET, 4096, []]]);
+  });
+});
+
+describe('validateModelSettings', () => {
+  it('refuses unknown categories, odd model ids and token limits out of range', () => {
+    assert.deepEqual(validateModelSettings(settings({ spelling: { model: HAIKU, maxTokens: 2048 } })), []);
+    assert.deepEqual(
+      validateModelSettings({ default: { model: 'sonnet please', maxTokens: 100 }, categories: { colors: { model: HAIKU, maxTokens: 2048 } } }),
+      [
+        `Default: model must be a model id like ${SONNET}`,
+        'Default: token limit must be a whole number from 1024 to 64000',
+        'Unknown check category: colors',
+      ]
+    );
+  });
+});
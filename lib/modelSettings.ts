@@ -0,0 +1,99 @@
+import { CATEGORIES, type CheckCategory, type CheckDefinition } from './checklist';
+
+// Which model reads the drawings for each check category, and how long a
+// reply it may write, editable at /admin/models (see
+// lib/modelSettingsStore.ts). The provider that runs the model is picked by
+// QC_ANALYSIS_PROVIDER (see lib/providers).
+
+export interface ModelChoice {
+  model: string;
+  maxTokens: number;
+}
+
+export interface ModelSettings {
+  // For every category without its own entry
+  default: ModelChoice;
+  categories: Partial<Record<CheckCategory, ModelChoice>>;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+// Checks that share a model are asked in one request
+export interface ModelGroup extends ModelChoice {
+  checks: CheckDefinition[];
+}
+
+// The most any current model writes in one reply
+export const MAX_OUTPUT_TOKENS = 64000;
+
+const MIN_OUTPUT_TOKENS = 1024;
+
+export const DEFAULT_MODEL_SETTINGS: ModelSettings = {
+  default: { model: 'claude-sonnet-4-20250514', maxTokens: 4096 },
+  categories: {},
+  updatedAt: '1970-01-01T00:00:00.000Z',
+  updatedBy: 'Built-in',
+};
+
+export function modelFor(settings: ModelSettings, category: CheckCategory): ModelChoice {
+  return settings.categories[category] ?? settings.default;
+}
+
+// Split checks into one group per model. A group gets the largest token
+// limit among its categories, since one reply covers them all. The group on
+// the default model comes first, as the request that also reads the sheets.
+export function groupByModel(checks: CheckDefinition[], settings: ModelSettings): ModelGroup[] {
+  const groups: ModelGroup[] = [];
+  for (const check of checks) {
+    const choice = modelFor(settings, check.category);
+    const group = groups.find((candidate) => candidate.model === choice.model);
+    if (group) {
+      group.checks.push(check);
+      group.maxTokens = Math.max(group.maxTokens, choice.maxTokens);
+    } else {
+      groups.push({ ...choice, checks: [check] });
+    }
+  }
+  if (groups.length === 0) {
+    return [{ ...settings.default, checks: [] }];
+  }
+  return groups.sort((a, b) => Number(b.model === settings.default.model) - Number(a.model === settings.default.model));
+}
+
+function validateChoice(choice: unknown, where: string, errors: string[]): void {
+  if (typeof choice !== 'object' || choice === null) {
+    errors.push(`${where}: must have a model and a token limit`);
+    return;
+  }
+  const { model, maxTokens } = choice as Record<string, unknown>;
+  if (typeof model !== 'string' || !/^[\w.:@/-]+$/.test(model)) {
+    errors.push(`${where}: model must be a model id like ${DEFAULT_MODEL_SETTINGS.default.model}`);
+  }
+  if (typeof maxTokens !== 'number' || !Number.isInteger(maxTokens) || maxTokens < MIN_OUTPUT_TOKENS || maxTokens > MAX_OUTPUT_TOKENS) {
+    errors.push(`${where}: token limit must be a whole number from ${MIN_OUTPUT_TOKENS} to ${MAX_OUTPUT_TOKENS}`);
+  }
+}
+
+// Problems with edited settings, empty when they can be saved
+export function validateModelSettings(settings: unknown): string[] {
+  if (typeof settings !== 'object' || settings === null) {
+    return ['Model settings must be an object'];
+  }
+  const { default: fallback, categories } = settings as Record<string, unknown>;
+  const errors: string[] = [];
+
+  validateChoice(fallback, 'Default', errors);
+  if (typeof categories !== 'object' || categories === null || Array.isArray(categories)) {
+    errors.push('Categories must be an object');
+  } else {
+    for (const [category, choice] of Object.entries(categories)) {
+      const known = CATEGORIES.find((entry) => entry.id === category);
+      if (!known) {
+        errors.push(`Unknown check category: ${category}`);
+      } else {
+        validateChoice(choice, known.title, errors);
+      }
+    }
+  }
+  return errors;
+}
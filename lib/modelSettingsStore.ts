@@ -0,0 +1,21 @@
+import { DEFAULT_MODEL_SETTINGS, type ModelSettings } from './modelSettings';
+import { getStore } from './store';
+
+const SETTINGS_KEY = 'model-settings/current';
+
+export async function getModelSettings(): Promise<ModelSettings> {
+  return (await getStore().get<ModelSettings>(SETTINGS_KEY)) ?? DEFAULT_MODEL_SETTINGS;
+}
+
+// Replace the settings. Callers validate them first (see validateModelSettings).
+export async function saveModelSettings(settings: Pick<ModelSettings, 'default' | 'categories'>, author: string): Promise<ModelSettings> {
+  const saved: ModelSettings = {
+    default: settings.default,
+    categories: settings.categories,
+    updatedAt: new Date().toISOString(),
+    updatedBy: author,
+  };
+  await getStore().put(SETTINGS_KEY, saved);
+  console.log(`Model settings saved by ${author}: ${saved.default.model}, ${Object.keys(saved.categories).length} category overrides`);
+  return saved;
+}
@@ -0,0 +1,41 @@
+import { PDFDocument } from 'pdf-lib';
+
+// Target compression size (25MB) - try to compress anything over this
+export const TARGET_SIZE = 25 * 1024 * 1024;
+// Maximum file size in bytes (200MB) - must match /api/upload. The server
+// splits anything over Anthropic's 32MB per-request limit into page batches.
+export const MAX_FILE_SIZE = 200 * 1024 * 1024;
+
+export async function compressPDF(file: File): Promise<{ compressedFile: File; originalSize: number; compressedSize: number }> {
+  const originalSize = file.size;
+  const arrayBuffer = await file.arrayBuffer();
+
+  // Load the PDF
+  const pdfDoc = await PDFDocument.load(arrayBuffer);
+
+  // Remove metadata to reduce size
+  pdfDoc.setTitle('');
+  pdfDoc.setAuthor('');
+  pdfDoc.setSubject('');
+  pdfDoc.setKeywords([]);
+  pdfDoc.setProducer('');
+  pdfDoc.setCreator('');
+
+  // Save with object streams enabled for better compression
+  const compressedBytes = await pdfDoc.save({
+    useObjectStreams: true,
+  });
+
+  // Convert Uint8Array to ArrayBuffer then to File
+  const outputBuffer = compressedBytes.buffer.slice(
+    compressedBytes.byteOffset,
+    compressedBytes.byteOffset + compressedBytes.byteLength
+  ) as ArrayBuffer;
+  const compressedFile = new File([outputBuffer], file.name, { type: 'application/pdf' });
+
+  return {
+    compressedFile,
+    originalSize,
+    compressedSize: compressedFile.size,
+  };
+}
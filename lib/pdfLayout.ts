@@ -0,0 +1,90 @@
+import { rgb, type PDFFont, type PDFPage, type RGB } from 'pdf-lib';
+
+// US Letter, for report and cover pages
+export const LETTER: [number, number] = [612, 792];
+export const PAGE_MARGIN = 54;
+
+// The standard fonts only cover WinAnsi; swap or drop anything else
+export function printable(text: string): string {
+  return text
+    .replace(/→/g, '->')
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/•/g, '-')
+    .replace(/[^\x20-\x7E\xA0-\xFF\n]/g, '?');
+}
+
+export function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  printable(text)
+    .split('\n')
+    .forEach((paragraph) => {
+      let line = '';
+      paragraph.split(/\s+/).forEach((word) => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && font.widthOfTextAtSize(candidate, size) > maxWidth) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      });
+      lines.push(line);
+    });
+  return lines;
+}
+
+export function truncate(text: string, font: PDFFont, size: number, maxWidth: number): string {
+  let result = printable(text);
+  if (font.widthOfTextAtSize(result, size) <= maxWidth) return result;
+  while (result.length > 1 && font.widthOfTextAtSize(`${result}...`, size) > maxWidth) {
+    result = result.slice(0, -1);
+  }
+  return `${result.trimEnd()}...`;
+}
+
+export interface WriteOptions {
+  size?: number;
+  font?: PDFFont;
+  color?: RGB;
+  indent?: number;
+}
+
+// Writes wrapped text down Letter pages, starting a new page when one fills.
+// newPage decides where pages go (appended, or inserted before a drawing set).
+export class TextFlow {
+  page: PDFPage;
+  y: number;
+  readonly width = LETTER[0] - PAGE_MARGIN * 2;
+
+  constructor(
+    private fonts: { regular: PDFFont; bold: PDFFont },
+    private newPage: () => PDFPage
+  ) {
+    this.page = newPage();
+    this.y = LETTER[1] - PAGE_MARGIN;
+  }
+
+  // Start a new page unless there's this much room left
+  ensureRoom(needed: number): void {
+    if (this.y - needed >= PAGE_MARGIN) return;
+    this.page = this.newPage();
+    this.y = LETTER[1] - PAGE_MARGIN;
+  }
+
+  write(text: string, options: WriteOptions = {}): void {
+    const size = options.size ?? 10;
+    const font = options.font ?? this.fonts.regular;
+    const indent = options.indent ?? 0;
+    wrapText(text, font, size, this.width - indent).forEach((line) => {
+      this.ensureRoom(size * 1.4);
+      this.y -= size * 1.4;
+      this.page.drawText(line, { x: PAGE_MARGIN + indent, y: this.y, size, font, color: options.color ?? rgb(0.1, 0.1, 0.1) });
+    });
+  }
+
+  space(height: number): void {
+    this.y -= height;
+  }
+}
@@ -0,0 +1,91 @@
+import { getDocumentProxy } from 'unpdf';
+import type { TextBox } from './types';
+
+export interface TextItem extends TextBox {
+  str: string;
+  // Runs up or down the page, like the dimension strings of a vertical chain;
+  // width is then measured along the text
+  vertical?: boolean;
+}
+
+export interface PageText {
+  page: number;
+  width: number;
+  height: number;
+  text: string;
+  items: TextItem[];
+}
+
+export interface PdfText {
+  pageCount: number;
+  pages: PageText[];
+}
+
+// Pages with fewer characters than this are treated as having no usable text
+// layer (scanned sheets or text converted to outlines in CAD)
+const MIN_TEXT_LENGTH = 20;
+
+export type PdfDocument = Awaited<ReturnType<typeof getDocumentProxy>>;
+export type PdfPage = Awaited<ReturnType<PdfDocument['getPage']>>;
+
+// Works in the browser too (the page viewer renders with it)
+export function openPdf(data: ArrayBuffer | Uint8Array): Promise<PdfDocument> {
+  // pdf.js takes ownership of the buffer, so hand it a copy
+  return getDocumentProxy(new Uint8Array(data).slice());
+}
+
+export async function readPageText(page: PdfPage): Promise<PageText> {
+  const [, , width, height] = page.view;
+  const content = await page.getTextContent();
+
+  const items: TextItem[] = [];
+  let text = '';
+  for (const item of content.items) {
+    if (!('str' in item)) continue;
+    items.push({
+      str: item.str,
+      x: item.transform[4],
+      y: item.transform[5],
+      width: item.width,
+      height: item.height,
+      vertical: Math.abs(item.transform[1]) > Math.abs(item.transform[0]),
+    });
+    text += item.str + (item.hasEOL ? '\n' : ' ');
+  }
+
+  return { page: page.pageNumber, width, height, text, items };
+}
+
+export async function extractPdfText(data: ArrayBuffer | Uint8Array): Promise<PdfText> {
+  const pdf = await openPdf(data);
+
+  const pages: PageText[] = [];
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    pages.push(await readPageText(await pdf.getPage(pageNumber)));
+  }
+
+  await pdf.destroy();
+  return { pageCount: pages.length, pages };
+}
+
+export function hasTextLayer(page: PageText): boolean {
+  return page.text.replace(/\s+/g, '').length >= MIN_TEXT_LENGTH;
+}
+
+// Box around the first occurrence of text on the page, narrowed to the match
+// within the text item (assuming evenly wide characters)
+export function locateText(page: PageText, text: string): TextBox | undefined {
+  const needle = text.toLowerCase();
+  for (const item of page.items) {
+    const index = item.str.toLowerCase().indexOf(needle);
+    if (index === -1 || item.str.length === 0) continue;
+    const charWidth = item.width / item.str.length;
+    return {
+      x: item.x + charWidth * index,
+      y: item.y,
+      width: charWidth * needle.length,
+      height: item.height,
+    };
+  }
+  return undefined;
+}
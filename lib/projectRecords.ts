@@ -0,0 +1,237 @@
+import { getStore, updateDocument } from './store';
+import { isSameProject, RECORD_FIELDS, recordMatches, type RecordField } from './titleBlock';
+import type { ProjectRecord, TitleBlock } from './types';
+
+// All records are kept in one document, so the list behind every analysis and
+// page load is one read and an import is one write. Before that each record
+// was its own document under projects/; those are read until the first save.
+const RECORDS_KEY = 'project-records';
+const LEGACY_PREFIX = 'projects/';
+
+interface StoredRecords {
+  records: ProjectRecord[];
+}
+
+export type ProjectRecordInput = Partial<Record<RecordField, string>>;
+
+export interface ImportSummary {
+  created: number;
+  updated: number;
+  // Row numbers (1 = header) with the reason each was skipped
+  skipped: { row: number; reason: string }[];
+}
+
+// Job list column headers we recognize, compared lowercase without punctuation
+const HEADER_ALIASES: Record<RecordField, string[]> = {
+  projectName: ['project', 'projectname', 'jobname', 'name'],
+  location: ['location', 'city', 'citystate', 'site', 'address'],
+  mrqNumber: ['mrq', 'mrqnumber', 'mrqno', 'quote', 'quotenumber'],
+  productionNumber: ['production', 'productionnumber', 'productionno', 'prod', 'prodnumber', 'jobnumber'],
+  design: ['design', 'designname', 'pattern'],
+  version: ['version', 'rev', 'revision'],
+  date: ['date', 'drawingdate', 'revisiondate'],
+  drawnBy: ['drawnby', 'drafter', 'drawn'],
+};
+
+export class InvalidRecordError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidRecordError';
+  }
+}
+
+// Rows of cells, with quoted cells that may hold commas, quotes ("") and newlines
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((value) => value.trim()));
+}
+
+function cleanInput(input: ProjectRecordInput): Omit<ProjectRecord, 'id' | 'updatedAt'> {
+  const record = {} as Omit<ProjectRecord, 'id' | 'updatedAt'>;
+  RECORD_FIELDS.forEach(({ id }) => {
+    record[id] = typeof input[id] === 'string' ? input[id]!.trim() : '';
+  });
+  if (!record.projectName && !record.mrqNumber) {
+    throw new InvalidRecordError('A project record needs a project name or MRQ #');
+  }
+  return record;
+}
+
+async function storedRecords(stored: StoredRecords | null): Promise<ProjectRecord[]> {
+  if (stored) {
+    return stored.records;
+  }
+  const store = getStore();
+  const keys = await store.list(LEGACY_PREFIX);
+  const records = await Promise.all(keys.map((key) => store.get<ProjectRecord>(key)));
+  return records.filter((record): record is ProjectRecord => record !== null);
+}
+
+async function loadRecords(): Promise<ProjectRecord[]> {
+  return storedRecords(await getStore().get<StoredRecords>(RECORDS_KEY));
+}
+
+// Change the record list as stored now, after any change already under way
+async function updateRecords(change: (records: ProjectRecord[]) => ProjectRecord[]): Promise<void> {
+  await updateDocument<StoredRecords>(RECORDS_KEY, async (stored) => ({ records: change(await storedRecords(stored)) }));
+}
+
+// Records with one record created or updated. With an id the record is
+// replaced as given; without one, an existing record for the same project gets
+// the non-empty values filled in instead of being duplicated.
+function upsertRecord(
+  records: ProjectRecord[],
+  values: Omit<ProjectRecord, 'id' | 'updatedAt'>,
+  id?: string
+): { records: ProjectRecord[]; record: ProjectRecord; created: boolean } {
+  const previous = id ? records.find((record) => record.id === id) : records.find((record) => isSameProject(record, values));
+  const merged = { ...values };
+  if (previous && !id) {
+    RECORD_FIELDS.forEach(({ id: field }) => {
+      merged[field] = values[field] || previous[field];
+    });
+  }
+  const record: ProjectRecord = {
+    ...merged,
+    id: previous?.id ?? id ?? crypto.randomUUID(),
+    updatedAt: new Date().toISOString(),
+  };
+
+  return {
+    records: previous ? records.map((other) => (other.id === previous.id ? record : other)) : [...records, record],
+    record,
+    created: !previous,
+  };
+}
+
+export async function getProjectRecord(id: string): Promise<ProjectRecord | null> {
+  if (!/^[\w-]+$/.test(id)) {
+    return null;
+  }
+  return (await loadRecords()).find((record) => record.id === id) ?? null;
+}
+
+// Sorted by project name; query matches the name, location, MRQ or production #
+export async function listProjectRecords(query?: string): Promise<ProjectRecord[]> {
+  const records = await loadRecords();
+
+  const needle = query?.trim().toLowerCase();
+  return records
+    .filter(
+      (record) =>
+        !needle ||
+        [record.projectName, record.location, record.mrqNumber, record.productionNumber].some((value) => value.toLowerCase().includes(needle))
+    )
+    .sort((a, b) => a.projectName.localeCompare(b.projectName));
+}
+
+// Create or update a record (see upsertRecord)
+export async function saveProjectRecord(input: ProjectRecordInput, id?: string): Promise<{ record: ProjectRecord; created: boolean }> {
+  const values = cleanInput(input);
+  if (id !== undefined && !/^[\w-]+$/.test(id)) {
+    throw new InvalidRecordError(`Invalid project record id: ${id}`);
+  }
+
+  let saved: { record: ProjectRecord; created: boolean } | undefined;
+  await updateRecords((records) => {
+    const { records: updated, ...result } = upsertRecord(records, values, id);
+    saved = result;
+    return updated;
+  });
+  return saved!;
+}
+
+export async function deleteProjectRecord(id: string): Promise<void> {
+  if (!/^[\w-]+$/.test(id)) {
+    return;
+  }
+  await updateRecords((records) => records.filter((record) => record.id !== id));
+}
+
+// Upsert one record per row of the job list export. The header row decides
+// which column holds which field; unknown columns are ignored.
+export async function importProjectRecords(csv: string): Promise<ImportSummary> {
+  const [header, ...rows] = parseCsv(csv.replace(/^\uFEFF/, ''));
+  if (!header) {
+    throw new InvalidRecordError('The CSV is empty');
+  }
+
+  const columns = header.map((name) => {
+    const key = name.toLowerCase().replace(/[^a-z]/g, '');
+    return (Object.keys(HEADER_ALIASES) as RecordField[]).find((field) => HEADER_ALIASES[field].includes(key));
+  });
+  if (!columns.includes('projectName') && !columns.includes('mrqNumber')) {
+    throw new InvalidRecordError('The CSV needs a Project or MRQ # column');
+  }
+
+  const summary: ImportSummary = { created: 0, updated: 0, skipped: [] };
+  await updateRecords((stored) => {
+    let records = stored;
+    rows.forEach((row, index) => {
+      const input: ProjectRecordInput = {};
+      columns.forEach((field, column) => {
+        if (field && !input[field]) input[field] = row[column];
+      });
+
+      try {
+        const result = upsertRecord(records, cleanInput(input));
+        records = result.records;
+        if (result.created) summary.created++;
+        else summary.updated++;
+      } catch (error) {
+        if (!(error instanceof InvalidRecordError)) throw error;
+        summary.skipped.push({ row: index + 2, reason: error.message });
+      }
+    });
+    return records;
+  });
+
+  console.log(`Imported project records: ${summary.created} created, ${summary.updated} updated, ${summary.skipped.length} skipped`);
+  return summary;
+}
+
+// The record for a drawing, matched on the set's title block values first and
+// then on each sheet's
+export async function findProjectRecord(titleBlocks: Partial<TitleBlock>[]): Promise<ProjectRecord | null> {
+  const records = await listProjectRecords();
+  for (const info of titleBlocks) {
+    const match = records.find((record) => recordMatches(record, info));
+    if (match) return match;
+  }
+  return null;
+}
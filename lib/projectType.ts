@@ -0,0 +1,127 @@
+import { PROJECT_FLAGS } from './checklist';
+import { hasTextLayer, locateText, type PdfText } from './pdfText';
+import { overallStatusFor } from './schema';
+import type { AnalysisResults, CheckItem, FeatureEvidence, ProjectAnswers, ProjectFeature, ProjectTypeDetection } from './types';
+
+// Text that shows a drawing has each feature. Logos are matched on inlay and
+// artwork wording only, since every sheet carries the M|R logo in its title block.
+export const FEATURE_PATTERNS: Record<ProjectFeature, RegExp[]> = {
+  isBacklit: [/\bback-?lit\b/i, /\bback-?light(?:ing)?\b/i, /\bLEDs?\b/, /\bdrivers?\b/i, /\bwattage\b/i, /\bpower supply\b/i],
+  hasCutouts: [/\bcut-?outs?\b/i, /\bcut out\b/i],
+  hasCorners: [/\b(?:inside|outside|wrap(?:ped)?) corners?\b/i, /\bcorner (?:detail|return|panel|joint|piece)s?\b/i, /\bmit(?:er|re)d?\b/i, /\bbutt joints?\b/i],
+  hasLogos: [/\binlays?\b/i, /\bengrav(?:ed|ing)\b/i, /\bartwork\b/i, /\blogo (?:inlay|panel|artwork|placement|engraving)\b/i],
+};
+
+const FEATURES = Object.keys(FEATURE_PATTERNS) as ProjectFeature[];
+
+// Evidence kept per feature; more only repeats the same callout
+const MAX_EVIDENCE = 3;
+
+// Findings from reconciling carry this id; it isn't a checklist check
+export const PROJECT_TYPE_CHECK_ID = 'project_type';
+
+export const noFeatures = (): ProjectAnswers => ({ isBacklit: false, hasCutouts: false, hasCorners: false, hasLogos: false });
+
+// Longest evidence text kept from a callout
+const MAX_EVIDENCE_LENGTH = 60;
+
+// Features the text layer shows, each with the callouts it was seen in
+export function detectFromText(pdfText: PdfText): FeatureEvidence[] {
+  const evidence: FeatureEvidence[] = [];
+
+  for (const feature of FEATURES) {
+    let found = 0;
+    for (const page of pdfText.pages) {
+      if (found >= MAX_EVIDENCE) break;
+      if (!hasTextLayer(page)) continue;
+
+      // One callout per page is enough to show the feature
+      const item = page.items.find((candidate) => FEATURE_PATTERNS[feature].some((pattern) => pattern.test(candidate.str)));
+      if (item) {
+        evidence.push({ feature, page: page.page, text: item.str.trim().slice(0, MAX_EVIDENCE_LENGTH), source: 'rule' });
+        found++;
+      }
+    }
+  }
+
+  return evidence;
+}
+
+export function summarizeDetection(evidence: FeatureEvidence[]): ProjectTypeDetection {
+  const features = noFeatures();
+  evidence.forEach((e) => {
+    features[e.feature] = true;
+  });
+  return { features, evidence };
+}
+
+const describeEvidence = (evidence: FeatureEvidence[]) =>
+  evidence
+    .slice(0, MAX_EVIDENCE)
+    .map((e) => `"${e.text}"${e.page ? ` (page ${e.page})` : ''}`)
+    .join(', ');
+
+// Warnings for every feature where the drafter's answer and the drawing
+// disagree. An unticked feature means its checks never ran, so the warning
+// asks for a re-run rather than guessing at the missing findings.
+export function projectTypeFindings(answers: ProjectAnswers, detection: ProjectTypeDetection, pdfText: PdfText | null): CheckItem[] {
+  const findings: CheckItem[] = [];
+
+  for (const feature of FEATURES) {
+    const label = PROJECT_FLAGS.find((flag) => flag.id === feature)!.label;
+    const evidence = detection.evidence.filter((e) => e.feature === feature);
+
+    if (detection.features[feature] && !answers[feature]) {
+      const first = evidence[0];
+      const page = first.page ? pdfText?.pages[first.page - 1] : undefined;
+      findings.push({
+        id: `project_type_${feature}_missing`,
+        checkId: PROJECT_TYPE_CHECK_ID,
+        label: `Project Type: ${label} Not Selected`,
+        status: 'warning',
+        notes: `The drawing shows ${describeEvidence(evidence)} but ${label} was not selected, so its checks did not run. Re-run the analysis with ${label} selected.`,
+        page: first.page,
+        source: first.source,
+        matchedText: first.source === 'rule' ? first.text : undefined,
+        location: page && first.source === 'rule' ? locateText(page, first.text) : undefined,
+      });
+    } else if (answers[feature] && !detection.features[feature]) {
+      findings.push({
+        id: `project_type_${feature}_unseen`,
+        checkId: PROJECT_TYPE_CHECK_ID,
+        label: `Project Type: No ${label} Found`,
+        status: 'warning',
+        notes: `${label} was selected but nothing on the drawing shows it. Confirm the project type, or add the missing callouts.`,
+        source: 'rule',
+      });
+    }
+  }
+
+  return findings;
+}
+
+// Record the detected project type on the results and add a warning per
+// disagreement, or a pass item when the answers match the drawing
+export function reconcileProjectType(results: AnalysisResults, detection: ProjectTypeDetection, pdfText: PdfText | null): AnalysisResults {
+  const mismatches = projectTypeFindings(results.projectType, detection, pdfText);
+  if (mismatches.length === 0) {
+    return {
+      ...results,
+      detectedType: detection,
+      passed: [
+        ...results.passed,
+        {
+          id: 'project_type_match',
+          checkId: PROJECT_TYPE_CHECK_ID,
+          label: 'Project Type Matches Drawing',
+          status: 'pass',
+          notes: 'The selected project type agrees with the callouts on the drawing',
+          source: 'rule',
+        },
+      ],
+    };
+  }
+
+  const warnings = [...mismatches, ...results.warnings];
+  return { ...results, detectedType: detection, overallStatus: overallStatusFor({ criticalIssues: results.criticalIssues, warnings }), warnings };
+}
@@ -0,0 +1,178 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { delay } from '../async';
+import { parseModelJson } from '../schema';
+import { recordReply } from './fixtures';
+import {
+  CreditBalanceError,
+  DocumentRejectedError,
+  InvalidResultsError,
+  ModelAuthError,
+  ModelError,
+  ModelOverloadedError,
+  ModelRateLimitError,
+  ModelRequestError,
+  ModelUnavailableError,
+  type AnalysisProvider,
+  type AnalysisReply,
+  type AnalysisRequest,
+} from './types';
+
+// How many times to send a truncated or invalid reply back for repair
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// How many times to ask again after a rate limit, overload or dropped
+// connection, waiting twice as long each time (with jitter) unless the API
+// says how long. Four retries ride out about a minute of overload.
+const MAX_RETRIES = 4;
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 30000;
+
+// The API's own explanation, without the status and JSON the SDK wraps it in
+function apiMessage(error: InstanceType<typeof Anthropic.APIError>): string {
+  const body = error.error as { error?: { message?: string } } | undefined;
+  return body?.error?.message ?? error.message;
+}
+
+function retryAfterMs(headers: Record<string, string | null | undefined> | undefined): number | undefined {
+  const seconds = Number(headers?.['retry-after']);
+  return seconds > 0 ? seconds * 1000 : undefined;
+}
+
+// Map an SDK error to a ModelError by its status; anything else (including a
+// cancelled request) is passed through as is
+function toModelError(error: unknown): unknown {
+  if (!(error instanceof Anthropic.APIError) || error instanceof Anthropic.APIUserAbortError) {
+    return error;
+  }
+  const message = apiMessage(error);
+
+  if (error instanceof Anthropic.APIConnectionError) {
+    return new ModelUnavailableError(`Could not reach the Anthropic API: ${message}`);
+  }
+  if (error instanceof Anthropic.RateLimitError) {
+    return new ModelRateLimitError(message, retryAfterMs(error.headers));
+  }
+  if (error.status === 529) {
+    return new ModelOverloadedError(message);
+  }
+  if (error instanceof Anthropic.InternalServerError) {
+    return new ModelUnavailableError(message, error.status);
+  }
+  if (error instanceof Anthropic.AuthenticationError || error instanceof Anthropic.PermissionDeniedError) {
+    return new ModelAuthError(message, error.status);
+  }
+  if (error.status === 413) {
+    return new DocumentRejectedError(message, error.status);
+  }
+  if (error instanceof Anthropic.BadRequestError) {
+    // Billing and document problems are invalid_request_errors like any
+    // other bad request; only the message tells them apart
+    if (/credit balance|billing/i.test(message)) {
+      return new CreditBalanceError(message);
+    }
+    if (/pdf|document|prompt is too long/i.test(message)) {
+      return new DocumentRejectedError(message, error.status);
+    }
+  }
+  return new ModelRequestError(message, error.status);
+}
+
+function retryDelay(error: ModelError, retry: number): number {
+  if (error instanceof ModelRateLimitError && error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, MAX_RETRY_DELAY_MS * 2);
+  }
+  return Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** retry) * (0.75 + Math.random() * 0.5);
+}
+
+type ContentBlock = Exclude<Anthropic.MessageParam['content'], string>[number];
+
+// A PDF for the model to read. The API takes it; this SDK version has no type
+// for it, so it's passed as a content block through unknown.
+interface DocumentBlock {
+  type: 'document';
+  source: { type: 'base64'; media_type: 'application/pdf'; data: string };
+}
+
+function messageContent(document: Uint8Array | undefined, prompt: string): ContentBlock[] {
+  const text: ContentBlock = { type: 'text', text: prompt };
+  if (!document) {
+    return [text];
+  }
+  const pdf: DocumentBlock = {
+    type: 'document',
+    source: { type: 'base64', media_type: 'application/pdf', data: Buffer.from(document).toString('base64') },
+  };
+  return [pdf as unknown as ContentBlock, text];
+}
+
+export class AnthropicProvider implements AnalysisProvider {
+  name = 'anthropic';
+  private client: Anthropic;
+  // Accepted replies are saved as fixtures for the fixture provider
+  private record: boolean;
+
+  constructor(apiKey: string | undefined, record = false) {
+    // Retries are done here (see create) so they can be told apart by error
+    this.client = new Anthropic({ apiKey, maxRetries: 0 });
+    this.record = record;
+  }
+
+  // One model call, asked again with backoff while it fails in a way that can pass
+  private async create(params: Anthropic.MessageCreateParamsNonStreaming, signal?: AbortSignal): Promise<Anthropic.Message> {
+    for (let retry = 0; ; retry++) {
+      try {
+        return await this.client.messages.create(params, { signal });
+      } catch (error) {
+        const failure = toModelError(error);
+        if (!(failure instanceof ModelError) || !failure.retryable || retry >= MAX_RETRIES || signal?.aborted) {
+          throw failure;
+        }
+        const wait = retryDelay(failure, retry);
+        console.warn(`${failure.name}: ${failure.message}; retry ${retry + 1} of ${MAX_RETRIES} in ${(wait / 1000).toFixed(1)}s`);
+        await delay(wait, signal);
+      }
+    }
+  }
+
+  // Ask for results, re-asking with the validation errors (or a truncation
+  // notice) until the reply passes validate
+  async analyze<T>(request: AnalysisRequest<T>): Promise<AnalysisReply<T>> {
+    const { model, maxTokens } = request.settings;
+    const messages: Anthropic.MessageParam[] = [{ role: 'user', content: messageContent(request.document, request.prompt) }];
+    let errors: string[] = [];
+
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      const response = await this.create({ model, max_tokens: maxTokens, messages }, request.signal);
+      request.onUsage?.(response.model, { inputTokens: response.usage.input_tokens, outputTokens: response.usage.output_tokens });
+
+      const textContent = response.content.find((block) => block.type === 'text');
+      const responseText = textContent && textContent.type === 'text' ? textContent.text.trim() : '';
+
+      let repairRequest: string;
+      if (response.stop_reason === 'max_tokens') {
+        errors = ['Response was truncated at max_tokens'];
+        repairRequest =
+          'Your reply was cut off before the JSON was complete. Return the COMPLETE JSON object again from the start, ' +
+          'keeping every notes field under 20 words and listing at most 10 passed checks.';
+      } else {
+        const parsed = parseModelJson(responseText);
+        const validation = parsed === undefined ? { ok: false as const, errors: ['Response is not valid JSON'] } : request.validate(parsed);
+        if (validation.ok) {
+          if (this.record) {
+            await recordReply(request, response.model, parsed);
+          }
+          return { value: validation.value, model: response.model };
+        }
+        errors = validation.errors;
+        repairRequest =
+          `Your JSON does not match the RESPONSE FORMAT:\n- ${errors.slice(0, 20).join('\n- ')}\n\n` +
+          'Return the corrected JSON object only. No other text.';
+      }
+
+      console.warn(`Analysis attempt ${attempt + 1} rejected: ${errors.slice(0, 5).join('; ')}`);
+      messages.push({ role: 'assistant', content: responseText || '(no response)' }, { role: 'user', content: repairRequest });
+    }
+
+    throw new InvalidResultsError(errors);
+  }
+}
@@ -0,0 +1,96 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { InvalidResultsError, type AnalysisProvider, type AnalysisReply, type AnalysisRequest } from './types';
+
+// Recorded model replies, replayed without an API key or network. Run with
+// QC_RECORD_FIXTURES=1 and a real key to record; every accepted reply is
+// saved under its request's key. QC_FIXTURES_DIR moves them. Replays cost
+// nothing, so they report no token usage.
+
+interface RecordedReply {
+  key: string;
+  recordedAt: string;
+  model: string;
+  // The start of the prompt, to tell the files apart
+  promptStart: string;
+  reply: unknown;
+}
+
+const fixturesDir = () => path.resolve(process.env.QC_FIXTURES_DIR || 'fixtures/analysis');
+
+// Same document and prompt, same key. Any checklist, dictionary or prompt
+// edit changes the key, so the request is answered as unrecorded until it's
+// recorded again.
+export function fixtureKey(request: AnalysisRequest<unknown>): string {
+  const hash = createHash('sha256');
+  hash.update(request.document ?? new Uint8Array());
+  hash.update('\n');
+  hash.update(request.prompt);
+  return hash.digest('hex').slice(0, 32);
+}
+
+const fixturePath = (key: string) => path.join(fixturesDir(), `${key}.json`);
+
+export async function recordReply(request: AnalysisRequest<unknown>, model: string, reply: unknown): Promise<void> {
+  const key = fixtureKey(request);
+  const recorded: RecordedReply = {
+    key,
+    recordedAt: new Date().toISOString(),
+    model,
+    promptStart: request.prompt.slice(0, 200),
+    reply,
+  };
+  await fs.mkdir(fixturesDir(), { recursive: true });
+  await fs.writeFile(fixturePath(key), JSON.stringify(recorded, null, 2));
+  console.log(`Recorded fixture ${key}`);
+}
+
+async function readReply(key: string): Promise<RecordedReply | null> {
+  try {
+    return JSON.parse(await fs.readFile(fixturePath(key), 'utf8')) as RecordedReply;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+// What an unrecorded request gets: nothing found, one blank title block per
+// page, so the rest of the flow (rule checks, records, report) still runs
+function emptyReply(pageCount = 1) {
+  const info = { projectName: '', location: '', version: '', drawnBy: '' };
+  const sheet = { ...info, hasLogo: false, mrqNumber: '', productionNumber: '', design: '', date: '', scale: '', drawingType: '' };
+  return {
+    overallStatus: 'pass',
+    summary: 'No recorded reply for this drawing; only the rule checks ran.',
+    criticalIssues: [],
+    warnings: [],
+    passed: [],
+    manualReview: [],
+    extractedInfo: info,
+    pageCount,
+    sheets: Array.from({ length: pageCount }, (_, index) => ({ ...sheet, page: index + 1 })),
+    projectFeatures: [],
+    ledSystem: null,
+    corners: [],
+  };
+}
+
+export class FixtureProvider implements AnalysisProvider {
+  name = 'fixtures';
+
+  async analyze<T>(request: AnalysisRequest<T>): Promise<AnalysisReply<T>> {
+    request.signal?.throwIfAborted();
+    const key = fixtureKey(request);
+    const recorded = await readReply(key);
+    if (!recorded) {
+      console.warn(`No fixture ${key} in ${fixturesDir()}; replying with no findings`);
+    }
+
+    const validation = request.validate(recorded ? recorded.reply : emptyReply(request.pageCount));
+    if (!validation.ok) {
+      throw new InvalidResultsError(validation.errors);
+    }
+    return { value: validation.value, model: recorded ? `fixture ${recorded.model}` : 'fixture (unrecorded)' };
+  }
+}
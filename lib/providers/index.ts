@@ -0,0 +1,37 @@
+import { AnthropicProvider } from './anthropic';
+import { FixtureProvider } from './fixtures';
+import type { AnalysisProvider } from './types';
+
+export {
+  CreditBalanceError,
+  DocumentRejectedError,
+  InvalidResultsError,
+  ModelAuthError,
+  ModelError,
+  ModelOverloadedError,
+  ModelRateLimitError,
+  ModelRequestError,
+  ModelUnavailableError,
+} from './types';
+export type { AnalysisProvider, AnalysisReply, AnalysisRequest } from './types';
+
+let provider: AnalysisProvider | null = null;
+
+// Claude through the Anthropic API, or recorded replies (lib/providers/fixtures.ts)
+// for working without a key. Local development falls back to the fixtures
+// when ANTHROPIC_API_KEY isn't set; QC_ANALYSIS_PROVIDER overrides.
+export function getAnalysisProvider(): AnalysisProvider {
+  if (!provider) {
+    const fallback = process.env.ANTHROPIC_API_KEY || process.env.NODE_ENV === 'production' ? 'anthropic' : 'fixtures';
+    const name = process.env.QC_ANALYSIS_PROVIDER || fallback;
+    if (name === 'anthropic') {
+      provider = new AnthropicProvider(process.env.ANTHROPIC_API_KEY, process.env.QC_RECORD_FIXTURES === '1');
+    } else if (name === 'fixtures') {
+      provider = new FixtureProvider();
+    } else {
+      throw new Error(`Unknown analysis provider: ${name}`);
+    }
+    console.log(`Analysis provider: ${provider.name}`);
+  }
+  return provider;
+}
@@ -0,0 +1,123 @@
+import type { ModelChoice } from '../modelSettings';
+import type { ValidationResult } from '../schema';
+import type { ErrorCode, TokenUsage } from '../types';
+
+// One question about a drawing: the PDF (or a page batch of it) and the
+// prompt go in, the reply comes out as JSON that passes validate. Requests
+// without a document ask about findings already collected (the whole-set
+// checks of a split set).
+export interface AnalysisRequest<T> {
+  document?: Uint8Array;
+  // Pages the reply covers, when known
+  pageCount?: number;
+  prompt: string;
+  settings: ModelChoice;
+  validate: (parsed: unknown) => ValidationResult<T>;
+  signal?: AbortSignal;
+  // Told the tokens of every model call made, repair rounds and failed
+  // requests included, so they're paid for even when no reply is accepted
+  onUsage?: (model: string, usage: TokenUsage) => void;
+}
+
+export interface AnalysisReply<T> {
+  value: T;
+  // What actually answered, recorded on the report
+  model: string;
+}
+
+// Runs analysis requests against a model. Providers repair or reject replies
+// that don't validate; they never hand back unvalidated JSON.
+export interface AnalysisProvider {
+  name: string;
+  analyze<T>(request: AnalysisRequest<T>): Promise<AnalysisReply<T>>;
+}
+
+export class InvalidResultsError extends Error {
+  constructor(public errors: string[]) {
+    super(`Claude returned results that don't match the expected format: ${errors.slice(0, 5).join('; ')}`);
+    this.name = 'InvalidResultsError';
+  }
+}
+
+// A model call that failed before any reply came back. Retryable failures
+// (rate limits, overloads, dropped connections) are asked again with backoff
+// by the provider before they surface.
+export abstract class ModelError extends Error {
+  abstract readonly code: ErrorCode;
+  readonly retryable: boolean = false;
+
+  constructor(message: string, public status?: number) {
+    super(message);
+  }
+}
+
+export class ModelRateLimitError extends ModelError {
+  readonly code = 'model_rate_limited';
+  readonly retryable = true;
+
+  // How long the API asked us to wait, when it said
+  constructor(message: string, public retryAfterMs?: number) {
+    super(message, 429);
+    this.name = 'ModelRateLimitError';
+  }
+}
+
+export class ModelOverloadedError extends ModelError {
+  readonly code = 'model_overloaded';
+  readonly retryable = true;
+
+  constructor(message: string) {
+    super(message, 529);
+    this.name = 'ModelOverloadedError';
+  }
+}
+
+// Server errors, timeouts and connections that never got an answer
+export class ModelUnavailableError extends ModelError {
+  readonly code = 'model_unavailable';
+  readonly retryable = true;
+
+  constructor(message: string, status?: number) {
+    super(message, status);
+    this.name = 'ModelUnavailableError';
+  }
+}
+
+// The API key is missing, wrong or not allowed to use the model
+export class ModelAuthError extends ModelError {
+  readonly code = 'model_auth';
+
+  constructor(message: string, status?: number) {
+    super(message, status);
+    this.name = 'ModelAuthError';
+  }
+}
+
+export class CreditBalanceError extends ModelError {
+  readonly code = 'credit_balance';
+
+  constructor(message: string) {
+    super(message, 400);
+    this.name = 'CreditBalanceError';
+  }
+}
+
+// The PDF itself was refused: too large, too many pages or unreadable
+export class DocumentRejectedError extends ModelError {
+  readonly code = 'document_rejected';
+
+  constructor(message: string, status?: number) {
+    super(message, status);
+    this.name = 'DocumentRejectedError';
+  }
+}
+
+// Any other request the API refused, such as an unknown model in the model settings
+export class ModelRequestError extends ModelError {
+  readonly code = 'model_request';
+
+  constructor(message: string, status?: number) {
+    super(message, status);
+    this.name = 'ModelRequestError';
+  }
+}
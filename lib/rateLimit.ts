@@ -0,0 +1,36 @@
+import type { SessionUser } from './auth';
+import { updateDocument } from './store';
+
+const rateKey = (userId: string) => `rate-limits/${userId}`;
+
+const WINDOW_MS = 60 * 60 * 1000;
+
+// Analyses one user may start per hour; QC_ANALYSES_PER_HOUR overrides. Big
+// enough for a 12-sheet package and a round of retries.
+const DEFAULT_ANALYSES_PER_HOUR = 30;
+
+export class RateLimitError extends Error {
+  constructor(public retryAfterSeconds: number) {
+    super(`Too many analyses this hour. Try again in ${Math.ceil(retryAfterSeconds / 60)} min.`);
+    this.name = 'RateLimitError';
+  }
+}
+
+function limit(): number {
+  const configured = Number(process.env.QC_ANALYSES_PER_HOUR);
+  return configured > 0 ? configured : DEFAULT_ANALYSES_PER_HOUR;
+}
+
+// Count an analysis against the user's hourly allowance, or throw
+// RateLimitError when it's used up. Each analysis spends Anthropic credits,
+// so this runs before any job or model call is started.
+export async function consumeAnalysis(user: SessionUser): Promise<void> {
+  await updateDocument<{ startedAt: number[] }>(rateKey(user.id), (current) => {
+    const now = Date.now();
+    const recent = (current?.startedAt ?? []).filter((time) => now - time < WINDOW_MS);
+    if (recent.length >= limit()) {
+      throw new RateLimitError(Math.ceil((recent[0] + WINDOW_MS - now) / 1000));
+    }
+    return { startedAt: [...recent, now] };
+  });
+}
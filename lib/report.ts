@@ -0,0 +1,170 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type RGB } from 'pdf-lib';
+import { PROJECT_FLAGS } from './checklist';
+import { LETTER, PAGE_MARGIN, TextFlow, printable } from './pdfLayout';
+import type { AnalysisResults, CheckItem } from './types';
+
+// Report exports, built the same way in the browser (results page) and on the
+// server (/api/jobs/<id>/report) so both give identical files
+
+export type ReportFormat = 'pdf' | 'csv' | 'json';
+
+export const REPORT_TYPES: Record<ReportFormat, string> = {
+  pdf: 'application/pdf',
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json',
+};
+
+const SECTIONS = [
+  { key: 'criticalIssues', title: 'Critical Issues', color: rgb(0.86, 0.15, 0.27) },
+  { key: 'warnings', title: 'Warnings', color: rgb(0.96, 0.55, 0.1) },
+  { key: 'manualReview', title: 'Manual Review', color: rgb(0.45, 0.45, 0.5) },
+  { key: 'passed', title: 'Passed', color: rgb(0.1, 0.6, 0.35) },
+] as const;
+
+const ORANGE = rgb(0.98, 0.45, 0.09);
+const GRAY = rgb(0.45, 0.45, 0.45);
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' });
+
+// "Panels V2.pdf" → "Panels_V2-QC-report.csv"
+export function reportFilename(filename: string, format: ReportFormat): string {
+  return `${filename.replace(/\.pdf$/i, '').replace(/[^\w.-]+/g, '_')}-QC-report.${format}`;
+}
+
+export function buildReportJson(results: AnalysisResults, filename: string, generatedAt = new Date().toISOString()): string {
+  return JSON.stringify({ filename, generatedAt, results }, null, 2);
+}
+
+const csvCell = (value: string | number | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per finding, with the report's project columns repeated so rows can
+// be pasted straight into the tracking spreadsheet
+export function buildFindingsCsv(results: AnalysisResults, filename: string): string {
+  const header = [
+    'File', 'Project', 'Version', 'Analyzed', 'Checklist Version', 'Overall Status',
+    'Section', 'Status', 'Check ID', 'Label', 'Notes', 'Page', 'Source',
+  ];
+  const info = results.extractedInfo;
+  const rows = SECTIONS.flatMap(({ key, title }) =>
+    (results[key] as CheckItem[]).map((item) => [
+      filename,
+      info.projectName,
+      info.version,
+      results.analyzedAt ?? '',
+      results.checklistVersion,
+      results.overallStatus,
+      title,
+      item.status,
+      item.checkId,
+      item.label,
+      item.notes,
+      item.page,
+      item.source,
+    ])
+  );
+  return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+function drawStat(flow: TextFlow, font: PDFFont, index: number, value: number, label: string, color: RGB) {
+  const gap = 10;
+  const width = (flow.width - gap * 3) / 4;
+  const x = PAGE_MARGIN + index * (width + gap);
+  const height = 54;
+  flow.page.drawRectangle({ x, y: flow.y - height, width, height, color, opacity: 0.12 });
+  const number = String(value);
+  flow.page.drawText(number, { x: x + (width - font.widthOfTextAtSize(number, 24)) / 2, y: flow.y - 30, size: 24, font, color });
+  flow.page.drawText(label, { x: x + (width - font.widthOfTextAtSize(label, 9)) / 2, y: flow.y - 46, size: 9, font, color });
+}
+
+// Branded, printable version of the results step
+export async function buildReportPdf(results: AnalysisResults, filename: string, generatedAt = new Date().toISOString()): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  doc.setTitle(`QC Report - ${filename}`);
+  doc.setProducer('M|R Walls Shop Drawing QC');
+  const fonts = {
+    regular: await doc.embedFont(StandardFonts.Helvetica),
+    bold: await doc.embedFont(StandardFonts.HelveticaBold),
+  };
+  const flow = new TextFlow(fonts, () => doc.addPage(LETTER));
+
+  // Header: M|R badge, title and file
+  flow.page.drawRectangle({ x: PAGE_MARGIN, y: flow.y - 40, width: 40, height: 40, color: ORANGE });
+  flow.page.drawText('M|R', { x: PAGE_MARGIN + 6, y: flow.y - 26, size: 14, font: fonts.bold, color: rgb(0, 0, 0) });
+  flow.page.drawText('Shop Drawing QC Report', { x: PAGE_MARGIN + 52, y: flow.y - 18, size: 18, font: fonts.bold });
+  flow.page.drawText(printable(filename), { x: PAGE_MARGIN + 52, y: flow.y - 34, size: 10, font: fonts.regular, color: GRAY });
+  flow.space(56);
+
+  // Project info from the title block
+  const info = results.extractedInfo;
+  const flagList = (answers: AnalysisResults['projectType']) => {
+    const flags = PROJECT_FLAGS.filter((flag) => answers[flag.id]).map((flag) => flag.label);
+    return flags.length > 0 ? flags.join(', ') : 'Standard';
+  };
+  const rows: [string, string][] = [
+    ['Project', info.projectName || '-'],
+    ['Location', info.location || '-'],
+    ['MRQ #', info.mrqNumber || '-'],
+    ['Production #', info.productionNumber || '-'],
+    ['Version', info.version || '-'],
+    ['Date', info.date || '-'],
+    ['Drawn by', info.drawnBy || '-'],
+    ['Pages', String(results.pageCount)],
+    ['Project type', flagList(results.projectType)],
+    ...(results.detectedType ? [['Detected on drawing', flagList(results.detectedType.features)] as [string, string]] : []),
+    ['Checklist', `v${results.checklistVersion}`],
+    ['Project record', results.projectRecord ? results.projectRecord.projectName || `MRQ ${results.projectRecord.mrqNumber}` : 'None matched'],
+    ['Analyzed', results.analyzedAt ? formatDate(results.analyzedAt) : '-'],
+    ...(results.analyzedBy ? [['Analyzed by', results.analyzedBy] as [string, string]] : []),
+    ['Report generated', formatDate(generatedAt)],
+  ];
+  rows.forEach(([label, value]) => {
+    flow.y -= 14;
+    flow.page.drawText(label, { x: PAGE_MARGIN, y: flow.y, size: 9, font: fonts.bold, color: GRAY });
+    flow.page.drawText(printable(value), { x: PAGE_MARGIN + 100, y: flow.y, size: 9, font: fonts.regular });
+  });
+  flow.space(16);
+
+  // Overall status and stats grid
+  const overall = {
+    fail: ['FAIL - critical issues must be fixed', SECTIONS[0].color],
+    warning: ['NEEDS REVIEW', SECTIONS[1].color],
+    pass: ['PASS - ready for Carlo', SECTIONS[3].color],
+  } as const;
+  const [overallLabel, overallColor] = overall[results.overallStatus];
+  flow.write(overallLabel, { size: 16, font: fonts.bold, color: overallColor });
+  flow.space(8);
+  drawStat(flow, fonts.bold, 0, results.passed.length, 'Passed', SECTIONS[3].color);
+  drawStat(flow, fonts.bold, 1, results.warnings.length, 'Warnings', SECTIONS[1].color);
+  drawStat(flow, fonts.bold, 2, results.criticalIssues.length, 'Critical', SECTIONS[0].color);
+  drawStat(flow, fonts.bold, 3, results.manualReview.length, 'Manual', SECTIONS[2].color);
+  flow.space(62);
+  flow.write(results.summary);
+
+  // Each section with page references
+  SECTIONS.forEach(({ key, title, color }) => {
+    const items = results[key] as CheckItem[];
+    if (items.length === 0) return;
+    flow.space(14);
+    flow.ensureRoom(40);
+    flow.write(`${title} (${items.length})`, { size: 13, font: fonts.bold, color });
+    items.forEach((item) => {
+      flow.space(4);
+      flow.ensureRoom(28);
+      const refs = [item.page ? `Page ${item.page}` : '', item.source === 'rule' ? 'Rule' : item.source === 'ai' ? 'AI' : ''].filter(Boolean);
+      flow.write(`${item.label}${refs.length > 0 ? `  (${refs.join(', ')})` : ''}`, { font: fonts.bold });
+      flow.write(item.notes, { size: 9, indent: 12, color: rgb(0.25, 0.25, 0.25) });
+    });
+  });
+
+  // Footer on every page
+  const pages = doc.getPages();
+  pages.forEach((page, index) => {
+    const text = `M|R Walls Shop Drawing QC - ${printable(filename)} - page ${index + 1} of ${pages.length}`;
+    page.drawText(text, { x: PAGE_MARGIN, y: PAGE_MARGIN / 2, size: 8, font: fonts.regular, color: GRAY });
+  });
+
+  return doc.save();
+}
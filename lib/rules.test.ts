@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DEFAULT_DICTIONARY } from './dictionary';
+import { FIELD_LABEL_PATTERN, isDuplicateOfRule, mergeRuleFindings, RULE_CHECK_IDS, runRuleChecks } from './rules';
+import { pdfOf } from './testFixtures';
+import type { CheckItem } from './types';
+
+const labelBefore = (text: string) => {
+  const match = text.match(FIELD_LABEL_PATTERN);
+  return match ? match[1] ?? match[2] : null;
+};
+
+describe('FIELD_LABEL_PATTERN', () => {
+  it('stops at the field before it', () => {
+    assert.equal(labelBefore('\nPROJECT: Lobby Wall  MRQ: '), 'MRQ');
+    assert.equal(labelBefore('PROJECT: Lobby Wall MRQ: '), 'MRQ');
+    assert.equal(labelBefore('MRQ: TBD Design: '), 'Design');
+  });
+
+  it('keeps two-word labels whole', () => {
+    assert.equal(labelBefore('foo  PRODUCTION #: '), 'PRODUCTION #');
+    assert.equal(labelBefore('x PRODUCTION #: '), 'PRODUCTION #');
+    assert.equal(labelBefore('\nDRAWN BY: '), 'DRAWN BY');
+    assert.equal(labelBefore('Job No.: '), 'Job No.');
+  });
+
+  it('needs a colon', () => {
+    assert.equal(labelBefore('PROJECT Lobby Wall '), null);
+  });
+});
+
+describe('runRuleChecks', () => {
+  it('names the field a placeholder sits in', () => {
+    const findings = runRuleChecks(pdfOf('PROJECT: Lobby Wall  MRQ: TBD  DRAWN BY: JS'), [RULE_CHECK_IDS.placeholders], DEFAULT_DICTIONARY);
+    const [placeholder] = [...findings.criticalIssues, ...findings.warnings];
+    assert.equal(placeholder.label, 'Placeholder: MRQ');
+    assert.equal(placeholder.matchedText, 'MRQ: TBD');
+    assert.equal(placeholder.page, 1);
+  });
+
+  it('leaves pages without a text layer to the model', () => {
+    const findings = runRuleChecks(pdfOf('TBD', 'PROJECT: Lobby Wall  MRQ: 1234  DRAWN BY: JS'), [RULE_CHECK_IDS.placeholders], DEFAULT_DICTIONARY);
+    assert.deepEqual(findings.checkedPages, [2]);
+    assert.deepEqual(findings.uncheckedPages, [1]);
+    assert.equal(findings.criticalIssues.length + findings.warnings.length, 0);
+  });
+});
+
+describe('isDuplicateOfRule', () => {
+  const rule: CheckItem = {
+    id: 'rule-1',
+    checkId: RULE_CHECK_IDS.placeholders,
+    label: 'Placeholder: MRQ',
+    status: 'fail',
+    notes: '',
+    page: 2,
+    source: 'rule',
+    matchedText: 'MRQ: TBD',
+  };
+
+  it('matches the same check on the same page however it is worded', () => {
+    const item: CheckItem = { id: 'ai-1', checkId: RULE_CHECK_IDS.placeholders, label: 'Unfilled MRQ number', status: 'fail', notes: '', page: 2 };
+    assert.equal(isDuplicateOfRule(item, [rule]), true);
+  });
+
+  it('keeps the same check on another page', () => {
+    const item: CheckItem = { id: 'ai-1', checkId: RULE_CHECK_IDS.placeholders, label: 'Unfilled MRQ number', status: 'fail', notes: '', page: 3 };
+    assert.equal(isDuplicateOfRule(item, [rule]), false);
+  });
+
+  it('matches a finding quoting the matched text', () => {
+    const item: CheckItem = { id: 'ai-1', label: 'Title block', status: 'fail', notes: 'Title block reads "MRQ: TBD"' };
+    assert.equal(isDuplicateOfRule(item, [rule]), true);
+  });
+
+  it('drops model duplicates when merging', () => {
+    const item: CheckItem = { id: 'ai-1', checkId: RULE_CHECK_IDS.placeholders, label: 'MRQ missing', status: 'fail', notes: '', page: 2 };
+    const merged = mergeRuleFindings(
+      { overallStatus: 'pass', criticalIssues: [item], warnings: [], passed: [], manualReview: [] },
+      { criticalIssues: [rule], warnings: [], passed: [], checkIds: [RULE_CHECK_IDS.placeholders], checkedPages: [2], uncheckedPages: [] }
+    );
+    assert.deepEqual(
+      merged.criticalIssues.map((finding) => finding.id),
+      ['rule-1']
+    );
+    assert.equal(merged.overallStatus, 'fail');
+  });
+});
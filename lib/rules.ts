@@ -0,0 +1,241 @@
+import type { CheckItem, ModelResults } from './types';
+import { typoCorrections, type SpellingDictionary } from './dictionary';
+import { DIMENSION_CHECK_IDS, findChainErrors } from './dimensions';
+import { hasTextLayer, locateText, type PdfText } from './pdfText';
+import { overallStatusFor } from './schema';
+
+interface PlaceholderPattern {
+  id: string;
+  label: string;
+  regex: RegExp;
+}
+
+// Values left as placeholders in title blocks, notes and component lists
+export const PLACEHOLDER_PATTERNS: PlaceholderPattern[] = [
+  { id: 'tbd', label: 'TBD placeholder', regex: /\bTBD\b/g },
+  { id: 'tbc', label: 'TBC placeholder', regex: /\bTBC\b/g },
+  { id: 'xxx', label: 'XXX placeholder value', regex: /\bX{3,}W?\b/g },
+];
+
+// Field label directly before a placeholder, e.g. "PRODUCTION #: " or "MRQ: ".
+// Two-word labels ("DRAWN BY") only count from a line start or column gap, so
+// "PROJECT: Lobby Wall  MRQ: TBD" gives "MRQ" and not "Wall MRQ"; elsewhere
+// the label is one word, keeping a trailing "#", "No." or "By".
+export const FIELD_LABEL_PATTERN =
+  /(?:[\n\t,;|]|\s{2,})\s*([a-z][a-z0-9#.]*(?: [a-z0-9#.]+)?)\s*:\s*$|([a-z][a-z0-9.]*(?: (?:#|no\.?|by))?)\s*:\s*$/i;
+
+// Checklist registry ids the rules stand in for (see lib/checklist.ts)
+export const RULE_CHECK_IDS = {
+  typos: 'spelling_known_typos',
+  placeholders: 'placeholder_tbd',
+  dimensionChains: DIMENSION_CHECK_IDS.chains,
+};
+
+export interface RuleFindings {
+  criticalIssues: CheckItem[];
+  warnings: CheckItem[];
+  passed: CheckItem[];
+  // Rule checks that ran, i.e. were enabled in the checklist
+  checkIds: string[];
+  // Pages the rules could read; anything else still needs the model
+  checkedPages: number[];
+  uncheckedPages: number[];
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function findTypos(pdfText: PdfText, pages: number[], dictionary: SpellingDictionary): CheckItem[] {
+  const findings: CheckItem[] = [];
+  const corrections = typoCorrections(dictionary);
+  if (corrections.size === 0) return findings;
+  // Longest first, so a typo phrase wins over a typo word inside it
+  const typos = Array.from(corrections.keys()).sort((a, b) => b.length - a.length);
+  const wordPattern = new RegExp(`\\b(${typos.map((typo) => escapeRegExp(typo).replace(/ /g, '\\s+')).join('|')})\\b`, 'gi');
+
+  for (const page of pdfText.pages) {
+    if (!pages.includes(page.page)) continue;
+
+    const counts = new Map<string, { matched: string; count: number }>();
+    for (const match of Array.from(page.text.matchAll(wordPattern))) {
+      const key = match[1].toLowerCase().replace(/\s+/g, ' ');
+      const entry = counts.get(key);
+      if (entry) {
+        entry.count++;
+      } else {
+        counts.set(key, { matched: match[1], count: 1 });
+      }
+    }
+
+    counts.forEach(({ matched, count }, key) => {
+      findings.push({
+        id: `rule_spelling_${key.replace(/\W+/g, '_')}_p${page.page}`,
+        checkId: RULE_CHECK_IDS.typos,
+        label: 'Spelling Error',
+        status: 'fail',
+        notes: `"${matched}" should be "${corrections.get(key)}"${count > 1 ? ` (${count} occurrences)` : ''}`,
+        page: page.page,
+        source: 'rule',
+        matchedText: matched,
+        suggestion: corrections.get(key),
+        location: locateText(page, matched),
+      });
+    });
+  }
+
+  return findings;
+}
+
+function findPlaceholders(pdfText: PdfText, pages: number[]): CheckItem[] {
+  const findings: CheckItem[] = [];
+
+  for (const page of pdfText.pages) {
+    if (!pages.includes(page.page)) continue;
+
+    const seen = new Set<string>();
+    for (const pattern of PLACEHOLDER_PATTERNS) {
+      for (const match of Array.from(page.text.matchAll(pattern.regex))) {
+        const start = Math.max(0, (match.index ?? 0) - 40);
+        // The start of the page's text begins a field like a new line does
+        const before = (start === 0 ? '\n' : '') + page.text.slice(start, match.index);
+        const label = before.match(FIELD_LABEL_PATTERN);
+        // Drop a preceding field's own placeholder ("MRQ: TBD Design: TBD")
+        const field = label && (label[1] ?? label[2]).replace(/^(TBD|TBC|X{3,}W?)\s+/, '');
+        const matched = field ? `${field}: ${match[0]}` : match[0];
+        if (seen.has(matched.toLowerCase())) continue;
+        seen.add(matched.toLowerCase());
+
+        findings.push({
+          id: `rule_placeholder_${pattern.id}_p${page.page}_${seen.size}`,
+          checkId: RULE_CHECK_IDS.placeholders,
+          label: field ? `Placeholder: ${field}` : pattern.label,
+          status: 'fail',
+          notes: `"${matched}" must be filled in before review`,
+          page: page.page,
+          source: 'rule',
+          matchedText: matched,
+          location: (field && locateText(page, field)) || locateText(page, match[0]),
+        });
+      }
+    }
+  }
+
+  return findings;
+}
+
+// Run the rules for whichever of their checks are enabled in the checklist
+export function runRuleChecks(pdfText: PdfText, enabledCheckIds: string[], dictionary: SpellingDictionary): RuleFindings {
+  const checkedPages = pdfText.pages.filter(hasTextLayer).map((p) => p.page);
+  const uncheckedPages = pdfText.pages.filter((p) => !hasTextLayer(p)).map((p) => p.page);
+
+  const checkIds = Object.values(RULE_CHECK_IDS).filter((id) => enabledCheckIds.includes(id));
+  const checkTypos = checkIds.includes(RULE_CHECK_IDS.typos);
+  const checkPlaceholders = checkIds.includes(RULE_CHECK_IDS.placeholders);
+  const checkChains = checkIds.includes(RULE_CHECK_IDS.dimensionChains);
+  const typos = checkTypos ? findTypos(pdfText, checkedPages, dictionary) : [];
+  const placeholders = checkPlaceholders ? findPlaceholders(pdfText, checkedPages) : [];
+  const chains = checkChains ? findChainErrors(pdfText, checkedPages) : { findings: [], checked: 0 };
+
+  const passed: CheckItem[] = [];
+  if (checkedPages.length > 0) {
+    if (checkTypos && typos.length === 0) {
+      passed.push({
+        id: 'rule_spelling_known_typos',
+        checkId: RULE_CHECK_IDS.typos,
+        label: 'Known Typos',
+        status: 'pass',
+        notes: `None of the known typos found on ${checkedPages.length} text page${checkedPages.length > 1 ? 's' : ''}`,
+        source: 'rule',
+      });
+    }
+    if (checkPlaceholders && placeholders.length === 0) {
+      passed.push({
+        id: 'rule_placeholder_none',
+        checkId: RULE_CHECK_IDS.placeholders,
+        label: 'No TBD Placeholders',
+        status: 'pass',
+        notes: 'No TBD/TBC/XXX placeholders in the text layer',
+        source: 'rule',
+      });
+    }
+    if (checkChains && chains.checked > 0 && chains.findings.length === 0) {
+      passed.push({
+        id: 'rule_dimension_chains',
+        checkId: RULE_CHECK_IDS.dimensionChains,
+        label: 'Dimension Chains Add Up',
+        status: 'pass',
+        notes: `${chains.checked} dimension chain${chains.checked > 1 ? 's' : ''} sum to their overall dimensions`,
+        source: 'rule',
+      });
+    }
+  }
+
+  return {
+    criticalIssues: [...typos, ...placeholders, ...chains.findings],
+    warnings: [],
+    passed,
+    checkIds,
+    checkedPages: checkIds.length > 0 ? checkedPages : [],
+    uncheckedPages,
+  };
+}
+
+// Prompt addendum telling the model which checks the rules already settled.
+// With a range, only pages in that batch are mentioned, numbered from its start.
+export function describeRuleCoverage(findings: RuleFindings, range?: { startPage: number; endPage: number }): string {
+  const local = (pages: number[]) =>
+    range ? pages.filter((p) => p >= range.startPage && p <= range.endPage).map((p) => p - range.startPage + 1) : pages;
+  const checkedPages = local(findings.checkedPages);
+  const uncheckedPages = local(findings.uncheckedPages);
+
+  if (checkedPages.length === 0) {
+    return '';
+  }
+
+  let note =
+    `AUTOMATED TEXT CHECKS: ${findings.checkIds.map((id) => `[${id}]`).join(', ')} ` +
+    `were already checked against the PDF text layer on page(s) ${checkedPages.join(', ')}. ` +
+    'Do NOT report those checks on those pages and do NOT add pass items for them - they are merged in separately.';
+  if (findings.checkIds.includes(RULE_CHECK_IDS.typos) || findings.checkIds.includes(RULE_CHECK_IDS.placeholders)) {
+    note += ' On those pages only report other spelling errors, and placeholders that appear in images or raster content.';
+  }
+
+  if (uncheckedPages.length > 0) {
+    note += ` Page(s) ${uncheckedPages.join(', ')} have no readable text layer - run those checks on those pages.`;
+  }
+
+  return note;
+}
+
+// A model finding on the check and page of a rule finding, or quoting its
+// matched text; the model words the same hit in its own way
+export function isDuplicateOfRule(item: CheckItem, ruleItems: CheckItem[]): boolean {
+  const text = `${item.label} ${item.notes}`.toLowerCase();
+  return ruleItems.some(
+    (rule) =>
+      (item.page === undefined || item.page === rule.page) &&
+      ((!!item.checkId && item.checkId === rule.checkId) || (!!rule.matchedText && text.includes(rule.matchedText.toLowerCase())))
+  );
+}
+
+interface MergeableResults {
+  overallStatus: ModelResults['overallStatus'];
+  criticalIssues: CheckItem[];
+  warnings: CheckItem[];
+  passed: CheckItem[];
+  manualReview: CheckItem[];
+}
+
+// Merge rule findings into the model's results. Rule hits win over model
+// duplicates since they carry exact page numbers and matched text.
+export function mergeRuleFindings<T extends MergeableResults>(results: T, findings: RuleFindings): T {
+  const ruleItems = [...findings.criticalIssues, ...findings.warnings];
+  const tagAi = (items: CheckItem[] = []) =>
+    items.filter((item) => !isDuplicateOfRule(item, ruleItems)).map((item) => ({ ...item, source: item.source ?? ('ai' as const) }));
+
+  const criticalIssues = [...findings.criticalIssues, ...tagAi(results.criticalIssues)];
+  const warnings = [...findings.warnings, ...tagAi(results.warnings)];
+  const passed = [...findings.passed, ...tagAi(results.passed)];
+  const manualReview = tagAi(results.manualReview);
+
+  return { ...results, overallStatus: overallStatusFor({ criticalIssues, warnings }), criticalIssues, warnings, passed, manualReview };
+}
@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { overallStatusFor, parseModelJson, validateModelResults } from './schema';
+
+const reply = (changes: Record<string, unknown> = {}) => ({
+  overallStatus: 'fail',
+  summary: 'One typo in the general notes',
+  criticalIssues: [{ id: 'typo_1', checkId: 'spelling', label: 'Spelling Error', status: 'fail', notes: '"Existig" should be "Existing"', page: 2 }],
+  warnings: [],
+  passed: [{ id: 'mrq_1', checkId: 'placeholders', label: 'MRQ # filled in', status: 'pass', notes: '' }],
+  manualReview: [],
+  extractedInfo: { projectName: 'Lobby Wall', location: 'Los Angeles, CA', version: 'V2', drawnBy: 'JS' },
+  pageCount: 3,
+  ...changes,
+});
+
+const errorsOf = (raw: unknown, pageCount?: number, checkIds?: string[]) => {
+  const result = validateModelResults(raw, pageCount, checkIds);
+  return result.ok ? [] : result.errors;
+};
+
+describe('validateModelResults', () => {
+  it('accepts a reply in the response format', () => {
+    const result = validateModelResults(reply(), 3, ['spelling', 'placeholders']);
+    assert.equal(result.ok, true);
+  });
+
+  it('lists every problem with a path to it', () => {
+    const errors = errorsOf(
+      reply({
+        overallStatus: 'ok',
+        warnings: [{ id: 'typo_1', label: '', status: 'fail', notes: '', page: 0 }],
+        manualReview: undefined,
+        extractedInfo: { projectName: 'Lobby Wall' },
+      })
+    );
+    assert.deepEqual(errors, [
+      'overallStatus must be one of pass, warning, fail',
+      'warnings[0].label must be a non-empty string',
+      'warnings[0].status must be "warning", got "fail"',
+      'warnings[0].page must be a positive integer',
+      'manualReview must be an array',
+      'extractedInfo.location must be a string (use "" if not found)',
+      'extractedInfo.version must be a string (use "" if not found)',
+      'extractedInfo.drawnBy must be a string (use "" if not found)',
+    ]);
+  });
+
+  it('refuses repeated ids, pages past the end and unlisted check ids', () => {
+    const duplicate = { id: 'typo_1', checkId: 'logo', label: 'Logo', status: 'warning', notes: '', page: 4 };
+    assert.deepEqual(errorsOf(reply({ warnings: [duplicate] }), 3, ['spelling', 'placeholders']), [
+      'warnings[0].page 4 is beyond the last page (3)',
+      'warnings[0].checkId "logo" is not one of the listed check ids',
+    ]);
+    assert.deepEqual(errorsOf(reply({ warnings: [{ ...duplicate, checkId: 'spelling', page: 1 }] }), 3, ['spelling', 'placeholders']), [
+      'warnings[0].id "typo_1" is not unique',
+    ]);
+  });
+
+  it('refuses a reply that is not an object', () => {
+    assert.deepEqual(errorsOf([reply()]), ['Response must be a JSON object']);
+  });
+});
+
+describe('parseModelJson', () => {
+  it('reads a bare or fenced JSON reply', () => {
+    assert.deepEqual(parseModelJson('{"pageCount": 3}'), { pageCount: 3 });
+    assert.deepEqual(parseModelJson('```json\n{"pageCount": 3}\n```'), { pageCount: 3 });
+  });
+
+  it('finds the object in prose around it', () => {
+    assert.deepEqual(parseModelJson('Here is the review:\n{"summary": "a {b} c"}\nLet me know.'), { summary: 'a {b} c' });
+  });
+
+  it('is undefined when nothing parses', () => {
+    assert.equal(parseModelJson('I could not read the drawing.'), undefined);
+    assert.equal(parseModelJson('{"summary": "cut off'), undefined);
+  });
+});
+
+describe('overallStatusFor', () => {
+  const item = { id: 'a', label: 'A', status: 'fail' as const, notes: '' };
+
+  it('fails with any critical issue and warns with any warning', () => {
+    assert.equal(overallStatusFor({ criticalIssues: [item], warnings: [{ ...item, status: 'warning' }] }), 'fail');
+    assert.equal(overallStatusFor({ criticalIssues: [], warnings: [{ ...item, status: 'warning' }] }), 'warning');
+    assert.equal(overallStatusFor({ criticalIssues: [], warnings: [] }), 'pass');
+  });
+});
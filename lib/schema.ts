@@ -0,0 +1,347 @@
+import type { CheckItem, CornerJoint, FeatureEvidence, LedRun, LedSystem, ModelResults, SheetInfo, Status } from './types';
+
+export const OVERALL_STATUSES = ['pass', 'warning', 'fail'] as const;
+
+// Each results section only ever holds items of one status
+export const SECTION_STATUS = {
+  criticalIssues: 'fail',
+  warnings: 'warning',
+  passed: 'pass',
+  manualReview: 'pending',
+} as const satisfies Record<string, Status>;
+
+type Section = keyof typeof SECTION_STATUS;
+
+// A report fails with any critical issue and warns with any warning, whatever
+// the model said; every step that changes the findings settles it with this
+export function overallStatusFor(results: Pick<ModelResults, 'criticalIssues' | 'warnings'>): ModelResults['overallStatus'] {
+  return results.criticalIssues.length > 0 ? 'fail' : results.warnings.length > 0 ? 'warning' : 'pass';
+}
+
+const SECTIONS = Object.keys(SECTION_STATUS) as Section[];
+
+const EXTRACTED_INFO_FIELDS = ['projectName', 'location', 'version', 'drawnBy'] as const;
+
+const SHEET_TEXT_FIELDS = [
+  'projectName',
+  'location',
+  'mrqNumber',
+  'productionNumber',
+  'design',
+  'version',
+  'date',
+  'scale',
+  'drawnBy',
+  'drawingType',
+] as const;
+
+const PROJECT_FEATURES = ['isBacklit', 'hasCutouts', 'hasCorners', 'hasLogos'];
+
+const LED_NUMBER_FIELDS = ['spacingInches', 'rolls', 'drivers', 'driverWatts', 'receivers', 'amplifiers', 'totalWattage'] as const;
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; errors: string[] };
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+interface ItemContext {
+  pageCount?: number;
+  checkIds?: string[];
+}
+
+function validateItem(item: unknown, path: string, expected: Status, context: ItemContext, errors: string[]): item is CheckItem {
+  if (!isObject(item)) {
+    errors.push(`${path} must be an object`);
+    return false;
+  }
+
+  const before = errors.length;
+  for (const field of ['id', 'label', 'notes'] as const) {
+    if (typeof item[field] !== 'string' || (field !== 'notes' && !(item[field] as string).trim())) {
+      errors.push(`${path}.${field} must be a non-empty string`);
+    }
+  }
+  if (item.status !== expected) {
+    errors.push(`${path}.status must be "${expected}", got ${JSON.stringify(item.status)}`);
+  }
+  if (item.page !== undefined && item.page !== null) {
+    if (typeof item.page !== 'number' || !Number.isInteger(item.page) || item.page < 1) {
+      errors.push(`${path}.page must be a positive integer`);
+    } else if (context.pageCount && item.page > context.pageCount) {
+      errors.push(`${path}.page ${item.page} is beyond the last page (${context.pageCount})`);
+    }
+  }
+  for (const field of ['matchedText', 'suggestion'] as const) {
+    if (item[field] !== undefined && item[field] !== null && typeof item[field] !== 'string') {
+      errors.push(`${path}.${field} must be a string`);
+    }
+  }
+  if (item.checkId !== undefined && context.checkIds) {
+    if (typeof item.checkId !== 'string' || !context.checkIds.includes(item.checkId)) {
+      errors.push(`${path}.checkId ${JSON.stringify(item.checkId)} is not one of the listed check ids`);
+    }
+  }
+  return errors.length === before;
+}
+
+// Strict check of the model's reply against the RESPONSE FORMAT. pageCount,
+// when known from the PDF itself, bounds every page reference; checkIds, when
+// given, are the only checklist ids a finding may point at.
+export function validateModelResults(raw: unknown, pageCount?: number, checkIds?: string[]): ValidationResult<ModelResults> {
+  const errors: string[] = [];
+
+  if (!isObject(raw)) {
+    return { ok: false, errors: ['Response must be a JSON object'] };
+  }
+
+  if (!OVERALL_STATUSES.includes(raw.overallStatus as (typeof OVERALL_STATUSES)[number])) {
+    errors.push(`overallStatus must be one of ${OVERALL_STATUSES.join(', ')}`);
+  }
+  if (typeof raw.summary !== 'string' || !raw.summary.trim()) {
+    errors.push('summary must be a non-empty string');
+  }
+
+  const ids = new Set<string>();
+  for (const section of SECTIONS) {
+    const items = raw[section];
+    if (!Array.isArray(items)) {
+      errors.push(`${section} must be an array`);
+      continue;
+    }
+    items.forEach((item, index) => {
+      const path = `${section}[${index}]`;
+      if (!validateItem(item, path, SECTION_STATUS[section], { pageCount, checkIds }, errors)) return;
+      if (ids.has(item.id)) {
+        errors.push(`${path}.id "${item.id}" is not unique`);
+      }
+      ids.add(item.id);
+    });
+  }
+
+  if (!isObject(raw.extractedInfo)) {
+    errors.push('extractedInfo must be an object');
+  } else {
+    for (const field of EXTRACTED_INFO_FIELDS) {
+      if (typeof raw.extractedInfo[field] !== 'string') {
+        errors.push(`extractedInfo.${field} must be a string (use "" if not found)`);
+      }
+    }
+  }
+
+  if (typeof raw.pageCount !== 'number' || !Number.isInteger(raw.pageCount) || raw.pageCount < 1) {
+    errors.push('pageCount must be a positive integer');
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+  return { ok: true, value: raw as unknown as ModelResults };
+}
+
+// Per-sheet title block facts: exactly one entry per page of the PDF sent
+export function validateSheets(raw: unknown, pageCount: number): ValidationResult<SheetInfo[]> {
+  if (!Array.isArray(raw)) {
+    return { ok: false, errors: ['sheets must be an array with one entry per page'] };
+  }
+
+  const errors: string[] = [];
+  const pages = new Set<number>();
+  raw.forEach((sheet, index) => {
+    const path = `sheets[${index}]`;
+    if (!isObject(sheet)) {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+    if (typeof sheet.page !== 'number' || !Number.isInteger(sheet.page) || sheet.page < 1 || sheet.page > pageCount) {
+      errors.push(`${path}.page must be between 1 and ${pageCount}`);
+    } else if (pages.has(sheet.page)) {
+      errors.push(`${path}.page ${sheet.page} is listed twice`);
+    } else {
+      pages.add(sheet.page);
+    }
+    if (typeof sheet.hasLogo !== 'boolean') {
+      errors.push(`${path}.hasLogo must be true or false`);
+    }
+    for (const field of SHEET_TEXT_FIELDS) {
+      if (typeof sheet[field] !== 'string') {
+        errors.push(`${path}.${field} must be a string (use "" if not shown)`);
+      }
+    }
+  });
+  if (errors.length === 0 && pages.size !== pageCount) {
+    errors.push(`sheets must have one entry for each of the ${pageCount} pages`);
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+  return { ok: true, value: raw as SheetInfo[] };
+}
+
+// Project features the model saw on the sheets. Optional: a reply without
+// them just adds nothing to the text-layer detection.
+export function validateProjectFeatures(raw: unknown, pageCount?: number): ValidationResult<Omit<FeatureEvidence, 'source'>[]> {
+  if (raw === undefined || raw === null) {
+    return { ok: true, value: [] };
+  }
+  if (!Array.isArray(raw)) {
+    return { ok: false, errors: ['projectFeatures must be an array'] };
+  }
+
+  const errors: string[] = [];
+  raw.forEach((entry, index) => {
+    const path = `projectFeatures[${index}]`;
+    if (!isObject(entry)) {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+    if (!PROJECT_FEATURES.includes(entry.feature as string)) {
+      errors.push(`${path}.feature must be one of ${PROJECT_FEATURES.join(', ')}`);
+    }
+    if (typeof entry.text !== 'string' || !entry.text.trim()) {
+      errors.push(`${path}.text must be a non-empty string`);
+    }
+    if (entry.page !== undefined && entry.page !== null) {
+      if (typeof entry.page !== 'number' || !Number.isInteger(entry.page) || entry.page < 1 || (pageCount && entry.page > pageCount)) {
+        errors.push(`${path}.page must be a page of this PDF`);
+      }
+    }
+  });
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+  return { ok: true, value: raw as Omit<FeatureEvidence, 'source'>[] };
+}
+
+// The LED layout of a backlit wall. null when the drawing has none; numbers
+// the drawing doesn't state may be null and are dropped.
+export function validateLedSystem(raw: unknown, pageCount?: number): ValidationResult<LedSystem | undefined> {
+  if (raw === undefined || raw === null) {
+    return { ok: true, value: undefined };
+  }
+  if (!isObject(raw)) {
+    return { ok: false, errors: ['ledSystem must be an object or null'] };
+  }
+
+  const errors: string[] = [];
+  const isPage = (page: unknown) =>
+    page === undefined || page === null || (typeof page === 'number' && Number.isInteger(page) && page >= 1 && (!pageCount || page <= pageCount));
+  const system: LedSystem = { product: typeof raw.product === 'string' ? raw.product : '', runs: [] };
+
+  if (raw.product !== undefined && raw.product !== null && typeof raw.product !== 'string') {
+    errors.push('ledSystem.product must be a string (use "" if not named)');
+  }
+  if (!Array.isArray(raw.runs)) {
+    errors.push('ledSystem.runs must be an array (use [] if the strip lengths are not shown)');
+  } else {
+    raw.runs.forEach((run, index) => {
+      const path = `ledSystem.runs[${index}]`;
+      if (!isObject(run)) {
+        errors.push(`${path} must be an object`);
+        return;
+      }
+      if (typeof run.count !== 'number' || !Number.isInteger(run.count) || run.count < 1) {
+        errors.push(`${path}.count must be a positive integer`);
+      }
+      if (typeof run.lengthInches !== 'number' || !(run.lengthInches > 0)) {
+        errors.push(`${path}.lengthInches must be a positive number`);
+      }
+      if (!isPage(run.page)) {
+        errors.push(`${path}.page must be a page of this PDF`);
+      }
+      system.runs.push({ count: run.count, lengthInches: run.lengthInches, page: run.page ?? undefined } as LedRun);
+    });
+  }
+  for (const field of LED_NUMBER_FIELDS) {
+    const value = raw[field];
+    if (value === undefined || value === null) continue;
+    if (typeof value !== 'number' || !(value >= 0)) {
+      errors.push(`ledSystem.${field} must be a number or null`);
+    } else {
+      system[field] = value;
+    }
+  }
+  if (!isPage(raw.page)) {
+    errors.push('ledSystem.page must be a page of this PDF');
+  } else if (typeof raw.page === 'number') {
+    system.page = raw.page;
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+  return { ok: true, value: system };
+}
+
+// Corners of a corners project with both sides' widths. Optional: a reply
+// without them leaves the corner check with nothing to verify.
+export function validateCorners(raw: unknown, pageCount?: number): ValidationResult<CornerJoint[]> {
+  if (raw === undefined || raw === null) {
+    return { ok: true, value: [] };
+  }
+  if (!Array.isArray(raw)) {
+    return { ok: false, errors: ['corners must be an array'] };
+  }
+
+  const errors: string[] = [];
+  raw.forEach((corner, index) => {
+    const path = `corners[${index}]`;
+    if (!isObject(corner)) {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+    if (corner.type !== 'inside' && corner.type !== 'outside') {
+      errors.push(`${path}.type must be "inside" or "outside"`);
+    }
+    if (typeof corner.thickness !== 'string') {
+      errors.push(`${path}.thickness must be a string (use "" if not stated)`);
+    }
+    if (!Array.isArray(corner.sides) || corner.sides.length !== 2) {
+      errors.push(`${path}.sides must list the two panels meeting at the corner`);
+    } else {
+      corner.sides.forEach((side, sideIndex) => {
+        if (!isObject(side) || ['label', 'layoutWidth', 'panelWidth'].some((field) => typeof side[field] !== 'string')) {
+          errors.push(`${path}.sides[${sideIndex}] must have label, layoutWidth and panelWidth strings`);
+        }
+      });
+    }
+    if (corner.page !== undefined && corner.page !== null) {
+      if (typeof corner.page !== 'number' || !Number.isInteger(corner.page) || corner.page < 1 || (pageCount && corner.page > pageCount)) {
+        errors.push(`${path}.page must be a page of this PDF`);
+      }
+    }
+  });
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+  return { ok: true, value: raw as CornerJoint[] };
+}
+
+// Pull the JSON object out of a model reply, tolerating code fences and
+// stray prose around it. Returns undefined when nothing parses.
+export function parseModelJson(text: string): unknown {
+  const trimmed = text
+    .trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '');
+
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    // fall through to the outermost braces
+  }
+
+  const start = trimmed.indexOf('{');
+  const end = trimmed.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(trimmed.slice(start, end + 1));
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,51 @@
+import { BlobNotFoundError, del, head, list, put } from '@vercel/blob';
+import { assertValidKey, type DocumentStore } from './types';
+
+const PREFIX = 'qc-data/';
+
+export class BlobStore implements DocumentStore {
+  async get<T>(key: string): Promise<T | null> {
+    assertValidKey(key);
+    try {
+      const blob = await head(`${PREFIX}${key}.json`);
+      // Bust the CDN cache; documents are overwritten in place
+      const response = await fetch(`${blob.url}?v=${Date.now()}`, { cache: 'no-store' });
+      if (!response.ok) {
+        throw new Error(`Failed to read ${key} from blob storage`);
+      }
+      return (await response.json()) as T;
+    } catch (error) {
+      if (error instanceof BlobNotFoundError) return null;
+      throw error;
+    }
+  }
+
+  async put<T>(key: string, value: T): Promise<void> {
+    assertValidKey(key);
+    await put(`${PREFIX}${key}.json`, JSON.stringify(value), {
+      access: 'public',
+      addRandomSuffix: false,
+      allowOverwrite: true,
+      contentType: 'application/json',
+      cacheControlMaxAge: 60,
+    });
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await list({ prefix: `${PREFIX}${prefix}`, cursor });
+      for (const blob of page.blobs) {
+        keys.push(blob.pathname.slice(PREFIX.length, -'.json'.length));
+      }
+      cursor = page.hasMore ? page.cursor : undefined;
+    } while (cursor);
+    return keys.sort();
+  }
+
+  async delete(key: string): Promise<void> {
+    assertValidKey(key);
+    await del(`${PREFIX}${key}.json`);
+  }
+}
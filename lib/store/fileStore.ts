@@ -0,0 +1,65 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { assertValidKey, type DocumentStore } from './types';
+
+export class FileStore implements DocumentStore {
+  private root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  private pathFor(key: string): string {
+    assertValidKey(key);
+    return path.join(this.root, `${key}.json`);
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.pathFor(key), 'utf8')) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async put<T>(key: string, value: T): Promise<void> {
+    const file = this.pathFor(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    // Write then rename so readers never see a half-written file; each write
+    // has its own temp file so concurrent writes of a key don't collide
+    const temp = `${file}.${randomUUID()}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(value, null, 2));
+    await fs.rename(temp, file);
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    const walk = async (dir: string) => {
+      let entries;
+      try {
+        entries = await fs.readdir(dir, { withFileTypes: true });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+        throw error;
+      }
+      for (const entry of entries) {
+        const full = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          await walk(full);
+        } else if (entry.name.endsWith('.json')) {
+          keys.push(path.relative(this.root, full).split(path.sep).join('/').slice(0, -'.json'.length));
+        }
+      }
+    };
+    // A prefix may end part-way through a name, so start from its directory
+    const start = prefix.endsWith('/') ? prefix : path.posix.dirname(prefix);
+    await walk(path.join(this.root, start));
+    return keys.filter((key) => key.startsWith(prefix)).sort();
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.pathFor(key), { force: true });
+  }
+}
@@ -0,0 +1,53 @@
+import { BlobStore } from './blobStore';
+import { FileStore } from './fileStore';
+import { SealedStore } from './sealedStore';
+import type { DocumentStore } from './types';
+
+export type { DocumentStore } from './types';
+
+let store: DocumentStore | null = null;
+
+// Vercel Blob when deployed (the local filesystem is read-only there),
+// files under .data/ for local development. QC_STORE overrides.
+export function storeKind(): 'blob' | 'file' {
+  return (process.env.QC_STORE || (process.env.BLOB_READ_WRITE_TOKEN ? 'blob' : 'file')) === 'blob' ? 'blob' : 'file';
+}
+
+export const dataDir = () => process.env.QC_DATA_DIR || '.data';
+
+// Blob storage can be read by anyone with a document's URL, so everything kept
+// there is sealed. The key is its own so QC_AUTH_SECRET can be rotated freely.
+function storeSecret(): string {
+  const value = process.env.QC_STORE_SECRET;
+  if (!value) {
+    throw new Error('QC_STORE_SECRET must be set to keep documents in blob storage');
+  }
+  return value;
+}
+
+export function getStore(): DocumentStore {
+  if (!store) {
+    store = storeKind() === 'blob' ? new SealedStore(new BlobStore(), storeSecret()) : new FileStore(dataDir());
+  }
+  return store;
+}
+
+// Updates of one document in this process, chained so concurrent
+// read-modify-writes of a key don't overwrite each other's changes
+const updates = new Map<string, Promise<unknown>>();
+
+// Read a document, change it and write it back, after any earlier update of
+// the same key. An error thrown by change rejects and leaves it unwritten.
+export function updateDocument<T>(key: string, change: (current: T | null) => T | Promise<T>): Promise<T> {
+  const update = (updates.get(key) ?? Promise.resolve()).then(async () => {
+    const value = await change(await getStore().get<T>(key));
+    await getStore().put(key, value);
+    return value;
+  });
+  const settled = update.catch(() => {});
+  updates.set(key, settled);
+  settled.then(() => {
+    if (updates.get(key) === settled) updates.delete(key);
+  });
+  return update;
+}
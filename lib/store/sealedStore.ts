@@ -0,0 +1,63 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import type { DocumentStore } from './types';
+
+// AES-256-GCM around another store, for documents that must stay secret
+// where the store underneath is readable by URL (Vercel Blob is public)
+interface SealedDocument {
+  // base64 of iv, auth tag and ciphertext
+  sealed: string;
+}
+
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+const isSealed = (value: unknown): value is SealedDocument =>
+  typeof value === 'object' && value !== null && typeof (value as SealedDocument).sealed === 'string';
+
+export class SealedStore implements DocumentStore {
+  private key: Buffer;
+
+  constructor(private inner: DocumentStore, secret: string) {
+    this.key = scryptSync(secret, 'qc-sealed-store', 32);
+  }
+
+  private seal<T>(value: T): SealedDocument {
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv('aes-256-gcm', this.key, iv);
+    const ciphertext = Buffer.concat([cipher.update(JSON.stringify(value), 'utf8'), cipher.final()]);
+    return { sealed: Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64') };
+  }
+
+  private open<T>(document: SealedDocument, key: string): T {
+    const bytes = Buffer.from(document.sealed, 'base64');
+    const decipher = createDecipheriv('aes-256-gcm', this.key, bytes.subarray(0, IV_BYTES));
+    decipher.setAuthTag(bytes.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+    try {
+      return JSON.parse(Buffer.concat([decipher.update(bytes.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]).toString('utf8')) as T;
+    } catch {
+      throw new Error(`Could not unseal ${key}; was the secret changed?`);
+    }
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const stored = await this.inner.get<unknown>(key);
+    if (stored === null) return null;
+    if (isSealed(stored)) return this.open<T>(stored, key);
+
+    // Written before sealing: seal it now so it stops being readable
+    await this.put(key, stored);
+    return stored as T;
+  }
+
+  async put<T>(key: string, value: T): Promise<void> {
+    await this.inner.put(key, this.seal(value));
+  }
+
+  list(prefix: string): Promise<string[]> {
+    return this.inner.list(prefix);
+  }
+
+  delete(key: string): Promise<void> {
+    return this.inner.delete(key);
+  }
+}
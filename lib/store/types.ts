@@ -0,0 +1,15 @@
+// Minimal JSON document store. Keys are slash-separated paths like
+// "checklist/versions/3"; values are plain JSON.
+export interface DocumentStore {
+  get<T>(key: string): Promise<T | null>;
+  put<T>(key: string, value: T): Promise<void>;
+  // Keys directly or indirectly under a prefix, sorted
+  list(prefix: string): Promise<string[]>;
+  delete(key: string): Promise<void>;
+}
+
+export function assertValidKey(key: string): void {
+  if (!/^[\w-]+(\/[\w.-]+)*$/.test(key) || key.split('/').includes('..')) {
+    throw new Error(`Invalid store key: ${key}`);
+  }
+}
@@ -0,0 +1,95 @@
+import { saveJob } from './jobStore';
+import { getStore, updateDocument } from './store';
+import type { AnalysisJob, Submission, SubmissionStatus, SubmissionSummary } from './types';
+
+const submissionKey = (id: string) => `submissions/${id}`;
+
+export type ReviewAction = 'approve' | 'return';
+
+const REVIEW_RESULTS: Record<ReviewAction, 'approved' | 'returned'> = {
+  approve: 'approved',
+  return: 'returned',
+};
+
+export class InvalidTransitionError extends Error {
+  constructor(public from: SubmissionStatus, action: string) {
+    super(`Can't ${action} a submission that is already ${from}`);
+    this.name = 'InvalidTransitionError';
+  }
+}
+
+const summarize = ({ results, history, blobUrl, ...submission }: Submission): SubmissionSummary => ({
+  ...submission,
+  criticalCount: results.criticalIssues.length,
+  warningCount: results.warnings.length,
+});
+
+export async function getSubmission(id: string): Promise<Submission | null> {
+  if (!/^[\w-]+$/.test(id)) {
+    return null;
+  }
+  return getStore().get<Submission>(submissionKey(id));
+}
+
+// Newest first
+export async function listSubmissions(status?: SubmissionStatus): Promise<SubmissionSummary[]> {
+  const store = getStore();
+  const keys = await store.list('submissions/');
+  const submissions = await Promise.all(keys.map((key) => store.get<Submission>(key)));
+
+  return submissions
+    .filter((submission): submission is Submission => submission !== null && (!status || submission.status === status))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .map(summarize);
+}
+
+// Hand a finished job's report to Carlo
+export async function createSubmission(job: AnalysisJob, submittedBy: string, drafterNotes: string): Promise<Submission> {
+  if (job.status !== 'done' || !job.results) {
+    throw new Error('Only a finished analysis can be submitted');
+  }
+
+  const now = new Date().toISOString();
+  const submission: Submission = {
+    id: crypto.randomUUID(),
+    jobId: job.id,
+    filename: job.filename,
+    blobUrl: job.blobUrl,
+    status: 'pending',
+    submittedBy,
+    drafterNotes,
+    createdAt: now,
+    updatedAt: now,
+    results: job.results,
+    history: [{ action: 'submitted', by: submittedBy, at: now, comment: drafterNotes }],
+  };
+
+  await getStore().put(submissionKey(submission.id), submission);
+  // So the drafter's report link shows the review status
+  await saveJob({ ...job, submissionId: submission.id });
+  console.log(`Submission ${submission.id} for ${job.filename} created by ${submittedBy}`);
+  return submission;
+}
+
+// Carlo approves or returns a pending submission. Decided on the stored
+// submission, so of two reviewers deciding at once the second is refused.
+export async function reviewSubmission(id: string, action: ReviewAction, by: string, comment: string): Promise<Submission> {
+  const status = REVIEW_RESULTS[action];
+  const reviewed = await updateDocument<Submission>(submissionKey(id), (submission) => {
+    if (!submission) {
+      throw new Error(`Submission ${id} not found`);
+    }
+    if (submission.status !== 'pending') {
+      throw new InvalidTransitionError(submission.status, action);
+    }
+    const now = new Date().toISOString();
+    return {
+      ...submission,
+      status,
+      updatedAt: now,
+      history: [...submission.history, { action: status, by, at: now, comment }],
+    };
+  });
+  console.log(`Submission ${id} ${status} by ${by}`);
+  return reviewed;
+}
@@ -0,0 +1,28 @@
+import type { PdfText } from './pdfText';
+import { overallStatusFor } from './schema';
+import type { AnalysisResults } from './types';
+
+// A PDF text layer with one page per text, without item positions
+export const pdfOf = (...texts: string[]): PdfText => ({
+  pageCount: texts.length,
+  pages: texts.map((text, index) => ({ page: index + 1, width: 1224, height: 792, text, items: [] })),
+});
+
+// A report for the unit tests: a three-page drawing with no findings, the
+// given fields changed and its status settled from its findings unless given
+export const report = (changes: Partial<AnalysisResults> = {}): AnalysisResults => {
+  const results: AnalysisResults = {
+    overallStatus: 'pass',
+    summary: '',
+    criticalIssues: [],
+    warnings: [],
+    passed: [],
+    manualReview: [],
+    pageCount: 3,
+    projectType: { isBacklit: false, hasCutouts: false, hasCorners: false, hasLogos: false },
+    extractedInfo: { projectName: 'Lobby Wall', location: '', version: 'V1', drawnBy: '', pageCount: 3 },
+    checklistVersion: 1,
+    ...changes,
+  };
+  return { ...results, overallStatus: changes.overallStatus ?? overallStatusFor(results) };
+};
@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { normalizeVersion, parseDrawingDate, valuesMatch } from './titleBlock';
+
+describe('normalizeVersion', () => {
+  it('reads "V2", "Rev 2" and "2" as the same version', () => {
+    assert.equal(normalizeVersion('V2'), '2');
+    assert.equal(normalizeVersion('Rev 2'), '2');
+    assert.equal(normalizeVersion('VERSION 2'), '2');
+    assert.equal(normalizeVersion('2'), '2');
+  });
+
+  it('keeps letter revisions', () => {
+    assert.equal(normalizeVersion('Rev B'), 'REVB');
+  });
+});
+
+describe('parseDrawingDate', () => {
+  it('reads US and ISO dates', () => {
+    const expected = Date.UTC(2025, 0, 15);
+    assert.equal(parseDrawingDate('01/15/2025'), expected);
+    assert.equal(parseDrawingDate('1/15/25'), expected);
+    assert.equal(parseDrawingDate('2025-01-15'), expected);
+  });
+
+  it('answers NaN for text it cannot read', () => {
+    assert.ok(isNaN(parseDrawingDate('TBD')));
+  });
+});
+
+describe('valuesMatch', () => {
+  it('ignores MRQ and production number prefixes and punctuation', () => {
+    assert.equal(valuesMatch('mrqNumber', 'MRQ-1234', '1234'), true);
+    assert.equal(valuesMatch('mrqNumber', 'MRQ# 1234', 'mrq 1234'), true);
+    assert.equal(valuesMatch('productionNumber', 'PROD-0042', '0042'), true);
+    assert.equal(valuesMatch('mrqNumber', 'MRQ-1234', '1243'), false);
+  });
+
+  it('compares versions by number', () => {
+    assert.equal(valuesMatch('version', 'V2', 'Rev 2'), true);
+    assert.equal(valuesMatch('version', 'V2', 'V3'), false);
+  });
+
+  it('only fails dates older than the record', () => {
+    assert.equal(valuesMatch('date', '01/15/2025', '2025-01-15'), true);
+    assert.equal(valuesMatch('date', '02/01/2025', '01/15/2025'), true);
+    assert.equal(valuesMatch('date', '01/01/2025', '01/15/2025'), false);
+    assert.equal(valuesMatch('date', 'TBD', '01/15/2025'), true);
+  });
+
+  it('accepts text that contains the other', () => {
+    assert.equal(valuesMatch('projectName', 'Lobby Wall - Tower B', 'lobby wall'), true);
+    assert.equal(valuesMatch('drawnBy', 'J. Smith', 'J Smith'), true);
+    assert.equal(valuesMatch('projectName', 'Lobby Wall', 'Atrium Ceiling'), false);
+  });
+});
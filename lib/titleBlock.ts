@@ -0,0 +1,231 @@
+import { overallStatusFor } from './schema';
+import type { AnalysisResults, CheckItem, ExtractedInfo, ModelResults, ProjectRecord, SheetInfo, TitleBlock } from './types';
+
+export const TITLE_BLOCK_FIELDS: { id: keyof TitleBlock; label: string }[] = [
+  { id: 'projectName', label: 'Project' },
+  { id: 'location', label: 'Location' },
+  { id: 'mrqNumber', label: 'MRQ #' },
+  { id: 'productionNumber', label: 'Production #' },
+  { id: 'design', label: 'Design' },
+  { id: 'version', label: 'Version' },
+  { id: 'date', label: 'Date' },
+  { id: 'scale', label: 'Scale' },
+  { id: 'drawnBy', label: 'Drawn by' },
+];
+
+export type RecordField = Exclude<keyof TitleBlock, 'scale'>;
+
+// Fields a project record holds expected values for; scale varies by sheet
+export const RECORD_FIELDS = TITLE_BLOCK_FIELDS.filter((field) => field.id !== 'scale') as { id: RecordField; label: string }[];
+
+// Findings from the record cross-check carry this id; it isn't a checklist check
+export const TITLE_BLOCK_CHECK_ID = 'title_block_record';
+
+// A wrong MRQ or production number sends the drawing to the wrong job
+const MISMATCH_STATUS: Record<RecordField, 'fail' | 'warning'> = {
+  projectName: 'warning',
+  location: 'warning',
+  mrqNumber: 'fail',
+  productionNumber: 'fail',
+  design: 'warning',
+  version: 'warning',
+  date: 'warning',
+  drawnBy: 'warning',
+};
+
+// Left for the placeholder rule to report
+const PLACEHOLDER_VALUE = /^(?:TBD|TBC|X{3,}W?|N\/?A|-+)$/i;
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// "V2", "Rev 2" and "2" are the same version
+export const normalizeVersion = (version: string) =>
+  version.toUpperCase().replace(/[^A-Z0-9]/g, '').replace(/^(VERSION|REVISION|REV|V)(?=\d)/, '');
+
+// "MRQ-1234", "MRQ# 1234" and "1234" are the same number
+const normalizeNumber = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]/g, '').replace(/^(MRQ|PROD|NO)(?=\d)/, '');
+
+// "01/15/2025", "1/15/25", "2025-01-15" or anything Date.parse reads; NaN otherwise
+export function parseDrawingDate(text: string): number {
+  const iso = text.match(/\b(\d{4})-(\d{1,2})-(\d{1,2})\b/);
+  if (iso) {
+    return Date.UTC(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+  }
+  const us = text.match(/\b(\d{1,2})[/.-](\d{1,2})[/.-](\d{4}|\d{2})\b/);
+  if (us) {
+    const year = Number(us[3]) < 100 ? Number(us[3]) + 2000 : Number(us[3]);
+    return Date.UTC(year, Number(us[1]) - 1, Number(us[2]));
+  }
+  return Date.parse(text);
+}
+
+const sheetValue = (sheet: SheetInfo, field: keyof TitleBlock) => (sheet[field] ?? '').trim();
+
+// The value most sheets show for a field
+function commonValue(sheets: SheetInfo[], field: keyof TitleBlock): string {
+  const counts = new Map<string, { value: string; count: number }>();
+  sheets.forEach((sheet) => {
+    const value = sheetValue(sheet, field);
+    if (!value) return;
+    const entry = counts.get(normalize(value));
+    if (entry) {
+      entry.count++;
+    } else {
+      counts.set(normalize(value), { value, count: 1 });
+    }
+  });
+
+  let best: { value: string; count: number } | undefined;
+  counts.forEach((entry) => {
+    if (!best || entry.count > best.count) best = entry;
+  });
+  return best?.value ?? '';
+}
+
+// The report header's project info, from the sheets' title blocks where they
+// have it and the model's whole-set reading otherwise
+export function titleBlockInfo(modelInfo: ModelResults['extractedInfo'], sheets: SheetInfo[] = [], pageCount: number): ExtractedInfo {
+  const info: Partial<TitleBlock> = {};
+  TITLE_BLOCK_FIELDS.forEach(({ id }) => {
+    info[id] = commonValue(sheets, id) || (modelInfo as Partial<TitleBlock>)[id] || '';
+  });
+  return { ...(info as TitleBlock), pageCount };
+}
+
+// Does a title block value agree with what the record expects for the field?
+export function valuesMatch(field: RecordField, found: string, expected: string): boolean {
+  switch (field) {
+    case 'mrqNumber':
+    case 'productionNumber':
+      return normalizeNumber(found) === normalizeNumber(expected);
+    case 'version':
+      return normalizeVersion(found) === normalizeVersion(expected);
+    case 'date': {
+      // Only an older date is a problem; unreadable dates are left to the model
+      const foundDate = parseDrawingDate(found);
+      const expectedDate = parseDrawingDate(expected);
+      return isNaN(foundDate) || isNaN(expectedDate) || foundDate >= expectedDate;
+    }
+    default: {
+      const a = normalize(found);
+      const b = normalize(expected);
+      return a.includes(b) || b.includes(a);
+    }
+  }
+}
+
+const sameValue = (field: 'projectName' | 'mrqNumber' | 'productionNumber', a: string | undefined, b: string | undefined) => {
+  const value = a?.trim();
+  if (!value || !b?.trim() || PLACEHOLDER_VALUE.test(value)) return false;
+  return field === 'projectName' ? normalize(value) === normalize(b) : normalizeNumber(value) === normalizeNumber(b);
+};
+
+// Does a record belong to a drawing showing these title block values? Any of
+// MRQ #, production # or project name agreeing is enough, so a drawing with a
+// wrong number still finds its record and gets the number flagged.
+export function recordMatches(record: ProjectRecord, info: Partial<TitleBlock>): boolean {
+  return (['mrqNumber', 'productionNumber', 'projectName'] as const).some((field) => sameValue(field, info[field], record[field]));
+}
+
+// Are two records the same project? Numbers decide when both sides have them,
+// so two phases of one project with their own MRQ # stay separate.
+export function isSameProject(a: Partial<TitleBlock>, b: Partial<TitleBlock>): boolean {
+  for (const field of ['mrqNumber', 'productionNumber'] as const) {
+    if (a[field]?.trim() && b[field]?.trim()) {
+      return sameValue(field, a[field], b[field]);
+    }
+  }
+  return sameValue('projectName', a.projectName, b.projectName);
+}
+
+// Where feedback on a project's findings is kept: its MRQ #, else production
+// #, else name, from the first source that has one. Numbers come first as in
+// isSameProject, so the key survives a renamed project.
+export function projectKey(...sources: (Partial<TitleBlock> | null | undefined)[]): string | null {
+  const fields = [
+    ['mrqNumber', 'mrq'],
+    ['productionNumber', 'prod'],
+    ['projectName', 'name'],
+  ] as const;
+  for (const [field, prefix] of fields) {
+    for (const source of sources) {
+      const value = source?.[field]?.trim();
+      if (!value || PLACEHOLDER_VALUE.test(value)) continue;
+      const id = field === 'projectName' ? normalize(value).replace(/ /g, '-').slice(0, 60) : normalizeNumber(value).toLowerCase();
+      if (id) return `${prefix}-${id}`;
+    }
+  }
+  return null;
+}
+
+// One finding per field and wrong value, listing the sheets that show it
+export function checkTitleBlocks(sheets: SheetInfo[], record: ProjectRecord): CheckItem[] {
+  const findings: CheckItem[] = [];
+
+  RECORD_FIELDS.forEach(({ id: field, label }) => {
+    const expected = record[field]?.trim();
+    if (!expected) return;
+
+    const wrong = new Map<string, { value: string; pages: number[] }>();
+    sheets.forEach((sheet) => {
+      const value = sheetValue(sheet, field);
+      if (!value || PLACEHOLDER_VALUE.test(value) || valuesMatch(field, value, expected)) return;
+      const entry = wrong.get(normalize(value));
+      if (entry) {
+        entry.pages.push(sheet.page);
+      } else {
+        wrong.set(normalize(value), { value, pages: [sheet.page] });
+      }
+    });
+
+    wrong.forEach(({ value, pages }) => {
+      const where = `page${pages.length > 1 ? 's' : ''} ${pages.join(', ')}`;
+      findings.push({
+        id: `title_block_${field}_${findings.length + 1}`,
+        checkId: TITLE_BLOCK_CHECK_ID,
+        label: field === 'date' ? 'Stale Title Block Date' : `Wrong ${label}`,
+        status: MISMATCH_STATUS[field],
+        notes:
+          field === 'date'
+            ? `Date reads "${value}" on ${where}, older than ${expected} in the project record`
+            : `${label} reads "${value}" on ${where}; the project record says "${expected}"`,
+        page: pages[0],
+        source: 'rule',
+        matchedText: value,
+      });
+    });
+  });
+
+  return findings;
+}
+
+// Add the record cross-check to a report: the mismatches as findings, or a
+// pass item when every title block agrees with the record
+export function checkAgainstRecord(results: AnalysisResults, record: ProjectRecord): AnalysisResults {
+  const findings = checkTitleBlocks(results.sheets ?? [], record);
+  const criticalIssues = [...findings.filter((item) => item.status === 'fail'), ...results.criticalIssues];
+  const warnings = [...findings.filter((item) => item.status === 'warning'), ...results.warnings];
+  const passed =
+    findings.length === 0
+      ? [
+          ...results.passed,
+          {
+            id: 'title_block_record_match',
+            checkId: TITLE_BLOCK_CHECK_ID,
+            label: 'Title Block Matches Project Record',
+            status: 'pass' as const,
+            notes: `Title blocks agree with the record for ${record.projectName || `MRQ ${record.mrqNumber}`}`,
+            source: 'rule' as const,
+          },
+        ]
+      : results.passed;
+
+  return {
+    ...results,
+    projectRecord: record,
+    overallStatus: overallStatusFor({ criticalIssues, warnings }),
+    criticalIssues,
+    warnings,
+    passed,
+  };
+}
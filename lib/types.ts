@@ -0,0 +1,381 @@
+export type Status = 'pass' | 'warning' | 'fail' | 'pending' | 'skipped';
+
+// Where a finding came from: the deterministic text-layer rules or the model
+export type FindingSource = 'rule' | 'ai';
+
+// A spot on a page in PDF points, origin bottom-left of the unrotated page
+export interface TextBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CheckItem {
+  id: string;
+  // Checklist registry id this finding belongs to (see lib/checklist.ts)
+  checkId?: string;
+  label: string;
+  status: Status;
+  notes: string;
+  page?: number;
+  source?: FindingSource;
+  matchedText?: string;
+  // The correct spelling, on spelling findings
+  suggestion?: string;
+  // Where matchedText sits on the page, when the text layer has it
+  location?: TextBox;
+  // Set on findings an earlier analysis of the project had marked a false positive
+  dismissed?: { by: string; at: string; comment: string };
+}
+
+export type FeedbackVerdict = 'confirmed' | 'false_positive' | 'fixed';
+
+// Someone's verdict on a finding, kept per project (see lib/feedbackStore.ts).
+// False positives are left out of later analyses of the same project.
+export interface FindingFeedback {
+  // Same check, page and matched text or wording (see findingKey in lib/feedback.ts)
+  findingKey: string;
+  checkId?: string;
+  label: string;
+  notes: string;
+  page?: number;
+  source?: FindingSource;
+  verdict: FeedbackVerdict;
+  comment: string;
+  by: string;
+  at: string;
+  // The analysis the verdict was given on
+  jobId: string;
+  filename: string;
+}
+
+export interface ProjectAnswers {
+  isBacklit: boolean;
+  hasCutouts: boolean;
+  hasCorners: boolean;
+  hasLogos: boolean;
+}
+
+export type ProjectFeature = keyof ProjectAnswers;
+
+// Something on the drawing showing it has a project feature, e.g. an LED
+// driver callout for a backlit wall
+export interface FeatureEvidence {
+  feature: ProjectFeature;
+  page?: number;
+  text: string;
+  source: FindingSource;
+}
+
+// The project type read from the drawing itself, reconciled with the
+// drafter's answers (see lib/projectType.ts)
+export interface ProjectTypeDetection {
+  features: ProjectAnswers;
+  evidence: FeatureEvidence[];
+}
+
+export interface ExtractedInfo {
+  projectName: string;
+  location: string;
+  version: string;
+  drawnBy: string;
+  pageCount: number;
+  // Read from the sheets' title blocks; missing on older reports
+  mrqNumber?: string;
+  productionNumber?: string;
+  design?: string;
+  date?: string;
+  scale?: string;
+}
+
+// The fields of an M|R title block, "" when a sheet doesn't show one
+export interface TitleBlock {
+  projectName: string;
+  location: string;
+  mrqNumber: string;
+  productionNumber: string;
+  design: string;
+  version: string;
+  date: string;
+  scale: string;
+  drawnBy: string;
+}
+
+// Title block facts for one sheet, read from every page so whole-set checks
+// can be decided and the title blocks checked against the project record.
+// Sheets from older reports only have projectName, version and date.
+export interface SheetInfo extends TitleBlock {
+  page: number;
+  hasLogo: boolean;
+  drawingType: string;
+}
+
+// Expected title block values for a project, entered by hand or imported
+// from the job list CSV (see lib/projectRecords.ts)
+export interface ProjectRecord {
+  id: string;
+  projectName: string;
+  location: string;
+  mrqNumber: string;
+  productionNumber: string;
+  design: string;
+  version: string;
+  // Date the current drawings should carry; earlier title block dates are stale
+  date: string;
+  drawnBy: string;
+  updatedAt: string;
+}
+
+// One group of equal LED strip runs in a wiring diagram
+export interface LedRun {
+  count: number;
+  lengthInches: number;
+  page?: number;
+}
+
+// The LED layout of a backlit wall, read from its wiring diagram and
+// component list and verified against the LED catalog (see lib/ledCheck.ts).
+// Counts are missing when the drawing doesn't state them.
+export interface LedSystem {
+  // LED strip product as called out, "" when not named
+  product: string;
+  spacingInches?: number;
+  runs: LedRun[];
+  rolls?: number;
+  drivers?: number;
+  driverWatts?: number;
+  receivers?: number;
+  amplifiers?: number;
+  totalWattage?: number;
+  // Page with the component list
+  page?: number;
+}
+
+// One side of a butt-jointed corner, with widths as written on the drawing:
+// what the panel covers on the elevation layout and what it's cut to
+export interface CornerSide {
+  label: string;
+  layoutWidth: string;
+  panelWidth: string;
+}
+
+// A corner of a corners project, read by the model and checked for the
+// butt joint adjustment in code (see lib/dimensions.ts)
+export interface CornerJoint {
+  page?: number;
+  type: 'inside' | 'outside';
+  // Panel material thickness as stated, "" when the drawing doesn't say
+  thickness: string;
+  sides: CornerSide[];
+}
+
+// What the model is asked to return (see RESPONSE FORMAT in the analyze route)
+export interface ModelResults {
+  overallStatus: 'pass' | 'warning' | 'fail';
+  summary: string;
+  criticalIssues: CheckItem[];
+  warnings: CheckItem[];
+  passed: CheckItem[];
+  manualReview: CheckItem[];
+  extractedInfo: Omit<ExtractedInfo, 'pageCount'>;
+  pageCount: number;
+  // One per page, when the page count is known
+  sheets?: SheetInfo[];
+  // Features the model saw on the sheets, whatever the drafter answered
+  projectFeatures?: Omit<FeatureEvidence, 'source'>[];
+  // Corners projects only, when the corner panel width check runs
+  corners?: CornerJoint[];
+  // Backlit walls only, when the LED load check runs; in a report, with the
+  // counts read from the text layer filled in
+  ledSystem?: LedSystem;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// Tokens one model used in an analysis, priced in US dollars (see lib/usage.ts)
+export interface ModelUsage extends TokenUsage {
+  model: string;
+  costUsd: number;
+}
+
+export interface AnalysisUsage extends TokenUsage {
+  costUsd: number;
+  models: ModelUsage[];
+}
+
+// What the analyze route returns and the results step renders
+export interface AnalysisResults extends Omit<ModelResults, 'extractedInfo' | 'projectFeatures'> {
+  // The drafter's answers, which decided the checks that ran
+  projectType: ProjectAnswers;
+  // Missing on reports saved before detection existed
+  detectedType?: ProjectTypeDetection;
+  // The record the title blocks were checked against, if one was chosen or matched
+  projectRecord?: ProjectRecord;
+  extractedInfo: ExtractedInfo;
+  checklistVersion: number;
+  // ISO timestamp; missing on reports saved before it was recorded
+  analyzedAt?: string;
+  // The signed-in user who ran it, rather than the title block's "drawn by"
+  analyzedBy?: string;
+  // The Claude model that read the drawing; missing on older reports
+  model?: string;
+  // Tokens and cost of the model calls; missing on older reports
+  usage?: AnalysisUsage;
+  // Findings left out because they were marked false positives on an earlier
+  // analysis of the project; they don't count toward overallStatus
+  dismissed?: CheckItem[];
+}
+
+// Stable codes for why an analysis couldn't start or finish, sent with every
+// error response; the page picks its message and recovery action by code
+// (lib/errorGuides.ts)
+export type ErrorCode =
+  | 'invalid_results'
+  | 'page_too_large'
+  | 'document_rejected'
+  | 'pdf_unavailable'
+  | 'model_rate_limited'
+  | 'model_overloaded'
+  | 'model_unavailable'
+  | 'model_auth'
+  | 'model_request'
+  | 'credit_balance'
+  | 'budget_exceeded'
+  | 'analysis_limit'
+  | 'unknown';
+
+export interface AnalysisError {
+  error: string;
+  // Missing on jobs that failed before codes were recorded
+  code?: ErrorCode;
+  status: number;
+  details?: string[];
+}
+
+export type ProgressStage = 'fetched' | 'pages' | 'rules' | 'model' | 'batch' | 'document' | 'validated';
+
+// Progress of a running analysis, recorded on its job (lib/jobs.ts)
+export type AnalysisEvent =
+  | { type: 'progress'; stage: ProgressStage; message: string; percent: number }
+  // Findings as they arrive; the final result supersedes them
+  | { type: 'findings'; items: CheckItem[] };
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+// An analysis run in the background, polled by the page via /api/jobs/<id>.
+// The PDF stays in blob storage so a failed job can be retried as is.
+export interface AnalysisJob {
+  id: string;
+  status: JobStatus;
+  blobUrl: string;
+  filename: string;
+  projectType: ProjectAnswers;
+  // Project record picked by the drafter; otherwise one is matched from the title block
+  projectId?: string;
+  createdAt: string;
+  updatedAt: string;
+  attempts: number;
+  percent: number;
+  message: string;
+  log: string[];
+  // Findings so far; superseded by results once the job is done
+  findings: CheckItem[];
+  results?: AnalysisResults;
+  error?: AnalysisError;
+  // Set once the drafter sends the report to Carlo
+  submissionId?: string;
+  // The signed-in user who started the analysis; missing on older jobs
+  runBy?: string;
+  runById?: string;
+  // When the latest attempt started and stopped running
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+// A finished, failed or cancelled job as the history page lists it, kept
+// apart from the job so the list doesn't load every report
+export interface AnalysisSummary {
+  jobId: string;
+  filename: string;
+  blobUrl: string;
+  status: JobStatus;
+  runBy?: string;
+  createdAt: string;
+  finishedAt: string;
+  durationMs?: number;
+  projectType: ProjectAnswers;
+  projectName: string;
+  mrqNumber?: string;
+  // Only set for a finished job
+  overallStatus?: AnalysisResults['overallStatus'];
+  criticalCount: number;
+  warningCount: number;
+  checklistVersion?: number;
+  model?: string;
+  costUsd?: number;
+  error?: string;
+}
+
+// One side of a revision comparison, taken from a finished analysis job
+export interface RevisionSide {
+  jobId: string;
+  filename: string;
+  version: string;
+  pageCount: number;
+  overallStatus: ModelResults['overallStatus'];
+  checklistVersion: number;
+}
+
+export interface PageTextDiff {
+  page: number;
+  status: 'changed' | 'added' | 'removed';
+  added: string[];
+  removed: string[];
+}
+
+// What changed between two revisions of the same shop drawing
+export interface RevisionComparison {
+  previous: RevisionSide;
+  current: RevisionSide;
+  resolved: CheckItem[];
+  stillOpen: { previous: CheckItem; current: CheckItem }[];
+  introduced: CheckItem[];
+  // null when either title block version couldn't be read
+  versionChanged: boolean | null;
+  // null when either PDF has no usable text layer
+  pageDiffs: PageTextDiff[] | null;
+}
+
+export type SubmissionStatus = 'pending' | 'approved' | 'returned';
+
+// One entry per state change, for the audit trail
+export interface SubmissionEvent {
+  action: 'submitted' | 'approved' | 'returned';
+  by: string;
+  at: string;
+  comment: string;
+}
+
+// A drawing handed to Carlo for review, with the QC report as it was when submitted
+export interface Submission {
+  id: string;
+  jobId: string;
+  filename: string;
+  blobUrl: string;
+  status: SubmissionStatus;
+  submittedBy: string;
+  drafterNotes: string;
+  createdAt: string;
+  updatedAt: string;
+  results: AnalysisResults;
+  history: SubmissionEvent[];
+}
+
+export type SubmissionSummary = Omit<Submission, 'results' | 'history' | 'blobUrl'> & {
+  criticalCount: number;
+  warningCount: number;
+};
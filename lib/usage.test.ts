@@ -0,0 +1,99 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { TokenUsage } from './types';
+import { costOf, formatCost, monthOf, priceUsage, summarizeUsage, validateBudget, type UsageEntry } from './usage';
+
+const entry = (at: string, userName: string, project: string, costUsd: number): UsageEntry => ({
+  at,
+  userName,
+  project,
+  filename: `${project}.pdf`,
+  inputTokens: 1000,
+  outputTokens: 100,
+  costUsd,
+  models: [],
+});
+
+describe('costOf', () => {
+  it('prices tokens by model id prefix', () => {
+    assert.equal(costOf('claude-sonnet-4-20250514', { inputTokens: 1_000_000, outputTokens: 100_000 }), 4.5);
+    assert.equal(costOf('claude-3-5-haiku-20241022', { inputTokens: 500_000, outputTokens: 0 }), 0.4);
+  });
+
+  it('prices an unlisted model as the most expensive one', () => {
+    assert.equal(costOf('claude-next', { inputTokens: 0, outputTokens: 1_000_000 }), 75);
+  });
+});
+
+describe('priceUsage', () => {
+  it('adds up the models an analysis called', () => {
+    const usage = priceUsage(
+      new Map<string, TokenUsage>([
+        ['claude-sonnet-4-20250514', { inputTokens: 200_000, outputTokens: 10_000 }],
+        ['claude-3-5-haiku-20241022', { inputTokens: 100_000, outputTokens: 5_000 }],
+      ])
+    );
+    assert.equal(usage.inputTokens, 300_000);
+    assert.equal(usage.outputTokens, 15_000);
+    assert.equal(usage.costUsd.toFixed(2), '0.85');
+    assert.deepEqual(
+      usage.models.map((model) => [model.model, model.costUsd.toFixed(2)]),
+      [
+        ['claude-sonnet-4-20250514', '0.75'],
+        ['claude-3-5-haiku-20241022', '0.10'],
+      ]
+    );
+  });
+});
+
+describe('summarizeUsage', () => {
+  it('totals a month by day in order and by user and project, costliest first', () => {
+    const summary = summarizeUsage('2025-03', [
+      entry('2025-03-02T09:00:00.000Z', 'Jordan', 'Lobby Wall', 0.5),
+      entry('2025-03-01T16:00:00.000Z', 'Sam', 'Lobby Wall', 0.25),
+      entry('2025-03-02T23:30:00.000Z', 'Sam', 'Atrium', 1),
+    ]);
+    assert.deepEqual(summary.totals, { key: '2025-03', analyses: 3, inputTokens: 3000, outputTokens: 300, costUsd: 1.75 });
+    assert.deepEqual(
+      summary.byDay.map((day) => [day.key, day.analyses]),
+      [
+        ['2025-03-01', 1],
+        ['2025-03-02', 2],
+      ]
+    );
+    assert.deepEqual(
+      summary.byUser.map((user) => [user.key, user.costUsd]),
+      [
+        ['Sam', 1.25],
+        ['Jordan', 0.5],
+      ]
+    );
+    assert.deepEqual(
+      summary.byProject.map((project) => project.key),
+      ['Atrium', 'Lobby Wall']
+    );
+  });
+});
+
+describe('monthOf and formatCost', () => {
+  it('takes the UTC month', () => {
+    assert.equal(monthOf('2025-03-31T23:30:00.000-05:00'), '2025-04');
+  });
+
+  it('shows costs under a cent as such', () => {
+    assert.equal(formatCost(0.004), '<$0.01');
+    assert.equal(formatCost(0), '$0.00');
+    assert.equal(formatCost(12.345), '$12.35');
+  });
+});
+
+describe('validateBudget', () => {
+  it('takes positive amounts or no limit', () => {
+    assert.deepEqual(validateBudget({ monthlyUsd: 200, perUserMonthlyUsd: null }), []);
+    assert.deepEqual(validateBudget({ monthlyUsd: 0, perUserMonthlyUsd: '50' }), [
+      'Monthly budget must be a positive amount, or empty for no limit',
+      'Per-user budget must be a positive amount, or empty for no limit',
+    ]);
+    assert.deepEqual(validateBudget(null), ['Budget must be an object']);
+  });
+});
@@ -0,0 +1,138 @@
+import type { AnalysisUsage, ModelUsage, TokenUsage } from './types';
+
+// What analyses cost: tokens per model call priced from the list below,
+// kept per month (see lib/usageStore.ts) and checked against the budgets
+// set at /admin/usage before each new analysis.
+
+// One analysis, successful or not, as the usage ledger keeps it
+export interface UsageEntry extends AnalysisUsage {
+  at: string;
+  userId?: string;
+  userName: string;
+  // Project name or MRQ #, '' when none was found
+  project: string;
+  filename: string;
+  failed?: boolean;
+}
+
+// US dollars per calendar month (UTC); null means no limit
+export interface UsageBudget {
+  monthlyUsd: number | null;
+  perUserMonthlyUsd: number | null;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+export interface UsageTotals extends TokenUsage {
+  key: string;
+  analyses: number;
+  costUsd: number;
+}
+
+export interface UsageSummary {
+  month: string;
+  totals: UsageTotals;
+  byDay: UsageTotals[];
+  byUser: UsageTotals[];
+  byProject: UsageTotals[];
+}
+
+export const DEFAULT_BUDGET: UsageBudget = {
+  monthlyUsd: null,
+  perUserMonthlyUsd: null,
+  updatedAt: '1970-01-01T00:00:00.000Z',
+  updatedBy: 'Built-in',
+};
+
+// Anthropic list prices in US dollars per million tokens, matched by model
+// id prefix. Models not listed are priced as the most expensive one, so a
+// budget errs on the side of stopping early.
+const MODEL_PRICES: { prefix: string; input: number; output: number }[] = [
+  { prefix: 'claude-opus-4', input: 15, output: 75 },
+  { prefix: 'claude-sonnet-4', input: 3, output: 15 },
+  { prefix: 'claude-3-7-sonnet', input: 3, output: 15 },
+  { prefix: 'claude-3-5-sonnet', input: 3, output: 15 },
+  { prefix: 'claude-3-5-haiku', input: 0.8, output: 4 },
+  { prefix: 'claude-3-haiku', input: 0.25, output: 1.25 },
+];
+
+function priceOf(model: string) {
+  const price = MODEL_PRICES.find((entry) => model.startsWith(entry.prefix));
+  if (!price) {
+    console.warn(`No price for model ${model}; using the highest listed`);
+  }
+  return price ?? MODEL_PRICES.reduce((highest, entry) => (entry.output > highest.output ? entry : highest));
+}
+
+export function costOf(model: string, { inputTokens, outputTokens }: TokenUsage): number {
+  const price = priceOf(model);
+  return (inputTokens * price.input + outputTokens * price.output) / 1e6;
+}
+
+// One analysis's usage from the tokens of each model it called
+export function priceUsage(tokens: Map<string, TokenUsage>): AnalysisUsage {
+  const models: ModelUsage[] = [];
+  tokens.forEach((usage, model) => models.push({ model, ...usage, costUsd: costOf(model, usage) }));
+  return {
+    inputTokens: models.reduce((sum, entry) => sum + entry.inputTokens, 0),
+    outputTokens: models.reduce((sum, entry) => sum + entry.outputTokens, 0),
+    costUsd: models.reduce((sum, entry) => sum + entry.costUsd, 0),
+    models,
+  };
+}
+
+// "YYYY-MM" of a date, in UTC
+export const monthOf = (date: Date | string) => new Date(date).toISOString().slice(0, 7);
+
+export const formatCost = (usd: number) => (usd < 0.01 && usd > 0 ? '<$0.01' : `$${usd.toFixed(2)}`);
+
+function total(entries: UsageEntry[], key: string): UsageTotals {
+  return {
+    key,
+    analyses: entries.length,
+    inputTokens: entries.reduce((sum, entry) => sum + entry.inputTokens, 0),
+    outputTokens: entries.reduce((sum, entry) => sum + entry.outputTokens, 0),
+    costUsd: entries.reduce((sum, entry) => sum + entry.costUsd, 0),
+  };
+}
+
+function groupBy(entries: UsageEntry[], keyOf: (entry: UsageEntry) => string): UsageTotals[] {
+  const groups = new Map<string, UsageEntry[]>();
+  for (const entry of entries) {
+    const key = keyOf(entry);
+    groups.set(key, [...(groups.get(key) ?? []), entry]);
+  }
+  const totals: UsageTotals[] = [];
+  groups.forEach((group, key) => totals.push(total(group, key)));
+  return totals;
+}
+
+// A month's usage by day (in order) and by user and project (costliest first)
+export function summarizeUsage(month: string, entries: UsageEntry[]): UsageSummary {
+  const costliest = (a: UsageTotals, b: UsageTotals) => b.costUsd - a.costUsd;
+  return {
+    month,
+    totals: total(entries, month),
+    byDay: groupBy(entries, (entry) => entry.at.slice(0, 10)).sort((a, b) => a.key.localeCompare(b.key)),
+    byUser: groupBy(entries, (entry) => entry.userName).sort(costliest),
+    byProject: groupBy(entries, (entry) => entry.project).sort(costliest),
+  };
+}
+
+const isLimit = (value: unknown) => value === null || (typeof value === 'number' && isFinite(value) && value > 0);
+
+// Problems with edited budgets, empty when they can be saved
+export function validateBudget(budget: unknown): string[] {
+  if (typeof budget !== 'object' || budget === null) {
+    return ['Budget must be an object'];
+  }
+  const { monthlyUsd, perUserMonthlyUsd } = budget as Record<string, unknown>;
+  const errors: string[] = [];
+  if (!isLimit(monthlyUsd)) {
+    errors.push('Monthly budget must be a positive amount, or empty for no limit');
+  }
+  if (!isLimit(perUserMonthlyUsd)) {
+    errors.push('Per-user budget must be a positive amount, or empty for no limit');
+  }
+  return errors;
+}
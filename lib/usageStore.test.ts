@@ -0,0 +1,72 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, beforeEach, describe, it } from 'node:test';
+import type { SessionUser } from './auth';
+import { getStore } from './store';
+import { monthOf, type UsageEntry } from './usage';
+import { BudgetError, checkBudget, listUsage, recordUsage, saveBudget } from './usageStore';
+
+// A file store of its own, set before the store is first opened
+const dataDir = mkdtempSync(join(tmpdir(), 'qc-usage-'));
+process.env.QC_STORE = 'file';
+process.env.QC_DATA_DIR = dataDir;
+
+const drafter: SessionUser = { id: 'user-1', username: 'sam', name: 'Sam', role: 'drafter' };
+
+const spend = (userId: string, costUsd: number): UsageEntry => ({
+  at: new Date().toISOString(),
+  userId,
+  userName: userId,
+  project: 'Lobby Wall',
+  filename: 'lobby-wall.pdf',
+  inputTokens: 1000,
+  outputTokens: 100,
+  costUsd,
+  models: [],
+});
+
+after(() => rmSync(dataDir, { recursive: true, force: true }));
+
+describe('recordUsage', () => {
+  beforeEach(() => getStore().delete(`usage/${monthOf(new Date())}`));
+
+  it('keeps every entry of analyses finishing together', async () => {
+    await Promise.all([1, 2, 3, 4].map((n) => recordUsage(spend(`user-${n}`, n))));
+    const entries = await listUsage(monthOf(new Date()));
+    assert.deepEqual(entries.map((entry) => entry.userId).sort(), ['user-1', 'user-2', 'user-3', 'user-4']);
+  });
+
+  it('lists nothing for a malformed month', async () => {
+    assert.deepEqual(await listUsage('../users'), []);
+  });
+});
+
+describe('checkBudget', () => {
+  beforeEach(() => getStore().delete(`usage/${monthOf(new Date())}`));
+
+  it('lets analyses through without budgets', async () => {
+    await saveBudget({ monthlyUsd: null, perUserMonthlyUsd: null }, 'Carlo');
+    await recordUsage(spend(drafter.id, 1000));
+    await checkBudget(drafter);
+  });
+
+  it('refuses once the month is spent', async () => {
+    await saveBudget({ monthlyUsd: 10, perUserMonthlyUsd: null }, 'Carlo');
+    await recordUsage(spend('user-2', 9.99));
+    await checkBudget(drafter);
+    await recordUsage(spend('user-2', 0.01));
+    await assert.rejects(checkBudget(drafter), (error: Error) => error instanceof BudgetError && /budget of \$10\.00 is used up/.test(error.message));
+  });
+
+  it('refuses a user who has spent their share, but not the others', async () => {
+    await saveBudget({ monthlyUsd: 100, perUserMonthlyUsd: 5 }, 'Carlo');
+    await recordUsage(spend(drafter.id, 3));
+    await recordUsage(spend('user-2', 20));
+    await checkBudget(drafter);
+    await recordUsage(spend(drafter.id, 2));
+    await assert.rejects(checkBudget(drafter), (error: Error) => error instanceof BudgetError && /your \$5\.00 analysis budget/.test(error.message));
+    await checkBudget({ ...drafter, id: 'user-3' });
+  });
+});
@@ -0,0 +1,72 @@
+import type { SessionUser } from './auth';
+import { getStore, updateDocument } from './store';
+import { DEFAULT_BUDGET, formatCost, monthOf, type UsageBudget, type UsageEntry } from './usage';
+
+const ledgerKey = (month: string) => `usage/${month}`;
+const BUDGET_KEY = 'usage-budget/current';
+
+interface UsageLedger {
+  month: string;
+  entries: UsageEntry[];
+}
+
+export class BudgetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BudgetError';
+  }
+}
+
+export async function listUsage(month: string): Promise<UsageEntry[]> {
+  if (!/^\d{4}-\d{2}$/.test(month)) {
+    return [];
+  }
+  return (await getStore().get<UsageLedger>(ledgerKey(month)))?.entries ?? [];
+}
+
+// Appended one at a time, so analyses finishing together keep every entry
+export async function recordUsage(entry: UsageEntry): Promise<void> {
+  const month = monthOf(entry.at);
+  await updateDocument<UsageLedger>(ledgerKey(month), (ledger) => ({ month, entries: [...(ledger?.entries ?? []), entry] }));
+}
+
+export async function getBudget(): Promise<UsageBudget> {
+  return (await getStore().get<UsageBudget>(BUDGET_KEY)) ?? DEFAULT_BUDGET;
+}
+
+// Replace the budgets. Callers validate them first (see validateBudget).
+export async function saveBudget(budget: Pick<UsageBudget, 'monthlyUsd' | 'perUserMonthlyUsd'>, author: string): Promise<UsageBudget> {
+  const saved: UsageBudget = {
+    monthlyUsd: budget.monthlyUsd,
+    perUserMonthlyUsd: budget.perUserMonthlyUsd,
+    updatedAt: new Date().toISOString(),
+    updatedBy: author,
+  };
+  await getStore().put(BUDGET_KEY, saved);
+  return saved;
+}
+
+// Throw BudgetError when this month's spending has reached the monthly
+// budget, or the user's share has reached the per-user one. Runs before a
+// job is started, alongside the hourly rate limit.
+export async function checkBudget(user: SessionUser): Promise<void> {
+  const budget = await getBudget();
+  if (budget.monthlyUsd === null && budget.perUserMonthlyUsd === null) {
+    return;
+  }
+
+  const entries = await listUsage(monthOf(new Date()));
+  const spent = entries.reduce((sum, entry) => sum + entry.costUsd, 0);
+  if (budget.monthlyUsd !== null && spent >= budget.monthlyUsd) {
+    throw new BudgetError(
+      `This month's analysis budget of ${formatCost(budget.monthlyUsd)} is used up (${formatCost(spent)} spent). A reviewer can raise it on the usage page.`
+    );
+  }
+
+  const userSpent = entries.filter((entry) => entry.userId === user.id).reduce((sum, entry) => sum + entry.costUsd, 0);
+  if (budget.perUserMonthlyUsd !== null && userSpent >= budget.perUserMonthlyUsd) {
+    throw new BudgetError(
+      `You've used your ${formatCost(budget.perUserMonthlyUsd)} analysis budget for this month (${formatCost(userSpent)} spent). A reviewer can raise it on the usage page.`
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readSessionToken, SESSION_COOKIE } from '@/lib/auth/session';
+
+// Pages only reviewers use; API routes check roles themselves (see requireUser)
+const REVIEWER_PAGES = ['/review', '/admin'];
+
+// Everything but sign-in needs a session. Route handlers still look the user
+// up for their role and to record who did what.
+export async function middleware(request: NextRequest) {
+  const user = await readSessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+  const { pathname, search } = request.nextUrl;
+
+  if (!user) {
+    if (pathname.startsWith('/api/')) {
+      return NextResponse.json({ error: 'Sign in to continue' }, { status: 401 });
+    }
+    const login = new URL('/login', request.url);
+    login.searchParams.set('next', pathname + search);
+    return NextResponse.redirect(login);
+  }
+
+  if (user.role !== 'reviewer' && REVIEWER_PAGES.some((page) => pathname === page || pathname.startsWith(`${page}/`))) {
+    return NextResponse.redirect(new URL('/', request.url));
+  }
+  return NextResponse.next();
+}
+
+export const config = {
+  // /api/upload also takes Vercel Blob's upload-completed callback, which
+  // has no session; the route checks the user before issuing upload tokens
+  matcher: ['/((?!_next/static|_next/image|favicon.ico|login|api/auth|api/upload).*)'],
+};
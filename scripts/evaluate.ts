@@ -0,0 +1,141 @@
+import { loadEnvConfig } from '@next/env';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { analyzeDrawing } from '../lib/analyze';
+import {
+  diffRuns,
+  foundFindings,
+  formatRun,
+  matchFindings,
+  scoreDrawings,
+  validateLabels,
+  type DrawingLabels,
+  type DrawingOutcome,
+  type EvaluationRun,
+} from '../lib/evaluation';
+
+// Analyze every labeled drawing in the corpus folder, score the findings
+// against the labels and compare with the previous run:
+//
+//   npm run evaluate -- [corpus folder] [--against <run id>] [--store <folder>]
+//
+// The folder holds <drawing>.pdf with <drawing>.json labels (see
+// DrawingLabels in lib/evaluation.ts); runs are saved to its runs/ folder.
+// Uses the same provider as the app, but never the app's own store: the
+// checklist, dictionary, model settings and project records come from a file
+// store in the corpus folder's store/ (or --store, e.g. a copy of .data/),
+// built-in defaults where it has none.
+
+const DEFAULT_CORPUS = 'eval/corpus';
+
+function parseArgs(args: string[]) {
+  let corpus = DEFAULT_CORPUS;
+  let against: string | undefined;
+  let store: string | undefined;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--against') {
+      against = args[++i];
+    } else if (args[i] === '--store') {
+      store = args[++i];
+    } else {
+      corpus = args[i];
+    }
+  }
+  return { corpus: path.resolve(corpus), against, store: path.resolve(store ?? path.join(corpus, 'store')) };
+}
+
+async function readJson<T>(file: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+async function evaluateDrawing(corpus: string, drawing: string, run: { models: Set<string>; checklistVersions: Set<number> }): Promise<DrawingOutcome> {
+  const labels = await readJson<DrawingLabels>(path.join(corpus, `${drawing}.json`));
+  const problems = labels ? validateLabels(labels) : ['no labels file'];
+  if (!labels || problems.length > 0) {
+    return { drawing, expected: [], found: [], matches: [], error: `Labels: ${problems.join('; ')}` };
+  }
+
+  try {
+    const pdf = await fs.readFile(path.join(corpus, `${drawing}.pdf`));
+    const results = await analyzeDrawing({
+      pdfBuffer: pdf.buffer.slice(pdf.byteOffset, pdf.byteOffset + pdf.byteLength) as ArrayBuffer,
+      filename: `${drawing}.pdf`,
+      projectType: labels.projectType,
+      projectId: labels.projectId,
+      analyzedBy: 'Evaluation',
+      skipUsage: true,
+      skipFeedback: true,
+    });
+    if (results.model) run.models.add(results.model);
+    run.checklistVersions.add(results.checklistVersion);
+
+    const found = foundFindings(results);
+    return { drawing, expected: labels.expected, found, matches: matchFindings(labels.expected, found) };
+  } catch (error) {
+    return { drawing, expected: labels.expected, found: [], matches: [], error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+async function main() {
+  loadEnvConfig(process.cwd());
+  const { corpus, against, store } = parseArgs(process.argv.slice(2));
+  // .env.local may point at the deployed blob store
+  process.env.QC_STORE = 'file';
+  process.env.QC_DATA_DIR = store;
+  console.log(`Store: ${store}`);
+  const runsDir = path.join(corpus, 'runs');
+
+  const drawings = (await fs.readdir(corpus))
+    .filter((file) => file.toLowerCase().endsWith('.pdf'))
+    .map((file) => file.slice(0, -'.pdf'.length))
+    .sort();
+  if (drawings.length === 0) {
+    throw new Error(`No PDFs in ${corpus}`);
+  }
+
+  const previousIds = (await fs.readdir(runsDir).catch(() => [] as string[]))
+    .filter((file) => file.endsWith('.json'))
+    .map((file) => file.slice(0, -'.json'.length))
+    .sort();
+  const previousId = against ?? previousIds[previousIds.length - 1];
+  const previous = previousId ? await readJson<EvaluationRun>(path.join(runsDir, `${previousId}.json`)) : null;
+  if (against && !previous) {
+    throw new Error(`No run ${against} in ${runsDir}`);
+  }
+
+  const startedAt = new Date();
+  const seen = { models: new Set<string>(), checklistVersions: new Set<number>() };
+  const outcomes: DrawingOutcome[] = [];
+  for (const drawing of drawings) {
+    console.log(`[${outcomes.length + 1}/${drawings.length}] ${drawing}`);
+    outcomes.push(await evaluateDrawing(corpus, drawing, seen));
+  }
+
+  const run: EvaluationRun = {
+    id: startedAt.toISOString().replace(/[:.]/g, '-'),
+    startedAt: startedAt.toISOString(),
+    finishedAt: new Date().toISOString(),
+    models: Array.from(seen.models),
+    checklistVersions: Array.from(seen.checklistVersions),
+    drawings: outcomes,
+    ...scoreDrawings(outcomes),
+  };
+  await fs.mkdir(runsDir, { recursive: true });
+  await fs.writeFile(path.join(runsDir, `${run.id}.json`), JSON.stringify(run, null, 2));
+
+  console.log(`\n${formatRun(run, previous ? diffRuns(previous, run) : null)}`);
+  console.log(`\nSaved ${path.join(runsDir, `${run.id}.json`)}`);
+  if (outcomes.some((outcome) => outcome.error)) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error('Evaluation failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});